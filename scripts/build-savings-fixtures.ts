@@ -0,0 +1,693 @@
+#!/usr/bin/env tsx
+
+/**
+ * Build Savings Golden-File Fixtures
+ *
+ * Runs the customer documents in sample-data/ through the real process-document pipeline and
+ * records what the savings engine from before it was split out (d4e6513^) makes of them, so
+ * supabase/tests/savings-golden.test.ts can check calculateSavings() against it with no database:
+ *
+ *   <slug>.items.json     Line items as finalizeJob() reads them from order_items_extracted
+ *                         (matched_product joined), plus the document's usage period
+ *   <slug>.catalog.json   Catalog snapshot as loadSavingsCatalog() loads it
+ *   <slug>.expected.json  The baseline engine's summary, breakdown and row updates
+ *
+ * process-document/index.ts runs on Deno, so it is bundled for Node with esbuild: npm:xlsx
+ * resolves to the installed package, other npm:/jsr: imports are inert stubs, and the Supabase
+ * client is a fixture database held in memory. The documents go through parseDocument(),
+ * getUsagePeriod(), consolidateLineItems(), Tier 1 matching (batchExactMatch) and saveBatchItems().
+ * Items without an exact SKU hit stay unmatched - the later tiers need the live catalog and AI.
+ *
+ * The fixture database is the Staples catalog export in sample-data/, mapped the way
+ * scripts/import-master-products-from-staples.ts loads it (family_series and yield class as
+ * scripts/import-master-catalog.ts derives them), plus price books or market prices per document.
+ *
+ * Usage:
+ *   npm run fixtures:savings
+ */
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { build, type Plugin } from 'esbuild';
+import { parse } from 'csv-parse/sync';
+import {
+  consolidateLineItems,
+  DEFAULT_CONSOLIDATION_RULES,
+  type ConsolidationItem
+} from '../supabase/functions/process-document/consolidation.ts';
+import type {
+  PriceBookSet,
+  SavingsCatalog,
+  SavingsLineItem,
+  SavingsProduct,
+  UsagePeriod
+} from '../supabase/functions/process-document/savings-engine.ts';
+
+const SAMPLE_DATA_DIR = new URL('../sample-data/', import.meta.url);
+const FIXTURES_DIR = new URL('../supabase/tests/fixtures/savings/', import.meta.url);
+const PROCESS_DOCUMENT_DIR = fileURLToPath(new URL('../supabase/functions/process-document/', import.meta.url));
+const CATALOG_FILE = 'Staples.To.Clover.9.26.25.xlsx - Sheet1 (1).csv';
+
+// The savings engine before d4e6513 split it out of index.ts
+const BASELINE_REF = 'd4e6513^';
+
+const JOB_ID = 'savings-fixture-job';
+const PRICING_DATE = '2026-01-01'; // Date both engines load price books for
+
+// master_products columns in the fixture database: the ones the engine reads (SavingsProduct)
+const PRODUCT_COLUMNS = [
+  'id', 'product_name', 'ase_clover_number', 'ase_oem_number', 'ase_price', 'partner_list_price',
+  'page_yield', 'family_series', 'color_type', 'yield_class', 'category', 'brand', 'contract_status',
+  'compatibility_group', 'compatible_printers', 'active'
+];
+
+// order_items_extracted columns the engine reads (SavingsLineItem), besides matched_product
+const LINE_ITEM_COLUMNS = [
+  'id', 'raw_product_name', 'raw_sku', 'quantity', 'unit_price', 'total_price', 'location', 'cost_center', 'source_rows'
+];
+
+// Same as the seeded any-brand/any-category row of market_price_markups
+const SEEDED_MARKUP = { brand: null, category: null, markup: 1.30, band_pct: 0.20 };
+
+/**
+ * A sample document and the prices the fixture database holds for it
+ */
+interface SampleDocument {
+  slug: string;
+  file: string;
+  customer?: string;
+  // Column roles confirmed in the preview step, by normalized header (heuristics otherwise)
+  columns?: Record<string, string>;
+  pricing?: 'price_books' | 'observed_prices' | 'markups';
+}
+
+const SAMPLES: SampleDocument[] = [
+  { slug: '53-toner', file: '53 Toner.xlsx - Sheet1.csv', pricing: 'observed_prices' },
+  { slug: 'item-usage-toner-report', file: 'Item Usage Submitted - Toner Report - 2.1.25-8.27.25.xlsx - All Toner Orders.csv' },
+  { slug: 'order-10-9-no-cost', file: 'Order 10-9_v3_No Cost.csv', pricing: 'markups' },
+  {
+    slug: 'surgery-partners-2023',
+    file: 'Surgery Partners 2023 item usage staples pricing.xlsx - Sheet1.csv',
+    customer: 'Surgery Partners',
+    // Only four of its columns are labeled
+    columns: {
+      __COL_5__: 'location',
+      __COL_10__: 'order_date',
+      DESCRIPTION: 'product_name',
+      'STAPLES ITEM ID': 'staples_sku',
+      'QTY.': 'quantity',
+      'STAPLES PRICE': 'unit_price'
+    },
+    pricing: 'price_books'
+  }
+];
+
+type Row = Record<string, unknown>;
+type CatalogProduct = SavingsProduct & { active: boolean };
+
+function readSampleFile(file: string): string {
+  return readFileSync(new URL(encodeURIComponent(file), SAMPLE_DATA_DIR), 'utf-8');
+}
+
+function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Catalog mapping (scripts/import-master-products-from-staples.ts)
+// ---------------------------------------------------------------------------
+
+function detectCategory(productClass: string, productDept: string, description: string): string {
+  const classLower = productClass.toLowerCase();
+  const deptLower = productDept.toLowerCase();
+  const descLower = description.toLowerCase();
+
+  if (classLower.includes('toner') || deptLower.includes('toner')) return 'toner_cartridge';
+  if (classLower.includes('ink') || deptLower.includes('ink')) return 'ink_cartridge';
+  if (descLower.includes('toner')) return 'toner_cartridge';
+  if (descLower.includes('ink')) return 'ink_cartridge';
+  return 'office_supplies';
+}
+
+function detectColorType(description: string): string | null {
+  const descLower = description.toLowerCase();
+
+  if (descLower.includes('black') && !descLower.includes('color') && !descLower.includes('tri')) return 'black';
+  if (descLower.includes('cyan')) return 'cyan';
+  if (descLower.includes('magenta')) return 'magenta';
+  if (descLower.includes('yellow') && !descLower.includes('high yield')) return 'yellow';
+  if (descLower.includes('tri-color') || descLower.includes('tricolor') || descLower.includes('c/m/y')) return 'color';
+  return null;
+}
+
+function detectYieldClass(description: string): string {
+  const descLower = description.toLowerCase();
+
+  if (descLower.includes('super high yield')) return 'super_high';
+  if (descLower.includes('extra high yield')) return 'extra_high';
+  if (descLower.includes('high yield') || descLower.includes('xl')) return 'high';
+  return 'standard';
+}
+
+// ---------------------------------------------------------------------------
+// Family series (scripts/import-master-catalog.ts)
+// ---------------------------------------------------------------------------
+
+function extractBrand(mfr: string, description: string): string {
+  const brands = ['HP', 'CANON', 'BROTHER', 'EPSON', 'LEXMARK', 'DELL', 'XEROX', 'SAMSUNG', 'TRU RED'];
+  const combined = (mfr + ' ' + description).toUpperCase();
+
+  for (const brand of brands) {
+    if (combined.includes(brand)) return brand;
+  }
+  return mfr || 'Unknown';
+}
+
+function extractModel(oemNumber: string, description: string): string {
+  if (oemNumber && oemNumber.length > 2) return oemNumber;
+
+  const matches = description.match(/\b(\d+[A-Z]*|[A-Z]+\d+)\b/);
+  return matches ? matches[1] : '';
+}
+
+function extractFamilySeries(brand: string, model: string, sku: string): string | null {
+  if (!brand) return null;
+  const cleanBrand = brand.trim().toUpperCase();
+
+  if (model && model.length > 1) {
+    const baseModel = model
+      .replace(/[-_\s]/g, '')
+      .replace(/X+L$/i, '')
+      .replace(/(HIGH|HI|EXTRA|SUPER).*YIELD/i, '')
+      .trim();
+
+    if (baseModel.length > 0) {
+      if (/\d{3,}/.test(baseModel)) {
+        const generalized = baseModel.replace(/\d+$/, match => match.length >= 3 ? match[0] + 'x'.repeat(match.length - 1) : match);
+        return `${cleanBrand} ${generalized}`;
+      }
+      return `${cleanBrand} ${baseModel}`;
+    }
+  }
+
+  if (sku && sku.length > 2) {
+    const match = sku.replace(/[-_\s]/g, '').toUpperCase().match(/^([A-Z]+\d{1,2})/);
+    if (match) return `${cleanBrand} ${match[1]}xx`;
+  }
+
+  if (model) return `${cleanBrand} ${model.split(/[\s\-_]/)[0]}`;
+  return cleanBrand;
+}
+
+/**
+ * master_products rows from the Staples catalog export (first row per ASE Clover Number), and
+ * the values of their SKU columns (MASTER_SKU_COLUMNS in process-document) for exact matching
+ */
+function loadCatalog(): { products: CatalogProduct[]; skus: Map<string, string[]> } {
+  const [header, ...rows] = parse(readSampleFile(CATALOG_FILE), {
+    bom: true, relax_column_count: true, relax_quotes: true, trim: true
+  }) as string[][];
+  const column = (name: string) => header.indexOf(name);
+  const col = {
+    seq: column('Seq'),
+    oem: column('OEM Number'),
+    aseOem: column('ASE OEM Number'),
+    clover: column('ASE Clover Number'),
+    yield: column('Clover Yield'),
+    asePrice: column('ASE Price'),
+    contract: column('Contract Status'),
+    staples: column('Staples Part Number'),
+    mfr: column('MFR NAME'),
+    description: column('DESCRIPTION'),
+    productClass: column('PRODUCT CLASS'),
+    productDept: column('PRODUCT DEPARTMENT'),
+    listPrice: column('PARTNER LIST PRICE')
+  };
+
+  const products: CatalogProduct[] = [];
+  const skus = new Map<string, string[]>();
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const clover = row[col.clover];
+    if (!clover || clover === '-R' || seen.has(clover)) continue;
+    seen.add(clover);
+
+    const description = row[col.description] || '';
+    const mfr = row[col.mfr] || '';
+    const oemNumber = row[col.oem] || '';
+    const pageYield = parseNumber(row[col.yield]);
+    const id = `mp-${row[col.seq] || clover}`;
+
+    products.push({
+      id,
+      product_name: description,
+      ase_clover_number: clover,
+      ase_oem_number: row[col.aseOem] || null,
+      ase_price: parseNumber(row[col.asePrice]),
+      partner_list_price: parseNumber(row[col.listPrice]),
+      page_yield: pageYield ? Math.round(pageYield) : null,
+      family_series: extractFamilySeries(extractBrand(mfr, description), extractModel(oemNumber, description), oemNumber),
+      color_type: detectColorType(description),
+      yield_class: detectYieldClass(description),
+      category: detectCategory(row[col.productClass] || '', row[col.productDept] || '', description),
+      brand: mfr || null,
+      contract_status: row[col.contract] || null,
+      compatibility_group: null,
+      compatible_printers: null,
+      active: true
+    });
+    // ase_clover_number, oem_number, wholesaler_sku (ASE OEM Number on import), staples_sku, ase_oem_number
+    skus.set(id, [clover, oemNumber, row[col.aseOem], row[col.staples]].filter((sku): sku is string => !!sku));
+  }
+  return { products, skus };
+}
+
+// ---------------------------------------------------------------------------
+// Fixture database (the Supabase client of the bundled edge function)
+// ---------------------------------------------------------------------------
+
+interface FixtureTables {
+  master_products: CatalogProduct[];
+  price_books: Row[];              // With price_book_assignments: [{ customer_company }]
+  price_book_entries: Row[];
+  market_price_markups: Row[];
+  market_price_stats: Row[];       // What market_price_stats() returns per product
+}
+
+type QueryResult = { data: unknown; error: null };
+
+/**
+ * One table query: the PostgREST filters the pipeline uses, applied to the table in memory
+ */
+class FixtureQuery implements PromiseLike<QueryResult> {
+  private filters: ((row: Row) => boolean)[] = [];
+  private equals: Row = {};
+  private mode: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row | Row[] = {};
+  private single = false;
+
+  constructor(private database: FixtureDatabase, private table: string) {}
+
+  select() { return this; }
+  order() { return this; }
+  range() { return this; }
+  maybeSingle() { this.single = true; return this; }
+
+  eq(column: string, value: unknown) {
+    this.equals[column] = value;
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: number) {
+    this.filters.push(row => typeof row[column] === 'number' && (row[column] as number) >= value);
+    return this;
+  }
+
+  not(column: string, operator: 'is', value: null) {
+    this.filters.push(row => row[column] !== value && row[column] !== undefined);
+    return this;
+  }
+
+  insert(rows: Row | Row[]) { this.mode = 'insert'; this.values = rows; return this; }
+  update(values: Row) { this.mode = 'update'; this.values = values; return this; }
+  delete() { this.mode = 'delete'; return this; }
+
+  then<T1 = QueryResult, T2 = never>(
+    onFulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    onRejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onFulfilled, onRejected);
+  }
+
+  private run(): QueryResult {
+    if (this.mode === 'insert') {
+      this.database.written(this.table, 'insert', this.values);
+      return { data: null, error: null };
+    }
+    if (this.mode === 'update') {
+      this.database.written(this.table, 'update', { ...this.equals, ...this.values });
+      return { data: null, error: null };
+    }
+    if (this.mode === 'delete') return { data: null, error: null };
+
+    const rows = this.database.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+    const data = rows.map(row => structuredClone(row));
+    return { data: this.single ? data[0] ?? null : data, error: null };
+  }
+}
+
+class FixtureDatabase {
+  readonly inserts: Row[] = [];
+  readonly updates: Row[] = [];
+  private productsBySku = new Map<string, CatalogProduct[]>();
+
+  constructor(private tables: FixtureTables, skus: Map<string, string[]>) {
+    for (const product of tables.master_products) {
+      for (const sku of skus.get(product.id) || []) {
+        this.productsBySku.set(sku, [...(this.productsBySku.get(sku) || []), product]);
+      }
+    }
+  }
+
+  from(table: string) {
+    return new FixtureQuery(this, table);
+  }
+
+  async rpc(name: string, args: Row): Promise<QueryResult> {
+    switch (name) {
+      case 'match_skus_exact':
+        // One product per SKU - a product whose own ase_clover_number is the SKU wins
+        return {
+          data: (args.p_skus as string[]).flatMap(sku => {
+            const [product] = (this.productsBySku.get(sku) || [])
+              .filter(candidate => candidate.active)
+              .sort((a, b) => Number(b.ase_clover_number === sku) - Number(a.ase_clover_number === sku) || a.id.localeCompare(b.id));
+            return product ? [{ matched_sku: sku, product: structuredClone(product) }] : [];
+          }),
+          error: null
+        };
+      case 'market_price_stats':
+        return {
+          data: this.tables.market_price_stats.filter(row => (args.p_product_ids as string[]).includes(row.master_product_id as string)),
+          error: null
+        };
+      default:
+        return { data: [], error: null };
+    }
+  }
+
+  rows(table: string): Row[] {
+    return (this.tables as unknown as Record<string, Row[]>)[table] || [];
+  }
+
+  written(table: string, mode: 'insert' | 'update', values: Row | Row[]) {
+    if (table !== 'order_items_extracted') return;
+    if (mode === 'insert') this.inserts.push(...(Array.isArray(values) ? values : [values]));
+    else this.updates.push(values as Row);
+  }
+}
+
+/**
+ * The fixture database for a document: the catalog plus the prices its scenario needs. Rules
+ * are keyed on the product's position in the catalog, so every scenario gets a mix of cases.
+ */
+function buildTables(catalog: CatalogProduct[], sample: SampleDocument): FixtureTables {
+  const tables: FixtureTables = {
+    master_products: catalog.map(product => ({ ...product })),
+    price_books: [],
+    price_book_entries: [],
+    market_price_markups: [SEEDED_MARKUP],
+    market_price_stats: []
+  };
+  const priced = tables.master_products
+    .map((product, index) => ({ product, index }))
+    .filter(({ product }) => product.ase_price && product.ase_price > 0);
+
+  if (sample.pricing === 'price_books') {
+    const customerKey = sample.customer!.toLowerCase();
+    tables.price_books = [
+      // Customer account pricing with a 10-unit tier on every third product
+      { id: 'pb-account', name: `${sample.customer} Account Pricing`, contract_status: null, priority: 10, effective_from: null, effective_to: null, active: true, price_book_assignments: [{ customer_company: customerKey }] },
+      // Contract pricing for all customers, only on products on that contract
+      { id: 'pb-hpg', name: 'HPG Contract', contract_status: 'On HPG Contract', priority: 5, effective_from: null, effective_to: null, active: true, price_book_assignments: [{ customer_company: null }] },
+      // Never apply: expired, and assigned to another customer only
+      { id: 'pb-expired', name: 'Expired Promotion', contract_status: null, priority: 20, effective_from: '2025-01-01', effective_to: '2025-06-30', active: true, price_book_assignments: [{ customer_company: null }] },
+      { id: 'pb-other', name: 'Other Customer Pricing', contract_status: null, priority: 20, effective_from: null, effective_to: null, active: true, price_book_assignments: [{ customer_company: 'another customer' }] }
+    ];
+    for (const { product, index } of priced) {
+      const asePrice = product.ase_price!;
+      if (index % 3 === 0) {
+        tables.price_book_entries.push(
+          { price_book_id: 'pb-account', master_product_id: product.id, min_quantity: 1, unit_price: roundCents(asePrice * 0.95) },
+          { price_book_id: 'pb-account', master_product_id: product.id, min_quantity: 10, unit_price: roundCents(asePrice * 0.90) }
+        );
+      }
+      tables.price_book_entries.push(
+        { price_book_id: 'pb-hpg', master_product_id: product.id, min_quantity: 1, unit_price: roundCents(asePrice * 0.97) },
+        { price_book_id: 'pb-expired', master_product_id: product.id, min_quantity: 1, unit_price: roundCents(asePrice * 0.50) },
+        { price_book_id: 'pb-other', master_product_id: product.id, min_quantity: 1, unit_price: roundCents(asePrice * 0.50) }
+      );
+    }
+  }
+
+  if (sample.pricing === 'observed_prices' || sample.pricing === 'markups') {
+    tables.market_price_markups = [
+      { brand: 'HP', category: 'toner_cartridge', markup: 1.45, band_pct: 0.15 },
+      { brand: 'CANON', category: null, markup: 1.35, band_pct: 0.25 },
+      { brand: null, category: 'ink_cartridge', markup: 1.25, band_pct: 0.20 },
+      SEEDED_MARKUP
+    ];
+    // Products without a list price fall through to the markups (with observed prices: the
+    // products that have none)
+    for (const { product, index } of priced) {
+      if (sample.pricing === 'markups' ? index % 2 === 0 : index % 4 === 3) product.partner_list_price = null;
+    }
+  }
+
+  if (sample.pricing === 'observed_prices') {
+    // 12 observations (high confidence), 5 (medium), 2 (too few to use), none
+    const observations = [12, 5, 2, 0];
+    for (const { product, index } of priced) {
+      const count = observations[index % observations.length];
+      if (count === 0) continue;
+      tables.market_price_stats.push({
+        master_product_id: product.id,
+        observations: count,
+        median_price: roundCents(product.ase_price! * 1.38),
+        low_price: roundCents(product.ase_price! * 1.25),
+        high_price: roundCents(product.ase_price! * 1.5)
+      });
+    }
+  }
+
+  return tables;
+}
+
+// ---------------------------------------------------------------------------
+// Edge function bundles
+// ---------------------------------------------------------------------------
+
+/**
+ * Bundle a process-document index.ts for Node and import it with the named functions exported.
+ * The Supabase client reads from globalThis.__savingsFixtureDatabase at call time.
+ */
+async function importEdgeFunction<T>(source: string, exports: string[], outDir: string, name: string): Promise<T> {
+  const require = createRequire(import.meta.url);
+  const denoImports: Plugin = {
+    name: 'deno-imports',
+    setup(bundle) {
+      bundle.onResolve({ filter: /^npm:xlsx@/ }, () => ({ path: require.resolve('xlsx') }));
+      bundle.onResolve({ filter: /^(npm|jsr):/ }, args => ({ path: args.path, namespace: 'edge-stub' }));
+      bundle.onLoad({ filter: /.*/, namespace: 'edge-stub' }, args => ({
+        loader: 'js',
+        contents: args.path.startsWith('jsr:@supabase/supabase-js')
+          ? `export function createClient() {
+               return {
+                 from: table => globalThis.__savingsFixtureDatabase.from(table),
+                 rpc: (name, args) => globalThis.__savingsFixtureDatabase.rpc(name, args)
+               };
+             }`
+          // Parsing CSVs and the savings path never call these (PDF, HEIC, zip, AI providers)
+          : `const stub = new Proxy(function () {}, {
+               get: (target, key) => key === 'then' || key === '__esModule' ? undefined : stub,
+               construct: () => stub,
+               apply: () => stub
+             });
+             module.exports = stub;`
+      }));
+    }
+  };
+
+  const result = await build({
+    stdin: {
+      contents: `${source}\nexport { ${exports.join(', ')} };\n`,
+      resolveDir: PROCESS_DOCUMENT_DIR,
+      sourcefile: 'index.ts',
+      loader: 'ts'
+    },
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    write: false,
+    logLevel: 'error',
+    banner: { js: "import { createRequire as __createRequire } from 'module'; const require = __createRequire(import.meta.url);" },
+    plugins: [denoImports]
+  });
+
+  const file = join(outDir, `${name}.mjs`);
+  writeFileSync(file, result.outputFiles[0].text);
+  return await import(pathToFileURL(file).href) as T;
+}
+
+interface ProcessDocumentModule {
+  parseDocument(
+    content: string,
+    fileName: string,
+    options: { customerCompany?: string; columnMapping?: { sheets: { sheet_name: null; columns: Record<string, string> }[] } }
+  ): Promise<{ items: ConsolidationItem[] }>;
+  getUsagePeriod(items: ConsolidationItem[], fileNames: string[]): UsagePeriod;
+  batchExactMatch(items: ConsolidationItem[], customerCompany?: string): Promise<{ matched: Map<number, Row> } | null>;
+  saveBatchItems(items: Row[], jobId: string): Promise<(string | null)[]>;
+  loadPriceBooks(customerCompany: string | undefined, asOf: string): Promise<PriceBookSet>;
+  loadSavingsCatalog(items: SavingsLineItem[], pricing: PriceBookSet): Promise<SavingsCatalog>;
+}
+
+interface BaselineModule {
+  loadPriceBooks(customerCompany: string | undefined, asOf: string): Promise<unknown>;
+  calculateSavings(items: SavingsLineItem[], jobId: string, usagePeriod: UsagePeriod, pricing: unknown): Promise<{ summary: unknown; breakdown: unknown[] }>;
+}
+
+// The pipeline logs every row; keep the script output readable
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fixture files
+// ---------------------------------------------------------------------------
+
+/**
+ * The order_items_extracted rows of a document as finalizeJob() reads them, keeping the
+ * columns the engine reads. Line-item IDs are numbered in document order.
+ */
+async function buildLineItems(
+  pipeline: ProcessDocumentModule,
+  sample: SampleDocument,
+  database: FixtureDatabase
+): Promise<{ items: SavingsLineItem[]; usagePeriod: UsagePeriod }> {
+  const parsed = await pipeline.parseDocument(readSampleFile(sample.file), sample.file, {
+    customerCompany: sample.customer,
+    ...(sample.columns && { columnMapping: { sheets: [{ sheet_name: null, columns: sample.columns }] } })
+  });
+  const usagePeriod = pipeline.getUsagePeriod(parsed.items, [sample.file]);
+  const { items } = consolidateLineItems(parsed.items, DEFAULT_CONSOLIDATION_RULES);
+
+  const exact = await pipeline.batchExactMatch(items, sample.customer);
+  if (!exact) throw new Error(`Exact SKU matching failed for ${sample.file}`);
+  const matched = items.map((item, index) => exact.matched.get(index) || { ...item, matched_product: null, match_score: 0, match_method: 'none' });
+  await pipeline.saveBatchItems(matched, JOB_ID);
+
+  const products = new Map(database.rows('master_products').map(product => [product.id as string, product]));
+  const lineItems = database.inserts.map((row, index) => {
+    const item: Row = {};
+    for (const column of LINE_ITEM_COLUMNS) {
+      if (row[column] !== null && row[column] !== undefined) item[column] = row[column];
+    }
+    item.id = `${sample.slug}-${String(index + 1).padStart(4, '0')}`;
+    item.matched_product = row.matched_product_id ? structuredClone(products.get(row.matched_product_id as string)) : null;
+    return item as SavingsLineItem;
+  });
+  return { items: lineItems, usagePeriod };
+}
+
+// SavingsCatalog with its Maps as plain objects (books without entries for a product are left out)
+function toCatalogSnapshot(catalog: SavingsCatalog) {
+  return {
+    families: Object.fromEntries(catalog.families),
+    pricing: {
+      books: catalog.pricing?.books || [],
+      entries: Object.fromEntries(Array.from(catalog.pricing?.entries || []).filter(([, entries]) => entries.length > 0))
+    },
+    market_prices: {
+      observed: Object.fromEntries(catalog.marketPrices.observed),
+      markups: catalog.marketPrices.markups
+    },
+    fleet_compatibility: Object.fromEntries(catalog.fleetCompatibility)
+  };
+}
+
+/**
+ * JSON with one line per top-level key, and per element/key of top-level arrays and objects
+ */
+function toFixtureJson(value: Row): string {
+  const lines = Object.entries(value).map(([key, entry]) => {
+    if (Array.isArray(entry) && entry.length > 0) {
+      return `  ${JSON.stringify(key)}: [\n${entry.map(element => `    ${JSON.stringify(element)}`).join(',\n')}\n  ]`;
+    }
+    if (entry && typeof entry === 'object' && !Array.isArray(entry) && Object.keys(entry).length > 0) {
+      const members = Object.entries(entry).map(([name, member]) => `    ${JSON.stringify(name)}: ${JSON.stringify(member)}`);
+      return `  ${JSON.stringify(key)}: {\n${members.join(',\n')}\n  }`;
+    }
+    return `  ${JSON.stringify(key)}: ${JSON.stringify(entry)}`;
+  });
+  return `{\n${lines.join(',\n')}\n}\n`;
+}
+
+function writeFixture(name: string, value: Row) {
+  writeFileSync(new URL(name, FIXTURES_DIR), toFixtureJson(value));
+}
+
+async function main() {
+  const catalog = loadCatalog();
+  console.log(`📦 ${catalog.products.length} catalog products from ${CATALOG_FILE}`);
+
+  const baselineSource = execFileSync('git', ['show', `${BASELINE_REF}:supabase/functions/process-document/index.ts`], {
+    encoding: 'utf-8',
+    maxBuffer: 64 * 1024 * 1024
+  });
+  const outDir = mkdtempSync(join(tmpdir(), 'savings-fixtures-'));
+  Object.assign(globalThis, { Deno: { env: { get: () => undefined }, serve: () => {} } });
+
+  try {
+    const pipeline = await importEdgeFunction<ProcessDocumentModule>(
+      readFileSync(join(PROCESS_DOCUMENT_DIR, 'index.ts'), 'utf-8'),
+      ['parseDocument', 'getUsagePeriod', 'batchExactMatch', 'saveBatchItems', 'loadPriceBooks', 'loadSavingsCatalog'],
+      outDir,
+      'process-document'
+    );
+    const baseline = await importEdgeFunction<BaselineModule>(baselineSource, ['calculateSavings', 'loadPriceBooks'], outDir, 'baseline');
+
+    mkdirSync(FIXTURES_DIR, { recursive: true });
+    for (const sample of SAMPLES) {
+      const database = new FixtureDatabase(buildTables(catalog.products, sample), catalog.skus);
+      Object.assign(globalThis, { __savingsFixtureDatabase: database });
+
+      const { items, usagePeriod } = await quietly(() => buildLineItems(pipeline, sample, database));
+      const snapshot = toCatalogSnapshot(await quietly(async () =>
+        pipeline.loadSavingsCatalog(items, await pipeline.loadPriceBooks(sample.customer, PRICING_DATE))
+      ));
+      writeFixture(`${sample.slug}.items.json`, { source_file: sample.file, usage_period: usagePeriod, items });
+      writeFixture(`${sample.slug}.catalog.json`, snapshot);
+
+      // The baseline engine reads the items back as the test does, and the same database
+      const recordedItems = JSON.parse(JSON.stringify(items)) as SavingsLineItem[];
+      const analysis = await quietly(async () =>
+        baseline.calculateSavings(recordedItems, JOB_ID, usagePeriod, await baseline.loadPriceBooks(sample.customer, PRICING_DATE))
+      );
+      writeFixture(`${sample.slug}.expected.json`, JSON.parse(JSON.stringify({
+        summary: analysis.summary,
+        breakdown: analysis.breakdown,
+        row_updates: database.updates.map(({ processing_job_id: _jobId, ...update }) => update)
+      })));
+
+      const matchedCount = items.filter(item => item.matched_product).length;
+      console.log(`✅ ${sample.slug}: ${items.length} line items, ${matchedCount} matched, ${snapshot.pricing.books.length} price books, ${Object.keys(snapshot.market_prices.observed).length} observed prices`);
+    }
+  } finally {
+    rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ColumnMapping, ColumnPreviewSheet, ColumnRole } from "@/lib/api/processing";
+
+interface ColumnMappingStepProps {
+  sheets: ColumnPreviewSheet[];
+  onConfirm: (mapping: ColumnMapping) => void;
+  onSkip: () => void;
+}
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  product_name: "Product Name",
+  quantity: "Quantity",
+  unit_price: "Unit Price",
+  sku: "SKU / Item #",
+  oem_number: "OEM #",
+  wholesaler_sku: "Wholesaler SKU",
+  staples_sku: "Staples SKU",
+  depot_sku: "Depot SKU",
+  order_date: "Order Date",
+  location: "Ship-To / Location",
+  cost_center: "Department / Cost Center",
+  other: "Other",
+  ignore: "Ignore",
+};
+
+// Roles that identify a single column - assigning one moves it off any other column
+const SINGLE_COLUMN_ROLES: ColumnRole[] = [
+  "product_name",
+  "quantity",
+  "unit_price",
+  "sku",
+  "oem_number",
+  "wholesaler_sku",
+  "staples_sku",
+  "depot_sku",
+  "order_date",
+  "location",
+  "cost_center",
+];
+
+function formatSheetTitle(sheet: ColumnPreviewSheet) {
+  const parts = [
+    sheet.source_file && `File: ${sheet.source_file}`,
+    sheet.sheet_name && `Sheet: ${sheet.sheet_name}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Document";
+}
+
+function formatHeader(header: string) {
+  const match = header.match(/^__COL_(\d+)__$/);
+  return match ? `Column ${Number(match[1]) + 1}` : header;
+}
+
+export function ColumnMappingStep({ sheets, onConfirm, onSkip }: ColumnMappingStepProps) {
+  const [roles, setRoles] = useState<Record<string, ColumnRole>[]>(() => sheets.map((sheet) => ({ ...sheet.roles })));
+
+  const setRole = (sheetIdx: number, header: string, role: ColumnRole) => {
+    setRoles((prev) =>
+      prev.map((sheetRoles, idx) => {
+        if (idx !== sheetIdx) return sheetRoles;
+        const next = { ...sheetRoles };
+        if (SINGLE_COLUMN_ROLES.includes(role)) {
+          for (const other of Object.keys(next)) {
+            if (next[other] === role) next[other] = "other";
+          }
+        }
+        next[header] = role;
+        return next;
+      })
+    );
+  };
+
+  const hasIdentifier = roles.every((sheetRoles) =>
+    Object.values(sheetRoles).some((role) => role !== "other" && role !== "ignore" && role !== "quantity" && role !== "unit_price")
+  );
+  const hasQuantity = roles.every((sheetRoles) => Object.values(sheetRoles).includes("quantity"));
+
+  const handleConfirm = () => {
+    onConfirm({
+      sheets: sheets.map((sheet, idx) => ({
+        source_file: sheet.source_file,
+        sheet_name: sheet.sheet_name,
+        headers: sheet.headers,
+        columns: roles[idx],
+      })),
+      confirmed_at: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto p-4 sm:p-6 space-y-6 bg-card rounded-lg shadow-lg">
+      <div className="text-center space-y-2">
+        <h1 className="text-2xl sm:text-3xl font-bold text-secondary">Confirm Your Columns</h1>
+        <p className="text-sm sm:text-base text-muted-foreground">
+          We detected these columns in your document. Reassign any that look wrong before we calculate your savings.
+        </p>
+      </div>
+
+      {sheets.map((sheet, sheetIdx) => (
+        <div key={`${sheet.source_file ?? ""}/${sheet.sheet_name ?? sheetIdx}`} className="space-y-2">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="font-semibold text-secondary">{formatSheetTitle(sheet)}</h2>
+            <span className="text-xs text-muted-foreground">
+              Header found on row {sheet.header_row} · showing first {sheet.rows.length} rows
+              {sheet.mapping_profile && ` · using saved format "${sheet.mapping_profile.name}"`}
+            </span>
+          </div>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sheet.headers.map((header) => (
+                    <TableHead key={header} className="min-w-[160px] align-top py-2">
+                      <div className="space-y-1">
+                        <p className="font-medium text-foreground truncate" title={formatHeader(header)}>
+                          {formatHeader(header)}
+                        </p>
+                        <Select
+                          value={roles[sheetIdx][header]}
+                          onValueChange={(value) => setRole(sheetIdx, header, value as ColumnRole)}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ROLE_LABELS) as ColumnRole[]).map((role) => (
+                              <SelectItem key={role} value={role} className="text-xs">
+                                {ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sheet.rows.map((row, rowIdx) => (
+                  <TableRow key={rowIdx}>
+                    {sheet.headers.map((header) => (
+                      <TableCell
+                        key={header}
+                        className={`text-xs py-2 max-w-[240px] truncate ${
+                          roles[sheetIdx][header] === "ignore" ? "text-muted-foreground/50" : ""
+                        }`}
+                      >
+                        {row[header]}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      ))}
+
+      {(!hasIdentifier || !hasQuantity) && (
+        <p className="text-sm text-amber-700 text-center">
+          Each sheet needs a quantity column and at least one product name or SKU column.
+        </p>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button variant="outline" onClick={onSkip} className="flex-1">
+          Use Automatic Detection
+        </Button>
+        <Button
+          onClick={handleConfirm}
+          disabled={!hasIdentifier || !hasQuantity}
+          className="flex-1 bg-primary hover:bg-primary/90"
+        >
+          Confirm Columns & Continue
+        </Button>
+      </div>
+    </div>
+  );
+}
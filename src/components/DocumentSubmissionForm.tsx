@@ -10,10 +10,12 @@ import { Button } from "@/components/ui/button";
 import { FileUpload } from "@/components/FileUpload";
 import { ProcessingAnimation } from "@/components/ProcessingAnimation";
 import { ResultsPage } from "@/components/ResultsPage";
+import { ColumnMappingStep } from "@/components/ColumnMappingStep";
 import { useToast } from "@/hooks/use-toast";
 import { getRecaptchaSiteKey } from "@/config/recaptcha";
 import { submitDocument } from "@/lib/supabase";
-import { startProcessing } from "@/lib/api/processing";
+import { createZipFile } from "@/lib/zip";
+import { previewColumns, startProcessing, type ColumnMapping, type ColumnPreviewSheet } from "@/lib/api/processing";
 
 const formSchema = z.object({
   firstName: z.string().min(1, "First name is required").max(100),
@@ -29,7 +31,7 @@ const formSchema = z.object({
 type FormData = z.infer<typeof formSchema>;
 
 export function DocumentSubmissionForm() {
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [captchaToken, setCaptchaToken] = useState<string | null>(null);
@@ -37,6 +39,7 @@ export function DocumentSubmissionForm() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [submissionId, setSubmissionId] = useState<string | null>(null);
+  const [columnPreview, setColumnPreview] = useState<ColumnPreviewSheet[] | null>(null);
   const { toast } = useToast();
   const recaptchaRef = useRef<ReCAPTCHA>(null);
 
@@ -52,8 +55,8 @@ export function DocumentSubmissionForm() {
     },
   });
 
-  const handleFileSelect = (selectedFile: File) => {
-    setFile(selectedFile);
+  const handleFilesSelect = (selectedFiles: File[]) => {
+    setFiles(selectedFiles);
     setIsUploading(true);
     setUploadProgress(0);
 
@@ -71,7 +74,7 @@ export function DocumentSubmissionForm() {
   };
 
   const onSubmit = async (data: FormData) => {
-    if (!file) {
+    if (files.length === 0) {
       toast({
         title: "Error",
         description: "Please upload a file",
@@ -92,6 +95,9 @@ export function DocumentSubmissionForm() {
     setIsSubmitting(true);
 
     try {
+      // Several files go up as one .zip - process-document parses each file and merges them into one analysis
+      const file = files.length === 1 ? files[0] : await createZipFile(files, "documents.zip");
+
       // Submit to Supabase Edge Function
       const result = await submitDocument({
         firstName: data.firstName,
@@ -110,14 +116,18 @@ export function DocumentSubmissionForm() {
       // Save submission ID for processing
       setSubmissionId(result.submissionId);
       
-      // Start background processing
+      // Spreadsheets and delimited text get a column-mapping step first; PDFs/images (or a failed preview) start right away
       try {
-        await startProcessing(result.submissionId);
-        setIsProcessing(true);
-      } catch (procError) {
-        console.error("Processing error:", procError);
-        setIsSubmitting(false);
+        const sheets = await previewColumns(result.submissionId);
+        if (sheets.length > 0) {
+          setColumnPreview(sheets);
+          return;
+        }
+      } catch (previewError) {
+        console.log("Column preview unavailable - using automatic detection:", previewError);
       }
+      
+      await beginProcessing(result.submissionId);
     } catch (error) {
       console.error("Submission error:", error);
       setIsSubmitting(false);
@@ -133,6 +143,19 @@ export function DocumentSubmissionForm() {
     }
   };
 
+  const beginProcessing = async (id: string, columnMapping?: ColumnMapping) => {
+    // Start background processing
+    try {
+      await startProcessing(id, columnMapping);
+      setColumnPreview(null);
+      setIsProcessing(true);
+    } catch (procError) {
+      console.error("Processing error:", procError);
+      setColumnPreview(null);
+      setIsSubmitting(false);
+    }
+  };
+
   const handleCaptchaChange = (token: string | null) => {
     setCaptchaToken(token);
     if (token) {
@@ -162,6 +185,16 @@ export function DocumentSubmissionForm() {
     return <ResultsPage submissionId={submissionId} />;
   }
 
+  if (columnPreview && submissionId) {
+    return (
+      <ColumnMappingStep
+        sheets={columnPreview}
+        onConfirm={(mapping) => beginProcessing(submissionId, mapping)}
+        onSkip={() => beginProcessing(submissionId)}
+      />
+    );
+  }
+
   if (isProcessing && submissionId) {
     return (
       <ProcessingAnimation 
@@ -283,10 +316,10 @@ export function DocumentSubmissionForm() {
           />
 
           <FileUpload
-            onFileSelect={handleFileSelect}
+            onFilesSelect={handleFilesSelect}
             isUploading={isUploading}
             uploadProgress={uploadProgress}
-            selectedFile={file}
+            selectedFiles={files}
           />
 
           <div className="flex flex-col items-center gap-2">
@@ -306,7 +339,7 @@ export function DocumentSubmissionForm() {
           <Button
             type="submit"
             className="w-full bg-primary hover:bg-primary/90"
-            disabled={isUploading || !file || !captchaToken || isSubmitting}
+            disabled={isUploading || files.length === 0 || !captchaToken || isSubmitting}
           >
             {isSubmitting ? (
               <>
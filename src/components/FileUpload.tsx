@@ -3,27 +3,38 @@ import { useDropzone } from "react-dropzone";
 import { Upload, FileText, CheckCircle } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   isUploading: boolean;
   uploadProgress: number;
-  selectedFile: File | null;
+  selectedFiles: File[];
 }
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_TOTAL_SIZE = 10 * 1024 * 1024; // Several files are bundled into one .zip upload
+const MAX_FILES = 24;
 export function FileUpload({
-  onFileSelect,
+  onFilesSelect,
   isUploading,
   uploadProgress,
-  selectedFile
+  selectedFiles
 }: FileUploadProps) {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      if (file.size > 5 * 1024 * 1024) {
-        alert("File size must be less than 5MB");
+      if (acceptedFiles.some(file => file.size > MAX_FILE_SIZE)) {
+        alert("Each file must be less than 5MB");
         return;
       }
-      onFileSelect(file);
+      if (acceptedFiles.reduce((sum, file) => sum + file.size, 0) > MAX_TOTAL_SIZE) {
+        alert("Files must total less than 10MB");
+        return;
+      }
+      if (acceptedFiles.length > 1 && acceptedFiles.some(file => file.name.toLowerCase().endsWith(".zip"))) {
+        alert("Upload a .zip archive on its own, or select the individual files");
+        return;
+      }
+      onFilesSelect(acceptedFiles);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
+  const totalSize = selectedFiles.reduce((sum, file) => sum + file.size, 0);
   const {
     getRootProps,
     getInputProps,
@@ -33,27 +44,37 @@ export function FileUpload({
     accept: {
       "application/vnd.ms-excel": [".xls"],
       "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+      "application/vnd.oasis.opendocument.spreadsheet": [".ods"],
       "text/csv": [".csv"],
-      "application/pdf": [".pdf"]
+      "text/tab-separated-values": [".tsv"],
+      "text/plain": [".txt", ".psv"],
+      "application/pdf": [".pdf"],
+      "image/jpeg": [".jpg", ".jpeg"],
+      "image/png": [".png"],
+      "image/heic": [".heic"],
+      "image/heif": [".heif"],
+      "application/zip": [".zip"],
+      "application/x-zip-compressed": [".zip"]
     },
-    maxFiles: 1,
-    multiple: false
+    maxFiles: MAX_FILES,
+    multiple: true
   });
   return <div className="space-y-2">
       
       <div {...getRootProps()} className={`
           border-2 border-dashed rounded-lg p-4 sm:p-8 text-center cursor-pointer transition-colors
-          ${selectedFile && !isUploading ? "bg-muted !border-green-500" : isDragActive ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"}
+          ${selectedFiles.length > 0 && !isUploading ? "bg-muted !border-green-500" : isDragActive ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"}
         `}>
         <input {...getInputProps()} />
         
-        {!selectedFile && !isUploading && <div className="space-y-2">
+        {selectedFiles.length === 0 && !isUploading && <div className="space-y-2">
             <Upload className="w-8 h-8 sm:w-12 sm:h-12 mx-auto text-muted-foreground" />
             <p className="text-xs sm:text-sm font-medium">
-              {isDragActive ? "Drop the file here" : "Drag & drop your file here"}
+              {isDragActive ? "Drop the files here" : "Drag & drop your file(s) here"}
             </p>
             <p className="text-xs text-muted-foreground">or click to browse</p>
-            <p className="text-xs text-muted-foreground">Accepts: Excel, CSV, PDF (Max 5MB)</p>
+            <p className="text-xs text-muted-foreground">Accepts: Excel, ODS, CSV, TSV, TXT, PDF, JPG, PNG, HEIC or ZIP (Max 5MB each)</p>
+            <p className="text-xs text-muted-foreground">Several months of orders? Select all the files at once.</p>
           </div>}
 
         {isUploading && <div className="space-y-3">
@@ -63,12 +84,14 @@ export function FileUpload({
             <p className="text-xs text-muted-foreground">{uploadProgress}%</p>
           </div>}
 
-        {selectedFile && !isUploading && <div className="space-y-2">
+        {selectedFiles.length > 0 && !isUploading && <div className="space-y-2">
             <CheckCircle className="w-12 h-12 mx-auto text-green-500" />
-            <p className="text-sm font-medium text-green-600">File uploaded successfully!</p>
-            <p className="text-xs text-muted-foreground">{selectedFile.name}</p>
+            <p className="text-sm font-medium text-green-600">
+              {selectedFiles.length === 1 ? "File uploaded successfully!" : `${selectedFiles.length} files uploaded successfully!`}
+            </p>
+            {selectedFiles.map(file => <p key={file.name} className="text-xs text-muted-foreground truncate">{file.name}</p>)}
             <p className="text-xs text-muted-foreground">
-              ({(selectedFile.size / 1024 / 1024).toFixed(2)} MB)
+              ({(totalSize / 1024 / 1024).toFixed(2)} MB)
             </p>
           </div>}
       </div>
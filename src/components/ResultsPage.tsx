@@ -110,6 +110,8 @@ export function ResultsPage({ submissionId }: ResultsPageProps) {
   // Check if we have meaningful savings data
   const hasSavingsData = summary.total_cost_savings > 0 || summary.total_current_cost > 0;
   const noPricingData = summary.total_current_cost === 0 && summary.total_cost_savings === 0;
+  // Usage exports cover part of a year - also show the savings at the same buying rate over 12 months
+  const showAnnualProjection = summary.usage_period && summary.usage_period.source !== 'assumed_annual' && summary.projected_annual_savings != null;
 
   return (
     <div className="w-full max-w-6xl mx-auto p-4 sm:p-6 space-y-6">
@@ -173,6 +175,12 @@ export function ResultsPage({ submissionId }: ResultsPageProps) {
                   <p className="text-xs text-muted-foreground mt-1">
                     {summary.savings_percentage.toFixed(1)}% savings
                   </p>
+                  {showAnnualProjection && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      ≈ ${summary.projected_annual_savings!.toLocaleString('en-US', { maximumFractionDigits: 0 })} projected per year
+                      {' '}({summary.usage_period!.covered_days} days of orders on this document)
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
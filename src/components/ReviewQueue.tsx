@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Check, Loader2, Search, Undo2, XCircle } from "lucide-react";
+import {
+  getReviewItems,
+  searchProducts,
+  submitReviewDecisions,
+  type ProductSearchResult,
+  type ReviewDecision,
+  type ReviewItem,
+  type ReviewQueue as ReviewQueueData,
+} from "@/lib/api/processing";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReviewQueueProps {
+  jobId: string;
+}
+
+// Staged decision plus the label shown on the row until it is submitted
+interface StagedDecision extends ReviewDecision {
+  label: string;
+}
+
+function formatSource(item: ReviewItem) {
+  const parts = [
+    item.source_file,
+    item.source_sheet && `Sheet ${item.source_sheet}`,
+    item.source_page && `Page ${item.source_page}`,
+  ].filter(Boolean);
+  return parts.join(" · ");
+}
+
+function ProductSearch({ onSelect }: { onSelect: (product: ProductSearchResult) => void }) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProductSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const { toast } = useToast();
+
+  const handleSearch = async () => {
+    if (query.trim().length < 2) return;
+    setSearching(true);
+    try {
+      setResults(await searchProducts(query.trim()));
+    } catch (error) {
+      toast({
+        title: "Search Failed",
+        description: error instanceof Error ? error.message : "Failed to search products",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          placeholder="Search master products by name or SKU"
+          className="h-8 text-sm"
+        />
+        <Button size="sm" variant="outline" onClick={handleSearch} disabled={searching || query.trim().length < 2}>
+          {searching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+        </Button>
+      </div>
+      {results && results.length === 0 && <p className="text-xs text-muted-foreground">No products found.</p>}
+      {results && results.length > 0 && (
+        <ul className="border rounded-md divide-y max-h-56 overflow-y-auto">
+          {results.map((product) => (
+            <li key={product.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate">{product.product_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[product.ase_clover_number, product.ase_oem_number || product.oem_number, product.brand]
+                    .filter(Boolean)
+                    .join(" · ")}
+                  {product.ase_price != null && ` · $${product.ase_price.toFixed(2)}`}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => onSelect(product)}>
+                Accept
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function ReviewQueue({ jobId }: ReviewQueueProps) {
+  const [queue, setQueue] = useState<ReviewQueueData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [decisions, setDecisions] = useState<Record<string, StagedDecision>>({});
+  const { toast } = useToast();
+
+  const loadQueue = useCallback(() => {
+    setLoading(true);
+    getReviewItems(jobId)
+      .then((data) => {
+        setQueue(data);
+        setDecisions({});
+        setLoading(false);
+      })
+      .catch((error) => {
+        console.error('Error loading review queue:', error);
+        toast({
+          title: "Error Loading Review Queue",
+          description: error.message || "Failed to load review queue",
+          variant: "destructive",
+        });
+        setLoading(false);
+      });
+  }, [jobId, toast]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const stage = (itemId: string, decision: StagedDecision | null) => {
+    setDecisions((prev) => {
+      const next = { ...prev };
+      if (decision) next[itemId] = decision;
+      else delete next[itemId];
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    const staged = Object.values(decisions).map(({ itemId, action, productId }) => ({ itemId, action, productId }));
+    if (staged.length === 0) return;
+
+    setSubmitting(true);
+    try {
+      const result = await submitReviewDecisions(jobId, staged);
+      toast({
+        title: "Decisions Saved",
+        description: `${result.accepted} matched, ${result.not_supply} marked not a supply item. Savings and both reports are being regenerated.`,
+      });
+      loadQueue();
+    } catch (error) {
+      toast({
+        title: "Could Not Save Decisions",
+        description: error instanceof Error ? error.message : "Failed to save review decisions",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!queue) {
+    return <p className="text-center text-muted-foreground py-24">Review queue unavailable for job {jobId}.</p>;
+  }
+
+  const stagedCount = Object.keys(decisions).length;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 sm:p-6 space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-2xl sm:text-3xl font-bold text-secondary">Match Review</h1>
+        <p className="text-sm text-muted-foreground">
+          Job {queue.job.id} · {queue.job.status} · {queue.item_count} unmatched line item{queue.item_count === 1 ? "" : "s"}
+        </p>
+      </div>
+
+      {queue.items.length === 0 && (
+        <p className="text-center text-muted-foreground py-12">Nothing left to review for this job.</p>
+      )}
+
+      {queue.items.map((item) => {
+        const decision = decisions[item.id];
+        return (
+          <Card key={item.id} className={decision ? "border-primary" : undefined}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex flex-wrap items-center justify-between gap-2">
+                <span>{item.raw_product_name}</span>
+                {decision && (
+                  <Badge variant={decision.action === "accept" ? "default" : "secondary"}>{decision.label}</Badge>
+                )}
+              </CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {[
+                  item.raw_sku && `SKU ${item.raw_sku}`,
+                  `Qty ${item.quantity}`,
+                  item.unit_price != null && `$${item.unit_price.toFixed(2)} each`,
+                  formatSource(item),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+              {item.rejected_reason && <p className="text-xs text-destructive">Rejected: {item.rejected_reason}</p>}
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {decision ? (
+                <Button size="sm" variant="ghost" onClick={() => stage(item.id, null)}>
+                  <Undo2 className="h-4 w-4 mr-1" /> Undo
+                </Button>
+              ) : (
+                <>
+                  {item.candidates.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">Candidates</p>
+                      {item.candidates.map((candidate) => (
+                        <div key={candidate.product_id} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="min-w-0 truncate">
+                            {candidate.product_name || candidate.product_id}
+                            {candidate.product_sku && ` (${candidate.product_sku})`}
+                            <span className="text-xs text-muted-foreground">
+                              {" "}
+                              · {Math.round(candidate.best_score * 100)}% · {candidate.methods.join(", ")}
+                            </span>
+                          </span>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() =>
+                              stage(item.id, {
+                                itemId: item.id,
+                                action: "accept",
+                                productId: candidate.product_id,
+                                label: `Match: ${candidate.product_sku || candidate.product_name || candidate.product_id}`,
+                              })
+                            }
+                          >
+                            <Check className="h-4 w-4 mr-1" /> Accept
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <ProductSearch
+                    onSelect={(product) =>
+                      stage(item.id, {
+                        itemId: item.id,
+                        action: "accept",
+                        productId: product.id,
+                        label: `Match: ${product.ase_clover_number || product.product_name}`,
+                      })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-muted-foreground"
+                    onClick={() => stage(item.id, { itemId: item.id, action: "not_supply", label: "Not a supply item" })}
+                  >
+                    <XCircle className="h-4 w-4 mr-1" /> Not a supply item
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {queue.items.length > 0 && (
+        <div className="sticky bottom-0 bg-background border-t py-4 flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-end">
+          <Button onClick={handleSubmit} disabled={submitting || stagedCount === 0}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Confirm {stagedCount} decision{stagedCount === 1 ? "" : "s"} & regenerate reports
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { signInStaff } from "@/lib/api/processing";
+import { useToast } from "@/hooks/use-toast";
+import type { Session } from "@supabase/supabase-js";
+
+interface StaffSignInProps {
+  onSignedIn: (session: Session) => void;
+}
+
+// Sign-in for the internal review tool - accounts need the staff or admin role
+export function StaffSignIn({ onSignedIn }: StaffSignInProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [signingIn, setSigningIn] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    try {
+      onSignedIn(await signInStaff(email, password));
+    } catch (error) {
+      toast({
+        title: "Sign-in failed",
+        description: error instanceof Error ? error.message : "Failed to sign in",
+        variant: "destructive",
+      });
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto">
+      <CardHeader>
+        <CardTitle>Staff sign-in</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" required />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            required
+          />
+          <Button type="submit" className="w-full" disabled={signingIn}>
+            {signingIn && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Sign in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
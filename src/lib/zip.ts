@@ -0,0 +1,94 @@
+// Minimal .zip writer for multi-file submissions.
+// Files are stored uncompressed (the spreadsheets, PDFs and photos customers upload are
+// already compressed or small) - process-document unpacks the archive and parses each file.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Two files with the same name (e.g. "export.csv" from two folders) keep both: "export (2).csv"
+function getUniqueNames(files: File[]): string[] {
+  const used = new Set<string>();
+  return files.map((file) => {
+    let name = file.name;
+    const dot = name.lastIndexOf(".");
+    const [base, ext] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      name = `${base} (${copy})${ext}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Bundle several files into one .zip (STORE method, UTF-8 names)
+export async function createZipFile(files: File[], zipName: string): Promise<File> {
+  const encoder = new TextEncoder();
+  const names = getUniqueNames(files);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [idx, file] of files.entries()) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const name = encoder.encode(names[idx]);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true); // Local file header signature
+    localView.setUint16(4, 20, true);         // Version needed
+    localView.setUint16(6, 0x0800, true);     // UTF-8 file name
+    localView.setUint16(8, 0, true);          // STORE
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true); // Central directory header signature
+    centralView.setUint16(4, 20, true);         // Version made by
+    centralView.setUint16(6, 20, true);         // Version needed
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);    // Local header offset
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new File([...localParts, ...centralParts, end], zipName, { type: "application/zip" });
+}
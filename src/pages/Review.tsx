@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import type { Session } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { ReviewQueue } from "@/components/ReviewQueue";
+import { StaffSignIn } from "@/components/StaffSignIn";
+import { getStaffSession, staffAuth } from "@/lib/api/processing";
+
+const Review = () => {
+  const { jobId } = useParams<{ jobId: string }>();
+  const [session, setSession] = useState<Session | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  useEffect(() => {
+    getStaffSession().then((current) => {
+      setSession(current);
+      setCheckingSession(false);
+    });
+    const { data } = staffAuth.onAuthStateChange((_event, current) => setSession(current));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  if (checkingSession) return null;
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      {!session && <StaffSignIn onSignedIn={setSession} />}
+      {session && (
+        <>
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 flex items-center justify-end gap-3 text-sm text-muted-foreground">
+            <span>Signed in as {session.user.email}</span>
+            <Button size="sm" variant="outline" onClick={() => staffAuth.signOut()}>
+              Sign out
+            </Button>
+          </div>
+          {jobId && <ReviewQueue jobId={jobId} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Review;
@@ -65,6 +65,8 @@ Deno.serve(async (req) => {
       JSON.stringify({
         summary: {
           total_cost_savings: report.total_cost_savings,
+          projected_annual_savings: report.projected_annual_savings,
+          usage_period: report.usage_period,
           savings_percentage: report.savings_percentage,
           cartridges_saved: report.cartridges_saved,
           co2_reduced_pounds: report.co2_reduced_pounds,
@@ -0,0 +1,470 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * One entry of order_items_extracted.match_log (MatchAttempt in process-document)
+ */
+interface MatchAttempt {
+  method: string;
+  attempted_value?: string;
+  score: number;
+  product_id?: string;
+  product_name?: string;
+  product_sku?: string;
+  rejected_reason?: string;
+  timestamp: string;
+}
+
+/**
+ * Distinct products the matching tiers returned for a row, best score first
+ */
+function getCandidates(matchLog: MatchAttempt[]) {
+  const candidates = new Map<string, { product_id: string; product_name: string | null; product_sku: string | null; best_score: number; methods: string[] }>();
+
+  for (const attempt of matchLog) {
+    if (!attempt.product_id || attempt.method === 'exact_validation') continue;
+
+    const candidate = candidates.get(attempt.product_id) || {
+      product_id: attempt.product_id,
+      product_name: attempt.product_name || null,
+      product_sku: attempt.product_sku || null,
+      best_score: 0,
+      methods: []
+    };
+    candidate.best_score = Math.max(candidate.best_score, attempt.score);
+    if (!candidate.methods.includes(attempt.method)) candidate.methods.push(attempt.method);
+    candidates.set(attempt.product_id, candidate);
+  }
+
+  return Array.from(candidates.values()).sort((a, b) => b.best_score - a.best_score);
+}
+
+/**
+ * Reviewer decision for one unmatched row
+ */
+interface ReviewDecision {
+  itemId: string;
+  action: 'accept' | 'not_supply';
+  productId?: string;
+}
+
+const PRODUCT_SEARCH_LIMIT = 20;
+
+// auth.users app_metadata.role values allowed to use the review tool (set by an admin, not the user)
+const STAFF_ROLES = ['staff', 'admin'];
+
+/**
+ * Signed-in staff member making the request
+ */
+interface StaffUser {
+  id: string;
+  email: string | null;
+}
+
+/**
+ * Verify the caller's JWT and staff role. Returns the user, or the 401/403 response to send.
+ * The anon key is not a user session, so customers and unauthenticated callers are rejected.
+ */
+async function authenticateStaff(supabase: ReturnType<typeof createClient>, req: Request): Promise<StaffUser | Response> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return jsonResponse({ error: 'Sign in to use the review queue' }, 401);
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    return jsonResponse({ error: 'Sign in to use the review queue' }, 401);
+  }
+
+  const role = data.user.app_metadata?.role;
+  if (typeof role !== 'string' || !STAFF_ROLES.includes(role)) {
+    console.warn(`⚠️ Review queue access denied for user ${data.user.id} (role: ${role ?? 'none'})`);
+    return jsonResponse({ error: 'Your account does not have access to the review queue' }, 403);
+  }
+
+  return { id: data.user.id, email: data.user.email ?? null };
+}
+
+// Must match getProfileCustomerKey in process-document
+function getCustomerKey(company?: string | null): string | null {
+  const key = company?.toLowerCase().trim().replace(/\s+/g, ' ');
+  return key || null;
+}
+
+// Must match normalizeAliasSku in process-document
+function normalizeAliasSku(sku: string): string {
+  return sku.trim().toUpperCase();
+}
+
+/**
+ * Save accepted rows as the customer's manual SKU aliases, so their next upload matches
+ * those SKUs before exact SKU matching. Overwrites an alias learned from an exact match.
+ */
+async function saveManualAliases(
+  supabase: ReturnType<typeof createClient>,
+  jobId: string,
+  submissionId: string,
+  decisions: ReviewDecision[],
+  reviewedBy: string | null
+) {
+  const accepted = decisions.filter(decision => decision.action === 'accept');
+  if (accepted.length === 0) return 0;
+
+  const { data: submission } = await supabase
+    .from('document_submissions')
+    .select('company')
+    .eq('id', submissionId)
+    .single();
+
+  const customerKey = getCustomerKey(submission?.company);
+  if (!customerKey) {
+    console.warn(`⚠️ No company on submission ${submissionId} - not saving SKU aliases`);
+    return 0;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('order_items_extracted')
+    .select('id, raw_sku')
+    .in('id', accepted.map(decision => decision.itemId));
+
+  if (itemsError) {
+    console.error('Error loading reviewed rows for SKU aliases:', itemsError);
+    return 0;
+  }
+
+  const aliases = new Map<string, Record<string, unknown>>();
+  for (const item of items || []) {
+    const rawSku = item.raw_sku ? normalizeAliasSku(item.raw_sku) : '';
+    if (rawSku.length < 2) continue;
+
+    aliases.set(rawSku, {
+      raw_sku: rawSku,
+      customer_company: customerKey,
+      master_product_id: accepted.find(decision => decision.itemId === item.id)!.productId,
+      source: 'manual',
+      source_job_id: jobId,
+      confirmed_by: reviewedBy,
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  if (aliases.size === 0) return 0;
+
+  const { error } = await supabase
+    .from('sku_aliases')
+    .upsert(Array.from(aliases.values()), { onConflict: 'raw_sku,customer_company,vendor' });
+
+  if (error) {
+    console.error('Error saving SKU aliases:', error);
+    return 0;
+  }
+
+  return aliases.size;
+}
+
+/**
+ * master_products lookup for the review queue: product name or any SKU column contains the term
+ */
+async function searchProducts(supabase: ReturnType<typeof createClient>, search: string) {
+  // Commas and parentheses would break the PostgREST or() filter
+  const term = search.replace(/[,()]/g, ' ').trim();
+  if (term.length < 2) {
+    return jsonResponse({ error: 'Search term must be at least 2 characters' }, 400);
+  }
+
+  const { data: products, error } = await supabase
+    .from('master_products')
+    .select('id, product_name, ase_clover_number, ase_oem_number, oem_number, brand, color_type, page_yield, ase_price')
+    .or(`product_name.ilike.%${term}%,ase_clover_number.ilike.%${term}%,ase_oem_number.ilike.%${term}%,oem_number.ilike.%${term}%,wholesaler_sku.ilike.%${term}%,staples_sku.ilike.%${term}%,depot_sku.ilike.%${term}%`)
+    .eq('active', true)
+    .limit(PRODUCT_SEARCH_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to search products: ${error.message}`);
+  }
+
+  return jsonResponse({ search: term, products: products || [] }, 200);
+}
+
+/**
+ * Apply reviewer decisions, then have process-document re-run savings and regenerate both reports.
+ * POST { jobId, decisions: [{ itemId, action: 'accept' | 'not_supply', productId? }] }
+ * The reviewer recorded on rows and aliases is the signed-in staff member.
+ */
+async function submitDecisions(
+  supabase: ReturnType<typeof createClient>,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  req: Request,
+  reviewer: StaffUser
+) {
+  const { jobId, decisions } = await req.json();
+
+  if (!jobId || !Array.isArray(decisions) || decisions.length === 0) {
+    return jsonResponse({ error: 'Missing jobId or decisions' }, 400);
+  }
+
+  const invalid = (decisions as ReviewDecision[]).find(decision =>
+    !decision.itemId ||
+    (decision.action !== 'accept' && decision.action !== 'not_supply') ||
+    (decision.action === 'accept' && !decision.productId)
+  );
+  if (invalid) {
+    return jsonResponse({ error: 'Each decision needs an itemId and action accept (with productId) or not_supply' }, 400);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .select('id, submission_id, status, current_step, error_message, completed_at, metadata')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    return jsonResponse({ error: 'Processing job not found' }, 404);
+  }
+
+  const metadata = job.metadata || {};
+  if (!metadata.queue_context) {
+    return jsonResponse({ error: 'Job has no staged items to re-analyze' }, 422);
+  }
+
+  // Re-open the job. Conditional so a review can't start while the job (or another review) is running.
+  const { data: reopened, error: reopenError } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'processing',
+      current_step: 'Re-analyzing after review...',
+      error_message: null,
+      completed_at: null
+    })
+    .eq('id', jobId)
+    .in('status', ['completed', 'failed'])
+    .select('id');
+
+  if (reopenError || !reopened || reopened.length === 0) {
+    return jsonResponse({ error: 'Job is still processing - try again when it has finished' }, 409);
+  }
+
+  const reviewedAt = new Date().toISOString();
+  const reviewedBy = reviewer.email || reviewer.id;
+
+  // All decisions in one statement: a failure writes none of them
+  const { error: applyError } = await supabase.rpc('apply_review_decisions', {
+    p_job_id: jobId,
+    p_decisions: decisions,
+    p_reviewed_by: reviewedBy,
+    p_reviewed_at: reviewedAt
+  });
+
+  if (applyError) {
+    // Nothing was saved - put the job back exactly as it was
+    await supabase
+      .from('processing_jobs')
+      .update({
+        status: job.status,
+        current_step: job.current_step,
+        error_message: job.error_message,
+        completed_at: job.completed_at
+      })
+      .eq('id', jobId);
+
+    throw new Error(`Failed to save review decisions: ${applyError.message}`);
+  }
+
+  const aliasesSaved = await saveManualAliases(supabase, jobId, job.submission_id, decisions, reviewedBy);
+
+  // Review history
+  const reviewRuns = Array.isArray(metadata.review_runs) ? metadata.review_runs : [];
+  const run = {
+    reviewed_at: reviewedAt,
+    reviewer: reviewedBy,
+    accepted: decisions.filter((decision: ReviewDecision) => decision.action === 'accept').length,
+    not_supply: decisions.filter((decision: ReviewDecision) => decision.action === 'not_supply').length,
+    aliases_saved: aliasesSaved
+  };
+
+  await supabase
+    .from('processing_jobs')
+    .update({
+      metadata: {
+        ...metadata,
+        review_runs: [...reviewRuns, run]
+      }
+    })
+    .eq('id', jobId);
+
+  console.log(`🧑‍⚖️ Review for job ${jobId}: ${run.accepted} accepted, ${run.not_supply} not a supply item - regenerating reports`);
+
+  // Hand the job back to process-document
+  const response = await fetch(`${supabaseUrl}/functions/v1/process-document`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      _reanalyze: true,
+      jobId
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'failed',
+        error_message: `Re-analysis could not be started: ${response.status} - ${errorText}`,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+
+    return jsonResponse({ error: 'Failed to start re-analysis', message: errorText }, 502);
+  }
+
+  return jsonResponse({
+    success: true,
+    processing_job_id: jobId,
+    ...run,
+    message: 'Decisions saved - savings and reports are being regenerated'
+  }, 202);
+}
+
+/**
+ * Match audit trail and review queue for internal review: why each line item matched - or became "R&D TBA".
+ * GET  ?jobId=... (or ?submissionId=... for the latest job) &status=unmatched|all
+ * GET  ?search=... - master_products lookup for a row with no usable candidate
+ * POST { jobId, decisions } - accept a product / mark "not a supply item", then regenerate reports
+ *
+ * Every method requires a signed-in user whose app_metadata.role is a staff role.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const staff = await authenticateStaff(supabase, req);
+    if (staff instanceof Response) {
+      return staff;
+    }
+
+    if (req.method === 'POST') {
+      return await submitDecisions(supabase, supabaseUrl, supabaseServiceKey, req, staff);
+    }
+
+    const url = new URL(req.url);
+    const search = url.searchParams.get('search');
+    if (search !== null) {
+      return await searchProducts(supabase, search);
+    }
+
+    const submissionId = url.searchParams.get('submissionId');
+    let jobId = url.searchParams.get('jobId');
+    const status = url.searchParams.get('status') || 'unmatched';
+
+    if (!jobId && !submissionId) {
+      return jsonResponse({ error: 'Missing jobId or submissionId parameter' }, 400);
+    }
+
+    if (status !== 'unmatched' && status !== 'all') {
+      return jsonResponse({ error: `Invalid status "${status}" (expected unmatched or all)` }, 400);
+    }
+
+    let jobQuery = supabase
+      .from('processing_jobs')
+      .select('id, submission_id, status, completed_at');
+    jobQuery = jobId
+      ? jobQuery.eq('id', jobId)
+      : jobQuery.eq('submission_id', submissionId).order('created_at', { ascending: false }).limit(1);
+
+    const { data: job, error: jobError } = await jobQuery.single();
+
+    if (jobError || !job) {
+      return jsonResponse({ error: 'Processing job not found' }, 404);
+    }
+    jobId = job.id;
+
+    let itemsQuery = supabase
+      .from('order_items_extracted')
+      .select(`
+        id,
+        raw_product_name,
+        raw_sku,
+        quantity,
+        unit_price,
+        source_file,
+        source_sheet,
+        source_page,
+        source_rows,
+        match_method,
+        match_score,
+        match_log,
+        review_status,
+        reviewed_at,
+        reviewed_by,
+        matched_product:matched_product_id(id, product_name, ase_clover_number, ase_oem_number)
+      `)
+      .eq('processing_job_id', jobId)
+      .order('created_at', { ascending: true });
+
+    if (status === 'unmatched') {
+      itemsQuery = itemsQuery.is('matched_product_id', null).is('review_status', null);
+    }
+
+    const { data: items, error: itemsError } = await itemsQuery;
+
+    if (itemsError) {
+      throw new Error(`Failed to fetch line items: ${itemsError.message}`);
+    }
+
+    const reviewItems = (items || []).map(item => {
+      const matchLog: MatchAttempt[] = Array.isArray(item.match_log) ? item.match_log : [];
+      const rejection = matchLog.find(attempt => attempt.rejected_reason);
+
+      return {
+        ...item,
+        skus_tried: Array.from(new Set(
+          matchLog
+            .filter(attempt => attempt.method === 'exact_sku' || attempt.method === 'fuzzy_sku')
+            .map(attempt => attempt.attempted_value)
+        )),
+        candidates: getCandidates(matchLog),
+        rejected_reason: rejection?.rejected_reason || null
+      };
+    });
+
+    return jsonResponse({
+      job,
+      status,
+      item_count: reviewItems.length,
+      items: reviewItems
+    }, 200);
+
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
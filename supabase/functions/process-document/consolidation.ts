@@ -0,0 +1,205 @@
+/**
+ * Line-Item Consolidation
+ *
+ * Usage reports repeat the same SKU once per order: rows of the same SKU and UOM are merged
+ * into one item before matching. No runtime imports, so it is tested outside the edge
+ * runtime (supabase/tests/consolidation.test.ts).
+ */
+
+import { normalizeUOM } from './normalization.ts';
+import type { ConsolidatedSourceRow } from './savings-engine.ts';
+
+/**
+ * The parsed line-item fields consolidation reads and writes (EnhancedExtractedItem in index.ts)
+ */
+export interface ConsolidationItem {
+  rowNumber: number;
+  raw_product_name: string;
+  raw_sku: string | null;
+  sku_fields: { all_skus: string[] };
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  uom?: string;
+  source_sheet?: string;
+  source_page?: number;
+  source_file?: string;
+  order_date?: string;
+  location?: string;
+  cost_center?: string;
+  source_rows?: ConsolidatedSourceRow[];
+  price_variance_pct?: number;
+  price_variance_flagged?: boolean;
+  extraction_quality: { has_price: boolean; has_quantity: boolean };
+}
+
+/**
+ * How duplicate rows are merged after parsing. Overridable per job via the
+ * `consolidation` field of the start request.
+ */
+export interface ConsolidationRules {
+  enabled: boolean;
+  group_unidentified_by_name: boolean; // Merge SKU-less rows with the same normalized product name
+  price_variance_threshold_pct: number; // Flag groups whose unit prices spread more than this
+}
+
+export const DEFAULT_CONSOLIDATION_RULES: ConsolidationRules = {
+  enabled: true,
+  group_unidentified_by_name: false,
+  price_variance_threshold_pct: 10
+};
+
+export interface ConsolidationSummary {
+  rules: ConsolidationRules;
+  rows_in: number;
+  items_out: number;
+  merged_groups: number;       // Items built from 2+ rows
+  price_variance_flagged: number;
+}
+
+/**
+ * Merge the per-request rules over the defaults, ignoring values of the wrong type
+ */
+export function resolveConsolidationRules(overrides?: Partial<ConsolidationRules>): ConsolidationRules {
+  const rules = { ...DEFAULT_CONSOLIDATION_RULES };
+  if (!overrides) return rules;
+  
+  if (typeof overrides.enabled === 'boolean') rules.enabled = overrides.enabled;
+  if (typeof overrides.group_unidentified_by_name === 'boolean') {
+    rules.group_unidentified_by_name = overrides.group_unidentified_by_name;
+  }
+  if (typeof overrides.price_variance_threshold_pct === 'number' && overrides.price_variance_threshold_pct >= 0) {
+    rules.price_variance_threshold_pct = overrides.price_variance_threshold_pct;
+  }
+  return rules;
+}
+
+/**
+ * Grouping key for a row, or null when it must stay on its own. The UOM is always part of
+ * it: rows carry no pack size, so a box and an each of the same SKU can't be put on one basis.
+ */
+function getConsolidationKey(item: ConsolidationItem, rules: ConsolidationRules): string | null {
+  const uomPart = `|${normalizeUOM(item.uom)}`;
+  
+  const sku = (item.raw_sku || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (sku) return `sku:${sku}${uomPart}`;
+  
+  if (rules.group_unidentified_by_name) {
+    const name = (item.raw_product_name || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    if (name && name !== 'unknown product') return `name:${name}${uomPart}`;
+  }
+  
+  return null;
+}
+
+/**
+ * Group parsed rows by normalized SKU and UOM: quantities are summed, the unit price is the
+ * quantity-weighted average of the priced rows, and groups whose prices differ across orders
+ * more than the threshold are flagged. Each merged item keeps its original rows in
+ * `source_rows`; order follows the first occurrence of each group.
+ */
+export function consolidateLineItems<T extends ConsolidationItem>(
+  items: T[],
+  rules: ConsolidationRules
+): { items: T[]; summary: ConsolidationSummary } {
+  const summary: ConsolidationSummary = {
+    rules,
+    rows_in: items.length,
+    items_out: items.length,
+    merged_groups: 0,
+    price_variance_flagged: 0
+  };
+  
+  if (!rules.enabled) {
+    console.log('🧮 Line-item consolidation disabled for this job');
+    return { items, summary };
+  }
+  
+  const groups = new Map<string, T[]>();
+  const ordered: (T | T[])[] = [];
+  
+  for (const item of items) {
+    const key = getConsolidationKey(item, rules);
+    if (!key) {
+      ordered.push(item);
+      continue;
+    }
+    if (!groups.has(key)) {
+      const group: T[] = [];
+      groups.set(key, group);
+      ordered.push(group);
+    }
+    groups.get(key)!.push(item);
+  }
+  
+  const consolidated = ordered.map(entry => {
+    if (!Array.isArray(entry)) return entry;
+    if (entry.length === 1) return entry[0];
+    
+    // Every row of a group has the same UOM, so quantities and prices add up as they are
+    const sourceRows: ConsolidatedSourceRow[] = entry.map(row => ({
+      row_number: row.rowNumber,
+      quantity: row.quantity,
+      unit_price: row.unit_price,
+      ...(row.order_date && { order_date: row.order_date }),
+      ...(row.location && { location: row.location }),
+      ...(row.cost_center && { cost_center: row.cost_center }),
+      ...(row.source_file && { source_file: row.source_file }),
+      ...(row.source_sheet && { source_sheet: row.source_sheet }),
+      ...(row.source_page != null && { source_page: row.source_page })
+    }));
+    
+    const quantity = sourceRows.reduce((sum, row) => sum + row.quantity, 0);
+    const pricedRows = sourceRows.filter(row => row.unit_price > 0);
+    const pricedQuantity = pricedRows.reduce((sum, row) => sum + row.quantity, 0);
+    const unitPrice = pricedQuantity > 0
+      ? pricedRows.reduce((sum, row) => sum + row.unit_price * row.quantity, 0) / pricedQuantity
+      : 0;
+    
+    const prices = pricedRows.map(row => row.unit_price);
+    const priceVariancePct = prices.length > 1 && unitPrice > 0
+      ? ((Math.max(...prices) - Math.min(...prices)) / unitPrice) * 100
+      : 0;
+    const priceVarianceFlagged = priceVariancePct > rules.price_variance_threshold_pct;
+    
+    const first = entry[0];
+    const allSkus = Array.from(new Set(entry.flatMap(row => row.sku_fields.all_skus)));
+    // Keep a source location, order date or site only when every merged row shares it
+    const shared = <K extends 'source_file' | 'source_sheet' | 'source_page' | 'order_date' | 'location' | 'cost_center'>(field: K) =>
+      entry.every(row => row[field] === first[field]) ? first[field] : undefined;
+    
+    summary.merged_groups++;
+    if (priceVarianceFlagged) {
+      summary.price_variance_flagged++;
+      console.log(`   ⚠️ Price variance ${priceVariancePct.toFixed(1)}% across ${entry.length} orders of ${first.raw_sku}: $${Math.min(...prices).toFixed(2)}-$${Math.max(...prices).toFixed(2)}`);
+    }
+    
+    const merged: T = {
+      ...first,
+      sku_fields: { ...first.sku_fields, all_skus: allSkus },
+      quantity,
+      unit_price: Math.round(unitPrice * 100) / 100,
+      total_price: Math.round(unitPrice * quantity * 100) / 100,
+      source_file: shared('source_file'),
+      source_sheet: shared('source_sheet'),
+      source_page: shared('source_page'),
+      order_date: shared('order_date'),
+      location: shared('location'),
+      cost_center: shared('cost_center'),
+      source_rows: sourceRows,
+      price_variance_pct: Math.round(priceVariancePct * 10) / 10,
+      price_variance_flagged: priceVarianceFlagged,
+      extraction_quality: {
+        ...first.extraction_quality,
+        has_price: entry.some(row => row.extraction_quality.has_price),
+        has_quantity: entry.some(row => row.extraction_quality.has_quantity)
+      }
+    };
+    return merged;
+  });
+  
+  summary.items_out = consolidated.length;
+  console.log(`🧮 Consolidated ${items.length} rows into ${consolidated.length} items (${summary.merged_groups} merged groups, ${summary.price_variance_flagged} with price variance)`);
+  
+  return { items: consolidated, summary };
+}
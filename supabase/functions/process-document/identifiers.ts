@@ -0,0 +1,91 @@
+/**
+ * Barcode (UPC / EAN / GTIN) and NSN Identifiers
+ *
+ * Normalization of the barcodes and National Stock Numbers Tier 1.2 matches on. No runtime
+ * imports, so it is tested outside the edge runtime (supabase/tests/identifiers.test.ts).
+ */
+
+// National Stock Number as printed on government orders: FSC-NIIN, 1234-56-789-0123
+const NSN_PATTERN = /\b(\d{4})-(\d{2})-(\d{3})-(\d{4})\b/g;
+
+/**
+ * GS1 mod-10 check digit of a 14-digit GTIN (UPC-A and EAN-13 are GTIN-14 with leading zeros)
+ */
+export function hasValidGtinCheckDigit(gtin14: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += Number(gtin14[i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(gtin14[13]);
+}
+
+/**
+ * Normalize a UPC-A, EAN-13 or GTIN-14 to 14 digits. Spaces and dashes are ignored, and a
+ * UPC-A whose leading zero a spreadsheet dropped (11 digits) is accepted. Returns null unless
+ * the check digit is valid, so ordinary part numbers are not mistaken for barcodes.
+ */
+export function normalizeGtin(value: string): string | null {
+  if (!/^[\d\s-]+$/.test(value)) return null;
+
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 11 || digits.length > 14) return null;
+
+  const gtin14 = digits.padStart(14, '0');
+  if (/^0+$/.test(gtin14) || !hasValidGtinCheckDigit(gtin14)) return null;
+
+  return gtin14;
+}
+
+/**
+ * Forms a GTIN may be stored in: GTIN-14, EAN-13, UPC-A and UPC-A with its leading zero
+ * dropped (11 digits, as a spreadsheet import leaves it) - leading zeros removed each time
+ */
+export function getGtinVariants(gtin14: string): string[] {
+  const variants = [gtin14];
+  for (let length = 13; length >= 11 && gtin14.startsWith('0'.repeat(14 - length)); length--) {
+    variants.push(gtin14.slice(14 - length));
+  }
+  return variants;
+}
+
+/**
+ * Normalize an NSN to its hyphenated form (1234-56-789-0123). Accepts the 13 digits with or
+ * without hyphens/spaces; anything else returns null.
+ */
+export function normalizeNsn(value: string): string | null {
+  if (!/^[\d\s-]+$/.test(value)) return null;
+
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 13) return null;
+
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 9)}-${digits.slice(9)}`;
+}
+
+/**
+ * Barcodes and NSNs among an item's identifiers: its SKU fields, plus hyphenated NSNs written
+ * into the product name or description
+ */
+export function getIdentifierCandidates(item: {
+  raw_product_name?: string;
+  raw_description?: string;
+  sku_fields?: { upc?: string; all_skus?: string[] };
+}): { gtins: string[]; nsns: string[] } {
+  const values = [item.sku_fields?.upc, ...(item.sku_fields?.all_skus || [])].filter((value): value is string => !!value);
+  const gtins = new Set<string>();
+  const nsns = new Set<string>();
+
+  for (const value of values) {
+    const gtin = normalizeGtin(value);
+    if (gtin) gtins.add(gtin);
+    const nsn = normalizeNsn(value);
+    if (nsn) nsns.add(nsn);
+  }
+
+  for (const text of [item.raw_product_name, item.raw_description]) {
+    for (const match of (text || '').matchAll(NSN_PATTERN)) {
+      nsns.add(match.slice(1).join('-'));
+    }
+  }
+
+  return { gtins: Array.from(gtins), nsns: Array.from(nsns) };
+}
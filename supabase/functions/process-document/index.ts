@@ -1,8 +1,40 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from 'jsr:@supabase/supabase-js@2';
-import OpenAI from 'npm:openai@4';
 import * as XLSX from 'npm:xlsx@0.18.5';
+import { getDocumentProxy } from 'npm:unpdf@1.8.1';
+import { PDFDocument } from 'npm:pdf-lib@1.17.1';
+import convertHeic from 'npm:heic-convert@2.1.0';
+import { unzipSync } from 'npm:fflate@0.8.2';
 import { generatePDFReport } from '../shared/pdf-generator.ts';
+import { createAIProviders } from '../shared/ai-providers.ts';
+import { isMatchMethod } from '../shared/match-methods.ts';
+import { selectAllPages } from '../shared/paged-select.ts';
+import {
+  ASSUMED_ANNUAL_PERIOD,
+  calculateSavings,
+  inferredDeviceKey,
+  printerModelKey,
+  type ConsolidatedSourceRow,
+  type FleetCompatibility,
+  type MarketPriceReference,
+  type PriceBookEntry,
+  type PriceBookSet,
+  type PrinterFleetDevice,
+  type SavingsAnalysis,
+  type SavingsCatalog,
+  type SavingsLineItem,
+  type SavingsLineResult,
+  type SavingsProduct,
+  type UsagePeriod
+} from './savings-engine.ts';
+import { buildVisionExtractionRequest, type PdfPageBatch, type VisionLineItem } from './vision-extraction.ts';
+import { getGtinVariants, getIdentifierCandidates } from './identifiers.ts';
+import {
+  consolidateLineItems,
+  DEFAULT_CONSOLIDATION_RULES,
+  resolveConsolidationRules,
+  type ConsolidationRules
+} from './consolidation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,306 +45,134 @@ const corsHeaders = {
 // Initialize clients
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY')!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
-const openai = new OpenAI({ apiKey: openaiApiKey });
+// Extraction / embedding providers (AI_PROVIDER=openai | record | fixture)
+const { extraction: extractionProvider, embedding: embeddingProvider } = createAIProviders();
 
-// ============================================================================
-// NORMALIZATION HELPERS (Battle-Tested Deterministic Approach)
-// ============================================================================
+interface ProcessingContext {
+  submissionId: string;
+  jobId: string;
+  fileUrl: string;
+  fileName: string;
+  customerInfo: {
+    firstName: string;
+    lastName: string;
+    company: string;
+    email: string;
+  };
+  // Chunked processing support
+  chunkIndex?: number;      // Current chunk being processed (0-based)
+  chunkLease?: ChunkLease;  // Lease this worker holds on that chunk (never stored in queue_context)
+  totalItems?: number;       // Total items in document
+  itemsProcessed?: number;   // Items processed so far
+  // Column roles confirmed in the preview step (replaces header heuristics)
+  columnMapping?: ColumnMapping;
+  // How duplicate rows are merged before matching (defaults: DEFAULT_CONSOLIDATION_RULES)
+  consolidationRules?: ConsolidationRules;
+  // Date range the document covers (set after parsing, drives annualized savings)
+  usagePeriod?: UsagePeriod;
+  // Which tiers may accept a match and their thresholds (defaults: DEFAULT_MATCH_POLICY)
+  matchPolicy?: MatchPolicy;
+  // Customer's printers for per-device cost per page (undefined = inferred from the document)
+  printerFleet?: PrinterFleetDevice[];
+}
 
 /**
- * Normalize UOM to canonical values
+ * Role a spreadsheet column plays in line-item extraction
  */
-function normalizeUOM(uom?: string): 'EA' | 'BX' | 'CS' | 'PK' | 'CT' {
-  if (!uom) return 'EA';
-  
-  const lower = uom.toLowerCase().trim();
-  if (lower === 'ea' || lower === 'each') return 'EA';
-  if (lower === 'bx' || lower === 'box') return 'BX';
-  if (lower === 'cs' || lower === 'case') return 'CS';
-  if (lower === 'pk' || lower === 'pack' || lower === 'package') return 'PK';
-  if (lower === 'ct' || lower === 'carton') return 'CT';
-  
-  return 'EA'; // Default to each
-}
+type ColumnRole =
+  | 'product_name'
+  | 'quantity'
+  | 'unit_price'
+  | 'sku'
+  | 'oem_number'
+  | 'wholesaler_sku'
+  | 'staples_sku'
+  | 'depot_sku'
+  | 'order_date' // order/invoice date - sets the period a usage report covers
+  | 'location'   // ship-to / site / facility
+  | 'cost_center' // department / cost center
+  | 'other'    // not assigned - still scanned for part numbers
+  | 'ignore';  // excluded from extraction
 
 /**
- * Normalize price to per-each basis (THE GOLDEN RULE)
- * You cannot compare prices until they're on the same basis.
+ * User-confirmed column mapping from the preview step, one entry per line-item sheet
+ * (sheet_name is null for CSV). Column keys are normalized header names
+ * (empty headers become __COL_X__).
  */
-interface NormalizedPrice {
-  pricePerEach: number;  // Price for a single unit
-  quantityInEach: number; // Total quantity in "each" units
-  packQty: number;        // Pack quantity used
-  uomStd: string;         // Standardized UOM
-}
-
-function normalizePriceAndQuantity(
-  price: number,
-  quantity: number,
-  packQty: number = 1,
-  uom: string = 'EA'
-): NormalizedPrice {
-  const safePackQty = Math.max(packQty || 1, 1);
-  const normalizedUom = normalizeUOM(uom);
-  
-  // Price per single unit (each)
-  const pricePerEach = price / safePackQty;
-  
-  // Total quantity in "each" units
-  // If buying in packs/boxes, multiply quantity by pack size
-  const quantityInEach = normalizedUom === 'EA' 
-    ? quantity 
-    : quantity * safePackQty;
-  
-  return {
-    pricePerEach,
-    quantityInEach,
-    packQty: safePackQty,
-    uomStd: normalizedUom
-  };
+interface ColumnMapping {
+  sheets: {
+    source_file?: string | null; // File inside a .zip submission (null/absent for single files)
+    sheet_name: string | null;
+    headers?: string[];          // Normalized header row from the preview (fingerprints the profile)
+    columns: Record<string, ColumnRole>;
+    profile?: { id: string; name: string }; // Customer profile saved from this confirmation
+  }[];
+  confirmed_at?: string;
 }
 
 /**
- * Calculate Cost Per Page (CPP) - Key metric for toner/ink optimization
+ * Column-mapping preview for one line-item sheet
  */
-function calculateCostPerPage(pricePerEach: number, pageYield: number): number | null {
-  if (!pageYield || pageYield <= 0) return null;
-  if (!pricePerEach || pricePerEach <= 0) return null;
-  
-  return pricePerEach / pageYield;
+interface ColumnPreviewSheet {
+  source_file: string | null; // File inside a .zip submission
+  sheet_name: string | null;
+  header_row: number; // 1-based
+  headers: string[];
+  roles: Record<string, ColumnRole>;
+  rows: Record<string, string>[];
+  mapping_profile: { id: string; name: string } | null; // Saved profile the roles came from
 }
 
 /**
- * Determine yield rank for comparison (higher is better)
+ * Saved column roles for a known export format (column_mapping_profiles)
  */
-function yieldRank(yieldClass?: string): number {
-  const ranks: Record<string, number> = {
-    'standard': 1,
-    'high': 2,
-    'extra_high': 3,
-    'super_high': 4
-  };
-  
-  return ranks[yieldClass || 'standard'] || 1;
+interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  vendor: string | null;
+  customer_company: string | null; // NULL = shared vendor format
+  header_fingerprint: string;
+  headers: string[];
+  columns: Record<string, ColumnRole>;
+  times_applied: number;
 }
 
-// ============================================================================
-// HIGHER-YIELD OPTIMIZATION (Battle-Tested CPP-Based Recommendations)
-// ============================================================================
-
-interface VolumeHints {
-  monthlyPages?: number;
-  horizonMonths?: number;
+/**
+ * Where one sheet's column roles came from (recorded in job metadata)
+ */
+interface AppliedColumnMapping {
+  source_file?: string;
+  sheet_name: string | null;
+  header_fingerprint: string;
+  source: 'confirmed_mapping' | 'profile' | 'heuristic';
+  profile_id?: string;
+  profile_name?: string;
 }
 
-interface HigherYieldRecommendation {
-  recommended: any; // Recommended product
-  recommendedPrice: number; // Price per unit (ase_price or partner_list_price)
-  cppCurrent: number; // Cost per page of current
-  cppRecommended: number; // Cost per page of recommended
-  est12moSavingsAtVolume: number; // Estimated 12-month savings
-  quantityNeeded: number; // How many of recommended product
-  reason: string; // Explanation
+interface ParseOptions {
+  columnMapping?: ColumnMapping; // Confirmed in the preview step
+  customerCompany?: string;      // Scopes customer column-mapping profiles
+  sourceFile?: string;           // File being parsed inside a .zip submission
 }
 
 /**
- * Suggest higher-yield alternative within same product family
- * 
- * This implements the battle-tested approach:
- * 1. Find products in same family_series + color
- * 2. Filter to equal or higher yield_class
- * 3. Calculate CPP (cost per page) for each
- * 4. Recommend lowest CPP with material savings
+ * Header that holds each column role for one sheet
  */
-async function suggestHigherYield(
-  currentProduct: any,
-  userQuantity: number,
-  userUnitPrice: number,
-  volume: VolumeHints = { monthlyPages: 1000, horizonMonths: 12 }
-): Promise<HigherYieldRecommendation | null> {
-  // Validate we have required data
-  if (!currentProduct.family_series) {
-    console.log('    ⊘ No family_series for optimization');
-    return null;
-  }
-  
-  if (!currentProduct.page_yield || currentProduct.page_yield <= 0) {
-    console.log('    ⊘ No page_yield for CPP calculation');
-    return null;
-  }
-  
-  // Use ase_price first, then partner_list_price as fallback
-  const currentAsePrice = (currentProduct.ase_price && currentProduct.ase_price > 0)
-    ? currentProduct.ase_price
-    : (currentProduct.partner_list_price && currentProduct.partner_list_price > 0)
-      ? currentProduct.partner_list_price
-      : null;
-    
-  if (!currentAsePrice || currentAsePrice <= 0) {
-    console.log('    ⊘ No ase_price or partner_list_price for comparison');
-    return null;
-  }
-  
-  // Calculate volume for comparison
-  const pages = (volume.monthlyPages ?? 1000) * (volume.horizonMonths ?? 12);
-  
-  // Get family peers (same family_series, same color, equal or higher yield)
-  const { data: familyProducts, error } = await supabase
-    .from('master_products')
-    .select('*')
-    .eq('family_series', currentProduct.family_series)
-    .eq('active', true)
-    .not('page_yield', 'is', null)
-    .gte('page_yield', currentProduct.page_yield * 0.8); // Allow slightly lower yield for edge cases
-  // Note: Not filtering by price here - we'll filter in JS to check both ase_price and partner_list_price
-  
-  if (error || !familyProducts || familyProducts.length === 0) {
-    console.log('    ⊘ No family alternatives found');
-    return null;
-  }
-  
-  // Filter by color match (strict for toner/ink)
-  const sameColorFamily = familyProducts.filter(p => {
-    // Must match color
-    if (currentProduct.color_type && p.color_type !== currentProduct.color_type) {
-      return false;
-    }
-    
-    // Must be equal or higher yield class
-    if (yieldRank(p.yield_class) < yieldRank(currentProduct.yield_class)) {
-      return false;
-    }
-    
-    // Must have valid pricing (check ase_price first, then partner_list_price)
-    const hasPrice = (p.ase_price && p.ase_price > 0) || (p.partner_list_price && p.partner_list_price > 0);
-    if (!hasPrice) {
-      return false;
-    }
-    
-    if (!p.page_yield || p.page_yield <= 0) {
-      return false;
-    }
-    
-    return true;
-  });
-  
-  if (sameColorFamily.length === 0) {
-    console.log('    ⊘ No matching color family alternatives');
-    return null;
-  }
-  
-  // Calculate CPP for each candidate
-  const currentCPP = calculateCostPerPage(currentAsePrice, currentProduct.page_yield);
-  
-  if (!currentCPP) {
-    console.log('    ⊘ Cannot calculate CPP for current product');
-    return null;
-  }
-  
-  // Rank by CPP (lowest is best)
-  const ranked = sameColorFamily
-    .map(p => {
-      // Use ase_price first, then partner_list_price as fallback
-      const pPrice = (p.ase_price && p.ase_price > 0) ? p.ase_price : (p.partner_list_price && p.partner_list_price > 0) ? p.partner_list_price : 0;
-      const cpp = calculateCostPerPage(pPrice, p.page_yield);
-      if (!cpp) return null;
-      
-      const periodCost = cpp * pages;
-      const savingsPerYear = (currentCPP - cpp) * pages;
-      
-      return { 
-        product: p, 
-        cpp, 
-        periodCost,
-        savingsPerYear
-      };
-    })
-    .filter((r): r is NonNullable<typeof r> => r !== null)
-    .sort((a, b) => a.cpp - b.cpp);
-  
-  if (ranked.length === 0) {
-    return null;
-  }
-  
-  const best = ranked[0];
-  
-  // Only recommend if:
-  // 1. It's a different product
-  // 2. It has materially better CPP (at least 5% savings)
-  // 3. Savings are meaningful (>$5/year)
-  const cppSavingsPct = ((currentCPP - best.cpp) / currentCPP) * 100;
-  
-  if (best.product.id === currentProduct.id) {
-    return null; // Same product
-  }
-  
-  if (best.cpp >= currentCPP * 0.95) {
-    console.log(`    ⊘ CPP not materially better: ${best.cpp.toFixed(4)} vs ${currentCPP.toFixed(4)}`);
-    return null; // Not enough savings (<5%)
-  }
-  
-  if (best.savingsPerYear < 5) {
-    console.log(`    ⊘ Savings too small: $${best.savingsPerYear.toFixed(2)}/year`);
-    return null; // Savings too small
-  }
-  
-  // Calculate how many units needed to meet user's volume
-  const userTotalPages = userQuantity * currentProduct.page_yield;
-  const quantityNeeded = Math.ceil(userTotalPages / best.product.page_yield);
-  
-  // Calculate actual savings based on user's current spending
-  const userCurrentCost = userQuantity * userUnitPrice;
-  // Use ase_price first, then partner_list_price as fallback
-  const recommendedPrice = (best.product.ase_price && best.product.ase_price > 0) 
-    ? best.product.ase_price 
-    : (best.product.partner_list_price && best.product.partner_list_price > 0)
-      ? best.product.partner_list_price
-      : 0;
-  const recommendedCost = quantityNeeded * recommendedPrice;
-  const actualSavings = userCurrentCost - recommendedCost;
-  
-  // Only recommend if there are actual dollar savings
-  if (actualSavings <= 0) {
-    console.log(`    ⊘ No actual savings: user pays $${userCurrentCost.toFixed(2)}, recommended $${recommendedCost.toFixed(2)}`);
-    return null;
-  }
-  
-  const cartridgesSaved = userQuantity - quantityNeeded;
-  
-  return {
-    recommended: best.product,
-    recommendedPrice, // Include the price we calculated
-    cppCurrent: currentCPP,
-    cppRecommended: best.cpp,
-    est12moSavingsAtVolume: best.savingsPerYear,
-    quantityNeeded,
-    reason: `Switch to ${best.product.yield_class?.toUpperCase() || 'High Yield'} ${best.product.product_name} ` +
-            `(${best.product.page_yield.toLocaleString()} pages vs ${currentProduct.page_yield.toLocaleString()} pages). ` +
-            `Cost per page: $${best.cpp.toFixed(4)} vs current $${currentCPP.toFixed(4)} ` +
-            `(${cppSavingsPct.toFixed(1)}% better). ` +
-            `Saves ${cartridgesSaved} cartridge${cartridgesSaved !== 1 ? 's' : ''} and $${actualSavings.toFixed(2)} ` +
-            `(${((actualSavings / userCurrentCost) * 100).toFixed(1)}% savings).`
-  };
-}
-
-interface ProcessingContext {
-  submissionId: string;
-  jobId: string;
-  fileUrl: string;
-  fileName: string;
-  customerInfo: {
-    firstName: string;
-    lastName: string;
-    company: string;
-    email: string;
-  };
-  // Chunked processing support
-  chunkIndex?: number;      // Current chunk being processed (0-based)
-  totalItems?: number;       // Total items in document
-  itemsProcessed?: number;   // Items processed so far
+interface ResolvedColumns {
+  productNameCol?: string;
+  qtyCol?: string;
+  priceCol?: string;
+  oemCol?: string;
+  wholesalerCol?: string;
+  staplesSkuCol?: string;
+  depotCol?: string;
+  genericSkuCol?: string;
+  orderDateCol?: string;
+  locationCol?: string;
+  costCenterCol?: string;
+  skuColumnMap: Record<string, string>;
 }
 
 // ============================================================================
@@ -335,6 +195,7 @@ interface EnhancedExtractedItem {
     wholesaler_code?: string;
     staples_sku?: string;
     depot_code?: string;
+    upc?: string;       // Barcode read by PDF/image extraction
     all_skus: string[]; // Combined array for matching
   };
   
@@ -342,6 +203,17 @@ interface EnhancedExtractedItem {
   unit_price: number;
   total_price: number;
   uom?: string;
+  source_sheet?: string; // Workbook tab the row came from (Excel only)
+  source_page?: number;  // PDF page the line item is printed on (1-based)
+  source_file?: string;  // File inside a .zip submission the item came from
+  order_date?: string;   // Order/invoice date of the row (ISO yyyy-mm-dd)
+  location?: string;     // Ship-to / site the row was ordered for
+  cost_center?: string;  // Department / cost center the row was charged to
+  
+  // Consolidation: the original rows merged into this item (absent when it stands alone)
+  source_rows?: ConsolidatedSourceRow[];
+  price_variance_pct?: number;     // (max - min) / weighted-average unit price across source rows
+  price_variance_flagged?: boolean;
   
   // Data quality tracking
   extraction_quality: {
@@ -354,49 +226,36 @@ interface EnhancedExtractedItem {
 }
 
 /**
- * Match attempt logging for transparency
+ * Match attempt logging for transparency (persisted as order_items_extracted.match_log)
  */
 interface MatchAttempt {
   method: string;
   attempted_value?: string;
   score: number;
   product_id?: string;
+  product_name?: string;    // Candidate the tier returned
+  product_sku?: string;
+  rejected_reason?: string; // Why the candidate was discarded (exact-match validation, errors)
   timestamp: Date;
 }
 
 /**
- * Determine match type based on product SKU and pricing availability
- * - remanufactured: Has ase_clover_number AND ase_price AND savings > 0
- * - oem_only: Has match (ase_oem_number or ase_clover_number) but NO ase_price (uses partner_list_price)
- * - no_match: True no match (not in database at all)
+ * Match-log entry for one tier attempt (match is null when the tier found nothing)
  */
-function determineMatchType(matchedProduct: any, hasSavings: boolean, hasAsePrice: boolean): 'remanufactured' | 'oem_only' | 'no_match' {
-  // No match at all (not in database)
-  if (!matchedProduct) {
-    return 'no_match';
-  }
-  
-  // Has ase_clover_number (-R item) AND has ase_price AND has savings
-  if (matchedProduct.ase_clover_number && hasAsePrice && hasSavings) {
-    return 'remanufactured';
-  }
-  
-  // Has a match but no ase_price available (will use partner_list_price)
-  if (!hasAsePrice) {
-    return 'oem_only';
-  }
-  
-  // Has match but no savings (customer already at or below our price)
-  if (!hasSavings) {
-    return 'oem_only';
-  }
-  
-  // Has ase_oem_number only (not remanufactured)
-  if (matchedProduct.ase_oem_number && !matchedProduct.ase_clover_number) {
-    return 'oem_only';
-  }
-  
-  return 'no_match';
+function toMatchAttempt(
+  method: string,
+  attemptedValue: string,
+  match: { product: { id?: string; product_name?: string; ase_clover_number?: string; ase_oem_number?: string }; score: number } | null
+): MatchAttempt {
+  return {
+    method,
+    attempted_value: attemptedValue,
+    score: match ? match.score : 0,
+    product_id: match?.product?.id,
+    product_name: match?.product?.product_name,
+    product_sku: match?.product?.ase_clover_number || match?.product?.ase_oem_number || undefined,
+    timestamp: new Date()
+  };
 }
 
 /**
@@ -424,181 +283,778 @@ async function updateProgress(
 }
 
 /**
- * Main processing orchestrator with CHUNKED PROCESSING for large files
+ * Merge keys into processing_jobs.metadata without clobbering what earlier
+ * chunks already recorded (total_items, parsed_items_path, etc.)
  */
-async function processDocument(context: ProcessingContext) {
-  const chunkIndex = context.chunkIndex || 0;
-  const CHUNK_SIZE = 100; // Process 100 items per chunk (safe for timeout with semantic search + savings calc)
-  
-  console.log(`🚀 Processing chunk ${chunkIndex + 1} for job:`, context.jobId);
+async function updateJobMetadata(jobId: string, updates: Record<string, unknown>) {
+  const { data: job, error: fetchError } = await supabase
+    .from('processing_jobs')
+    .select('metadata')
+    .eq('id', jobId)
+    .single();
 
-  try {
-    // Step 1: Download and parse file (only on first chunk)
-    if (chunkIndex === 0) {
-      await updateProgress(context.jobId, 5, 'Downloading file...');
-      const fileContent = await downloadFile(context.fileUrl, context.fileName);
-      
-      await updateProgress(context.jobId, 10, 'Parsing document...');
-      const parsedData = await parseDocument(fileContent, context.fileName);
-      
-      // Store parsed items in job metadata for next chunks
-      await supabase
-        .from('processing_jobs')
-        .update({
-          metadata: {
-            total_items: parsedData.items.length,
-            headers: parsedData.headers,
-            parsed_at: new Date().toISOString()
-          }
-        })
-        .eq('id', context.jobId);
-      
-      context.totalItems = parsedData.items.length;
-      await updateProgress(context.jobId, 15, `Extracted ${parsedData.items.length} items - starting batch processing`);
-      
-      // Process first chunk
-      await processChunk(parsedData.items, 0, CHUNK_SIZE, context);
-      
-    } else {
-      // Subsequent chunks: re-download and parse to get items
-      const fileContent = await downloadFile(context.fileUrl, context.fileName);
-      const parsedData = await parseDocument(fileContent, context.fileName);
-      context.totalItems = parsedData.items.length;
-      
-      // Process this chunk
-      await processChunk(parsedData.items, chunkIndex, CHUNK_SIZE, context);
-    }
+  if (fetchError) {
+    console.error('Error fetching job metadata:', fetchError);
+  }
 
-    // Check if more chunks needed
-    const itemsProcessed = (chunkIndex + 1) * CHUNK_SIZE;
-    const totalItems = context.totalItems || 0;
-    
-    if (itemsProcessed < totalItems) {
-      // More chunks to process - invoke function again
-      const nextChunkIndex = chunkIndex + 1;
-      const progress = 15 + Math.floor((itemsProcessed / totalItems) * 45); // 15-60% for matching
-      
-      await updateProgress(
-        context.jobId, 
-        progress, 
-        `Matched ${itemsProcessed}/${totalItems} products - continuing...`
-      );
-      
-      console.log(`⏭️  Continuing with chunk ${nextChunkIndex + 1}...`);
-      
-      // Self-invoke for next chunk (with proper error handling)
-      try {
-        await invokeSelf({
-          ...context,
-          chunkIndex: nextChunkIndex,
-          itemsProcessed
-        });
-        console.log(`✅ Next chunk invoked successfully`);
-      } catch (err) {
-        console.error('❌ Failed to invoke next chunk:', err);
-        // Don't throw - let the function complete gracefully
-        // The error is already logged in processing_jobs by invokeSelf
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update({
+      metadata: {
+        ...(job?.metadata || {}),
+        ...updates
       }
-      
-      return { success: true, status: 'chunking', nextChunk: nextChunkIndex };
-    }
+    })
+    .eq('id', jobId);
 
-    // All chunks complete - move to savings calculation
-    console.log('✅ All matching complete, calculating savings...');
-    await updateProgress(context.jobId, 60, 'All items matched! Calculating savings...');
+  if (error) {
+    console.error('Error updating job metadata:', error);
+  }
+}
 
-    // Get all matched items from database WITH matched product details
-    const { data: allMatchedItems, error: fetchError } = await supabase
-      .from('order_items_extracted')
-      .select(`
-        *,
-        matched_product:matched_product_id (
-          id,
-          ase_clover_number,
-          product_name,
-          brand,
-          model,
-          category,
-          size_category,
-          color_type,
-          page_yield,
-          ase_price,
-          partner_list_price,
-          family_series,
-          yield_class,
-          pack_quantity,
-          uom,
-          active,
-          wholesaler_sku,
-          oem_number,
-          staples_sku,
-          depot_sku,
-          ase_oem_number
-        )
-      `)
-      .eq('processing_job_id', context.jobId);
+// ============================================================================
+// PARSED ITEM STAGING (parse once, reuse for every chunk)
+// ============================================================================
 
-    if (fetchError) {
-      console.error('❌ Error fetching matched items:', fetchError);
-      throw new Error(`Failed to fetch matched items: ${fetchError.message}`);
-    }
+interface LineItemSheet {
+  sheetName: string;
+  headers: string[];
+  headerIndex: number; // 0-based
+  dataRows: string[][];
+}
 
-    if (!allMatchedItems || allMatchedItems.length === 0) {
-      throw new Error('No matched items found in database');
-    }
+interface ParsedSheet {
+  source_file?: string;
+  name: string;
+  header_row: number; // 1-based
+  headers: string[];
+  item_count: number;
+}
 
-    console.log(`📊 Retrieved ${allMatchedItems.length} items from database for savings calculation`);
+interface ParsedDocument {
+  items: EnhancedExtractedItem[];
+  totalItems: number;
+  headers: string[];
+  sheets?: ParsedSheet[]; // Excel: every line-item sheet that was parsed
+  columnMappings?: AppliedColumnMapping[]; // CSV/Excel/text-layer PDF: where each sheet's column roles came from
+  files?: ParsedFile[]; // .zip submissions: each file that was parsed
+  extractor: DocumentExtractor;
+}
 
-    // Step 3: Calculate savings (60-78%)
-    await updateProgress(context.jobId, 65, 'Analyzing savings opportunities...');
-    const savingsAnalysis = await calculateSavings(allMatchedItems, context.jobId);
-    
-    // VALIDATION: Check if we have any savings
-    // If total savings is $0, this means either:
-    // 1. No items could be matched to our catalog (wrong document type), OR
-    // 2. All matched items are already at or below our prices (no opportunity)
-    // In both cases, we should fail with the same message as document validation
-    if (savingsAnalysis.summary.savings_breakdown.total_savings === 0) {
-      console.log('⚠️  VALIDATION FAILED: No savings opportunities found');
-      console.log(`   Matched items: ${savingsAnalysis.summary.items_with_savings}`);
-      console.log(`   Total items: ${savingsAnalysis.summary.total_items}`);
-      
-      // Use the same error message as document validation for consistency
-      throw new Error(
-        `We're unable to calculate savings because your document is missing required information. Please upload a buy sheet, order invoice, quote, or item usage report that includes Item Name/SKU and Quantity for each product.`
-      );
-    }
-    
-    await updateProgress(context.jobId, 78, 'Preparing report data...');
+/**
+ * One file of a .zip submission (recorded in job metadata)
+ */
+interface ParsedFile {
+  file_name: string;
+  extractor: DocumentExtractor;
+  item_count: number;
+}
 
-    // Step 4: Generate PDF reports - customer and internal (78-93%)
-    const { customerUrl, internalUrl } = await generateReport(savingsAnalysis, context);
-    
-    await updateProgress(context.jobId, 93, 'Finalizing reports...');
+type DocumentExtractor = 'csv' | 'excel' | 'pdf_text_layer' | 'pdf_vision' | 'image_vision' | 'archive';
 
-    // Step 5: Save final results (95-100%)
-    await saveFinalReport(savingsAnalysis, context, customerUrl, internalUrl);
-    
-    await updateProgress(context.jobId, 100, 'Complete', {
-      status: 'completed',
-      completed_at: new Date().toISOString(),
-      report_url: customerUrl,
-      savings_analysis: savingsAnalysis.summary
-    });
+const PARSED_ITEMS_BUCKET = 'parsed-items'; // Private, no type or size limit (20261019_parsed_items_bucket.sql)
 
-    console.log('✅ Processing complete:', context.jobId);
-    return { success: true, status: 'completed' };
+/**
+ * Storage path of the normalized item list for a job
+ */
+function getParsedItemsPath(context: ProcessingContext): string {
+  return `${context.submissionId}/${context.jobId}.json`;
+}
 
-  } catch (error) {
-    console.error('❌ Processing error:', error);
-    
-    await updateProgress(context.jobId, 0, 'Failed', {
-      status: 'failed',
-      error_message: error instanceof Error ? error.message : 'Unknown error',
-      completed_at: new Date().toISOString()
+/**
+ * Persist the normalized item list produced by parseDocument() so later chunks
+ * read the exact same items instead of re-downloading and re-parsing the file
+ * (which for PDFs meant another paid vision call with a possibly different result)
+ */
+async function saveParsedItems(context: ProcessingContext, parsedData: ParsedDocument): Promise<string> {
+  const path = getParsedItemsPath(context);
+  const payload = JSON.stringify({
+    job_id: context.jobId,
+    file_name: context.fileName,
+    headers: parsedData.headers,
+    sheets: parsedData.sheets,
+    files: parsedData.files,
+    extractor: parsedData.extractor,
+    total_items: parsedData.items.length,
+    parsed_at: new Date().toISOString(),
+    items: parsedData.items
+  });
+
+  const { error } = await supabase.storage
+    .from(PARSED_ITEMS_BUCKET)
+    .upload(path, new Blob([payload], { type: 'application/json' }), {
+      contentType: 'application/json',
+      upsert: true
     });
 
-    throw error;
+  if (error) {
+    throw new Error(`Failed to stage parsed items: ${error.message}`);
+  }
+
+  console.log(`💾 Staged ${parsedData.items.length} parsed items at ${path}`);
+  return path;
+}
+
+/**
+ * Load the staged item list written by the first chunk.
+ * Throws if it is missing - continuing would silently process a different item list.
+ */
+async function loadParsedItems(context: ProcessingContext): Promise<ParsedDocument> {
+  const path = getParsedItemsPath(context);
+
+  const { data, error } = await supabase.storage
+    .from(PARSED_ITEMS_BUCKET)
+    .download(path);
+
+  if (error || !data) {
+    throw new Error(
+      `Staged items for job ${context.jobId} not found at ${path} (chunk ${(context.chunkIndex || 0) + 1}): ${error?.message || 'empty response'}`
+    );
+  }
+
+  const staged = JSON.parse(await data.text());
+
+  if (!Array.isArray(staged.items)) {
+    throw new Error(`Staged items for job ${context.jobId} are corrupt - expected an items array`);
+  }
+
+  console.log(`📂 Loaded ${staged.items.length} staged items from ${path}`);
+
+  return {
+    items: staged.items,
+    totalItems: staged.items.length,
+    headers: staged.headers || [],
+    sheets: staged.sheets,
+    files: staged.files,
+    extractor: staged.extractor
+  };
+}
+
+// ============================================================================
+// DURABLE CHUNK QUEUE (processing_job_chunks - lease / heartbeat / sweeper)
+// ============================================================================
+
+const CHUNK_SIZE = 100; // Process 100 items per chunk (safe for timeout with semantic search + savings calc)
+const CHUNK_LEASE_SECONDS = 300; // Lease outlives a normal chunk; heartbeats extend it while we work
+const CHUNK_HEARTBEAT_MS = 60 * 1000;
+const CHUNK_MAX_ATTEMPTS = 3;
+
+interface ProcessingChunk {
+  id: string;
+  processing_job_id: string;
+  chunk_index: number;
+  start_index: number;
+  end_index: number;
+  attempts: number;
+}
+
+/**
+ * A worker's lease on a chunk. `lost` is set by the heartbeat once another worker owns the chunk.
+ */
+interface ChunkLease {
+  chunkId: string;
+  chunkIndex: number;
+  workerId: string;
+  lost: boolean;
+}
+
+/**
+ * Thrown when a worker finds it no longer holds its chunk's lease - its work must be discarded
+ */
+class ChunkLeaseLostError extends Error {
+  constructor(chunkIndex: number) {
+    super(`Lost lease on chunk ${chunkIndex + 1}`);
+    this.name = 'ChunkLeaseLostError';
+  }
+}
+
+/**
+ * Extend the lease, marking it lost if another worker owns the chunk now
+ */
+async function heartbeatChunkLease(lease: ChunkLease): Promise<boolean> {
+  if (lease.lost) return false;
+
+  const { data: stillLeased, error } = await supabase.rpc('heartbeat_processing_chunk', {
+    p_chunk_id: lease.chunkId,
+    p_worker_id: lease.workerId,
+    p_lease_seconds: CHUNK_LEASE_SECONDS
+  });
+  if (error) {
+    // Can't tell whether we still hold it - the next check (or complete_processing_chunk) decides
+    console.warn(`⚠️  Heartbeat failed for chunk ${lease.chunkIndex + 1}:`, error.message);
+    return true;
+  }
+  if (!stillLeased) {
+    console.warn(`⚠️  Lost lease on chunk ${lease.chunkIndex + 1} - reassigned to another worker`);
+    lease.lost = true;
+  }
+  return !lease.lost;
+}
+
+/**
+ * Stop working on a chunk whose lease was lost. Called before every batch save.
+ */
+async function assertChunkLease(lease: ChunkLease) {
+  if (!(await heartbeatChunkLease(lease))) {
+    throw new ChunkLeaseLostError(lease.chunkIndex);
+  }
+}
+
+/**
+ * Mark a job failed with the given error
+ */
+async function markJobFailed(jobId: string, error: unknown) {
+  await updateProgress(jobId, 0, 'Failed', {
+    status: 'failed',
+    error_message: error instanceof Error ? error.message : 'Unknown error',
+    completed_at: new Date().toISOString()
+  });
+}
+
+/**
+ * Main processing orchestrator: download and parse once, validate, queue the
+ * chunks, then start working the queue in this invocation
+ */
+async function processDocument(context: ProcessingContext) {
+  console.log('🚀 Processing job:', context.jobId);
+
+  try {
+    // Step 1: Download and parse file (once per job)
+    await updateProgress(context.jobId, 5, 'Downloading file...');
+    const fileContent = await downloadFile(context.fileUrl, context.fileName);
+    
+    await updateProgress(context.jobId, 10, 'Parsing document...');
+    const parsedData = await parseDocument(fileContent, context.fileName, {
+      columnMapping: context.columnMapping,
+      customerCompany: context.customerInfo.company
+    });
+
+    // Period the document covers (order dates or a date range in the file name)
+    const usagePeriod = getUsagePeriod(parsedData.items, [
+      context.fileName,
+      ...(parsedData.files || []).map(file => file.file_name)
+    ]);
+    context.usagePeriod = usagePeriod;
+
+    // Merge repeated rows (same SKU + UOM) so each unique product is matched once
+    const consolidation = consolidateLineItems(parsedData.items, context.consolidationRules || DEFAULT_CONSOLIDATION_RULES);
+    parsedData.items = consolidation.items;
+    parsedData.totalItems = consolidation.items.length;
+
+    // Stage the normalized items so chunk workers never re-parse the file
+    const parsedItemsPath = await saveParsedItems(context, parsedData);
+
+    await updateJobMetadata(context.jobId, {
+      total_items: parsedData.items.length,
+      headers: parsedData.headers,
+      sheets: parsedData.sheets,
+      files: parsedData.files,
+      applied_column_mappings: parsedData.columnMappings,
+      extractor: parsedData.extractor,
+      consolidation: consolidation.summary,
+      usage_period: usagePeriod,
+      parsed_items_path: parsedItemsPath,
+      parsed_at: new Date().toISOString()
+    });
+
+    context.totalItems = parsedData.items.length;
+
+    // Step 2: Validate before any matching work is queued
+    await validateParsedItems(parsedData.items.slice(0, CHUNK_SIZE), context);
+
+    // Step 3: Queue one work item per chunk
+    const { data: totalChunks, error: enqueueError } = await supabase.rpc('enqueue_processing_chunks', {
+      p_job_id: context.jobId,
+      p_total_items: parsedData.items.length,
+      p_chunk_size: CHUNK_SIZE
+    });
+
+    if (enqueueError) {
+      throw new Error(`Failed to queue chunks: ${enqueueError.message}`);
+    }
+
+    // Workers rebuild their context from here instead of from the request body
+    const { chunkIndex: _chunkIndex, itemsProcessed: _itemsProcessed, ...queueContext } = context;
+    await updateJobMetadata(context.jobId, {
+      queue_context: queueContext,
+      total_chunks: totalChunks,
+      chunk_size: CHUNK_SIZE
+    });
+
+    await updateProgress(context.jobId, 15, `Extracted ${parsedData.items.length} items - starting batch processing`);
+    console.log(`📬 Queued ${totalChunks} chunk(s) for job:`, context.jobId);
+
+  } catch (error) {
+    console.error('❌ Processing error:', error);
+    await markJobFailed(context.jobId, error);
+    throw error;
+  }
+
+  return await processNextChunk(context.jobId);
+}
+
+/**
+ * Validate extraction quality and minimum data requirements on the first chunk of items.
+ * Fails the job (with validation details in metadata) if the document can't be processed.
+ */
+async function validateParsedItems(items: EnhancedExtractedItem[], context: ProcessingContext) {
+  const extractionValidation = validateExtraction(items);
+  console.log(`📋 Extraction validation: ${extractionValidation.quality}`);
+  
+  // NEW: Validate minimum data requirements
+  const dataValidation = validateMinimumDataRequirements(items);
+  console.log(`📋 Data requirements validation: ${dataValidation.isValid ? 'PASSED' : 'FAILED'}`);
+  console.log(`   Items with complete data: ${dataValidation.itemsWithCompleteData}/${items.length}`);
+  console.log(`   Missing identifiers: ${dataValidation.missingDataDetails.missingIdentifier}`);
+  console.log(`   Missing price: ${dataValidation.missingDataDetails.missingPrice}`);
+  console.log(`   Missing quantity: ${dataValidation.missingDataDetails.missingQuantity}`);
+  
+  // If validation fails, stop processing immediately
+  if (!dataValidation.isValid) {
+    console.error('❌ Document validation failed:', dataValidation.errorMessage);
+    
+    await updateProgress(context.jobId, 0, 'Validation failed', {
+      status: 'failed',
+      error_message: dataValidation.errorMessage,
+      completed_at: new Date().toISOString()
+    });
+    await updateJobMetadata(context.jobId, {
+      validation_failed: true,
+      data_validation: dataValidation
+    });
+    
+    throw new Error(dataValidation.errorMessage);
+  }
+  
+  // Store validation in job metadata (optional - for tracking)
+  try {
+    await updateJobMetadata(context.jobId, {
+      extraction_validation: extractionValidation,
+      data_validation: dataValidation,
+      updated_at: new Date().toISOString()
+    });
+  } catch (err) {
+    console.error('Failed to store extraction validation:', err);
+  }
+}
+
+/**
+ * Rebuild the processing context a worker needs from job metadata
+ */
+async function loadQueueContext(jobId: string): Promise<ProcessingContext> {
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .select('metadata')
+    .eq('id', jobId)
+    .single();
+
+  if (error || !job?.metadata?.queue_context) {
+    throw new Error(`No queue context found for job ${jobId}: ${error?.message || 'metadata.queue_context missing'}`);
+  }
+
+  return { ...job.metadata.queue_context };
+}
+
+/**
+ * Worker: claim the next pending chunk (of one job, or of any job), match it
+ * while heartbeating the lease, and finalize the job once its last chunk completes.
+ * A crashed worker simply stops heartbeating - the sweeper requeues its chunk.
+ */
+async function processNextChunk(jobId?: string) {
+  const workerId = crypto.randomUUID();
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_next_processing_chunk', {
+    p_worker_id: workerId,
+    p_lease_seconds: CHUNK_LEASE_SECONDS,
+    p_job_id: jobId || null
+  });
+
+  if (claimError) {
+    throw new Error(`Failed to claim chunk: ${claimError.message}`);
+  }
+
+  const chunk: ProcessingChunk | undefined = claimed?.[0];
+  if (!chunk) {
+    console.log('💤 No pending chunks to claim');
+    return { success: true, status: 'idle' };
+  }
+
+  const context = await loadQueueContext(chunk.processing_job_id);
+  const lease: ChunkLease = { chunkId: chunk.id, chunkIndex: chunk.chunk_index, workerId, lost: false };
+  context.chunkIndex = chunk.chunk_index;
+  context.chunkLease = lease;
+
+  console.log(`🚀 Worker ${workerId} claimed chunk ${chunk.chunk_index + 1} (attempt ${chunk.attempts}) for job:`, context.jobId);
+
+  // A lost lease stops matching at the next batch (assertChunkLease in matchProducts)
+  const heartbeat = setInterval(() => heartbeatChunkLease(lease), CHUNK_HEARTBEAT_MS);
+
+  let remaining: number;
+
+  try {
+    const parsedData = await loadParsedItems(context);
+    context.totalItems = parsedData.items.length;
+
+    // A previous attempt may have saved part of this chunk before it died
+    await clearChunkItems(context.jobId, chunk.chunk_index);
+
+    const matchStats = await processChunk(parsedData.items, chunk, context);
+
+    // Throughput of this run - summed into job metadata when the job is finalized
+    await supabase
+      .from('processing_job_chunks')
+      .update({ match_stats: matchStats })
+      .eq('id', chunk.id);
+
+    const { data, error: completeError } = await supabase.rpc('complete_processing_chunk', {
+      p_chunk_id: chunk.id,
+      p_worker_id: workerId
+    });
+
+    if (completeError) {
+      throw new Error(`Failed to complete chunk: ${completeError.message}`);
+    }
+
+    remaining = data;
+
+  } catch (error) {
+    if (error instanceof ChunkLeaseLostError) {
+      // Another worker re-runs the chunk from scratch - drop what we saved of it
+      console.warn(`⚠️  Stopped chunk ${chunk.chunk_index + 1} - lease was lost`);
+      await discardChunkItems(context.jobId, chunk.chunk_index, workerId);
+      return { success: false, status: 'lease_lost', chunk: chunk.chunk_index };
+    }
+
+    console.error(`❌ Chunk ${chunk.chunk_index + 1} failed:`, error);
+
+    const { data: chunkStatus } = await supabase.rpc('fail_processing_chunk', {
+      p_chunk_id: chunk.id,
+      p_worker_id: workerId,
+      p_error: error instanceof Error ? error.message : 'Unknown error',
+      p_max_attempts: CHUNK_MAX_ATTEMPTS
+    });
+
+    if (chunkStatus === 'failed') {
+      await markJobFailed(context.jobId, error);
+      throw error;
+    }
+
+    // Back in the queue - hand it to a fresh invocation
+    await kickWorker(context.jobId);
+    return { success: false, status: 'chunk_requeued', chunk: chunk.chunk_index };
+
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  if (remaining < 0) {
+    // Our lease expired mid-chunk and another worker owns it now
+    console.warn(`⚠️  Discarding result of chunk ${chunk.chunk_index + 1} - lease was lost`);
+    await discardChunkItems(context.jobId, chunk.chunk_index, workerId);
+    return { success: false, status: 'lease_lost', chunk: chunk.chunk_index };
+  }
+
+  if (remaining > 0) {
+    const totalChunks = Math.ceil((context.totalItems || 0) / CHUNK_SIZE);
+    const itemsProcessed = Math.min((totalChunks - remaining) * CHUNK_SIZE, context.totalItems || 0);
+    const progress = 15 + Math.floor((itemsProcessed / (context.totalItems || 1)) * 45); // 15-60% for matching
+    
+    await updateProgress(
+      context.jobId, 
+      progress, 
+      `Matched ${itemsProcessed}/${context.totalItems} products - continuing...`
+    );
+
+    console.log(`⏭️  ${remaining} chunk(s) remaining for job:`, context.jobId);
+    await kickWorker(context.jobId);
+
+    return { success: true, status: 'chunking', remaining };
+  }
+
+  return await finalizeJob(context);
+}
+
+/**
+ * Continue a job re-opened by retry-processing: work its remaining chunks, or go
+ * straight to savings and report generation if every chunk is already matched
+ */
+async function resumeJob(jobId: string) {
+  const { count: pendingChunks, error } = await supabase
+    .from('processing_job_chunks')
+    .select('id', { count: 'exact', head: true })
+    .eq('processing_job_id', jobId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new Error(`Failed to read chunk queue for job ${jobId}: ${error.message}`);
+  }
+
+  if (pendingChunks && pendingChunks > 0) {
+    console.log(`🔁 Resuming job ${jobId}: ${pendingChunks} chunk(s) left to match`);
+    return await processNextChunk(jobId);
+  }
+
+  console.log(`🔁 Resuming job ${jobId}: all chunks matched, regenerating savings and reports`);
+  return await finalizeJob(await loadQueueContext(jobId));
+}
+
+/**
+ * Re-run savings and both reports after a reviewer resolved unmatched rows (match-review).
+ * The matched rows are kept; the customer is not emailed again.
+ */
+async function reanalyzeJob(jobId: string) {
+  console.log(`🧑‍⚖️ Re-analyzing job ${jobId} after match review`);
+  return await finalizeJob(await loadQueueContext(jobId), { notify: false });
+}
+
+/**
+ * Delete rows a previous attempt at this chunk already saved
+ */
+async function clearChunkItems(jobId: string, chunkIndex: number) {
+  const { error } = await supabase
+    .from('order_items_extracted')
+    .delete()
+    .eq('processing_job_id', jobId)
+    .eq('chunk_index', chunkIndex);
+
+  if (error) {
+    throw new Error(`Failed to clear partial chunk ${chunkIndex + 1}: ${error.message}`);
+  }
+}
+
+/**
+ * Delete the rows this worker saved for a chunk it lost the lease on. The new lease
+ * holder cleared the chunk before it started, so anything of ours left there is a duplicate.
+ */
+async function discardChunkItems(jobId: string, chunkIndex: number, workerId: string) {
+  const { error } = await supabase
+    .from('order_items_extracted')
+    .delete()
+    .eq('processing_job_id', jobId)
+    .eq('chunk_index', chunkIndex)
+    .eq('worker_id', workerId);
+
+  if (error) {
+    // complete_processing_chunk() removes them when the new lease holder finishes the chunk
+    console.error(`Failed to discard rows of lost chunk ${chunkIndex + 1}:`, error);
+  }
+}
+
+/**
+ * Start a worker invocation for the job. Best-effort only: the chunk is already
+ * durable in processing_job_chunks, so if this fails the sweeper picks it up.
+ */
+async function kickWorker(jobId: string) {
+  const functionUrl = `${supabaseUrl}/functions/v1/process-document`;
+
+  try {
+    const response = await fetch(functionUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        _worker: true,
+        jobId
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`${response.status} - ${await response.text()}`);
+    }
+  } catch (error) {
+    console.warn(`⚠️  Failed to start worker for job ${jobId} - sweeper will resume it:`, error);
+  }
+}
+
+/**
+ * Sweeper: requeue chunks whose lease expired, fail jobs whose chunks ran out of
+ * attempts, and start a worker for every job that still has pending chunks
+ */
+async function sweepProcessingQueue() {
+  const { data: requeued, error: requeueError } = await supabase.rpc('requeue_expired_processing_chunks', {
+    p_max_attempts: CHUNK_MAX_ATTEMPTS
+  });
+
+  if (requeueError) {
+    throw new Error(`Failed to requeue expired chunks: ${requeueError.message}`);
+  }
+
+  for (const row of requeued || []) {
+    console.log(`🧹 Job ${row.processing_job_id}: ${row.requeued} chunk(s) requeued, ${row.failed} failed`);
+
+    if (row.failed > 0) {
+      await markJobFailed(
+        row.processing_job_id,
+        new Error(`Processing stopped responding ${CHUNK_MAX_ATTEMPTS} times on the same chunk`)
+      );
+    }
+  }
+
+  const { data: pendingChunks, error: pendingError } = await supabase
+    .from('processing_job_chunks')
+    .select('processing_job_id, processing_jobs!inner(status)')
+    .eq('status', 'pending')
+    .eq('processing_jobs.status', 'processing');
+
+  if (pendingError) {
+    throw new Error(`Failed to list pending chunks: ${pendingError.message}`);
+  }
+
+  const jobIds = [...new Set<string>((pendingChunks || []).map((c: { processing_job_id: string }) => c.processing_job_id))];
+
+  for (const jobId of jobIds) {
+    await kickWorker(jobId);
+  }
+
+  return { success: true, requeued: requeued?.length || 0, resumed: jobIds.length };
+}
+
+/**
+ * Sum the chunks' match_stats into processing_jobs.metadata.match_throughput (non-critical)
+ */
+async function recordMatchThroughput(jobId: string) {
+  const { data: chunks, error } = await supabase
+    .from('processing_job_chunks')
+    .select('match_stats')
+    .eq('processing_job_id', jobId)
+    .not('match_stats', 'is', null);
+
+  if (error || !chunks || chunks.length === 0) {
+    if (error) console.error('Error loading chunk match stats:', error);
+    return;
+  }
+
+  const totals = chunks.reduce((sum, { match_stats }: { match_stats: ChunkMatchStats }) => ({
+    items: sum.items + match_stats.items,
+    batch_matched: sum.batch_matched + match_stats.batch_matched,
+    per_item_matched: sum.per_item_matched + match_stats.per_item_matched,
+    unmatched: sum.unmatched + match_stats.unmatched,
+    batch_ms: sum.batch_ms + match_stats.batch_ms,
+    duration_ms: sum.duration_ms + match_stats.duration_ms
+  }), { items: 0, batch_matched: 0, per_item_matched: 0, unmatched: 0, batch_ms: 0, duration_ms: 0 });
+
+  const matchThroughput = {
+    chunks: chunks.length,
+    ...totals,
+    batch_match_rate: totals.items > 0 ? Math.round((totals.batch_matched / totals.items) * 1000) / 1000 : 0,
+    items_per_second: Math.round((totals.items / Math.max(totals.duration_ms, 1)) * 1000 * 10) / 10
+  };
+
+  console.log(`⚡ Matching throughput: ${matchThroughput.items_per_second} items/s over ${matchThroughput.chunks} chunk(s), ${matchThroughput.batch_matched}/${matchThroughput.items} set-based`);
+  await updateJobMetadata(jobId, { match_throughput: matchThroughput });
+}
+
+/**
+ * All chunks matched: calculate savings, generate reports and complete the job
+ */
+async function finalizeJob(context: ProcessingContext, options: { notify?: boolean } = {}) {
+  try {
+    console.log('✅ All matching complete, calculating savings...');
+    await updateProgress(context.jobId, 60, 'All items matched! Calculating savings...');
+
+    // Get all matched items from database WITH matched product details (paged past the API row limit)
+    const { data: allMatchedItems, error: fetchError } = await selectAllPages<SavingsLineItem>((from, to) => supabase
+      .from('order_items_extracted')
+      .select(`
+        *,
+        matched_product:matched_product_id (
+          id,
+          ase_clover_number,
+          product_name,
+          brand,
+          model,
+          category,
+          size_category,
+          color_type,
+          page_yield,
+          ase_price,
+          partner_list_price,
+          contract_status,
+          family_series,
+          yield_class,
+          compatibility_group,
+          compatible_printers,
+          pack_quantity,
+          uom,
+          active,
+          wholesaler_sku,
+          oem_number,
+          staples_sku,
+          depot_sku,
+          ase_oem_number
+        )
+      `)
+      .eq('processing_job_id', context.jobId)
+      .or('review_status.is.null,review_status.neq.not_supply') // Reviewer said "not a supply item"
+      .order('id')
+      .range(from, to));
+
+    if (fetchError) {
+      console.error('❌ Error fetching matched items:', fetchError);
+      throw new Error(`Failed to fetch matched items: ${fetchError.message}`);
+    }
+
+    if (allMatchedItems.length === 0) {
+      throw new Error('No matched items found in database');
+    }
+
+    console.log(`📊 Retrieved ${allMatchedItems.length} items from database for savings calculation`);
+
+    await recordMatchThroughput(context.jobId);
+
+    // Step 3: Calculate savings (60-78%)
+    await updateProgress(context.jobId, 65, 'Analyzing savings opportunities...');
+    await recordObservedPrices(allMatchedItems, context.jobId, context.customerInfo.company);
+    const pricing = await loadPriceBooks(context.customerInfo.company, new Date().toISOString().slice(0, 10));
+    const catalog = await loadSavingsCatalog(allMatchedItems, pricing, context.printerFleet);
+    const savingsAnalysis = calculateSavings(allMatchedItems, catalog, context.usagePeriod);
+    await checkSavingsIntegrity(context.jobId, allMatchedItems, savingsAnalysis);
+    
+    await updateProgress(context.jobId, 72, `Saving savings for ${savingsAnalysis.line_results.length} products...`);
+    await saveSavingsResults(context.jobId, savingsAnalysis.line_results);
+    
+    // VALIDATION: Check if we have any savings
+    // If total savings is $0, this means either:
+    // 1. No items could be matched to our catalog (wrong document type), OR
+    // 2. All matched items are already at or below our prices (no opportunity)
+    // In both cases, we should fail with the same message as document validation
+    if (savingsAnalysis.summary.savings_breakdown.total_savings === 0) {
+      console.log('⚠️  VALIDATION FAILED: No savings opportunities found');
+      console.log(`   Matched items: ${savingsAnalysis.summary.items_with_savings}`);
+      console.log(`   Total items: ${savingsAnalysis.summary.total_items}`);
+      
+      // Use the same error message as document validation for consistency
+      throw new Error(
+        `We're unable to calculate savings because your document is missing required information. Please upload a buy sheet, order invoice, quote, or item usage report that includes Item Name/SKU and Quantity for each product.`
+      );
+    }
+    
+    await updateProgress(context.jobId, 78, 'Preparing report data...');
+
+    // Step 4: Generate PDF reports - customer and internal (78-93%)
+    const { customerUrl, internalUrl } = await generateReport(savingsAnalysis, context);
+    
+    await updateProgress(context.jobId, 93, 'Finalizing reports...');
+
+    // Step 5: Save final results (95-100%)
+    await saveFinalReport(savingsAnalysis, context, customerUrl, internalUrl, options.notify !== false);
+    
+    await updateProgress(context.jobId, 100, 'Complete', {
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      report_url: customerUrl,
+      savings_analysis: savingsAnalysis.summary
+    });
+
+    console.log('✅ Processing complete:', context.jobId);
+    return { success: true, status: 'completed' };
+
+  } catch (error) {
+    console.error('❌ Processing error:', error);
+    await markJobFailed(context.jobId, error);
+    throw error;
   }
 }
 
@@ -607,65 +1063,17 @@ async function processDocument(context: ProcessingContext) {
  */
 async function processChunk(
   allItems: any[], 
-  chunkIndex: number, 
-  chunkSize: number,
+  chunk: Pick<ProcessingChunk, 'chunk_index' | 'start_index' | 'end_index'>,
   context: ProcessingContext
 ) {
-  const startIdx = chunkIndex * chunkSize;
-  const endIdx = Math.min(startIdx + chunkSize, allItems.length);
-  const chunk = allItems.slice(startIdx, endIdx);
-  
-  console.log(`\n📦 Processing chunk ${chunkIndex + 1}: items ${startIdx + 1}-${endIdx} of ${allItems.length}`);
-  
-  // ENHANCEMENT: Validate extraction quality (only on first chunk)
-  if (chunkIndex === 0) {
-    const extractionValidation = validateExtraction(chunk);
-    console.log(`📋 Extraction validation: ${extractionValidation.quality}`);
-    
-    // NEW: Validate minimum data requirements
-    const dataValidation = validateMinimumDataRequirements(chunk);
-    console.log(`📋 Data requirements validation: ${dataValidation.isValid ? 'PASSED' : 'FAILED'}`);
-    console.log(`   Items with complete data: ${dataValidation.itemsWithCompleteData}/${chunk.length}`);
-    console.log(`   Missing identifiers: ${dataValidation.missingDataDetails.missingIdentifier}`);
-    console.log(`   Missing price: ${dataValidation.missingDataDetails.missingPrice}`);
-    console.log(`   Missing quantity: ${dataValidation.missingDataDetails.missingQuantity}`);
-    
-    // If validation fails, stop processing immediately
-    if (!dataValidation.isValid) {
-      console.error('❌ Document validation failed:', dataValidation.errorMessage);
-      
-      await updateProgress(context.jobId, 0, 'Validation failed', {
-        status: 'failed',
-        error_message: dataValidation.errorMessage,
-        completed_at: new Date().toISOString(),
-        metadata: {
-          validation_failed: true,
-          data_validation: dataValidation
-        }
-      });
-      
-      throw new Error(dataValidation.errorMessage);
-    }
-    
-    // Store validation in job metadata (optional - for tracking)
-    try {
-      await supabase
-        .from('processing_jobs')
-        .update({
-          metadata: {
-            extraction_validation: extractionValidation,
-            data_validation: dataValidation,
-            updated_at: new Date().toISOString()
-          }
-        })
-        .eq('id', context.jobId);
-    } catch (err) {
-      console.error('Failed to store extraction validation:', err);
-    }
-  }
+  const startIdx = chunk.start_index;
+  const endIdx = Math.min(chunk.end_index, allItems.length);
+  const chunkItems = allItems.slice(startIdx, endIdx);
+  
+  console.log(`\n📦 Processing chunk ${chunk.chunk_index + 1}: items ${startIdx + 1}-${endIdx} of ${allItems.length}`);
   
   // Match products in this chunk (pass context for granular progress updates)
-  const matchedChunk = await matchProducts(chunk, context.jobId, startIdx, context);
+  const { matched: matchedChunk, stats } = await matchProducts(chunkItems, context.jobId, startIdx, context);
   
   // ENHANCEMENT: Validate matching quality
   const matchingValidation = validateMatching(matchedChunk);
@@ -675,200 +1083,303 @@ async function processChunk(
   if (matchingValidation.quality === 'poor') {
     console.warn(`⚠️  Poor matching quality detected - consider manual review`);
   }
+
+  return stats;
 }
 
+type DocumentFormat = 'spreadsheet' | 'pdf' | 'image' | 'archive' | 'delimited_text';
+
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xls', '.ods']; // Read with SheetJS
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.heic', '.heif']; // Photos/scans of printed invoices
+const DELIMITED_TEXT_EXTENSIONS = ['.csv', '.tsv', '.txt', '.psv'];
+
 /**
- * Self-invoke the function for next chunk (async continuation) with retry logic
+ * Detect how a file is read from its extension. Anything else is delimited text
+ * (.csv, .tsv, .txt, pipe-delimited ERP exports) - the delimiter is detected from the content
  */
-async function invokeSelf(context: ProcessingContext, retries = 3) {
-  const functionUrl = `${supabaseUrl}/functions/v1/process-document`;
-  
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      console.log(`🔄 Invoking next chunk (attempt ${attempt}/${retries})...`);
-      
-      const response = await fetch(functionUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${supabaseServiceKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          submissionId: context.submissionId,
-          _internal: true,
-          _context: context
-        })
-      });
+function getDocumentFormat(fileName: string): DocumentFormat {
+  const lowerName = fileName.toLowerCase();
+  if (SPREADSHEET_EXTENSIONS.some(ext => lowerName.endsWith(ext))) return 'spreadsheet';
+  if (lowerName.endsWith('.pdf')) return 'pdf';
+  if (IMAGE_EXTENSIONS.some(ext => lowerName.endsWith(ext))) return 'image';
+  if (lowerName.endsWith('.zip')) return 'archive';
+  return 'delimited_text';
+}
+
+// ============================================================================
+// MULTI-FILE SUBMISSIONS (.zip - e.g. a year of monthly order exports)
+// ============================================================================
+
+const ARCHIVE_MAX_FILES = 50;
+const ARCHIVE_MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+interface SubmissionFile {
+  fileName: string; // Path inside the archive
+  content: string | ArrayBuffer;
+}
+
+/**
+ * Unpack a .zip submission into the documents it contains. Folders, macOS metadata,
+ * hidden files, nested archives and unsupported types are skipped. Entries are read
+ * the way downloadFile() reads uploads: delimited text as a string, the rest binary.
+ */
+function expandArchive(archive: ArrayBuffer): SubmissionFile[] {
+  const skipped: string[] = [];
+  let uncompressedBytes = 0;
+  
+  const entries = unzipSync(new Uint8Array(archive), {
+    filter: (entry: { name: string; originalSize: number }) => {
+      const baseName = entry.name.split('/').pop() || '';
+      if (!baseName || entry.name.startsWith('__MACOSX/') || baseName.startsWith('.')) return false;
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Self-invocation failed: ${response.status} - ${errorText}`);
+      const lowerName = baseName.toLowerCase();
+      const isSupported = [...SPREADSHEET_EXTENSIONS, ...IMAGE_EXTENSIONS, ...DELIMITED_TEXT_EXTENSIONS, '.pdf']
+        .some(ext => lowerName.endsWith(ext));
+      if (!isSupported) {
+        skipped.push(entry.name);
+        return false;
       }
       
-      const result = await response.json();
-      console.log(`✅ Successfully invoked next chunk:`, result);
-      return result;
-      
+      uncompressedBytes += entry.originalSize;
+      if (uncompressedBytes > ARCHIVE_MAX_UNCOMPRESSED_BYTES) {
+        throw new Error(`Archive is too large - files may total at most ${ARCHIVE_MAX_UNCOMPRESSED_BYTES / 1024 / 1024}MB uncompressed`);
+      }
+      return true;
+    }
+  }) as Record<string, Uint8Array>;
+  
+  if (skipped.length > 0) {
+    console.warn(`⚠️ Skipped ${skipped.length} unsupported file(s) in archive: ${skipped.join(', ')}`);
+  }
+  
+  const files = Object.entries(entries)
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([path, bytes]) => ({
+      fileName: path,
+      content: getDocumentFormat(path) === 'delimited_text'
+        ? new TextDecoder().decode(bytes)
+        : bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+    }));
+  
+  if (files.length === 0) {
+    throw new Error('Archive contains no supported documents (Excel, ODS, CSV/TSV/TXT, PDF or images)');
+  }
+  if (files.length > ARCHIVE_MAX_FILES) {
+    throw new Error(`Archive contains ${files.length} documents - at most ${ARCHIVE_MAX_FILES} can be processed in one submission`);
+  }
+  
+  console.log(`🗜️ Archive contains ${files.length} document(s): ${files.map(file => file.fileName).join(', ')}`);
+  return files;
+}
+
+/**
+ * Parse every file of a .zip submission independently (each gets its own header
+ * detection, column mapping and extractor) and merge the items into one document,
+ * tagged with the file they came from, for a single savings analysis
+ */
+async function parseArchive(archive: ArrayBuffer, options: ParseOptions): Promise<ParsedDocument> {
+  const items: EnhancedExtractedItem[] = [];
+  const sheets: ParsedSheet[] = [];
+  const columnMappings: AppliedColumnMapping[] = [];
+  const files: ParsedFile[] = [];
+  let headers: string[] = [];
+  
+  for (const file of expandArchive(archive)) {
+    console.log(`\n🗜️ Parsing ${file.fileName}...`);
+    let parsed: ParsedDocument;
+    try {
+      parsed = await parseDocument(file.content, file.fileName, { ...options, sourceFile: file.fileName });
     } catch (error) {
-      console.error(`❌ Self-invocation attempt ${attempt} failed:`, error);
-      
-      if (attempt === retries) {
-        // On final failure, update job to show error
-        await supabase
-          .from('processing_jobs')
-          .update({
-            status: 'failed',
-            error_message: `Failed to continue processing after chunk ${context.chunkIndex}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', context.jobId);
-        
-        throw error;
+      throw new Error(`Failed to parse ${file.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    
+    for (const item of parsed.items) {
+      item.source_file = file.fileName;
+    }
+    if (headers.length === 0) headers = parsed.headers;
+    items.push(...parsed.items);
+    sheets.push(...(parsed.sheets || []).map(sheet => ({ ...sheet, source_file: file.fileName })));
+    columnMappings.push(...(parsed.columnMappings || []));
+    files.push({ file_name: file.fileName, extractor: parsed.extractor, item_count: parsed.items.length });
+  }
+  
+  console.log(`✅ Parsed ${items.length} items from ${files.length} file(s)`);
+  
+  return {
+    items,
+    totalItems: items.length,
+    headers,
+    sheets: sheets.length > 0 ? sheets : undefined,
+    columnMappings,
+    files,
+    extractor: 'archive'
+  };
+}
+
+/**
+ * Download file from Supabase Storage
+ */
+async function downloadFile(fileUrl: string, fileName: string): Promise<string | ArrayBuffer> {
+  const response = await fetch(fileUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.statusText}`);
+  }
+  
+  // Spreadsheets, PDFs and images are binary; delimited text is read as a string
+  if (getDocumentFormat(fileName) !== 'delimited_text') {
+    return await response.arrayBuffer();
+  }
+  
+  return await response.text();
+}
+
+// ============================================================================
+// PDF VISION EXTRACTION (page batches - scanned / unstructured PDFs)
+// ============================================================================
+
+const VISION_PAGES_PER_BATCH = 4; // Pages per Responses call - long invoices get truncated in one call
+const VISION_BATCH_CONCURRENCY = 3;
+
+/**
+ * Split a PDF into page batches for vision extraction. Consecutive batches share one
+ * page so a table row cut by a page break is seen whole by at least one batch.
+ */
+async function splitPdfIntoPageBatches(pdfBuffer: ArrayBuffer): Promise<PdfPageBatch[]> {
+  const source = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+
+  if (pageCount <= VISION_PAGES_PER_BATCH) {
+    return [{ firstPage: 1, lastPage: pageCount, pdf: new Uint8Array(pdfBuffer) }];
+  }
+
+  const batches: PdfPageBatch[] = [];
+  let start = 0;
+  while (true) {
+    const end = Math.min(start + VISION_PAGES_PER_BATCH, pageCount);
+    const batchDoc = await PDFDocument.create();
+    const pageIndices = Array.from({ length: end - start }, (_, i) => start + i);
+    const pages = await batchDoc.copyPages(source, pageIndices);
+    pages.forEach(page => batchDoc.addPage(page));
+    batches.push({ firstPage: start + 1, lastPage: end, pdf: await batchDoc.save() });
+
+    if (end >= pageCount) break;
+    start = end - 1; // Overlap the boundary page
+  }
+
+  console.log(`📄 Split ${pageCount}-page PDF into ${batches.length} batches of up to ${VISION_PAGES_PER_BATCH} pages`);
+  return batches;
+}
+
+/**
+ * Key used to recognize the same line item extracted by two batches
+ */
+function getVisionItemKey(item: VisionLineItem): string {
+  const identifier = [item.oem_number, item.sku, item.vendor_sku, item.upc].find(value => value && String(value).trim()) ||
+                     item.product_name || '';
+  return `${String(identifier).toLowerCase().replace(/[^a-z0-9]/g, '')}|${item.quantity ?? ''}`;
+}
+
+/**
+ * Merge page-batch results in page order. Items on a boundary page are extracted by both
+ * batches that share it - each one found by the earlier batch is dropped from the later one.
+ */
+function mergeVisionPageBatches(results: { batch: PdfPageBatch; items: VisionLineItem[] }[]): VisionLineItem[] {
+  const merged: VisionLineItem[] = [];
+  let duplicates = 0;
+
+  for (const [batchIdx, { batch, items }] of results.entries()) {
+    const boundaryPage = batchIdx > 0 ? batch.firstPage : null;
+    const earlierKeys = merged
+      .filter(item => item.source_page === boundaryPage)
+      .map(getVisionItemKey);
+
+    for (const item of items) {
+      if (item.source_page === boundaryPage) {
+        const keyIdx = earlierKeys.indexOf(getVisionItemKey(item));
+        if (keyIdx >= 0) {
+          earlierKeys.splice(keyIdx, 1);
+          duplicates++;
+          continue;
+        }
       }
-      
-      // Exponential backoff: 2s, 4s, 8s
-      const delay = Math.pow(2, attempt) * 1000;
-      console.log(`⏳ Retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      merged.push(item);
     }
   }
+
+  if (duplicates > 0) {
+    console.log(`🔁 Dropped ${duplicates} duplicate item(s) from overlapping boundary pages`);
+  }
+
+  return merged;
 }
 
+const IMAGE_PDF_MAX_PAGE_SIZE = 1584; // pt (22in) - phone photos are scaled down to fit
+
 /**
- * Download file from Supabase Storage
+ * Wrap an uploaded photo/scan in a one-page PDF so it goes through the same vision
+ * extraction (prompt, schema, page handling) as PDFs. HEIC is converted to JPEG first.
  */
-async function downloadFile(fileUrl: string, fileName: string): Promise<string | ArrayBuffer> {
-  const response = await fetch(fileUrl);
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.statusText}`);
+async function convertImageToPdf(imageBuffer: ArrayBuffer, fileName: string): Promise<ArrayBuffer> {
+  const lowerName = fileName.toLowerCase();
+  let imageBytes = new Uint8Array(imageBuffer);
+  
+  if (lowerName.endsWith('.heic') || lowerName.endsWith('.heif')) {
+    console.log('🖼️ Converting HEIC image to JPEG...');
+    imageBytes = new Uint8Array(await convertHeic({ buffer: imageBytes, format: 'JPEG', quality: 0.9 }));
   }
   
-  // Check if file is Excel or PDF format (binary)
-  const isExcel = fileName.toLowerCase().endsWith('.xlsx') || 
-                  fileName.toLowerCase().endsWith('.xls');
-  const isPDF = fileName.toLowerCase().endsWith('.pdf');
+  const pdfDoc = await PDFDocument.create();
+  const image = lowerName.endsWith('.png')
+    ? await pdfDoc.embedPng(imageBytes)
+    : await pdfDoc.embedJpg(imageBytes);
   
-  if (isExcel || isPDF) {
-    return await response.arrayBuffer();
-  }
+  const scale = Math.min(1, IMAGE_PDF_MAX_PAGE_SIZE / Math.max(image.width, image.height));
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const page = pdfDoc.addPage([width, height]);
+  page.drawImage(image, { x: 0, y: 0, width, height });
   
-  return await response.text();
+  console.log(`🖼️ Wrapped ${image.width}x${image.height} image in a one-page PDF`);
+  const pdfBytes = await pdfDoc.save();
+  return pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength);
+}
+
+/**
+ * Extract line items from a PDF with GPT-5-mini vision, one page batch per Responses call.
+ * Every item carries `source_page`.
+ */
+async function extractItemsFromPDFWithVision(pdfBuffer: ArrayBuffer): Promise<VisionLineItem[]> {
+  const batches = await splitPdfIntoPageBatches(pdfBuffer);
+  const results: { batch: PdfPageBatch; items: VisionLineItem[] }[] = [];
+
+  for (let i = 0; i < batches.length; i += VISION_BATCH_CONCURRENCY) {
+    const group = batches.slice(i, i + VISION_BATCH_CONCURRENCY);
+    const groupItems = await Promise.all(group.map(batch => extractItemsFromPDFBatchWithVision(batch)));
+    group.forEach((batch, idx) => results.push({ batch, items: groupItems[idx] }));
+  }
+
+  const items = mergeVisionPageBatches(results);
+  console.log(`✅ Vision extracted ${items.length} items from ${batches[batches.length - 1].lastPage} page(s)`);
+  return items;
 }
 
 /**
- * Extract line items from PDF using OpenAI Responses API (GPT-5-mini)
- * This is the recommended approach for PDF processing with structured outputs
+ * Extract line items from one page batch with the configured extraction provider
+ * (OpenAI Responses API with GPT-5-mini by default - see shared/ai-providers.ts)
  * Returns structured data in the same format as CSV/Excel parsing
  */
-async function extractItemsFromPDFWithVision(pdfBuffer: ArrayBuffer): Promise<any[]> {
-  console.log('📄 Extracting items from PDF using GPT-5-mini Responses API...');
-  
-  let uploadedFileId = '';
+async function extractItemsFromPDFBatchWithVision(batch: PdfPageBatch): Promise<VisionLineItem[]> {
+  const pageLabel = batch.firstPage === batch.lastPage
+    ? `page ${batch.firstPage}`
+    : `pages ${batch.firstPage}-${batch.lastPage}`;
+  console.log(`📄 Extracting items from PDF ${pageLabel} using ${extractionProvider.name} extraction provider...`);
   
   try {
-    // Step 1: Upload PDF file to OpenAI
-    console.log('📤 Step 1: Uploading PDF to OpenAI Files API...');
-    const file = new File([pdfBuffer], 'document.pdf', { type: 'application/pdf' });
-    
-    const uploadedFile = await openai.files.create({
-      file: file,
-      purpose: 'user_data' // Recommended purpose for Responses API inputs
-    });
-    
-    uploadedFileId = uploadedFile.id;
-    console.log(`✅ File uploaded with ID: ${uploadedFileId}`);
-    
-    // Step 2: Call Responses API with file + structured output
-    console.log('🤖 Step 2: Calling GPT-5-mini Responses API with structured output...');
-    const response = await openai.responses.create({
-      model: 'gpt-5-mini',
-      input: [
-        {
-          role: 'user',
-          content: [
-            {
-              type: 'input_file',
-              file_id: uploadedFileId
-            },
-            {
-              type: 'input_text',
-              text: `Analyze this PDF document (quote, invoice, or purchase order) and extract ALL line items into the JSON schema.
-
-CRITICAL INSTRUCTIONS:
-1. Look for table structures with columns like: Item Description, Part Number, SKU, OEM, Quantity, Qty, Price, Unit Price, Amount, Total
-2. Extract ONLY actual product line items - skip headers, totals, subtotals, shipping, taxes, addresses, and metadata
-3. If a product has multiple identifiers (e.g., Item number "457052" AND [VPC] "5855876" AND [UPC] "734646710855"), extract all into their respective fields
-4. Parse quantities and prices as numbers (remove currency symbols like $, commas)
-5. Use null for missing/unknown values - do NOT invent data
-6. Return empty items array if no line items are found in the document
-
-Example extraction pattern:
-"TONER BLACK LEXMARK [VPC] 5855876 [UPC] 734646710855" with Item# 457052
-→ product_name: "TONER BLACK LEXMARK", sku: "457052", oem_number: "5855876", upc: "734646710855"`
-            }
-          ]
-        }
-      ],
-      text: {
-        format: {
-          type: 'json_schema',
-          name: 'LineItemsExtraction',
-          schema: {
-            type: 'object',
-            properties: {
-              items: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    product_name: { 
-                      type: 'string',
-                      description: 'Full product description or name'
-                    },
-                    sku: { 
-                      type: 'string',
-                      description: 'Primary SKU, part number, or item number. Use empty string if not available.'
-                    },
-                    oem_number: { 
-                      type: 'string',
-                      description: 'OEM/manufacturer part number (often in [VPC] brackets). Use empty string if not available.'
-                    },
-                    upc: { 
-                      type: 'string',
-                      description: 'UPC barcode (often in [UPC] brackets). Use empty string if not available.'
-                    },
-                    vendor_sku: { 
-                      type: 'string',
-                      description: 'Vendor-specific SKU if different from primary. Use empty string if not available.'
-                    },
-                    quantity: { 
-                      type: 'number',
-                      description: 'Quantity ordered'
-                    },
-                    unit_price: { 
-                      type: 'number',
-                      description: 'Unit price per item. Use 0 if not available.'
-                    },
-                    total_price: { 
-                      type: 'number',
-                      description: 'Total line amount. Use 0 if not available.'
-                    }
-                  },
-                  required: ['product_name', 'sku', 'oem_number', 'upc', 'vendor_sku', 'quantity', 'unit_price', 'total_price'],
-                  additionalProperties: false
-                }
-              }
-            },
-            required: ['items'],
-            additionalProperties: false
-          }
-        }
-      }
-    } as any);
+    // Steps 1-2: Provider uploads the batch and runs structured extraction
+    const outputText = await extractionProvider.extractDocument(buildVisionExtractionRequest(batch));
     
-    // Step 4: Parse the structured response
+    // Step 3: Parse the structured response
     console.log('📥 Step 3: Parsing structured response...');
-    const outputText = response.output_text || '';
     
     if (!outputText) {
       throw new Error('Model returned empty output_text');
@@ -876,7 +1387,7 @@ Example extraction pattern:
     
     console.log('📋 Raw response (first 500 chars):', outputText.substring(0, 500));
     
-    let result: { items: any[] };
+    let result: { items: VisionLineItem[] };
     try {
       result = JSON.parse(outputText);
     } catch (parseError) {
@@ -887,243 +1398,874 @@ Example extraction pattern:
       throw new Error(`Invalid response structure - expected {items: [...]} but got: ${JSON.stringify(result)}`);
     }
     
-    console.log(`✅ GPT-5-mini extracted ${result.items.length} items from PDF`);
+    console.log(`✅ Extracted ${result.items.length} items from PDF ${pageLabel}`);
     
     if (result.items.length > 0) {
       console.log('📋 First extracted item sample:', JSON.stringify(result.items[0], null, 2));
     }
     
-    return result.items;
+    // Keep the reported page inside this batch (single-page batches can't be wrong)
+    return result.items.map(item => ({
+      ...item,
+      source_page: item.page_number >= batch.firstPage && item.page_number <= batch.lastPage
+        ? item.page_number
+        : batch.firstPage
+    }));
     
   } catch (error) {
     console.error('❌ Error extracting items from PDF with Responses API:', error);
     throw new Error(`Failed to extract items from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  } finally {
-    // Step 5: Always cleanup - delete the uploaded file
-    if (uploadedFileId) {
-      try {
-        console.log('🧹 Cleaning up: Deleting uploaded file...');
-        await openai.files.del(uploadedFileId);
-        console.log(`✅ File ${uploadedFileId} deleted successfully`);
-      } catch (cleanupError) {
-        console.warn(`⚠️ Cleanup warning: Failed to delete file ${uploadedFileId}:`, cleanupError);
-        // Non-critical, don't fail the whole request
+  }
+}
+
+// ============================================================================
+// PDF TEXT-LAYER TABLE EXTRACTION (digitally generated PDFs - no vision call)
+// ============================================================================
+
+const PDF_LINE_TOLERANCE = 3; // Max baseline difference (pt) for text on the same line
+const PDF_CELL_GAP = 6;       // Horizontal gap (pt) that starts a new cell
+
+// Totals/footer lines below the table - never line items
+const PDF_SUMMARY_LINE = /^(sub\s*-?total|total|grand total|tax|sales tax|shipping|freight|handling|balance|amount due|invoice total)\b/i;
+
+interface PdfTextCell {
+  text: string;
+  x: number;
+  xEnd: number;
+}
+
+interface PdfTextLine {
+  page: number; // 1-based
+  y: number;
+  cells: PdfTextCell[];
+}
+
+/**
+ * Read the PDF text layer as lines of cells: text fragments on the same baseline
+ * form a line, and fragments separated by a wide gap start a new cell.
+ * Returns no lines for scanned (image-only) PDFs.
+ */
+async function readPdfTextLines(pdfBuffer: ArrayBuffer): Promise<PdfTextLine[]> {
+  // pdf.js may detach the buffer it is given - keep the original for the vision fallback
+  const pdf = await getDocumentProxy(new Uint8Array(pdfBuffer.slice(0)));
+  const lines: PdfTextLine[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    const fragments = (textContent.items as { str?: string; transform?: number[]; width?: number }[])
+      .filter(item => item.str && item.str.trim() && item.transform)
+      .map(item => ({
+        text: item.str!.trim(),
+        x: item.transform![4],
+        xEnd: item.transform![4] + (item.width || 0),
+        y: item.transform![5]
+      }))
+      .sort((a, b) => b.y - a.y || a.x - b.x); // Top-down, then left-right
+
+    const pageLines: { y: number; fragments: typeof fragments }[] = [];
+    for (const fragment of fragments) {
+      const lastLine = pageLines[pageLines.length - 1];
+      if (lastLine && Math.abs(lastLine.y - fragment.y) <= PDF_LINE_TOLERANCE) {
+        lastLine.fragments.push(fragment);
+      } else {
+        pageLines.push({ y: fragment.y, fragments: [fragment] });
+      }
+    }
+
+    for (const line of pageLines) {
+      const cells: PdfTextCell[] = [];
+      for (const fragment of line.fragments.sort((a, b) => a.x - b.x)) {
+        const previous = cells[cells.length - 1];
+        if (previous && fragment.x - previous.xEnd < PDF_CELL_GAP) {
+          previous.text += (fragment.x - previous.xEnd > 1 ? ' ' : '') + fragment.text;
+          previous.xEnd = Math.max(previous.xEnd, fragment.xEnd);
+        } else {
+          cells.push({ text: fragment.text, x: fragment.x, xEnd: fragment.xEnd });
+        }
+      }
+      lines.push({ page: pageNumber, y: line.y, cells });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Assign each cell of the data lines to a header column: the column whose header it
+ * overlaps most, otherwise the nearest header by center. A line with a single cell
+ * that lands in an already-filled column is a wrapped continuation of the row above.
+ * Returns the rows with the page each one starts on.
+ */
+function alignPdfLinesToHeader(
+  headerLine: PdfTextLine,
+  dataLines: PdfTextLine[]
+): { rows: string[][]; rowPages: number[] } {
+  const columns = headerLine.cells;
+  const rows: string[][] = [];
+  const rowPages: number[] = [];
+
+  const findColumn = (cell: PdfTextCell) => {
+    let bestIdx = 0;
+    let bestOverlap = 0;
+    let bestDistance = Infinity;
+    columns.forEach((column, idx) => {
+      const overlap = Math.min(cell.xEnd, column.xEnd) - Math.max(cell.x, column.x);
+      const distance = Math.abs((cell.x + cell.xEnd) / 2 - (column.x + column.xEnd) / 2);
+      if (overlap > bestOverlap || (bestOverlap <= 0 && overlap <= 0 && distance < bestDistance)) {
+        bestIdx = idx;
+        bestOverlap = Math.max(overlap, 0);
+        bestDistance = distance;
+      }
+    });
+    return bestIdx;
+  };
+
+  for (const line of dataLines) {
+    const row: string[] = columns.map(() => '');
+    for (const cell of line.cells) {
+      const idx = findColumn(cell);
+      row[idx] = row[idx] ? `${row[idx]} ${cell.text}` : cell.text;
+    }
+
+    const filled = row.filter(value => value);
+    const previousRow = rows[rows.length - 1];
+    if (filled.length === 1 && previousRow) {
+      const idx = row.findIndex(value => value);
+      if (previousRow[idx]) {
+        previousRow[idx] = `${previousRow[idx]} ${row[idx]}`;
+        continue;
       }
     }
+
+    rows.push(row);
+    rowPages.push(line.page);
+  }
+
+  return { rows, rowPages };
+}
+
+/**
+ * Rebuild the line-item table from a PDF's text layer. Returns null when the PDF has no
+ * text layer or no recognizable header row, so the caller can fall back to vision.
+ */
+async function extractTableFromPDFText(pdfBuffer: ArrayBuffer): Promise<{
+  headers: string[];
+  headerIndex: number;
+  rows: string[][];
+  rowPages: number[]; // Page of each row (1-based)
+  pageCount: number;
+} | null> {
+  const lines = await readPdfTextLines(pdfBuffer);
+  if (lines.length === 0) {
+    console.log('📄 PDF has no text layer (scanned/image-only)');
+    return null;
+  }
+
+  // Letterhead and address blocks rarely have 3+ cells; the table header does
+  const tabularLines = lines.filter(line => line.cells.length >= 3);
+  const { headerIndex } = findDataHeaderFromRows(tabularLines.map(line => line.cells.map(cell => cell.text)));
+  if (headerIndex < 0) {
+    console.log('📄 PDF text layer has no recognizable table header');
+    return null;
   }
+
+  const headerLine = tabularLines[headerIndex];
+  const headerLineIndex = lines.indexOf(headerLine);
+  const dataLines = lines
+    .slice(headerLineIndex + 1)
+    .filter(line => !PDF_SUMMARY_LINE.test(line.cells[0].text));
+
+  const { rows, rowPages } = alignPdfLinesToHeader(headerLine, dataLines);
+  console.log(`📄 Text layer: ${lines.length} lines on ${lines[lines.length - 1].page} page(s), header at line ${headerLineIndex + 1}, ${rows.length} table rows`);
+
+  return {
+    headers: headerLine.cells.map(cell => cell.text),
+    headerIndex: headerLineIndex,
+    rows,
+    rowPages,
+    pageCount: lines[lines.length - 1].page
+  };
+}
+
+/**
+ * Map vision-extracted items (PDF or image) to the standard extracted-item format
+ */
+function mapVisionItems(extractedItems: VisionLineItem[]): EnhancedExtractedItem[] {
+  return extractedItems.map((visionItem, index) => {
+    // Collect all SKU fields into a comprehensive SKU array (filter out empty strings)
+    const allSkus: string[] = [];
+    if (visionItem.sku && visionItem.sku.trim()) allSkus.push(visionItem.sku.trim());
+    if (visionItem.oem_number && visionItem.oem_number.trim()) allSkus.push(visionItem.oem_number.trim());
+    if (visionItem.upc && visionItem.upc.trim()) allSkus.push(visionItem.upc.trim());
+    if (visionItem.vendor_sku && visionItem.vendor_sku.trim()) allSkus.push(visionItem.vendor_sku.trim());
+    
+    // Primary SKU priority: OEM > vendor_sku > sku > upc (skip empty strings)
+    const primarySku = (visionItem.oem_number && visionItem.oem_number.trim()) || 
+                       (visionItem.vendor_sku && visionItem.vendor_sku.trim()) || 
+                       (visionItem.sku && visionItem.sku.trim()) || 
+                       (visionItem.upc && visionItem.upc.trim()) || 
+                       null;
+    
+    return {
+      rowNumber: index + 1,
+      raw_product_name: visionItem.product_name || 'Unknown Product',
+      raw_description: visionItem.product_name || '',
+      raw_sku: primarySku,
+      sku_fields: {
+        primary_sku: (visionItem.sku && visionItem.sku.trim()) || undefined,
+        oem_number: (visionItem.oem_number && visionItem.oem_number.trim()) || undefined,
+        wholesaler_code: (visionItem.vendor_sku && visionItem.vendor_sku.trim()) || undefined,
+        upc: (visionItem.upc && visionItem.upc.trim()) || undefined,
+        all_skus: allSkus
+      },
+      quantity: visionItem.quantity || 1,
+      unit_price: visionItem.unit_price || 0,
+      total_price: visionItem.total_price || (visionItem.unit_price * visionItem.quantity) || 0,
+      source_page: visionItem.source_page,
+      extraction_quality: {
+        has_sku: allSkus.length > 0,
+        has_price: visionItem.unit_price != null,
+        has_quantity: visionItem.quantity != null,
+        has_description: visionItem.product_name != null && visionItem.product_name.length > 0,
+        confidence: allSkus.length > 0 && visionItem.quantity ? 0.9 : 0.7
+      }
+    };
+  });
 }
 
 /**
- * Parse CSV/Excel document with intelligent header detection
+ * Parse CSV/TSV/Excel/ODS/PDF/image document (or a .zip of them) with intelligent header detection
  */
-async function parseDocument(content: string | ArrayBuffer, fileName: string) {
+async function parseDocument(content: string | ArrayBuffer, fileName: string, options: ParseOptions = {}): Promise<ParsedDocument> {
   console.log('📄 Parsing document:', fileName);
 
   // Detect file type
-  const isExcel = fileName.toLowerCase().endsWith('.xlsx') || 
-                  fileName.toLowerCase().endsWith('.xls');
-  const isPDF = fileName.toLowerCase().endsWith('.pdf');
+  const format = getDocumentFormat(fileName);
+  
+  if (format === 'archive' && content instanceof ArrayBuffer) {
+    return await parseArchive(content, options);
+  }
   
-  // HANDLE PDF FILES WITH GPT-5-mini VISION
-  if (isPDF && content instanceof ArrayBuffer) {
-    console.log('📄 PDF detected - using GPT-5-mini vision extraction...');
+  if (format === 'image' && content instanceof ArrayBuffer) {
+    // Photos/scans of printed invoices: same vision extraction and schema as PDFs
+    console.log('🖼️ Image detected - using vision extraction...');
+    const extractedItems = await extractItemsFromPDFWithVision(await convertImageToPdf(content, fileName));
+    const items = mapVisionItems(extractedItems);
     
-    const extractedItems = await extractItemsFromPDFWithVision(content);
+    console.log(`✅ Mapped ${items.length} image items to standard format`);
+    
+    return {
+      items,
+      totalItems: items.length,
+      headers: ['Product Name', 'SKU/OEM', 'Quantity', 'Unit Price', 'Total'], // Synthetic headers for images
+      extractor: 'image_vision'
+    };
+  }
+  
+  if (format === 'pdf' && content instanceof ArrayBuffer) {
+    // Digitally generated PDFs: rebuild the table from the text layer and run it through
+    // the same header/column detection as spreadsheets (no OpenAI call)
+    console.log('📄 PDF detected - trying text-layer table extraction...');
+    const textTable = await extractTableFromPDFText(content).catch(error => {
+      console.warn('⚠️ PDF text-layer extraction failed:', error);
+      return null;
+    });
     
-    // Map vision-extracted items to our standard format
-    const items = extractedItems.map((visionItem: any, index: number) => {
-      // Collect all SKU fields into a comprehensive SKU array (filter out empty strings)
-      const allSkus: string[] = [];
-      if (visionItem.sku && visionItem.sku.trim()) allSkus.push(visionItem.sku.trim());
-      if (visionItem.oem_number && visionItem.oem_number.trim()) allSkus.push(visionItem.oem_number.trim());
-      if (visionItem.upc && visionItem.upc.trim()) allSkus.push(visionItem.upc.trim());
-      if (visionItem.vendor_sku && visionItem.vendor_sku.trim()) allSkus.push(visionItem.vendor_sku.trim());
+    if (textTable) {
+      const { columnRoles, applied } = await resolveSheetColumnMapping(null, textTable.headers, options);
+      const items = extractItemsFromRows(textTable.headers, textTable.rows, textTable.headerIndex, columnRoles);
+      for (const item of items) {
+        item.source_page = textTable.rowPages[item.rowNumber - 1];
+      }
       
-      // Primary SKU priority: OEM > vendor_sku > sku > upc (skip empty strings)
-      const primarySku = (visionItem.oem_number && visionItem.oem_number.trim()) || 
-                         (visionItem.vendor_sku && visionItem.vendor_sku.trim()) || 
-                         (visionItem.sku && visionItem.sku.trim()) || 
-                         (visionItem.upc && visionItem.upc.trim()) || 
-                         null;
+      if (items.length > 0) {
+        console.log(`✅ Extracted ${items.length} items from the PDF text layer`);
+        return {
+          items,
+          totalItems: items.length,
+          headers: textTable.headers,
+          columnMappings: [applied],
+          extractor: 'pdf_text_layer'
+        };
+      }
       
-      return {
-        rowNumber: index + 1,
-        raw_product_name: visionItem.product_name || 'Unknown Product',
-        raw_description: visionItem.product_name || '',
-        raw_sku: primarySku,
-        sku_fields: {
-          primary_sku: (visionItem.sku && visionItem.sku.trim()) || undefined,
-          oem_number: (visionItem.oem_number && visionItem.oem_number.trim()) || undefined,
-          wholesaler_code: (visionItem.vendor_sku && visionItem.vendor_sku.trim()) || undefined,
-          upc: (visionItem.upc && visionItem.upc.trim()) || undefined,
-          all_skus: allSkus
-        },
-        quantity: visionItem.quantity || 1,
-        unit_price: visionItem.unit_price || 0,
-        total_price: visionItem.total_price || (visionItem.unit_price * visionItem.quantity) || 0,
-        extraction_quality: {
-          has_sku: allSkus.length > 0,
-          has_price: visionItem.unit_price != null,
-          has_quantity: visionItem.quantity != null,
-          has_description: visionItem.product_name != null && visionItem.product_name.length > 0,
-          confidence: allSkus.length > 0 && visionItem.quantity ? 0.9 : 0.7
-        }
-      };
-    });
+      console.log('📄 Text layer yielded no line items - falling back to vision');
+    }
+    
+    // HANDLE SCANNED / UNSTRUCTURED PDFs WITH GPT-5-mini VISION
+    console.log('📄 Using GPT-5-mini vision extraction...');
+    
+    const extractedItems = await extractItemsFromPDFWithVision(content);
+    
+    const items = mapVisionItems(extractedItems);
     
     console.log(`✅ Mapped ${items.length} PDF items to standard format`);
     
     return {
       items,
       totalItems: items.length,
-      headers: ['Product Name', 'SKU/OEM', 'Quantity', 'Unit Price', 'Total'] // Synthetic headers for PDF
+      headers: ['Product Name', 'SKU/OEM', 'Quantity', 'Unit Price', 'Total'], // Synthetic headers for PDF
+      extractor: 'pdf_vision'
     };
   }
   
-  let rows: any[][] = [];
-  let headers: string[] = [];
-  let headerIndex = 0;
-
-  if (isExcel && content instanceof ArrayBuffer) {
-    // Parse Excel file
-    console.log('📊 Parsing Excel file...');
+  if (format === 'spreadsheet' && content instanceof ArrayBuffer) {
+    // Parse Excel/ODS file
+    console.log('📊 Parsing spreadsheet file...');
     const workbook = XLSX.read(content, { type: 'array' });
     
-    console.log(`📊 Available sheets: ${workbook.SheetNames.join(', ')}`);
-    
-    // IMPROVED: Find the sheet with actual PRODUCT data (not just most rows)
-    // Score each sheet based on data quality indicators
-    let bestSheet = workbook.SheetNames[0];
-    let bestScore = -1;
+    const items: EnhancedExtractedItem[] = [];
+    const sheets: ParsedSheet[] = [];
+    const columnMappings: AppliedColumnMapping[] = [];
     
-    for (const sheetName of workbook.SheetNames) {
-      const sheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', blankrows: false, raw: false }) as any[][];
-      const rowCount = data.length;
+    for (const sheet of getLineItemSheets(workbook)) {
+      console.log(`\n📊 Sheet "${sheet.sheetName}"`);
+      console.log('📊 Found header at row', sheet.headerIndex + 1);
+      console.log('📊 Columns:', sheet.headers);
+      console.log(`📊 Total data rows: ${sheet.dataRows.length}`);
       
-      // Calculate quality score for this sheet
-      let score = 0;
-      
-      // Factor 1: Has a reasonable number of rows (20-10000)
-      if (rowCount >= 20 && rowCount <= 10000) {
-        score += 50;
-      } else if (rowCount < 20) {
-        score -= 100; // Too few rows
-      } else if (rowCount > 10000) {
-        score += 20; // Very large, might be metadata
+      const { columnRoles, applied } = await resolveSheetColumnMapping(sheet.sheetName, sheet.headers, options);
+      columnMappings.push(applied);
+      const sheetItems = extractItemsFromRows(sheet.headers, sheet.dataRows, sheet.headerIndex, columnRoles);
+      for (const item of sheetItems) {
+        item.source_sheet = sheet.sheetName;
       }
+      items.push(...sheetItems);
       
-      // Factor 2: Look for product-like column headers in first 20 rows
-      const headerRows = data.slice(0, 20);
-      let hasProductIndicators = false;
-      let hasMetadataIndicators = false;
-      
-      for (const row of headerRows) {
-        const rowText = row.map(c => String(c || '').toLowerCase()).join(' ');
-        
-        // Product data indicators
-        if (/\b(sku|oem|part.*number|item.*number|product.*name|description|price|qty|quantity|unit.*price|total)\b/i.test(rowText)) {
-          hasProductIndicators = true;
-          score += 10;
-        }
-        
-        // Metadata indicators (account info, addresses, etc.)
-        if (/\b(account.*name|account.*number|ship.*to|bill.*to|address.*line|customer.*number|report.*date|report.*run)\b/i.test(rowText)) {
-          hasMetadataIndicators = true;
-          score -= 15;
-        }
+      sheets.push({
+        name: sheet.sheetName,
+        header_row: sheet.headerIndex + 1,
+        headers: sheet.headers,
+        item_count: sheetItems.length
+      });
+    }
+    
+    console.log(`✅ Parsed ${items.length} items from ${sheets.length} sheet(s)`);
+    
+    return {
+      items,
+      totalItems: items.length,
+      headers: sheets[0]?.headers || [],
+      sheets,
+      columnMappings,
+      extractor: 'excel'
+    };
+  }
+  
+  if (typeof content !== 'string') {
+    throw new Error('Invalid content type for parsing');
+  }
+  
+  // Parse CSV content
+  const { headers, headerIndex, rows } = readCsvRows(content);
+  const { columnRoles, applied } = await resolveSheetColumnMapping(null, headers, options);
+  const items = extractItemsFromRows(headers, rows, headerIndex, columnRoles);
+
+  return {
+    items,
+    totalItems: items.length,
+    headers,
+    columnMappings: [applied],
+    extractor: 'csv'
+  };
+}
+
+// ============================================================================
+// USAGE PERIOD (usage exports cover arbitrary date ranges, not a year)
+// ============================================================================
+
+// Shorter spans (a single invoice, one week of orders) say nothing about a year of buying
+const USAGE_PERIOD_MIN_DAYS = 28;
+
+// "2.1.25-8.27.25", "01-01-2025 to 06-30-2025", "2025-01-01_2025-06-30"
+const FILE_NAME_DATE = String.raw`(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4})`;
+const FILE_NAME_DATE_RANGE = new RegExp(`${FILE_NAME_DATE}\\s*(?:-|–|_|to|thru|through)\\s*${FILE_NAME_DATE}`, 'i');
+
+function buildUsagePeriod(start: string, end: string, source: UsagePeriod['source']): UsagePeriod {
+  const coveredDays = Math.round((Date.parse(end) - Date.parse(start)) / 86400000) + 1;
+  return {
+    start,
+    end,
+    covered_days: coveredDays,
+    annualization_factor: Math.round((365 / coveredDays) * 10000) / 10000,
+    source
+  };
+}
+
+/**
+ * Date range in a file name such as "Toner Report - 2.1.25-8.27.25.xlsx"
+ */
+function parseFileNameDateRange(fileName: string): { start: string; end: string } | null {
+  const match = fileName.match(FILE_NAME_DATE_RANGE);
+  if (!match) return null;
+  
+  const start = parseOrderDate(match[1]);
+  const end = parseOrderDate(match[2]);
+  return start && end && start <= end ? { start, end } : null;
+}
+
+/**
+ * Work out the period a document covers: the span of its order dates, else a date range
+ * in the file name(s), else assume the document is a year of purchases
+ */
+function getUsagePeriod(items: EnhancedExtractedItem[], fileNames: string[]): UsagePeriod {
+  const dates = items.flatMap(item => item.order_date ? [item.order_date] : []).sort();
+  
+  if (dates.length > 0) {
+    const period = buildUsagePeriod(dates[0], dates[dates.length - 1], 'order_dates');
+    if (period.covered_days! >= USAGE_PERIOD_MIN_DAYS) {
+      console.log(`📅 Usage period from ${dates.length} order dates: ${period.start} → ${period.end} (${period.covered_days} days, x${period.annualization_factor} to annualize)`);
+      return { ...period, dated_rows: dates.length };
+    }
+    console.log(`📅 Order dates span only ${period.covered_days} day(s) - not used for annualization`);
+  }
+  
+  const ranges = fileNames
+    .map(parseFileNameDateRange)
+    .filter((range): range is NonNullable<typeof range> => range !== null);
+  if (ranges.length > 0) {
+    const start = ranges.map(range => range.start).sort()[0];
+    const end = ranges.map(range => range.end).sort()[ranges.length - 1];
+    const period = buildUsagePeriod(start, end, 'file_name');
+    if (period.covered_days! >= USAGE_PERIOD_MIN_DAYS) {
+      console.log(`📅 Usage period from file name: ${period.start} → ${period.end} (${period.covered_days} days, x${period.annualization_factor} to annualize)`);
+      return period;
+    }
+  }
+  
+  console.log('📅 No usage period found - treating the document as a year of purchases');
+  return ASSUMED_ANNUAL_PERIOD;
+}
+
+// ============================================================================
+// COLUMN MAPPING PROFILES (saved column roles for known export formats)
+// ============================================================================
+
+/**
+ * Fingerprint of a header row: SHA-256 of the lower-cased, trimmed headers.
+ * Blank headers count as empty strings so column positions still matter.
+ */
+async function getHeaderFingerprint(normalizedHeaders: string[]): Promise<string> {
+  const key = normalizedHeaders
+    .map(h => /^__COL_\d+__$/.test(h) ? '' : h.toLowerCase().trim().replace(/\s+/g, ' '))
+    .join('|');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Profiles are scoped by lower-cased company name
+ */
+function getProfileCustomerKey(company?: string): string | null {
+  const key = company?.toLowerCase().trim().replace(/\s+/g, ' ');
+  return key || null;
+}
+
+/**
+ * Find the profile for a header fingerprint - the customer's own profile wins over a
+ * shared vendor format
+ */
+async function findColumnMappingProfile(fingerprint: string, customerCompany?: string): Promise<ColumnMappingProfile | null> {
+  const { data, error } = await supabase
+    .from('column_mapping_profiles')
+    .select('*')
+    .eq('header_fingerprint', fingerprint);
+
+  if (error) {
+    console.error('Error loading column mapping profiles:', error);
+    return null;
+  }
+
+  const customerKey = getProfileCustomerKey(customerCompany);
+  const profiles = (data || []) as ColumnMappingProfile[];
+  return profiles.find(profile => customerKey && profile.customer_company === customerKey) ||
+         profiles.find(profile => profile.customer_company === null) ||
+         null;
+}
+
+/**
+ * Re-key a profile's roles onto this upload's headers by column position
+ * (the fingerprint ignores case and spacing, the row keys don't)
+ */
+function applyProfileToHeaders(profile: ColumnMappingProfile, normalizedHeaders: string[]): Record<string, ColumnRole> {
+  const roles: Record<string, ColumnRole> = {};
+  normalizedHeaders.forEach((header, idx) => {
+    const role = profile.columns[profile.headers[idx]];
+    if (role) roles[header] = role;
+  });
+  return roles;
+}
+
+/**
+ * Save a confirmed mapping as the customer's profile for this header row (non-critical).
+ * Upserts on (header_fingerprint, customer_company), so concurrent confirmations keep one profile.
+ */
+async function saveColumnMappingProfile(
+  fingerprint: string,
+  normalizedHeaders: string[],
+  columns: Record<string, ColumnRole>,
+  customerCompany: string
+): Promise<ColumnMappingProfile | null> {
+  const { data: profile, error } = await supabase
+    .from('column_mapping_profiles')
+    .upsert({
+      name: `${customerCompany.trim()} (confirmed mapping)`,
+      customer_company: getProfileCustomerKey(customerCompany)!,
+      header_fingerprint: fingerprint,
+      headers: normalizedHeaders,
+      columns,
+      source: 'confirmed_mapping',
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'header_fingerprint,customer_company' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving column mapping profile:', error);
+    return null;
+  }
+
+  console.log(`💾 Saved column mapping profile "${profile.name}" (${fingerprint.substring(0, 12)})`);
+  return profile as ColumnMappingProfile;
+}
+
+/**
+ * Save each sheet of a mapping confirmed in the preview step as the customer's profile.
+ * Runs once when the job is started - parsing only applies the mapping.
+ */
+async function saveConfirmedColumnMapping(mapping: ColumnMapping, customerCompany?: string): Promise<ColumnMapping> {
+  if (!getProfileCustomerKey(customerCompany)) return mapping;
+
+  const sheets = await Promise.all(mapping.sheets.map(async sheet => {
+    // Older clients don't send the header row - the role keys are in header order
+    const headers = sheet.headers?.length ? sheet.headers : Object.keys(sheet.columns);
+    const fingerprint = await getHeaderFingerprint(headers);
+    const profile = await saveColumnMappingProfile(fingerprint, headers, sheet.columns, customerCompany!);
+    return profile ? { ...sheet, profile: { id: profile.id, name: profile.name } } : sheet;
+  }));
+
+  return { ...mapping, sheets };
+}
+
+/**
+ * Decide the column roles for one sheet. A mapping the customer confirmed wins (it was
+ * saved as their profile when the job started); then a saved profile matching the header
+ * fingerprint; otherwise undefined, and extractProductInfo() uses heuristic detection.
+ */
+async function resolveSheetColumnMapping(
+  sheetName: string | null,
+  headers: string[],
+  options: ParseOptions
+): Promise<{ columnRoles?: Record<string, ColumnRole>; applied: AppliedColumnMapping }> {
+  const normalizedHeaders = normalizeHeaders(headers);
+  const fingerprint = await getHeaderFingerprint(normalizedHeaders);
+
+  const confirmed = options.columnMapping?.sheets.find(mapped =>
+    mapped.sheet_name === sheetName && (mapped.source_file ?? null) === (options.sourceFile ?? null)
+  );
+  if (confirmed) {
+    return {
+      columnRoles: confirmed.columns,
+      applied: {
+        source_file: options.sourceFile,
+        sheet_name: sheetName,
+        header_fingerprint: fingerprint,
+        source: 'confirmed_mapping',
+        profile_id: confirmed.profile?.id,
+        profile_name: confirmed.profile?.name
       }
-      
-      // Factor 3: Count numeric columns (prices, quantities) in sample rows
-      const sampleRows = data.slice(Math.max(0, Math.floor(rowCount * 0.1)), Math.min(data.length, Math.floor(rowCount * 0.1) + 50));
-      let numericColumnCount = 0;
-      if (sampleRows.length > 0) {
-        const firstRow = sampleRows[0] || [];
-        for (let colIdx = 0; colIdx < firstRow.length; colIdx++) {
-          let numericCount = 0;
-          for (const row of sampleRows.slice(0, 10)) {
-            const val = String(row[colIdx] || '').trim();
-            if (val && /^[\d.,\$]+$/.test(val.replace(/[$,]/g, ''))) {
-              numericCount++;
-            }
-          }
-          if (numericCount >= 5) numericColumnCount++;
-        }
+    };
+  }
+
+  const profile = await findColumnMappingProfile(fingerprint, options.customerCompany);
+  if (!profile) {
+    return { applied: { source_file: options.sourceFile, sheet_name: sheetName, header_fingerprint: fingerprint, source: 'heuristic' } };
+  }
+
+  console.log(`🧭 Header row matches column mapping profile "${profile.name}" - skipping heuristic detection`);
+
+  await supabase
+    .from('column_mapping_profiles')
+    .update({
+      times_applied: profile.times_applied + 1,
+      last_applied_at: new Date().toISOString()
+    })
+    .eq('id', profile.id);
+
+  return {
+    columnRoles: applyProfileToHeaders(profile, normalizedHeaders),
+    applied: {
+      source_file: options.sourceFile,
+      sheet_name: sheetName,
+      header_fingerprint: fingerprint,
+      source: 'profile',
+      profile_id: profile.id,
+      profile_name: profile.name
+    }
+  };
+}
+
+const COLUMN_PREVIEW_ROWS = 20;
+
+/**
+ * Build the column-mapping preview for a CSV/Excel file (or each one in a .zip): the detected header row of
+ * each line-item sheet, the role extraction would assign to each column (from a saved
+ * profile when the header row matches one), and the first rows as extraction sees them
+ */
+async function buildColumnPreview(
+  content: string | ArrayBuffer,
+  fileName: string,
+  customerCompany?: string
+): Promise<ColumnPreviewSheet[]> {
+  if (getDocumentFormat(fileName) === 'archive' && content instanceof ArrayBuffer) {
+    // One preview per spreadsheet/text file in the archive (PDFs and images have no columns to map)
+    const previews: ColumnPreviewSheet[] = [];
+    for (const file of expandArchive(content)) {
+      const format = getDocumentFormat(file.fileName);
+      if (format === 'pdf' || format === 'image') continue;
+      const sheets = await buildColumnPreview(file.content, file.fileName, customerCompany);
+      previews.push(...sheets.map(sheet => ({ ...sheet, source_file: file.fileName })));
+    }
+    return previews;
+  }
+  
+  let sources: { sheetName: string | null; headers: string[]; headerIndex: number; rows: string[][] }[];
+  if (getDocumentFormat(fileName) === 'spreadsheet' && content instanceof ArrayBuffer) {
+    const workbook = XLSX.read(content, { type: 'array' });
+    sources = getLineItemSheets(workbook).map(sheet => ({ ...sheet, rows: sheet.dataRows }));
+  } else if (typeof content === 'string') {
+    sources = [{ sheetName: null, ...readCsvRows(content) }];
+  } else {
+    throw new Error('Column preview is only available for spreadsheet and delimited text files');
+  }
+  
+  return await Promise.all(sources.map(async source => {
+    const { normalizedHeaders, rowObjects, detectedCols } = prepareRows(source.headers, source.rows);
+    const profile = await findColumnMappingProfile(await getHeaderFingerprint(normalizedHeaders), customerCompany);
+    
+    const roles: Record<string, ColumnRole> = {};
+    for (const header of normalizedHeaders) {
+      roles[header] = 'other';
+    }
+    
+    if (profile) {
+      Object.assign(roles, applyProfileToHeaders(profile, normalizedHeaders));
+    } else {
+      const columns = resolveColumnRoles(normalizedHeaders, detectedCols);
+      const assigned: [string | undefined, ColumnRole][] = [
+        [columns.productNameCol, 'product_name'],
+        [columns.qtyCol, 'quantity'],
+        [columns.priceCol, 'unit_price'],
+        [columns.oemCol, 'oem_number'],
+        [columns.wholesalerCol, 'wholesaler_sku'],
+        [columns.staplesSkuCol, 'staples_sku'],
+        [columns.depotCol, 'depot_sku'],
+        [columns.genericSkuCol, 'sku'],
+        [columns.orderDateCol, 'order_date'],
+        [columns.locationCol, 'location'],
+        [columns.costCenterCol, 'cost_center']
+      ];
+      for (const [header, role] of assigned) {
+        if (header && roles[header] === 'other') roles[header] = role;
       }
-      score += numericColumnCount * 5;
+    }
+    
+    return {
+      source_file: null,
+      sheet_name: source.sheetName,
+      header_row: source.headerIndex + 1,
+      headers: normalizedHeaders,
+      roles,
+      rows: rowObjects.slice(0, COLUMN_PREVIEW_ROWS),
+      mapping_profile: profile ? { id: profile.id, name: profile.name } : null
+    };
+  }));
+}
+
+/**
+ * Score every sheet in a workbook and return the ones that look like line-item data,
+ * each with its own detected header row
+ */
+function getLineItemSheets(workbook: ReturnType<typeof XLSX.read>): LineItemSheet[] {
+  console.log(`📊 Available sheets: ${workbook.SheetNames.join(', ')}`);
+  
+  // IMPROVED: Find the sheet with actual PRODUCT data (not just most rows)
+  // Score each sheet based on data quality indicators
+  const scoredSheets: { sheetName: string; data: string[][]; score: number; hasProductIndicators: boolean }[] = [];
+  
+  for (const sheetName of workbook.SheetNames) {
+    const sheet = workbook.Sheets[sheetName];
+    const data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: '', blankrows: false, raw: false }) as any[][];
+    const rowCount = data.length;
+    
+    // Calculate quality score for this sheet
+    let score = 0;
+    
+    // Factor 1: Has a reasonable number of rows (20-10000)
+    if (rowCount >= 20 && rowCount <= 10000) {
+      score += 50;
+    } else if (rowCount < 20) {
+      score -= 100; // Too few rows
+    } else if (rowCount > 10000) {
+      score += 20; // Very large, might be metadata
+    }
+    
+    // Factor 2: Look for product-like column headers in first 20 rows
+    const headerRows = data.slice(0, 20);
+    let hasProductIndicators = false;
+    let hasMetadataIndicators = false;
+    
+    for (const row of headerRows) {
+      const rowText = row.map(c => String(c || '').toLowerCase()).join(' ');
       
-      // Factor 4: Check for data variety (not all rows identical)
-      const uniqueFirstCells = new Set(sampleRows.slice(0, 20).map(r => String(r[0] || '')));
-      if (uniqueFirstCells.size > 10) {
-        score += 20; // Good variety
-      } else if (uniqueFirstCells.size <= 3) {
-        score -= 20; // Too repetitive
+      // Product data indicators
+      if (/\b(sku|oem|part.*number|item.*number|product.*name|description|price|qty|quantity|unit.*price|total)\b/i.test(rowText)) {
+        hasProductIndicators = true;
+        score += 10;
       }
       
-      console.log(`   "${sheetName}": ${rowCount} rows, score: ${score}${hasProductIndicators ? ' [HAS_PRODUCT_DATA]' : ''}${hasMetadataIndicators ? ' [HAS_METADATA]' : ''}`);
-      
-      if (score > bestScore) {
-        bestScore = score;
-        bestSheet = sheetName;
+      // Metadata indicators (account info, addresses, etc.)
+      if (/\b(account.*name|account.*number|ship.*to|bill.*to|address.*line|customer.*number|report.*date|report.*run)\b/i.test(rowText)) {
+        hasMetadataIndicators = true;
+        score -= 15;
+      }
+    }
+    
+    // Factor 3: Count numeric columns (prices, quantities) in sample rows
+    const sampleRows = data.slice(Math.max(0, Math.floor(rowCount * 0.1)), Math.min(data.length, Math.floor(rowCount * 0.1) + 50));
+    let numericColumnCount = 0;
+    if (sampleRows.length > 0) {
+      const firstRow = sampleRows[0] || [];
+      for (let colIdx = 0; colIdx < firstRow.length; colIdx++) {
+        let numericCount = 0;
+        for (const row of sampleRows.slice(0, 10)) {
+          const val = String(row[colIdx] || '').trim();
+          if (val && /^[\d.,\$]+$/.test(val.replace(/[$,]/g, ''))) {
+            numericCount++;
+          }
+        }
+        if (numericCount >= 5) numericColumnCount++;
       }
     }
+    score += numericColumnCount * 5;
+    
+    // Factor 4: Check for data variety (not all rows identical)
+    const uniqueFirstCells = new Set(sampleRows.slice(0, 20).map(r => String(r[0] || '')));
+    if (uniqueFirstCells.size > 10) {
+      score += 20; // Good variety
+    } else if (uniqueFirstCells.size <= 3) {
+      score -= 20; // Too repetitive
+    }
     
-    console.log(`📊 Using sheet with best quality score: "${bestSheet}" (score: ${bestScore})`);
-    const worksheet = workbook.Sheets[bestSheet];
-    
-    // Convert to array of arrays - keep all values as strings
-    const rawData = XLSX.utils.sheet_to_json(worksheet, { 
-      header: 1,  // Return array of arrays
-      defval: '',  // Default value for empty cells
-      blankrows: false,  // Skip blank rows
-      raw: false  // Don't convert dates/numbers - keep as formatted strings
-    }) as any[][];
-    
-    // Smart header detection for Excel
-    const headerResult = findDataHeaderFromRows(rawData);
-    headerIndex = headerResult.headerIndex;
-    headers = headerResult.headers;
-    
-    // Get data rows (after header)
-    rows = rawData.slice(headerIndex + 1);
+    console.log(`   "${sheetName}": ${rowCount} rows, score: ${score}${hasProductIndicators ? ' [HAS_PRODUCT_DATA]' : ''}${hasMetadataIndicators ? ' [HAS_METADATA]' : ''}`);
     
-    console.log('📊 Found header at row', headerIndex + 1);
-    console.log('📊 Columns:', headers);
-    console.log(`📊 Total data rows: ${rows.length}`);
+    scoredSheets.push({ sheetName, data, score, hasProductIndicators });
+  }
+  
+  // MULTI-SHEET: Customers often split toner/ink or locations across tabs, so parse
+  // every sheet that looks like line-item data - not just the best one
+  const bestSheet = scoredSheets.reduce((best, sheet) => sheet.score > best.score ? sheet : best, scoredSheets[0]);
+  const selectedSheets = scoredSheets.filter(sheet =>
+    sheet === bestSheet || (sheet.hasProductIndicators && sheet.score > 0)
+  );
+  
+  console.log(`📊 Best quality score: "${bestSheet.sheetName}" (score: ${bestSheet.score})`);
+  console.log(`📊 Parsing ${selectedSheets.length} line-item sheet(s): ${selectedSheets.map(sheet => `"${sheet.sheetName}"`).join(', ')}`);
+  
+  // Smart header detection for Excel (each sheet has its own layout)
+  const sheetCandidates = selectedSheets.map(sheet => {
+    const headerResult = findDataHeaderFromRows(sheet.data);
+    const dataRows = sheet.data.slice(headerResult.headerIndex + 1);
+    return { ...sheet, headerResult, dataRows, rowKeys: new Set(dataRows.map(getSheetRowKey)) };
+  });
+  
+  const lineItemSheets: LineItemSheet[] = [];
+  
+  for (const [sheetIdx, sheet] of sheetCandidates.entries()) {
+    // Workbooks often carry a filtered copy of another tab (e.g. "Reman Only" vs "With OEM").
+    // Skip a sheet whose rows are (almost) all in a larger sheet so items aren't counted twice.
+    const containingSheet = sheetCandidates.find((other, otherIdx) => {
+      if (otherIdx === sheetIdx || sheet.dataRows.length === 0) return false;
+      const isLarger = other.dataRows.length > sheet.dataRows.length ||
+                       (other.dataRows.length === sheet.dataRows.length && otherIdx < sheetIdx);
+      if (!isLarger) return false;
+      const sharedRows = sheet.dataRows.filter(row => other.rowKeys.has(getSheetRowKey(row))).length;
+      return sharedRows / sheet.dataRows.length >= 0.9;
+    });
     
-  } else if (typeof content === 'string') {
-    // Parse CSV content
-    console.log('📊 Parsing CSV file...');
-    const lines = content.trim().split('\n');
-    
-    // Smart header detection - find the actual data header row
-    const { headerRow, headerIndex: csvHeaderIndex } = findDataHeader(lines);
-    headerIndex = csvHeaderIndex;
-    headers = headerRow.split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-    
-    console.log('📊 Found header at row', headerIndex + 1);
-    console.log('📊 Columns:', headers);
-
-    // Parse rows starting after the header
-    for (let i = headerIndex + 1; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line.trim()) continue;
-
-      // Advanced CSV parsing (handles quoted commas)
-      const values = parseCSVLine(line);
-      rows.push(values);
+    if (containingSheet) {
+      console.log(`   ⊘ Skipping - rows are already contained in sheet "${containingSheet.sheetName}"`);
+      continue;
     }
-  } else {
-    throw new Error('Invalid content type for parsing');
+    
+    lineItemSheets.push({
+      sheetName: sheet.sheetName,
+      headers: sheet.headerResult.headers,
+      headerIndex: sheet.headerResult.headerIndex,
+      dataRows: sheet.dataRows
+    });
   }
+  
+  return lineItemSheets;
+}
+
+/**
+ * Split delimited text (CSV, TSV, pipe-delimited) into the detected header row and parsed data rows
+ */
+function readCsvRows(content: string): { headers: string[]; headerIndex: number; rows: string[][] } {
+  const rows: string[][] = [];
+  // Parse delimited text content
+  console.log('📊 Parsing delimited text file...');
+  const lines = content.trim().split('\n');
+  const delimiter = detectDelimiter(lines);
+  console.log(`📊 Detected delimiter: ${JSON.stringify(delimiter)}`);
+  
+  // Smart header detection - find the actual data header row
+  const { headerRow, headerIndex } = findDataHeader(lines, delimiter);
+  const headers = parseCSVLine(headerRow, delimiter).map(h => h.trim().replace(/^"|"$/g, ''));
+  
+  console.log('📊 Found header at row', headerIndex + 1);
+  console.log('📊 Columns:', headers);
+
+  // Parse rows starting after the header
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+
+    // Advanced CSV parsing (handles quoted delimiters)
+    const values = parseCSVLine(line, delimiter);
+    rows.push(values);
+  }
+  
+  return { headers, headerIndex, rows };
+}
+
+/**
+ * Formatting-insensitive key for a sheet row (" $178.82 " and "$178.82" compare equal)
+ */
+function getSheetRowKey(row: string[]): string {
+  return row.map(cell => String(cell || '').toLowerCase().replace(/[\s$,]/g, '')).join('|');
+}
 
-  // Normalize headers: convert empty strings to unique column names to prevent key collisions
-  const normalizedHeaders = headers.map((h, idx) => {
+/**
+ * Normalize headers: convert empty strings to unique column names to prevent key collisions
+ */
+function normalizeHeaders(headers: string[]): string[] {
+  return headers.map((h, idx) => {
     if (h.trim() === '') {
       return `__COL_${idx}__`;
     }
     return h;
   });
+}
+
+/**
+ * Normalize headers, convert data rows to objects keyed by those headers, and run
+ * column type detection when the sheet has unlabeled columns
+ */
+function prepareRows(headers: string[], rows: string[][]) {
+  const normalizedHeaders = normalizeHeaders(headers);
   
   console.log(`📊 Original headers: ${JSON.stringify(headers)}`);
   if (normalizedHeaders.some((h, idx) => h !== headers[idx])) {
@@ -1161,6 +2303,26 @@ async function parseDocument(content: string | ArrayBuffer, fileName: string) {
     console.log(`   SKU columns (${detectedCols.skuCols.length}): ${detectedCols.skuCols.join(', ') || 'none'}`);
   }
 
+  return { normalizedHeaders, rowObjects, detectedCols };
+}
+
+/**
+ * Convert data rows (after the header) into extracted items: normalizes headers,
+ * runs column type detection for unlabeled columns, and applies extractProductInfo.
+ * Confirmed column roles (preview step) replace the header heuristics.
+ */
+function extractItemsFromRows(
+  headers: string[],
+  rows: string[][],
+  headerIndex: number,
+  columnRoles?: Record<string, ColumnRole>
+): EnhancedExtractedItem[] {
+  const { normalizedHeaders, rowObjects, detectedCols } = prepareRows(headers, rows);
+  
+  if (columnRoles) {
+    console.log(`🧭 Applying confirmed column mapping: ${JSON.stringify(columnRoles)}`);
+  }
+
   // Extract product information from rows
   const items: any[] = [];
   for (let rowIdx = 0; rowIdx < rowObjects.length; rowIdx++) {
@@ -1182,7 +2344,7 @@ async function parseDocument(content: string | ArrayBuffer, fileName: string) {
     
     // Extract product information with intelligent column detection
     // Pass rowIdx + 1 for human-readable row numbers (1-based)
-    const item = extractProductInfo(row, normalizedHeaders, rowIdx + 1, detectedCols);
+    const item = extractProductInfo(row, normalizedHeaders, rowIdx + 1, detectedCols, columnRoles);
     if (item) {
       items.push(item);
     }
@@ -1190,11 +2352,7 @@ async function parseDocument(content: string | ArrayBuffer, fileName: string) {
 
   console.log(`✅ Parsed ${items.length} items from ${rows.length} data rows (after header at row ${headerIndex + 1})`);
 
-  return {
-    items,
-    totalItems: items.length,
-    headers
-  };
+  return items;
 }
 
 /**
@@ -1290,7 +2448,7 @@ function findDataHeaderFromRows(rows: any[][]): { headers: string[]; headerIndex
  * Intelligently find the actual data header row (skips metadata/blank rows) - CSV version
  * UPDATED: Now matches Excel header detection logic exactly for consistency
  */
-function findDataHeader(lines: string[]): { headerRow: string; headerIndex: number } {
+function findDataHeader(lines: string[], delimiter = ','): { headerRow: string; headerIndex: number } {
   console.log(`🔍 CSV Header detection: analyzing ${Math.min(lines.length, 20)} rows...`);
   
   for (let i = 0; i < Math.min(lines.length, 20); i++) {
@@ -1316,7 +2474,7 @@ function findDataHeader(lines: string[]): { headerRow: string; headerIndex: numb
     ).length;
     
     // Parse the line to count columns (simple split for now, will be parsed properly later)
-    const tempCols = line.split(',');
+    const tempCols = line.split(delimiter);
     const nonEmptyCount = tempCols.filter(c => c.trim().length > 0).length;
     
     // IMPROVED: If row has 2+ product indicators (matching Excel logic), it's likely a HEADER ROW
@@ -1356,10 +2514,39 @@ function findDataHeader(lines: string[]): { headerRow: string; headerIndex: numb
   return { headerRow: lines[0] || '', headerIndex: 0 };
 }
 
+const CSV_DELIMITERS = [',', '\t', '|', ';'];
+
+/**
+ * Detect the field delimiter of delimited text: the candidate that splits the most of
+ * the first lines into the same number (2+) of fields. Defaults to comma.
+ */
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.filter(line => line.trim()).slice(0, 20);
+  let best = { delimiter: ',', consistentLines: 0, fieldCount: 0 };
+  
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = sample.map(line => parseCSVLine(line, delimiter).length);
+    const frequency = new Map<number, number>();
+    for (const count of counts) {
+      if (count > 1) frequency.set(count, (frequency.get(count) || 0) + 1);
+    }
+    
+    for (const [fieldCount, consistentLines] of frequency) {
+      if (consistentLines > best.consistentLines ||
+          (consistentLines === best.consistentLines && fieldCount > best.fieldCount)) {
+        best = { delimiter, consistentLines, fieldCount };
+      }
+    }
+  }
+  
+  return best.delimiter;
+}
+
 /**
- * Advanced CSV line parser that handles quoted commas
+ * Advanced delimited-line parser that handles quoted delimiters (comma by default;
+ * pass the delimiter from detectDelimiter() for TSV / pipe-delimited text)
  */
-function parseCSVLine(line: string): string[] {
+function parseCSVLine(line: string, delimiter = ','): string[] {
   const values: string[] = [];
   let current = '';
   let inQuotes = false;
@@ -1369,7 +2556,7 @@ function parseCSVLine(line: string): string[] {
     
     if (char === '"') {
       inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
+    } else if (char === delimiter && !inQuotes) {
       values.push(current.trim());
       current = '';
     } else {
@@ -1594,23 +2781,13 @@ function detectColumnTypes(rows: Record<string, string>[], headers: string[]): {
 }
 
 /**
- * ENHANCED: Extract product info from row with comprehensive multi-column detection
- * 
- * Key improvements:
- * - Detects ALL SKU columns (OEM, Wholesaler, Staples, Depot, Generic)
- * - More lenient validation (extracts items even without prices)
- * - Comprehensive logging with confidence scoring
- * - Data quality tracking per item
+ * Resolve which header holds each column role (product name, qty, price, SKU columns)
+ * from header names, with detectColumnTypes() results as fallback for unlabeled columns.
+ * Used by extractProductInfo() and by the column-mapping preview.
  */
-function extractProductInfo(row: Record<string, string>, headers: string[], rowNumber: number = 0, detectedCols?: ReturnType<typeof detectColumnTypes>) {
-  // Check if we're using synthetic/generic headers (__COL_X__, __EMPTY, Column_1, etc.)
-  const usingSyntheticHeaders = headers.some(h => {
-    const trimmed = h.trim();
-    return /^(Column_\d+|__EMPTY(_\d+)?|__COL_\d+__)$/i.test(trimmed);
-  });
-  
-  let productNameCol, qtyCol, priceCol;
-  let skuColumnMap: Record<string, string> = {};
+function resolveColumnRoles(headers: string[], detectedCols?: ReturnType<typeof detectColumnTypes>): ResolvedColumns {
+  let productNameCol: string | undefined, qtyCol: string | undefined, priceCol: string | undefined;
+  const skuColumnMap: Record<string, string> = {};
   
   // CRITICAL FIX: Try explicit column name matching FIRST before using intelligent detection
   // This prevents false positives when files have proper headers but also some empty columns
@@ -1665,41 +2842,6 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
     detectedCols.skuCols.forEach((col, idx) => {
       skuColumnMap[`detected_${idx}`] = col;
     });
-  } else if (usingSyntheticHeaders && (!qtyCol || !priceCol)) {
-    // Fallback: Position-based detection on this single row
-    const values = headers.map(h => row[h]);
-    
-    const skuIdx = values.findIndex(v => {
-      const s = String(v || '').trim();
-      return s.length >= 3 && s.length <= 20 && /[A-Z]/i.test(s) && (/\d/.test(s) || /^M-/.test(s));
-    });
-    
-    const descIdx = values.findIndex(v => {
-      const s = String(v || '').trim();
-      return s.length > 15 && /\s/.test(s);
-    });
-    
-    const qtyIdx = values.findIndex(v => {
-      const s = String(v || '').trim();
-      const num = parseFloat(s.replace(/[^0-9.]/g, ''));
-      return !isNaN(num) && num > 0 && num < 10000 && s.length <= 6;
-    });
-    
-    const priceIdx = values.findIndex((v, i) => {
-      if (i === qtyIdx) return false;
-      if (i === skuIdx) return false; // Don't use SKU column as price
-      const s = String(v || '').trim();
-      const num = parseFloat(s.replace(/[^0-9.]/g, ''));
-      // Price should have $ sign OR decimal point, AND be reasonable ($5-$1000)
-      // Reject values that look like SKUs/codes (too large, no decimals)
-      if (num > 1000) return false; // Too large, likely a product code
-      return (/\$/.test(s) || /\./.test(s)) && num >= 5 && num <= 1000;
-    });
-    
-    if (skuIdx >= 0) skuColumnMap['primary'] = headers[skuIdx];
-    if (descIdx >= 0) productNameCol = headers[descIdx];
-    if (qtyIdx >= 0) qtyCol = headers[qtyIdx];
-    if (priceIdx >= 0) priceCol = headers[priceIdx];
   }
   
   // ======================================================================
@@ -1785,6 +2927,173 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
            /catalog.*number/i.test(h);
   });
   
+  // Order date: explicit order/invoice dates first, then a bare "Date", then ship dates
+  const orderDatePatterns = [
+    /\b(order|ordered|invoice|transaction|trans|purchase|po)\s*date\b|\bdate\s*(ordered|invoiced|purchased)\b/i,
+    /^date$/i,
+    /\b(ship|shipped)\s*date\b|\bdate\s*shipped\b/i
+  ];
+  let orderDateCol: string | undefined;
+  for (const pattern of orderDatePatterns) {
+    orderDateCol = headers.find(h => pattern.test(h.trim()));
+    if (orderDateCol) break;
+  }
+  
+  // Location: ship-to / site names and IDs (never street address, city or zip columns)
+  const locationPatterns = [
+    /\b(ship[\s-]*to|deliver(y)?[\s-]*to)\b.*\b(name|location|site|id|#|number|code)\b/i,
+    /^(ship[\s-]*to|deliver(y)?[\s-]*to|location|site|facility|branch|store)(\s*(name|id|#|number|no\.?|code))?$/i,
+    /\b(location|site|facility|branch)\b/i
+  ];
+  let locationCol: string | undefined;
+  for (const pattern of locationPatterns) {
+    locationCol = headers.find(h => pattern.test(h.trim()) && !/\b(address|street|city|state|zip|postal|country|phone)\b/i.test(h));
+    if (locationCol) break;
+  }
+  
+  // Cost center: explicit cost center / GL code first, then department, then division
+  const costCenterPatterns = [
+    /\b(cost[\s-]*cent(er|re)|gl[\s-]*(code|account))\b/i,
+    /\b(department|dept)\b/i,
+    /\bdivision\b/i
+  ];
+  let costCenterCol: string | undefined;
+  for (const pattern of costCenterPatterns) {
+    costCenterCol = headers.find(h => pattern.test(h.trim()) && h !== locationCol);
+    if (costCenterCol) break;
+  }
+  
+  if (oemCol) skuColumnMap['oem'] = oemCol;
+  if (wholesalerCol) skuColumnMap['wholesaler'] = wholesalerCol;
+  if (staplesSkuCol) skuColumnMap['staples'] = staplesSkuCol;
+  if (depotCol) skuColumnMap['depot'] = depotCol;
+  if (genericSkuCol) skuColumnMap['generic'] = genericSkuCol;
+  
+  return { productNameCol, qtyCol, priceCol, oemCol, wholesalerCol, staplesSkuCol, depotCol, genericSkuCol, orderDateCol, locationCol, costCenterCol, skuColumnMap };
+}
+
+/**
+ * Column roles from a user-confirmed mapping (replaces the header heuristics)
+ */
+function resolveMappedColumns(columnRoles: Record<string, ColumnRole>): ResolvedColumns {
+  const findColumn = (role: ColumnRole) => Object.keys(columnRoles).find(header => columnRoles[header] === role);
+  
+  return {
+    productNameCol: findColumn('product_name'),
+    qtyCol: findColumn('quantity'),
+    priceCol: findColumn('unit_price'),
+    oemCol: findColumn('oem_number'),
+    wholesalerCol: findColumn('wholesaler_sku'),
+    staplesSkuCol: findColumn('staples_sku'),
+    depotCol: findColumn('depot_sku'),
+    genericSkuCol: findColumn('sku'),
+    orderDateCol: findColumn('order_date'),
+    locationCol: findColumn('location'),
+    costCenterCol: findColumn('cost_center'),
+    skuColumnMap: {}
+  };
+}
+
+/**
+ * Parse an order-date cell into an ISO date (yyyy-mm-dd). Accepts ISO dates, US m/d/yy(yy)
+ * with "/", "-" or "." separators (SheetJS formats Excel dates this way), Excel serial
+ * numbers and month-name dates ("Feb 1, 2025"). Returns null for anything else.
+ */
+function parseOrderDate(value: string | undefined): string | null {
+  const text = value?.toString().trim();
+  if (!text) return null;
+  
+  let year: number, month: number, day: number;
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  const us = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+  
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (year < 100) year += 2000;
+  } else if (/^\d{5}(\.\d+)?$/.test(text)) {
+    // Excel serial date (days since 1899-12-30)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86400000);
+    [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  } else if (/[a-z]{3}/i.test(text) && !isNaN(Date.parse(text))) {
+    const date = new Date(Date.parse(text));
+    [year, month, day] = [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  } else {
+    return null;
+  }
+  
+  // Reject impossible dates (2/30) and years outside any plausible usage report
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (year < 2000 || year > 2100 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * ENHANCED: Extract product info from row with comprehensive multi-column detection
+ * 
+ * Key improvements:
+ * - Detects ALL SKU columns (OEM, Wholesaler, Staples, Depot, Generic)
+ * - More lenient validation (extracts items even without prices)
+ * - Comprehensive logging with confidence scoring
+ * - Data quality tracking per item
+ */
+function extractProductInfo(
+  row: Record<string, string>,
+  headers: string[],
+  rowNumber: number = 0,
+  detectedCols?: ReturnType<typeof detectColumnTypes>,
+  columnRoles?: Record<string, ColumnRole>
+) {
+  // Check if we're using synthetic/generic headers (__COL_X__, __EMPTY, Column_1, etc.)
+  const usingSyntheticHeaders = headers.some(h => {
+    const trimmed = h.trim();
+    return /^(Column_\d+|__EMPTY(_\d+)?|__COL_\d+__)$/i.test(trimmed);
+  });
+  
+  // A user-confirmed column mapping (preview step) replaces the header heuristics
+  const columns = columnRoles ? resolveMappedColumns(columnRoles) : resolveColumnRoles(headers, detectedCols);
+  let { productNameCol, qtyCol, priceCol } = columns;
+  const { oemCol, wholesalerCol, staplesSkuCol, depotCol, genericSkuCol, orderDateCol, locationCol, costCenterCol } = columns;
+  
+  if (!columnRoles && !detectedCols && usingSyntheticHeaders && (!qtyCol || !priceCol)) {
+    // Fallback: Position-based detection on this single row
+    const values = headers.map(h => row[h]);
+    
+    const skuIdx = values.findIndex(v => {
+      const s = String(v || '').trim();
+      return s.length >= 3 && s.length <= 20 && /[A-Z]/i.test(s) && (/\d/.test(s) || /^M-/.test(s));
+    });
+    
+    const descIdx = values.findIndex(v => {
+      const s = String(v || '').trim();
+      return s.length > 15 && /\s/.test(s);
+    });
+    
+    const qtyIdx = values.findIndex(v => {
+      const s = String(v || '').trim();
+      const num = parseFloat(s.replace(/[^0-9.]/g, ''));
+      return !isNaN(num) && num > 0 && num < 10000 && s.length <= 6;
+    });
+    
+    const priceIdx = values.findIndex((v, i) => {
+      if (i === qtyIdx) return false;
+      if (i === skuIdx) return false; // Don't use SKU column as price
+      const s = String(v || '').trim();
+      const num = parseFloat(s.replace(/[^0-9.]/g, ''));
+      // Price should have $ sign OR decimal point, AND be reasonable ($5-$1000)
+      // Reject values that look like SKUs/codes (too large, no decimals)
+      if (num > 1000) return false; // Too large, likely a product code
+      return (/\$/.test(s) || /\./.test(s)) && num >= 5 && num <= 1000;
+    });
+    
+    if (descIdx >= 0) productNameCol = headers[descIdx];
+    if (qtyIdx >= 0) qtyCol = headers[qtyIdx];
+    if (priceIdx >= 0) priceCol = headers[priceIdx];
+  }
+  
   // DEBUG LOGGING: Show which columns were detected (only log once per batch)
   if (rowNumber === 1) {
     console.log(`📋 Column Detection Results:`);
@@ -1796,17 +3105,12 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
     console.log(`   Generic SKU: ${genericSkuCol || 'not found'}`);
     console.log(`   Quantity Column: ${qtyCol || 'NOT FOUND'}`);
     console.log(`   Price Column: ${priceCol || 'NOT FOUND'}`);
+    console.log(`   Order Date Column: ${orderDateCol || 'not found'}`);
+    console.log(`   Location Column: ${locationCol || 'not found'}`);
+    console.log(`   Cost Center Column: ${costCenterCol || 'not found'}`);
     console.log(`   All Headers: [${headers.join(', ')}]`);
   }
   
-  if (oemCol) skuColumnMap['oem'] = oemCol;
-  if (wholesalerCol) skuColumnMap['wholesaler'] = wholesalerCol;
-  if (staplesSkuCol) skuColumnMap['staples'] = staplesSkuCol;
-  if (depotCol) skuColumnMap['depot'] = depotCol;
-  if (genericSkuCol) skuColumnMap['generic'] = genericSkuCol;
-  
-  // Note: qtyCol and priceCol are now detected earlier in the function (see lines 1236-1268)
-  
   // Extract values
   const productName = productNameCol ? row[productNameCol]?.trim() : '';
   
@@ -1843,6 +3147,12 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
   let longestText = productName; // Track the longest text field found (likely the real description)
   
   for (const header of headers) {
+    // Columns the user excluded in the mapping step are never scanned
+    if (columnRoles?.[header] === 'ignore') continue;
+    
+    // Site and department names are neither descriptions nor part numbers
+    if (header === locationCol || header === costCenterCol) continue;
+    
     const cellValue = row[header]?.toString().trim();
     
     // Skip if empty
@@ -1980,6 +3290,10 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
     totalPrice = MAX_DECIMAL;
   }
   
+  const orderDate = orderDateCol ? parseOrderDate(row[orderDateCol]) : null;
+  const location = locationCol ? row[locationCol]?.toString().trim() : '';
+  const costCenter = costCenterCol ? row[costCenterCol]?.toString().trim() : '';
+  
   return {
     rowNumber,
     raw_product_name: finalProductName,
@@ -1990,6 +3304,9 @@ function extractProductInfo(row: Record<string, string>, headers: string[], rowN
     unit_price: unitPrice,
     total_price: totalPrice,
     uom: undefined,
+    ...(orderDate && { order_date: orderDate }),
+    ...(location && { location }),
+    ...(costCenter && { cost_center: costCenter }),
     extraction_quality: {
       has_sku: hasSku,
       has_price: hasPrice,
@@ -2007,19 +3324,40 @@ async function matchProducts(items: any[], jobId: string, startOffset = 0, conte
   console.log(`🔍 Matching ${items.length} products (offset ${startOffset})...`);
   const BATCH_SIZE = 25; // Conservative batch size (25 concurrent operations for safety)
   const matched: any[] = [];
+  const chunkStart = Date.now();
+
+  // Tier 0 + Tier 1 for the whole chunk at once - only the leftovers are matched item by item
+  const exact = await batchExactMatch(items, context?.customerInfo.company);
+  const batchMs = Date.now() - chunkStart;
+  if (exact) {
+    console.log(`⚡ Set-based SKU lookup: ${exact.matched.size}/${items.length} matched in ${batchMs}ms`);
+  }
 
   // Process items in batches for efficiency
   for (let batchStart = 0; batchStart < items.length; batchStart += BATCH_SIZE) {
     const batchEnd = Math.min(batchStart + BATCH_SIZE, items.length);
     const batch = items.slice(batchStart, batchEnd);
+
+    // The heartbeat found the chunk reassigned - don't match anything more of it
+    if (context?.chunkLease?.lost) throw new ChunkLeaseLostError(context.chunkLease.chunkIndex);
     
     console.log(`📦 Batch ${Math.floor(batchStart/BATCH_SIZE) + 1}/${Math.ceil(items.length/BATCH_SIZE)} (${batchStart + 1}-${batchEnd})`);
 
     // Match all items in batch concurrently
     const batchPromises = batch.map(async (item, idx) => {
       const globalIdx = startOffset + batchStart + idx;
+      const exactMatch = exact?.matched.get(batchStart + idx);
+      if (exactMatch) return { ...exactMatch, match_duration_ms: batchMs };
+      
       try {
-        const matchResult = await matchSingleProduct(item, globalIdx + 1, 0);
+        const matchResult = await matchSingleProduct(
+          item,
+          globalIdx + 1,
+          0,
+          context?.customerInfo.company,
+          exact?.attempts.get(batchStart + idx),
+          context?.matchPolicy
+        );
         return matchResult;
       } catch (error) {
         console.error(`Error matching item ${globalIdx + 1}:`, error);
@@ -2028,7 +3366,13 @@ async function matchProducts(items: any[], jobId: string, startOffset = 0, conte
           matched_product: null,
           match_score: 0,
           match_method: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error'
+          error: error instanceof Error ? error.message : 'Unknown error',
+          match_log: [{
+            method: 'error',
+            score: 0,
+            rejected_reason: error instanceof Error ? error.message : 'Unknown error',
+            timestamp: new Date()
+          }]
         };
       }
     });
@@ -2036,8 +3380,11 @@ async function matchProducts(items: any[], jobId: string, startOffset = 0, conte
     const batchResults = await Promise.all(batchPromises);
     matched.push(...batchResults);
 
-    // Save batch to database in bulk
-    await saveBatchItems(batchResults, jobId);
+    // Save batch to database in bulk - results carry their line-item ID from here on
+    if (context?.chunkLease) await assertChunkLease(context.chunkLease);
+    const lineItemIds = await saveBatchItems(batchResults, jobId, context?.chunkLease);
+    batchResults.forEach((result, i) => { result.id = lineItemIds[i]; });
+    await learnSkuAliases(batchResults, jobId, context?.customerInfo.company);
     
     console.log(`  ✓ Saved batch ${Math.floor(batchStart/BATCH_SIZE) + 1}`);
     
@@ -2054,9 +3401,19 @@ async function matchProducts(items: any[], jobId: string, startOffset = 0, conte
   }
 
   const matchedCount = matched.filter(m => m.matched_product).length;
-  console.log(`✅ Chunk complete: ${matchedCount}/${items.length} matched (${Math.round(matchedCount/items.length*100)}%)`);
+  const durationMs = Date.now() - chunkStart;
+  const stats: ChunkMatchStats = {
+    items: items.length,
+    batch_matched: exact?.matched.size || 0,
+    per_item_matched: matchedCount - (exact?.matched.size || 0),
+    unmatched: items.length - matchedCount,
+    batch_ms: batchMs,
+    duration_ms: durationMs,
+    items_per_second: Math.round((items.length / Math.max(durationMs, 1)) * 1000 * 10) / 10
+  };
+  console.log(`✅ Chunk complete: ${matchedCount}/${items.length} matched (${Math.round(matchedCount/items.length*100)}%) - ${stats.items_per_second} items/s`);
 
-  return matched;
+  return { matched, stats };
 }
 
 /**
@@ -2064,13 +3421,20 @@ async function matchProducts(items: any[], jobId: string, startOffset = 0, conte
  * 
  * Key improvements:
  * - Tries ALL available SKU fields (not just one)
- * - 6-tier matching strategy (exact, fuzzy, combined, full-text, semantic, AI)
+ * - Learned SKU aliases first, then the 6-tier matching strategy (exact, fuzzy, combined, full-text, semantic, AI)
  * - Detailed logging with timing metrics
  * - Match attempt tracking for debugging
  */
-async function matchSingleProduct(item: any, index: number, total: number) {
+async function matchSingleProduct(
+  item: any,
+  index: number,
+  total: number,
+  customerCompany?: string,
+  exactTierAttempts?: MatchAttempt[], // Tier 0/1 already ran set-based (batchExactMatch) without a hit
+  policy: MatchPolicy = DEFAULT_MATCH_POLICY
+) {
   const startTime = Date.now();
-  const matchLog: MatchAttempt[] = [];
+  const matchLog: MatchAttempt[] = exactTierAttempts ? [...exactTierAttempts] : [];
   
   const displayName = item.raw_product_name || item.raw_sku || 'Unknown';
   console.log(`\n  🔍 [${index}/${total}] Matching: "${displayName}"`);
@@ -2087,10 +3451,35 @@ async function matchSingleProduct(item: any, index: number, total: number) {
 
   let bestMatch: { product: any; score: number; method: string } | null = null;
   
+  // ======================================================================
+  // TIER 0: Learned SKU aliases (customer item numbers confirmed before)
+  // ======================================================================
+  if (!exactTierAttempts && item.sku_fields && item.sku_fields.all_skus && item.sku_fields.all_skus.length > 0) {
+    for (const sku of item.sku_fields.all_skus) {
+      if (!sku || sku.length < 2) continue;
+      
+      const match = await skuAliasMatch(sku, item.sku_fields, customerCompany);
+      matchLog.push(toMatchAttempt('sku_alias', sku, match));
+      if (!match) continue;
+      
+      const duration = Date.now() - startTime;
+      console.log(`     ✅ MATCHED (sku_alias, ${match.alias.source}) "${sku}" in ${duration}ms: ${match.product.product_name}`);
+      return {
+        ...item,
+        matched_product: match.product,
+        match_score: match.score,
+        match_method: match.method,
+        match_attempts: matchLog.length,
+        match_duration_ms: duration,
+        match_log: matchLog
+      };
+    }
+  }
+  
   // ======================================================================
   // TIER 1: Exact SKU match on ALL available SKU fields
   // ======================================================================
-  if (item.sku_fields && item.sku_fields.all_skus && item.sku_fields.all_skus.length > 0) {
+  if (!exactTierAttempts && item.sku_fields && item.sku_fields.all_skus && item.sku_fields.all_skus.length > 0) {
     console.log(`     🎯 TIER 1: Trying exact match on ${item.sku_fields.all_skus.length} SKUs...`);
     
     for (let i = 0; i < item.sku_fields.all_skus.length; i++) {
@@ -2098,13 +3487,7 @@ async function matchSingleProduct(item: any, index: number, total: number) {
       if (!sku || sku.length < 2) continue;
       
       const match = await exactSKUMatch(sku);
-      matchLog.push({
-        method: 'exact_sku',
-        attempted_value: sku,
-        score: match ? match.score : 0,
-        product_id: match?.product?.id,
-        timestamp: new Date()
-      });
+      matchLog.push(toMatchAttempt('exact_sku', sku, match));
       
       if (match) {
         console.log(`        ✅ Exact match on SKU #${i+1} "${sku}": ${match.product.product_name}`);
@@ -2122,7 +3505,51 @@ async function matchSingleProduct(item: any, index: number, total: number) {
         match_score: bestMatch.score,
         match_method: bestMatch.method,
         match_attempts: matchLog.length,
-        match_duration_ms: duration
+        match_duration_ms: duration,
+        match_log: matchLog
+      };
+    }
+  }
+  
+  // ======================================================================
+  // TIER 1.2: Barcode (UPC / EAN / GTIN) and NSN
+  // ======================================================================
+  if (!bestMatch) {
+    const { gtins, nsns } = getIdentifierCandidates(item);
+    
+    if (gtins.length > 0 || nsns.length > 0) {
+      console.log(`     🎯 TIER 1.2: Trying ${gtins.length} barcode(s) and ${nsns.length} NSN(s)...`);
+    }
+    
+    for (const gtin of gtins) {
+      const match = await gtinMatch(gtin);
+      matchLog.push(toMatchAttempt('gtin', gtin, match));
+      if (match) {
+        bestMatch = match;
+        break;
+      }
+    }
+    
+    for (const nsn of bestMatch ? [] : nsns) {
+      const match = await nsnMatch(nsn);
+      matchLog.push(toMatchAttempt('nsn', nsn, match));
+      if (match) {
+        bestMatch = match;
+        break;
+      }
+    }
+    
+    if (bestMatch) {
+      const duration = Date.now() - startTime;
+      console.log(`     ✅ MATCHED (${bestMatch.method}) in ${duration}ms | Score: 1.00: ${bestMatch.product.product_name}`);
+      return {
+        ...item,
+        matched_product: bestMatch.product,
+        match_score: bestMatch.score,
+        match_method: bestMatch.method,
+        match_attempts: matchLog.length,
+        match_duration_ms: duration,
+        match_log: matchLog
       };
     }
   }
@@ -2134,15 +3561,9 @@ async function matchSingleProduct(item: any, index: number, total: number) {
     console.log(`     🎯 TIER 1.5: Trying exact product name match...`);
     
     const match = await exactProductNameMatch(item.raw_product_name);
-    matchLog.push({
-      method: 'exact_name',
-      attempted_value: item.raw_product_name,
-      score: match ? match.score : 0,
-      product_id: match?.product?.id,
-      timestamp: new Date()
-    });
+    matchLog.push(toMatchAttempt('exact_name', item.raw_product_name, match));
     
-    if (match && match.score === 1.0) {
+    if (match && isAcceptedByPolicy(policy, match)) {
       console.log(`        ✅ Exact product name match: ${match.product.product_name}`);
       bestMatch = match;
       
@@ -2154,7 +3575,8 @@ async function matchSingleProduct(item: any, index: number, total: number) {
         match_score: bestMatch.score,
         match_method: 'exact_name',
         match_attempts: matchLog.length,
-        match_duration_ms: duration
+        match_duration_ms: duration,
+        match_log: matchLog
       };
     }
   }
@@ -2169,13 +3591,7 @@ async function matchSingleProduct(item: any, index: number, total: number) {
       if (!sku || sku.length < 2) continue;
       
       const match = await fuzzySKUMatch(sku);
-      matchLog.push({
-        method: 'fuzzy_sku',
-        attempted_value: sku,
-        score: match ? match.score : 0,
-        product_id: match?.product?.id,
-        timestamp: new Date()
-      });
+      matchLog.push(toMatchAttempt('fuzzy_sku', sku, match));
       
       if (match && (!bestMatch || match.score > bestMatch.score)) {
         console.log(`        ✅ Fuzzy match on "${sku}": ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2183,7 +3599,7 @@ async function matchSingleProduct(item: any, index: number, total: number) {
       }
     }
     
-    if (bestMatch && bestMatch.score >= 0.90) {
+    if (bestMatch && isAcceptedByPolicy(policy, bestMatch)) {
       const duration = Date.now() - startTime;
       console.log(`     ✅ MATCHED (fuzzy_sku) in ${duration}ms | Score: ${bestMatch.score.toFixed(2)}`);
       return {
@@ -2192,7 +3608,8 @@ async function matchSingleProduct(item: any, index: number, total: number) {
         match_score: bestMatch.score,
         match_method: bestMatch.method,
         match_attempts: matchLog.length,
-        match_duration_ms: duration
+        match_duration_ms: duration,
+        match_log: matchLog
       };
     }
   }
@@ -2206,13 +3623,7 @@ async function matchSingleProduct(item: any, index: number, total: number) {
     for (const sku of item.sku_fields.all_skus) {
       const combinedSearch = `${sku} ${item.raw_product_name}`;
       const match = await fullTextSearch(combinedSearch);
-      matchLog.push({
-        method: 'combined_search',
-        attempted_value: combinedSearch.substring(0, 50),
-        score: match ? match.score : 0,
-        product_id: match?.product?.id,
-        timestamp: new Date()
-      });
+      matchLog.push(toMatchAttempt('combined_search', combinedSearch.substring(0, 50), match));
       
       if (match && (!bestMatch || match.score > bestMatch.score)) {
         console.log(`        ✅ Combined search: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2224,18 +3635,12 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   // ======================================================================
   // TIER 3.5: Simple ILIKE search on product name (handles special characters)
   // ======================================================================
-  if (!bestMatch || bestMatch.score < 0.90) {
+  if (!bestMatch || bestMatch.score < policy.tier_thresholds.ilike_search) {
     if (item.raw_product_name && item.raw_product_name !== 'Unknown Product' && item.raw_product_name.length > 5) {
       console.log(`     🎯 TIER 3.5: Trying ILIKE search on product name...`);
       
       const match = await simpleLikeSearch(item.raw_product_name);
-      matchLog.push({
-        method: 'ilike_search',
-        attempted_value: item.raw_product_name.substring(0, 50),
-        score: match ? match.score : 0,
-        product_id: match?.product?.id,
-        timestamp: new Date()
-      });
+      matchLog.push(toMatchAttempt('ilike_search', item.raw_product_name.substring(0, 50), match));
       
       if (match && (!bestMatch || match.score > bestMatch.score)) {
         console.log(`        ✅ ILIKE match: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2247,7 +3652,7 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   // ======================================================================
   // TIER 4: Description field search (search description and long_description)
   // ======================================================================
-  if (!bestMatch || bestMatch.score < 0.90) {
+  if (!bestMatch || bestMatch.score < policy.tier_thresholds.description_search) {
     // Try searching SKUs in description fields (sometimes OEM numbers appear in descriptions)
     if (item.sku_fields && item.sku_fields.all_skus && item.sku_fields.all_skus.length > 0) {
       console.log(`     🎯 TIER 4A: Trying SKU search in description fields...`);
@@ -2256,6 +3661,8 @@ async function matchSingleProduct(item: any, index: number, total: number) {
         if (!sku || sku.length < 3) continue;
         
         const match = await searchInDescriptions(sku);
+        matchLog.push(toMatchAttempt('description_search', sku, match));
+        
         if (match && (!bestMatch || match.score > bestMatch.score)) {
           console.log(`        ✅ Found in descriptions: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
           bestMatch = match;
@@ -2268,17 +3675,11 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   // ======================================================================
   // TIER 5: Full-text search on product name
   // ======================================================================
-  if (!bestMatch || bestMatch.score < 0.85) {
+  if (!bestMatch || bestMatch.score < policy.tier_thresholds.full_text) {
     console.log(`     🎯 TIER 5: Trying full-text search...`);
     
-    const match = await fullTextSearch(item.raw_product_name);
-    matchLog.push({
-      method: 'full_text',
-      attempted_value: item.raw_product_name.substring(0, 50),
-      score: match ? match.score : 0,
-      product_id: match?.product?.id,
-      timestamp: new Date()
-    });
+    const match = await fullTextSearch(item.raw_product_name);
+    matchLog.push(toMatchAttempt('full_text', item.raw_product_name.substring(0, 50), match));
     
     if (match && (!bestMatch || match.score > bestMatch.score)) {
       console.log(`        ✅ Full-text match: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2289,17 +3690,11 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   // ======================================================================
   // TIER 6: Semantic search
   // ======================================================================
-  if (!bestMatch || bestMatch.score < 0.75) {
+  if (!bestMatch || bestMatch.score < policy.tier_thresholds.semantic) {
     console.log(`     🎯 TIER 6: Trying semantic search...`);
     
     const match = await semanticSearch(item.raw_product_name);
-    matchLog.push({
-      method: 'semantic',
-      attempted_value: item.raw_product_name.substring(0, 50),
-      score: match ? match.score : 0,
-      product_id: match?.product?.id,
-      timestamp: new Date()
-    });
+    matchLog.push(toMatchAttempt('semantic', item.raw_product_name.substring(0, 50), match));
     
     if (match && (!bestMatch || match.score > bestMatch.score)) {
       console.log(`        ✅ Semantic match: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2308,21 +3703,13 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   }
 
   // ======================================================================
-  // TIER 7: AI Agent (optional, for low-confidence items)
+  // TIER 7: AI Agent (optional, for low-confidence items - policy.ai_tier_enabled)
   // ======================================================================
-  const useAIForLowConfidence = false; // Set to true to enable AI fallback
-  
-  if (useAIForLowConfidence && (!bestMatch || bestMatch.score < 0.65)) {
+  if (policy.ai_tier_enabled && (!bestMatch || bestMatch.score < policy.tier_thresholds.ai_agent)) {
     console.log(`     🤖 TIER 7: Using AI agent (low confidence)...`);
     
     const match = await aiAgentMatch(item);
-    matchLog.push({
-      method: 'ai_agent',
-      attempted_value: item.raw_product_name.substring(0, 50),
-      score: match ? match.score : 0,
-      product_id: match?.product?.id,
-      timestamp: new Date()
-    });
+    matchLog.push(toMatchAttempt('ai_agent', item.raw_product_name.substring(0, 50), match));
     
     if (match && (!bestMatch || match.score > bestMatch.score)) {
       console.log(`        ✅ AI match: ${match.product.product_name} (score: ${match.score.toFixed(2)})`);
@@ -2331,50 +3718,41 @@ async function matchSingleProduct(item: any, index: number, total: number) {
   }
 
   // ======================================================================
-  // STRICT VALIDATION: Require at least ONE exact match
+  // POLICY VALIDATION: The match policy decides what may be accepted
   // ======================================================================
-  // We must have either:
-  // 1. Exact SKU match (score = 1.0, method = 'exact_sku'), OR
-  // 2. Exact product name match (score = 1.0 from ILIKE search)
+  // The best candidate is kept when either:
+  // 1. Its method is accepted by the policy at its score (exact SKU, barcode and NSN always are), OR
+  // 2. The policy accepts on history and an earlier attempt on the item was accepted
   // 
-  // This prevents unrelated documents from matching via fuzzy/semantic/AI methods
+  // Under the default policy this still requires an exact SKU, barcode, NSN or product name hit,
+  // which prevents unrelated documents from matching via fuzzy/semantic/AI methods
   // ======================================================================
   
-  let hasExactMatch = false;
+  let isAccepted = false;
   
   if (bestMatch) {
-    // Check if we have an exact SKU match
-    if (bestMatch.method === 'exact_sku' && bestMatch.score === 1.0) {
-      hasExactMatch = true;
-      console.log(`     ✓ EXACT MATCH VALIDATED: Exact SKU match found`);
+    if (isAcceptedByPolicy(policy, bestMatch)) {
+      isAccepted = true;
+      console.log(`     ✓ MATCH ACCEPTED: ${bestMatch.method} at ${bestMatch.score.toFixed(2)} ("${policy.name}" policy)`);
     }
-    // Check if we have an exact product name match
-    else if ((bestMatch.method === 'exact_name' || bestMatch.method === 'ilike_search') && bestMatch.score === 1.0) {
-      hasExactMatch = true;
-      console.log(`     ✓ EXACT MATCH VALIDATED: Exact product name match found`);
-    }
-    // Check if any match attempt in the log was an exact match
-    else {
-      // Look through all match attempts to see if we had any exact matches
-      const hadExactSKU = matchLog.some(attempt => 
-        attempt.method === 'exact_sku' && attempt.score === 1.0
-      );
-      const hadExactName = matchLog.some(attempt => 
-        (attempt.method === 'exact_name' || attempt.method === 'ilike_search') && attempt.score === 1.0
-      );
-      
-      if (hadExactSKU || hadExactName) {
-        hasExactMatch = true;
-        console.log(`     ✓ EXACT MATCH VALIDATED: Found exact match in attempt history`);
-      }
+    // Check if any match attempt in the log was accepted
+    else if (policy.accept_on_exact_history && matchLog.some(attempt => isAcceptedByPolicy(policy, attempt))) {
+      isAccepted = true;
+      console.log(`     ✓ MATCH ACCEPTED: Found accepted match in attempt history ("${policy.name}" policy)`);
     }
   }
   
-  // Reject match if no exact match was found
-  if (bestMatch && !hasExactMatch) {
-    console.log(`     ⚠️  MATCH REJECTED: No exact SKU or product name match found`);
-    console.log(`     ⚠️  Best match was ${bestMatch.method} with score ${bestMatch.score.toFixed(2)}, but this requires exact validation`);
+  // Reject match if the policy does not accept it
+  if (bestMatch && !isAccepted) {
+    console.log(`     ⚠️  MATCH REJECTED: ${bestMatch.method} with score ${bestMatch.score.toFixed(2)} is not accepted by the "${policy.name}" policy`);
     console.log(`     💡 Item will be marked as unmatched for manual review`);
+    const minScore = policy.auto_accept[bestMatch.method];
+    matchLog.push({
+      ...toMatchAttempt('exact_validation', bestMatch.method, bestMatch),
+      rejected_reason: minScore !== undefined
+        ? `Best candidate came from ${bestMatch.method} (score ${bestMatch.score.toFixed(2)}) - the "${policy.name}" match policy needs ${minScore.toFixed(2)}`
+        : `Best candidate came from ${bestMatch.method} (score ${bestMatch.score.toFixed(2)}) - the "${policy.name}" match policy needs an exact SKU, barcode, NSN or product name hit`
+    });
     bestMatch = null; // Clear the match
   }
   
@@ -2432,16 +3810,14 @@ Respond with ONLY a JSON object in this exact format:
   "search_query": "best search terms for database"
 }`;
 
-    // Use gpt-4o-mini as specified by user requirements
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
+    // gpt-4o-mini JSON completion (via the configured extraction provider)
+    const content = await extractionProvider.completeJson({
+      prompt,
       temperature: 0.1, // Low temperature for consistent extraction
-      max_completion_tokens: 200,
-      response_format: { type: 'json_object' }
+      maxTokens: 200
     });
 
-    const parsed = JSON.parse(response.choices[0].message.content || '{}');
+    const parsed = JSON.parse(content || '{}');
     console.log(`      AI extracted:`, parsed);
 
     // Build intelligent search query based on AI extraction
@@ -2461,135 +3837,553 @@ Respond with ONLY a JSON object in this exact format:
       .eq('active', true)
       .limit(5);
 
-    if (!error && data && data.length > 0) {
-      // Find best match by comparing attributes
-      let bestMatch = data[0];
-      let bestScore = 0.65; // Base AI score
+    if (!error && data && data.length > 0) {
+      // Find best match by comparing attributes
+      let bestMatch = data[0];
+      let bestScore = 0.65; // Base AI score
+
+      for (const product of data) {
+        let score = 0.65;
+        
+        // Boost score for matching attributes
+        if (parsed.brand && product.brand?.toLowerCase().includes(parsed.brand.toLowerCase())) score += 0.15;
+        if (parsed.model && (product.model?.toLowerCase().includes(parsed.model.toLowerCase()) || 
+                             product.ase_clover_number?.toLowerCase().includes(parsed.model.toLowerCase()))) score += 0.15;
+        if (parsed.color && product.color_type?.toLowerCase() === parsed.color) score += 0.05;
+        
+        if (score > bestScore) {
+          bestScore = score;
+          bestMatch = product;
+        }
+      }
+
+      return {
+        product: bestMatch,
+        score: Math.min(bestScore, 0.95), // Cap AI matches at 0.95 (never 1.0 since it's not exact)
+        method: 'ai_suggested'
+      };
+    }
+
+    return null;
+  } catch (error) {
+    console.error('AI agent error:', error);
+    return null;
+  }
+}
+
+/**
+ * Simple ILIKE search on product_name field
+ * Handles special characters that break full-text search (like /, -, etc.)
+ * This is more reliable than full-text for exact product name matching
+ */
+async function simpleLikeSearch(productName: string) {
+  if (!productName || productName.length < 5) return null;
+
+  const cleanName = productName.trim();
+
+  // Try exact ILIKE match first
+  const { data, error } = await supabase
+    .from('master_products')
+    .select('*')
+    .ilike('product_name', `%${cleanName}%`)
+    .eq('active', true)
+    .limit(5);
+
+  if (!error && data && data.length > 0) {
+    // Calculate match score based on how close the match is
+    const matches = data.map(product => {
+      const productNameLower = product.product_name?.toLowerCase() || '';
+      const searchLower = cleanName.toLowerCase();
+      
+      // Exact match
+      if (productNameLower === searchLower) {
+        return { product, score: 1.0 };
+      }
+      
+      // Contains exact string
+      if (productNameLower.includes(searchLower)) {
+        const lengthRatio = searchLower.length / productNameLower.length;
+        // Score based on how much of the product name is the search term
+        return { product, score: 0.92 + (lengthRatio * 0.07) };
+      }
+      
+      // Partial match (search term contains product name or vice versa)
+      if (searchLower.includes(productNameLower)) {
+        return { product, score: 0.88 };
+      }
+      
+      // Word-level match
+      const searchWords = new Set(searchLower.split(/\s+/));
+      const productWords = new Set(productNameLower.split(/\s+/));
+      const commonWords = [...searchWords].filter(word => productWords.has(word));
+      const matchRatio = commonWords.length / Math.max(searchWords.size, productWords.size);
+      
+      return { product, score: 0.80 + (matchRatio * 0.10) };
+    });
+    
+    // Return best match
+    matches.sort((a, b) => b.score - a.score);
+    const bestMatch = matches[0];
+    
+    return {
+      product: bestMatch.product,
+      score: bestMatch.score,
+      method: 'ilike_search'
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Search in description and long_description fields
+ * Useful for finding products where SKU/OEM appears in description
+ */
+async function searchInDescriptions(searchTerm: string) {
+  if (!searchTerm || searchTerm.length < 3) return null;
+
+  const cleanTerm = searchTerm.trim().toUpperCase();
+
+  // Search in description and long_description using ILIKE
+  const { data, error } = await supabase
+    .from('master_products')
+    .select('*')
+    .or(`description.ilike.%${cleanTerm}%,long_description.ilike.%${cleanTerm}%,product_name.ilike.%${cleanTerm}%`)
+    .eq('active', true)
+    .limit(3);
+
+  if (!error && data && data.length > 0) {
+    // Return first match with a score based on where it was found
+    const bestMatch = data[0];
+    let score = 0.75; // Base score for description match
+    
+    // Higher score if found in product_name
+    if (bestMatch.product_name?.toUpperCase().includes(cleanTerm)) {
+      score = 0.90;
+    }
+    
+    return {
+      product: bestMatch,
+      score,
+      method: 'description_search'
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// MATCH POLICIES (which tiers may accept a match, and at what score)
+// ============================================================================
+
+/**
+ * Best score below which each later tier still runs
+ */
+interface MatchTierThresholds {
+  ilike_search: number;
+  description_search: number;
+  full_text: number;
+  semantic: number;
+  ai_agent: number;
+}
+
+/**
+ * Named match-acceptance policy (match_policies). Exact identifier matches (alias, SKU, barcode,
+ * NSN) are always accepted; the policy decides everything after them.
+ */
+interface MatchPolicy {
+  name: string;
+  description: string | null;
+  auto_accept: Record<string, number>; // Match method -> minimum score to accept its candidate
+  tier_thresholds: MatchTierThresholds;
+  ai_tier_enabled: boolean;
+  accept_on_exact_history: boolean;    // Accept the best candidate when an earlier attempt was accepted
+}
+
+// Same as the seeded 'default' row - used when match_policies has no default (or no rows)
+const DEFAULT_MATCH_POLICY: MatchPolicy = {
+  name: 'default',
+  description: 'Exact SKU, barcode, NSN or product name required; fuzzy SKU accepted from 0.90',
+  auto_accept: { exact_name: 1, ilike_search: 1, fuzzy_sku: 0.9 },
+  tier_thresholds: { ilike_search: 0.9, description_search: 0.9, full_text: 0.85, semantic: 0.75, ai_agent: 0.65 },
+  ai_tier_enabled: false,
+  accept_on_exact_history: true
+};
+
+/**
+ * Policy from a match_policies row, falling back to the default for missing or mistyped values
+ */
+function resolveMatchPolicy(row: Record<string, unknown>): MatchPolicy {
+  const policy: MatchPolicy = {
+    ...DEFAULT_MATCH_POLICY,
+    name: String(row.name),
+    description: typeof row.description === 'string' ? row.description : null,
+    tier_thresholds: { ...DEFAULT_MATCH_POLICY.tier_thresholds }
+  };
+
+  if (row.auto_accept && typeof row.auto_accept === 'object') {
+    policy.auto_accept = {};
+    for (const [method, score] of Object.entries(row.auto_accept as Record<string, unknown>)) {
+      if (typeof score === 'number') policy.auto_accept[method] = score;
+    }
+  }
+  if (row.tier_thresholds && typeof row.tier_thresholds === 'object') {
+    const thresholds = row.tier_thresholds as Record<string, unknown>;
+    for (const tier of Object.keys(policy.tier_thresholds) as (keyof MatchTierThresholds)[]) {
+      const threshold = thresholds[tier];
+      if (typeof threshold === 'number') policy.tier_thresholds[tier] = threshold;
+    }
+  }
+  if (typeof row.ai_tier_enabled === 'boolean') policy.ai_tier_enabled = row.ai_tier_enabled;
+  if (typeof row.accept_on_exact_history === 'boolean') policy.accept_on_exact_history = row.accept_on_exact_history;
+  return policy;
+}
+
+/**
+ * Load a policy by name, or the default policy when no name is given.
+ * Returns null when a named policy does not exist.
+ */
+async function loadMatchPolicy(name?: string | null): Promise<MatchPolicy | null> {
+  const query = supabase.from('match_policies').select('*');
+  const { data, error } = name
+    ? await query.eq('name', name).maybeSingle()
+    : await query.eq('is_default', true).maybeSingle();
+
+  if (error) {
+    console.error('Error loading match policy:', error);
+    if (name) throw new Error(`Failed to load match policy "${name}": ${error.message}`);
+    return DEFAULT_MATCH_POLICY;
+  }
+  if (!data) return name ? null : DEFAULT_MATCH_POLICY;
+  return resolveMatchPolicy(data);
+}
+
+/**
+ * Whether a candidate (or match-log attempt) is accepted under the policy
+ */
+function isAcceptedByPolicy(policy: MatchPolicy, match: { method: string; score: number }): boolean {
+  if (EXACT_IDENTIFIER_METHODS.includes(match.method)) return match.score === 1.0;
+  const minScore = policy.auto_accept[match.method];
+  return minScore !== undefined && match.score >= minScore;
+}
+
+// ============================================================================
+// SKU ALIASES (customer item numbers learned from reviews and exact matches)
+// ============================================================================
+
+// Only exact identifier hits teach an alias - a name or fuzzy match could pin the wrong product to the SKU
+const SKU_ALIAS_LEARN_METHODS = ['exact_sku', 'gtin', 'nsn'];
+const MASTER_SKU_COLUMNS = ['ase_clover_number', 'oem_number', 'wholesaler_sku', 'staples_sku', 'depot_sku', 'ase_oem_number'];
+
+// sku_aliases.vendor -> item SKU field holding that vendor's item numbers
+const SKU_ALIAS_VENDOR_FIELDS: Record<string, 'staples_sku' | 'depot_code' | 'wholesaler_code'> = {
+  staples: 'staples_sku',
+  depot: 'depot_code',
+  wholesaler: 'wholesaler_code'
+};
+
+/**
+ * Learned customer/vendor SKU -> master product (sku_aliases)
+ */
+interface SkuAlias {
+  id: string;
+  raw_sku: string;
+  customer_company: string | null; // NULL = all customers
+  vendor: string | null;           // NULL = any SKU column
+  source: 'manual' | 'exact_match';
+  master_product: { id: string; product_name: string; active: boolean } | null; // master_products row (*)
+}
+
+/**
+ * Alias key for a SKU (must match the normalization in match-review)
+ */
+function normalizeAliasSku(sku: string): string {
+  return sku.trim().toUpperCase();
+}
+
+/**
+ * The alias that applies to a SKU: the customer's own alias wins over a vendor alias, which
+ * wins over a shared one. A vendor alias only applies when the SKU came from that vendor's column.
+ */
+function pickSkuAlias(
+  aliases: SkuAlias[],
+  cleanSku: string,
+  skuFields: EnhancedExtractedItem['sku_fields'] | undefined,
+  customerKey: string | null
+): SkuAlias | null {
+  const applicable = aliases.filter(alias => {
+    if (!alias.master_product?.active) return false;
+    if (alias.customer_company !== null && alias.customer_company !== customerKey) return false;
+    if (alias.vendor === null) return true;
+    const vendorSku = skuFields?.[SKU_ALIAS_VENDOR_FIELDS[alias.vendor]];
+    return !!vendorSku && normalizeAliasSku(vendorSku) === cleanSku;
+  });
+
+  return applicable.find(candidate => candidate.customer_company !== null) ||
+         applicable.find(candidate => candidate.vendor !== null) ||
+         applicable[0] ||
+         null;
+}
+
+/**
+ * Count a line item matched through an alias (non-critical)
+ */
+async function recordSkuAliasHit(aliasId: string) {
+  const { error } = await supabase.rpc('record_sku_alias_hit', { p_alias_id: aliasId });
+  if (error) {
+    console.error('Error recording SKU alias hit:', error);
+  }
+}
+
+/**
+ * Tier 0: SKU alias lookup
+ */
+async function skuAliasMatch(sku: string, skuFields: EnhancedExtractedItem['sku_fields'], customerCompany?: string) {
+  if (!sku || sku.length < 2) return null;
+
+  const cleanSku = normalizeAliasSku(sku);
+
+  const { data, error } = await supabase
+    .from('sku_aliases')
+    .select('id, raw_sku, customer_company, vendor, source, master_product:master_product_id(*)')
+    .eq('raw_sku', cleanSku);
+
+  if (error) {
+    console.error('Error loading SKU aliases:', error);
+    return null;
+  }
+
+  const alias = pickSkuAlias((data || []) as SkuAlias[], cleanSku, skuFields, getProfileCustomerKey(customerCompany));
+  if (!alias) return null;
+
+  await recordSkuAliasHit(alias.id);
+
+  return {
+    product: alias.master_product!,
+    score: 1.0,
+    method: 'sku_alias',
+    alias: { id: alias.id, source: alias.source }
+  };
+}
+
+/**
+ * Remember the customer's SKU for exact identifier matches, so their next upload matches it
+ * at Tier 0. SKUs that are already a master_products SKU column are skipped (Tier 1 finds
+ * those). Existing aliases are kept - a reviewer's manual alias is never overwritten.
+ */
+async function learnSkuAliases(
+  items: { raw_sku?: string | null; match_method?: string; match_score?: number; matched_product?: Record<string, unknown> | null }[],
+  jobId: string,
+  customerCompany?: string
+) {
+  const customerKey = getProfileCustomerKey(customerCompany);
+  if (!customerKey) return;
+
+  const aliases = new Map<string, { raw_sku: string; customer_company: string; master_product_id: string; source: 'exact_match'; source_job_id: string }>();
+
+  for (const item of items) {
+    const product = item.matched_product;
+    if (!product?.id || !item.raw_sku) continue;
+    if (!SKU_ALIAS_LEARN_METHODS.includes(item.match_method || '') || item.match_score !== 1.0) continue;
+
+    const rawSku = normalizeAliasSku(item.raw_sku);
+    if (rawSku.length < 2) continue;
+    if (MASTER_SKU_COLUMNS.some(column => product[column] && normalizeAliasSku(String(product[column])) === rawSku)) continue;
+
+    aliases.set(rawSku, {
+      raw_sku: rawSku,
+      customer_company: customerKey,
+      master_product_id: String(product.id),
+      source: 'exact_match',
+      source_job_id: jobId
+    });
+  }
+
+  if (aliases.size === 0) return;
+
+  const { error } = await supabase
+    .from('sku_aliases')
+    .upsert(Array.from(aliases.values()), { onConflict: 'raw_sku,customer_company,vendor', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('Error saving learned SKU aliases:', error);
+  } else {
+    console.log(`🧠 Learned ${aliases.size} SKU alias(es) for "${customerKey}"`);
+  }
+}
+
+// ============================================================================
+// SET-BASED EXACT MATCHING (Tier 0 + Tier 1 for a whole chunk)
+// ============================================================================
+
+/**
+ * master_products row as returned by match_skus_exact() (every column but the vectors)
+ */
+type MasterProductRow = {
+  id: string;
+  product_name: string;
+  ase_clover_number?: string;
+  ase_oem_number?: string;
+  [column: string]: unknown;
+};
+
+/**
+ * Matching throughput of one chunk (processing_job_chunks.match_stats)
+ */
+interface ChunkMatchStats {
+  items: number;
+  batch_matched: number;    // Tier 0/1 hits from the set-based lookup
+  per_item_matched: number; // Matched by the per-item tiers (1.5 and below)
+  unmatched: number;
+  batch_ms: number;         // Set-based lookup
+  duration_ms: number;      // Whole chunk, including per-item tiers and saves
+  items_per_second: number;
+}
+
+/**
+ * Tier 0 and Tier 1 for a whole chunk in two queries: every normalized SKU of the chunk goes
+ * to sku_aliases and to match_skus_exact() at once, instead of one query per SKU per item.
+ * Items are resolved exactly as the per-item tiers would (every alias first, then exact SKUs
+ * in order). Returns the results by item index, plus the attempts of items that had no hit -
+ * those continue at Tier 1.5. Returns null when a lookup fails (items fall back to per-item).
+ */
+async function batchExactMatch(items: EnhancedExtractedItem[], customerCompany?: string) {
+  const skusPerItem: string[][] = items.map(item =>
+    (item.sku_fields?.all_skus || []).filter(sku => sku && sku.length >= 2)
+  );
+  const allSkus = Array.from(new Set(skusPerItem.flat().map(sku => normalizeAliasSku(sku))));
+
+  const matched = new Map<number, Record<string, unknown>>();
+  const attempts = new Map<number, MatchAttempt[]>();
+  if (allSkus.length === 0) return { matched, attempts };
+
+  const [aliasResult, exactResult] = await Promise.all([
+    supabase
+      .from('sku_aliases')
+      .select('id, raw_sku, customer_company, vendor, source, master_product:master_product_id(*)')
+      .in('raw_sku', allSkus),
+    supabase.rpc('match_skus_exact', { p_skus: allSkus })
+  ]);
+
+  if (aliasResult.error || exactResult.error) {
+    console.error('❌ Set-based SKU lookup failed - matching items one by one:', aliasResult.error || exactResult.error);
+    return null;
+  }
+
+  const aliasesBySku = new Map<string, SkuAlias[]>();
+  for (const alias of (aliasResult.data || []) as SkuAlias[]) {
+    aliasesBySku.set(alias.raw_sku, [...(aliasesBySku.get(alias.raw_sku) || []), alias]);
+  }
 
-      for (const product of data) {
-        let score = 0.65;
-        
-        // Boost score for matching attributes
-        if (parsed.brand && product.brand?.toLowerCase().includes(parsed.brand.toLowerCase())) score += 0.15;
-        if (parsed.model && (product.model?.toLowerCase().includes(parsed.model.toLowerCase()) || 
-                             product.ase_clover_number?.toLowerCase().includes(parsed.model.toLowerCase()))) score += 0.15;
-        if (parsed.color && product.color_type?.toLowerCase() === parsed.color) score += 0.05;
-        
-        if (score > bestScore) {
-          bestScore = score;
-          bestMatch = product;
+  const productsBySku = new Map<string, MasterProductRow>();
+  for (const row of (exactResult.data || []) as { matched_sku: string; product: MasterProductRow }[]) {
+    productsBySku.set(row.matched_sku, row.product);
+  }
+
+  const customerKey = getProfileCustomerKey(customerCompany);
+  const aliasHits: string[] = [];
+
+  items.forEach((item, idx) => {
+    const matchLog: MatchAttempt[] = [];
+    let match: { product: MasterProductRow; score: number; method: string } | null = null;
+
+    for (const sku of skusPerItem[idx]) {
+      const cleanSku = normalizeAliasSku(sku);
+      const alias = pickSkuAlias(aliasesBySku.get(cleanSku) || [], cleanSku, item.sku_fields, customerKey);
+      const aliasMatch = alias ? { product: alias.master_product!, score: 1.0, method: 'sku_alias' } : null;
+      matchLog.push(toMatchAttempt('sku_alias', sku, aliasMatch));
+      if (alias && aliasMatch) {
+        aliasHits.push(alias.id);
+        match = aliasMatch;
+        break;
+      }
+    }
+
+    if (!match) {
+      for (const sku of skusPerItem[idx]) {
+        const product = productsBySku.get(normalizeAliasSku(sku));
+        const exactMatch = product ? { product, score: 1.0, method: 'exact_sku' } : null;
+        matchLog.push(toMatchAttempt('exact_sku', sku, exactMatch));
+        if (exactMatch) {
+          match = exactMatch;
+          break;
         }
       }
+    }
 
-      return {
-        product: bestMatch,
-        score: Math.min(bestScore, 0.95), // Cap AI matches at 0.95 (never 1.0 since it's not exact)
-        method: 'ai_suggested'
-      };
+    if (!match) {
+      attempts.set(idx, matchLog);
+      return;
     }
 
-    return null;
-  } catch (error) {
-    console.error('AI agent error:', error);
-    return null;
-  }
+    matched.set(idx, {
+      ...item,
+      matched_product: match.product,
+      match_score: match.score,
+      match_method: match.method,
+      match_attempts: matchLog.length,
+      match_log: matchLog
+    });
+  });
+
+  await Promise.all(aliasHits.map(aliasId => recordSkuAliasHit(aliasId)));
+
+  return { matched, attempts };
 }
 
 /**
- * Simple ILIKE search on product_name field
- * Handles special characters that break full-text search (like /, -, etc.)
- * This is more reliable than full-text for exact product name matching
+ * Tier 1: Exact SKU matching
  */
-async function simpleLikeSearch(productName: string) {
-  if (!productName || productName.length < 5) return null;
+async function exactSKUMatch(sku: string) {
+  if (!sku || sku.length < 2) return null;
 
-  const cleanName = productName.trim();
+  // Clean the SKU
+  const cleanSku = sku.trim().toUpperCase();
 
-  // Try exact ILIKE match first
+  // ENHANCED: Search all SKU columns (primary SKU + vendor cross-references)
   const { data, error } = await supabase
     .from('master_products')
     .select('*')
-    .ilike('product_name', `%${cleanName}%`)
+    .or(`ase_clover_number.eq.${cleanSku},oem_number.eq.${cleanSku},wholesaler_sku.eq.${cleanSku},staples_sku.eq.${cleanSku},depot_sku.eq.${cleanSku},ase_oem_number.eq.${cleanSku}`)
     .eq('active', true)
-    .limit(5);
+    .limit(1)
+    .single();
 
-  if (!error && data && data.length > 0) {
-    // Calculate match score based on how close the match is
-    const matches = data.map(product => {
-      const productNameLower = product.product_name?.toLowerCase() || '';
-      const searchLower = cleanName.toLowerCase();
-      
-      // Exact match
-      if (productNameLower === searchLower) {
-        return { product, score: 1.0 };
-      }
-      
-      // Contains exact string
-      if (productNameLower.includes(searchLower)) {
-        const lengthRatio = searchLower.length / productNameLower.length;
-        // Score based on how much of the product name is the search term
-        return { product, score: 0.92 + (lengthRatio * 0.07) };
-      }
-      
-      // Partial match (search term contains product name or vice versa)
-      if (searchLower.includes(productNameLower)) {
-        return { product, score: 0.88 };
-      }
-      
-      // Word-level match
-      const searchWords = new Set(searchLower.split(/\s+/));
-      const productWords = new Set(productNameLower.split(/\s+/));
-      const commonWords = [...searchWords].filter(word => productWords.has(word));
-      const matchRatio = commonWords.length / Math.max(searchWords.size, productWords.size);
-      
-      return { product, score: 0.80 + (matchRatio * 0.10) };
-    });
-    
-    // Return best match
-    matches.sort((a, b) => b.score - a.score);
-    const bestMatch = matches[0];
-    
+  if (!error && data) {
     return {
-      product: bestMatch.product,
-      score: bestMatch.score,
-      method: 'ilike_search'
+      product: data,
+      score: 1.0,
+      method: 'exact_sku'
     };
   }
 
   return null;
 }
 
-/**
- * Search in description and long_description fields
- * Useful for finding products where SKU/OEM appears in description
- */
-async function searchInDescriptions(searchTerm: string) {
-  if (!searchTerm || searchTerm.length < 3) return null;
+// ============================================================================
+// BARCODE (UPC / EAN / GTIN) AND NSN IDENTIFIERS
+// ============================================================================
 
-  const cleanTerm = searchTerm.trim().toUpperCase();
+// Identifier tiers whose hit counts as exact in the strict validation gate
+const EXACT_IDENTIFIER_METHODS = ['exact_sku', 'sku_alias', 'gtin', 'nsn'];
 
-  // Search in description and long_description using ILIKE
+/**
+ * Tier 1.2: Barcode match on master_products.final_upc_code (as exact as a SKU match)
+ */
+async function gtinMatch(gtin14: string) {
   const { data, error } = await supabase
     .from('master_products')
     .select('*')
-    .or(`description.ilike.%${cleanTerm}%,long_description.ilike.%${cleanTerm}%,product_name.ilike.%${cleanTerm}%`)
+    .in('final_upc_code', getGtinVariants(gtin14))
     .eq('active', true)
-    .limit(3);
+    .limit(1)
+    .single();
 
-  if (!error && data && data.length > 0) {
-    // Return first match with a score based on where it was found
-    const bestMatch = data[0];
-    let score = 0.75; // Base score for description match
-    
-    // Higher score if found in product_name
-    if (bestMatch.product_name?.toUpperCase().includes(cleanTerm)) {
-      score = 0.90;
-    }
-    
+  if (!error && data) {
     return {
-      product: bestMatch,
-      score,
-      method: 'description_search'
+      product: data,
+      score: 1.0,
+      method: 'gtin'
     };
   }
 
@@ -2597,19 +4391,15 @@ async function searchInDescriptions(searchTerm: string) {
 }
 
 /**
- * Tier 1: Exact SKU matching
+ * Tier 1.2: NSN match on master_products.nsn_item / nsn_item_13digit, stored hyphenated or not
  */
-async function exactSKUMatch(sku: string) {
-  if (!sku || sku.length < 2) return null;
-
-  // Clean the SKU
-  const cleanSku = sku.trim().toUpperCase();
+async function nsnMatch(nsn: string) {
+  const digits = nsn.replace(/-/g, '');
 
-  // ENHANCED: Search all SKU columns (primary SKU + vendor cross-references)
   const { data, error } = await supabase
     .from('master_products')
     .select('*')
-    .or(`ase_clover_number.eq.${cleanSku},oem_number.eq.${cleanSku},wholesaler_sku.eq.${cleanSku},staples_sku.eq.${cleanSku},depot_sku.eq.${cleanSku},ase_oem_number.eq.${cleanSku}`)
+    .or(`nsn_item.eq.${nsn},nsn_item.eq.${digits},nsn_item_13digit.eq.${digits},nsn_item_13digit.eq.${nsn}`)
     .eq('active', true)
     .limit(1)
     .single();
@@ -2618,7 +4408,7 @@ async function exactSKUMatch(sku: string) {
     return {
       product: data,
       score: 1.0,
-      method: 'exact_sku'
+      method: 'nsn'
     };
   }
 
@@ -2815,12 +4605,7 @@ async function semanticSearch(productName: string) {
 
   try {
     // Generate embedding for search query
-    const embeddingResponse = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: productName,
-    });
-
-    const embedding = embeddingResponse.data[0].embedding;
+    const embedding = await embeddingProvider.embed(productName);
 
     // Vector similarity search
     const { data, error } = await supabase.rpc('match_products', {
@@ -3047,659 +4832,514 @@ function validateMatching(matchedItems: any[]): {
 
 /**
  * Save batch of extracted items to database (BULK INSERT for performance)
+ * 
+ * Each row gets its line-item ID here; returns the IDs in item order (null = row not saved).
+ * Later writes to the row (savings) are keyed on this ID.
+ */
+async function saveBatchItems(items: any[], jobId: string, lease?: ChunkLease): Promise<(string | null)[]> {
+  if (items.length === 0) return [];
+
+  // Cap numeric values to prevent overflow (DECIMAL(10,2) max is 99,999,999.99)
+  const MAX_DECIMAL = 99999999.99;
+  const MAX_INTEGER = 2147483647;
+  const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
+  const capInteger = (val: number) => Math.min(Math.max(val || 0, 0), MAX_INTEGER);
+  const capScore = (val: number) => Math.min(Math.max(val || 0, 0), 1); // match_score must be 0-1
+
+  const rows = items.map(item => {
+    // Validate match_method against CHECK constraint
+    let matchMethod = item.match_method || 'none';
+    if (!isMatchMethod(matchMethod)) {
+      console.warn(`Invalid match_method: ${matchMethod}, defaulting to 'none'`);
+      matchMethod = 'none';
+    }
+
+    return {
+      id: crypto.randomUUID(),
+      processing_job_id: jobId,
+      chunk_index: lease?.chunkIndex ?? null,
+      worker_id: lease?.workerId ?? null,
+      source_sheet: item.source_sheet?.substring(0, 100) || null,
+      source_page: item.source_page ?? null,
+      source_file: item.source_file?.substring(0, 255) || null,
+      source_rows: item.source_rows ?? null,
+      price_variance_pct: item.price_variance_pct ?? null,
+      price_variance_flagged: item.price_variance_flagged ?? false,
+      order_date: item.order_date ?? null,
+      location: item.location?.substring(0, 255) || null,
+      cost_center: item.cost_center?.substring(0, 255) || null,
+      raw_product_name: item.raw_product_name?.substring(0, 500) || null,
+      raw_sku: item.raw_sku?.substring(0, 100) || null,
+      raw_description: item.raw_description?.substring(0, 1000) || null,
+      quantity: capInteger(item.quantity),
+      unit_price: capValue(item.unit_price),
+      total_price: capValue(item.total_price),
+      matched_product_id: item.matched_product?.id || null,
+      match_score: capScore(item.match_score), // Ensure 0-1 range
+      match_method: matchMethod,
+      match_log: item.match_log ?? null,
+      current_total_cost: capValue(item.total_price)
+    };
+  });
+
+  const { error } = await supabase
+    .from('order_items_extracted')
+    .insert(rows);
+
+  if (error) {
+    console.error('❌ Error saving batch items:', error);
+    console.error('Batch size:', items.length);
+    console.error('First item:', { 
+      name: items[0].raw_product_name, 
+      sku: items[0].raw_sku,
+      qty: items[0].quantity,
+      price: items[0].unit_price,
+      match_score: items[0].match_score,
+      match_method: items[0].match_method
+    });
+    
+    // Try saving items one by one to identify problematic rows
+    console.log('🔄 Attempting individual inserts to identify failing rows...');
+    const savedIds: (string | null)[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const { error: singleError } = await supabase
+        .from('order_items_extracted')
+        .insert([rows[i]]);
+      
+      if (singleError) {
+        console.error(`❌ Failed to save item ${i + 1}:`, singleError);
+        console.error('Problematic item data:', rows[i]);
+      }
+      savedIds.push(singleError ? null : rows[i].id);
+    }
+    return savedIds;
+  }
+
+  console.log(`✅ Saved batch of ${items.length} items`);
+  return rows.map(row => row.id);
+}
+
+// ============================================================================
+// PRICE BOOKS (account, GPO contract and volume-tier pricing)
+// ============================================================================
+
+const PRICE_BOOK_ENTRY_FETCH_SIZE = 200; // Product IDs per price_book_entries query
+
+/**
+ * Load the active price books assigned to the customer (or to all customers) and effective
+ * on the given date. Pricing falls back to the catalog when books cannot be loaded.
+ */
+async function loadPriceBooks(customerCompany: string | undefined, asOf: string): Promise<PriceBookSet> {
+  const customerKey = getProfileCustomerKey(customerCompany);
+  const pricing: PriceBookSet = { books: [], entries: new Map() };
+
+  const { data, error } = await supabase
+    .from('price_books')
+    .select('id, name, contract_status, priority, effective_from, effective_to, price_book_assignments(customer_company)')
+    .eq('active', true);
+
+  if (error) {
+    console.error('Error loading price books (using catalog prices):', error);
+    return pricing;
+  }
+
+  for (const book of data || []) {
+    if (book.effective_from && book.effective_from > asOf) continue;
+    if (book.effective_to && book.effective_to < asOf) continue;
+
+    const assignments: { customer_company: string | null }[] = book.price_book_assignments || [];
+    const customerSpecific = customerKey !== null && assignments.some(a => a.customer_company === customerKey);
+    if (!customerSpecific && !assignments.some(a => a.customer_company === null)) continue;
+
+    pricing.books.push({
+      id: book.id,
+      name: book.name,
+      contract_status: book.contract_status,
+      priority: book.priority,
+      customer_specific: customerSpecific
+    });
+  }
+
+  if (pricing.books.length > 0) {
+    console.log(`📒 Price books for ${customerCompany || 'unknown customer'} on ${asOf}: ${pricing.books.map(b => b.name).join(', ')}`);
+  }
+  return pricing;
+}
+
+/**
+ * Fetch the applicable books' entries for products not fetched yet
+ */
+async function prefetchPriceBookEntries(pricing: PriceBookSet, productIds: string[]) {
+  if (pricing.books.length === 0) return;
+
+  const missing = Array.from(new Set(productIds.filter(id => id && !pricing.entries.has(id))));
+  const bookIds = pricing.books.map(book => book.id);
+
+  for (let start = 0; start < missing.length; start += PRICE_BOOK_ENTRY_FETCH_SIZE) {
+    const ids = missing.slice(start, start + PRICE_BOOK_ENTRY_FETCH_SIZE);
+    const { data, error } = await supabase
+      .from('price_book_entries')
+      .select('price_book_id, master_product_id, min_quantity, unit_price')
+      .in('price_book_id', bookIds)
+      .in('master_product_id', ids);
+
+    if (error) {
+      console.error('Error loading price book entries (using catalog prices):', error);
+      continue;
+    }
+
+    for (const id of ids) pricing.entries.set(id, []);
+    for (const entry of (data || []) as PriceBookEntry[]) {
+      pricing.entries.get(entry.master_product_id)?.push({ ...entry, unit_price: Number(entry.unit_price) });
+    }
+  }
+}
+
+// ============================================================================
+// MARKET PRICE ESTIMATES (documents without a price column)
+// ============================================================================
+
+const MARKET_PRICE_WINDOW_DAYS = 365;        // Only prices observed in the last year
+
+/**
+ * Save the per-each prices of this job's matched, priced rows as observed market prices.
+ * Replaces the job's earlier observations, so re-analysis does not count a document twice.
+ */
+async function recordObservedPrices(
+  items: Array<{ matched_product?: { id?: string } | null; unit_price?: number | null; quantity?: number | null; order_date?: string | null }>,
+  jobId: string,
+  customerCompany?: string
+) {
+  const rows = items
+    .filter(item => item.matched_product?.id && item.unit_price && item.unit_price > 0)
+    .map(item => ({
+      master_product_id: item.matched_product!.id,
+      unit_price: Math.round(item.unit_price! * 100) / 100,
+      quantity: item.quantity || null,
+      customer_company: getProfileCustomerKey(customerCompany),
+      source_job_id: jobId,
+      ...(item.order_date && { observed_on: item.order_date })
+    }));
+
+  const { error: deleteError } = await supabase
+    .from('observed_prices')
+    .delete()
+    .eq('source_job_id', jobId);
+
+  if (deleteError) {
+    console.error('Error clearing observed prices (non-critical):', deleteError);
+    return;
+  }
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from('observed_prices').insert(rows);
+  if (error) {
+    console.error('Error recording observed prices (non-critical):', error);
+  } else {
+    console.log(`🏷️  Recorded ${rows.length} observed prices`);
+  }
+}
+
+/**
+ * Observed price statistics and markup defaults for the given products. Missing data only
+ * narrows the estimate to markups (or the built-in default markup).
  */
-async function saveBatchItems(items: any[], jobId: string) {
-  if (items.length === 0) return;
+async function loadMarketPriceReference(productIds: string[]): Promise<MarketPriceReference> {
+  const reference: MarketPriceReference = { observed: new Map(), markups: [] };
+  const ids = Array.from(new Set(productIds.filter(Boolean)));
+  const since = new Date(Date.now() - MARKET_PRICE_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  if (ids.length === 0) return reference;
 
-  // Cap numeric values to prevent overflow (DECIMAL(10,2) max is 99,999,999.99)
-  const MAX_DECIMAL = 99999999.99;
-  const MAX_INTEGER = 2147483647;
-  const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
-  const capInteger = (val: number) => Math.min(Math.max(val || 0, 0), MAX_INTEGER);
-  const capScore = (val: number) => Math.min(Math.max(val || 0, 0), 1); // match_score must be 0-1
+  const { data, error } = await supabase.rpc('market_price_stats', { p_product_ids: ids, p_since: since });
+  if (error) {
+    console.error('Error loading observed prices (using markups):', error);
+  }
+  for (const row of data || []) {
+    reference.observed.set(row.master_product_id, {
+      observations: Number(row.observations),
+      median: Number(row.median_price),
+      low: Number(row.low_price),
+      high: Number(row.high_price)
+    });
+  }
 
-  const rows = items.map(item => {
-    // Validate match_method against CHECK constraint
-    const validMethods = ['exact_sku', 'fuzzy_sku', 'fuzzy_name', 'semantic', 'ai_suggested', 'manual', 'none', 'error', 'timeout'];
-    let matchMethod = item.match_method || 'none';
-    if (!validMethods.includes(matchMethod)) {
-      console.warn(`Invalid match_method: ${matchMethod}, defaulting to 'none'`);
-      matchMethod = 'none';
-    }
+  const { data: markups, error: markupError } = await supabase
+    .from('market_price_markups')
+    .select('brand, category, markup, band_pct');
+  if (markupError) {
+    console.error('Error loading market price markups (using default):', markupError);
+  }
+  reference.markups = (markups || []).map((row: Record<string, unknown>) => ({
+    brand: typeof row.brand === 'string' ? row.brand.toLowerCase() : null,
+    category: typeof row.category === 'string' ? row.category : null,
+    markup: Number(row.markup),
+    band_pct: Number(row.band_pct)
+  }));
+
+  return reference;
+}
 
-    return {
-      processing_job_id: jobId,
-      raw_product_name: item.raw_product_name?.substring(0, 500) || null,
-      raw_sku: item.raw_sku?.substring(0, 100) || null,
-      raw_description: item.raw_description?.substring(0, 1000) || null,
-      quantity: capInteger(item.quantity),
-      unit_price: capValue(item.unit_price),
-      total_price: capValue(item.total_price),
-      matched_product_id: item.matched_product?.id || null,
-      match_score: capScore(item.match_score), // Ensure 0-1 range
-      match_method: matchMethod,
-      current_total_cost: capValue(item.total_price)
-    };
-  });
+// ============================================================================
+// PRINTER FLEET (per-device cost per page and cartridge mix)
+// ============================================================================
 
-  const { error } = await supabase
-    .from('order_items_extracted')
-    .insert(rows);
+const PRINTER_FLEET_MAX_DEVICES = 500;  // Devices accepted per start request
+const FLEET_MODEL_FETCH_SIZE = 100;     // Printer models per fleet_compatible_products() call
+const FLEET_GROUP_FETCH_SIZE = 25;      // compatibility_group values per master_products query
 
-  if (error) {
-    console.error('❌ Error saving batch items:', error);
-    console.error('Batch size:', items.length);
-    console.error('First item:', { 
-      name: items[0].raw_product_name, 
-      sku: items[0].raw_sku,
-      qty: items[0].quantity,
-      price: items[0].unit_price,
-      match_score: items[0].match_score,
-      match_method: items[0].match_method
+/**
+ * Printer fleet from the `printerFleet` field of the start request: [{model, monthly_pages,
+ * count?, location?}]. Entries without a model or a positive monthly_pages are dropped;
+ * returns undefined when none is left.
+ */
+function resolvePrinterFleet(input: unknown): PrinterFleetDevice[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+
+  const devices: PrinterFleetDevice[] = [];
+  for (const entry of input.slice(0, PRINTER_FLEET_MAX_DEVICES)) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { model, monthly_pages, count, location } = entry as Record<string, unknown>;
+    if (typeof model !== 'string' || !printerModelKey(model)) continue;
+    if (typeof monthly_pages !== 'number' || !(monthly_pages > 0)) continue;
+
+    devices.push({
+      model: model.trim().substring(0, 100),
+      monthly_pages,
+      count: typeof count === 'number' && count >= 1 ? Math.floor(count) : 1,
+      ...(typeof location === 'string' && location.trim() && { location: location.trim().substring(0, 255) }),
+      source: 'customer'
     });
-    
-    // Try saving items one by one to identify problematic rows
-    console.log('🔄 Attempting individual inserts to identify failing rows...');
-    for (let i = 0; i < items.length; i++) {
-      const { error: singleError } = await supabase
-        .from('order_items_extracted')
-        .insert([rows[i]]);
-      
-      if (singleError) {
-        console.error(`❌ Failed to save item ${i + 1}:`, singleError);
-        console.error('Problematic item data:', rows[i]);
-      }
-    }
-  } else {
-    console.log(`✅ Saved batch of ${items.length} items`);
   }
+  return devices.length > 0 ? devices : undefined;
 }
 
 /**
- * Calculate cost and environmental savings
- * UPDATED: Uses normalized prices and CPP-based higher-yield optimization
+ * Load the cartridges that fit each device: the customer's printer models through
+ * fleet_compatible_products(), or - without a fleet - the compatibility_group / first listed
+ * printer of every matched cartridge.
  */
-async function calculateSavings(matchedItems: any[], jobId: string) {
-  console.log('💰 Calculating savings with CPP-based optimization...');
-
-  // Track totals for OEM section (items without -R match or with -R but no ase_price)
-  let oemUniqueSkus = new Set<string>();
-  let oemLineItems = 0;
-  let oemTotalBasket = 0;
-  let rdTbaCount = 0;  // True no match (not in database)
-  let oemOnlyCount = 0;  // Has match but no ase_price
-  
-  // Track totals for Remanufactured section (items with -R and ase_price and savings)
-  let remanUniqueSkus = new Set<string>();
-  let remanLineItems = 0;
-  let remanCurrentCost = 0;  // What customer currently pays
-  let remanOptimizedCost = 0;  // What customer would pay with us
-  let remanSavings = 0;  // Difference
-  
-  // Environmental tracking
-  let itemsWithSavings = 0;
-  let itemsAnalyzed = 0;
-  let itemsSkipped = 0;
-  let cartridgesSaved = 0;
-  let co2Reduced = 0;
-  let plasticReduced = 0;
-  let shippingWeightSaved = 0;
-
-  const breakdown: any[] = [];
-  
-  // For granular progress updates
-  const totalItems = matchedItems.length;
-  let itemsProcessed = 0;
-  const UPDATE_INTERVAL = Math.max(10, Math.floor(totalItems / 10)); // Update every ~10% or at least every 10 items
+async function loadFleetCompatibility(matchedProducts: SavingsProduct[], fleet?: PrinterFleetDevice[]): Promise<FleetCompatibility> {
+  const compatible: FleetCompatibility = new Map();
+  const addProduct = (key: string, product: SavingsProduct) => {
+    const products = compatible.get(key) || [];
+    if (!products.some(existing => existing.id === product.id)) products.push(product);
+    compatible.set(key, products);
+  };
 
-  for (const item of matchedItems) {
-    itemsProcessed++;
-    
-    // GRANULAR PROGRESS: Update progress periodically during savings calculation
-    if (itemsProcessed % UPDATE_INTERVAL === 0 || itemsProcessed === totalItems) {
-      const savingsProgress = 65 + Math.floor((itemsProcessed / totalItems) * 13); // 65-78% for savings calc
-      await updateProgress(
-        jobId,
-        savingsProgress,
-        `Analyzing savings: ${itemsProcessed}/${totalItems} products evaluated...`
-      );
-    }
-    // Skip if no match found - this goes to OEM section as "R&D TBA"
-    if (!item.matched_product) {
-      const currentCost = (item.unit_price || 0) * (item.quantity || 0);
-      
-      // Track in OEM section
-      oemLineItems++;
-      oemTotalBasket += currentCost;
-      rdTbaCount++;  // True no match - R&D TBA
-      if (item.raw_sku) {
-        oemUniqueSkus.add(item.raw_sku);
+  const models = new Set<string>();
+  const groups = new Set<string>();
+  if (fleet) {
+    for (const device of fleet) models.add(device.model);
+  } else {
+    for (const product of matchedProducts) {
+      const key = inferredDeviceKey(product);
+      if (!key) continue;
+      if (product.compatibility_group) {
+        groups.add(product.compatibility_group);
+      } else {
+        models.add(product.compatible_printers!.find(printer => printerModelKey(printer))!);
       }
-      
-      breakdown.push({
-        ...item,
-        savings: null,
-        recommendation: 'No match found - R&D TBA',
-        match_type: 'no_match',
-        ase_sku: null
-      });
-      itemsSkipped++;
-      console.log(`  ⊘ No match (R&D TBA): ${item.raw_product_name}`);
-      continue;
     }
+  }
 
-    const matchedProduct = item.matched_product;
-    
-    // Check if we have required data for savings calculation
-    // Use ase_price first, then partner_list_price as fallback
-    const hasAsePrice = (matchedProduct.ase_price && matchedProduct.ase_price > 0) ||
-                        (matchedProduct.partner_list_price && matchedProduct.partner_list_price > 0);
-    const hasPageYield = matchedProduct.page_yield && matchedProduct.page_yield > 0;
-    
-    // Get the ASE price (prioritize ase_price > partner_list_price)
-    const asePrice = (matchedProduct.ase_price && matchedProduct.ase_price > 0) 
-      ? matchedProduct.ase_price 
-      : (matchedProduct.partner_list_price && matchedProduct.partner_list_price > 0)
-        ? matchedProduct.partner_list_price
-        : 0;
-    
-    // PRICING VALIDATION WITH CASCADING FALLBACK:
-    // Priority 1: User's price from document (most accurate)
-    // Priority 2: Catalog partner_list_price (partner/retail pricing)
-    // Priority 3: Estimated from ase_price * 1.30 (30% markup)
-    // Priority 4: Estimated from partner_list_price * 1.30 (30% markup)
-    // Last Resort: Skip if no pricing data available at all
-    
-    const hasUserPrice = item.unit_price && item.unit_price > 0;
-    const hasPartnerListPrice = matchedProduct.partner_list_price && matchedProduct.partner_list_price > 0;
-    const hasAsePrice_Check = matchedProduct.ase_price && matchedProduct.ase_price > 0;
-    
-    // If no ASE price at all, categorize as OEM Only (uses partner_list_price)
-    if (!hasAsePrice) {
-      const currentCost = (item.unit_price || 0) * item.quantity;
-      
-      // Track in OEM section
-      oemLineItems++;
-      oemTotalBasket += currentCost;
-      oemOnlyCount++;  // Has match but no ase_price - OEM Only
-      if (item.raw_sku) {
-        oemUniqueSkus.add(item.raw_sku);
-      }
-      
-      breakdown.push({
-        ...item,
-        matched_product: matchedProduct,
-        savings: 0,
-        recommendation: 'No ASE pricing available - OEM Only',
-        match_type: 'oem_only',
-        ase_sku: matchedProduct.ase_clover_number || matchedProduct.ase_oem_number || null
-      });
-      itemsSkipped++;
-      console.log(`  ⊘ OEM Only (no ASE price): ${item.raw_product_name}`);
+  const modelList = Array.from(models);
+  for (let start = 0; start < modelList.length; start += FLEET_MODEL_FETCH_SIZE) {
+    const { data, error } = await supabase.rpc('fleet_compatible_products', {
+      p_models: modelList.slice(start, start + FLEET_MODEL_FETCH_SIZE)
+    });
+
+    if (error) {
+      console.error('Error loading cartridges for printer models:', error);
       continue;
     }
-    
-    // Cascading fallback pricing logic
-    let effectiveUserPrice: number;
-    let priceSource: string;
-    let assumedPricingMessage: string | undefined;
-    
-    if (hasUserPrice) {
-      // Priority 1: Use user-provided price from document
-      effectiveUserPrice = item.unit_price;
-      priceSource = 'user_file';
-      assumedPricingMessage = undefined; // No message needed - actual price provided
-    } else if (hasPartnerListPrice) {
-      // Priority 2: Use catalog partner_list_price
-      effectiveUserPrice = matchedProduct.partner_list_price;
-      priceSource = 'catalog_partner_list_price';
-      assumedPricingMessage = 'Note: Assumed pricing based on catalog partner list price since document didn\'t include price information.';
-    } else if (hasAsePrice_Check) {
-      // Priority 3: Estimate from ase_price with 30% markup
-      effectiveUserPrice = matchedProduct.ase_price * 1.30;
-      priceSource = 'estimated_from_ase_price';
-      assumedPricingMessage = 'Note: Assumed pricing based on estimated market price (30% markup from ASE price) since document didn\'t include price information.';
-    } else {
-      // Last Resort: No pricing data available at all - categorize as OEM Only
-      
-      // Track in OEM section
-      oemLineItems++;
-      oemOnlyCount++;  // Has match but no price data - OEM Only
-      if (item.raw_sku) {
-        oemUniqueSkus.add(item.raw_sku);
-      }
-      
-      breakdown.push({
-        ...item,
-        matched_product: matchedProduct,
-        savings: 0,
-        recommendation: 'Pricing information needed to calculate savings',
-        ase_price_available: asePrice,
-        message: `We found a match for this product! ASE price: $${asePrice.toFixed(2)}/unit. Upload a document with pricing to see potential savings.`,
-        match_type: 'oem_only',
-        ase_sku: matchedProduct.ase_clover_number || matchedProduct.ase_oem_number || null
-      });
-      itemsSkipped++;
-      console.log(`  ⊘ OEM Only (no pricing data): ${item.raw_product_name} - matched but cannot calculate savings without any price reference`);
+    for (const row of (data || []) as { printer_model: string; product: SavingsProduct }[]) {
+      addProduct(printerModelKey(row.printer_model), row.product);
+    }
+  }
+
+  const groupList = Array.from(groups);
+  for (let start = 0; start < groupList.length; start += FLEET_GROUP_FETCH_SIZE) {
+    const { data, error } = await supabase
+      .from('master_products')
+      .select('*')
+      .in('compatibility_group', groupList.slice(start, start + FLEET_GROUP_FETCH_SIZE))
+      .eq('active', true)
+      .not('page_yield', 'is', null);
+
+    if (error) {
+      console.error('Error loading compatibility groups:', error);
       continue;
     }
+    for (const product of (data || []) as SavingsProduct[]) {
+      addProduct(`group:${product.compatibility_group}`, product);
+    }
+  }
 
-    // We have enough data - analyze this item
-    itemsAnalyzed++;
-    const currentCost = effectiveUserPrice * item.quantity;
+  return compatible;
+}
 
-    // Calculate CPP for matched product (using normalized ASE price) - only if we have page yield
-    const matchedCPP = hasPageYield ? calculateCostPerPage(asePrice, matchedProduct.page_yield) : null;
-    const userCPP = hasPageYield ? calculateCostPerPage(effectiveUserPrice, matchedProduct.page_yield) : null;
-    
-    console.log(`  📊 Analyzing: ${item.raw_product_name}`);
-    console.log(`     User paying: $${effectiveUserPrice.toFixed(2)}/unit (${priceSource})${assumedPricingMessage ? ' [ASSUMED]' : ''}, CPP: ${userCPP ? '$' + userCPP.toFixed(4) : 'N/A (no page yield)'}`);
-    if (assumedPricingMessage) {
-      console.log(`     ℹ️  ${assumedPricingMessage}`);
+// ============================================================================
+// SAVINGS (catalog snapshot in, results out - the engine itself is savings-engine.ts)
+// ============================================================================
+
+const SAVINGS_FAMILY_FETCH_SIZE = 25;           // family_series per master_products query
+const SAVINGS_WRITE_BATCH_SIZE = 1000;          // Rows per apply_savings_results() call
+
+/**
+ * Load the catalog data the savings engine needs for these line items: family peers for
+ * higher-yield options, cartridges per fleet device, price book entries and market prices.
+ */
+async function loadSavingsCatalog(
+  matchedItems: any[],
+  pricing?: PriceBookSet,
+  fleet?: PrinterFleetDevice[]
+): Promise<SavingsCatalog> {
+  const matchedProducts: SavingsProduct[] = matchedItems.map(item => item.matched_product).filter(Boolean);
+  const families = new Map<string, SavingsProduct[]>();
+
+  const series = Array.from(new Set(
+    matchedProducts.map(product => product.family_series).filter((s): s is string => typeof s === 'string' && s.length > 0)
+  ));
+  for (let start = 0; start < series.length; start += SAVINGS_FAMILY_FETCH_SIZE) {
+    const batch = series.slice(start, start + SAVINGS_FAMILY_FETCH_SIZE);
+    const { data, error } = await supabase
+      .from('master_products')
+      .select('*')
+      .in('family_series', batch)
+      .eq('active', true)
+      .not('page_yield', 'is', null);
+
+    if (error) {
+      console.error('Error loading product families (no higher-yield options for them):', error);
+      continue;
     }
-    console.log(`     ASE price: $${asePrice}/unit${matchedProduct.page_yield ? ` (${matchedProduct.page_yield} pages)` : ''}, CPP: ${matchedCPP ? '$' + matchedCPP.toFixed(4) : 'N/A'}`);
-
-    // STEP 1: Calculate basic price savings (same product, ASE price)
-    const basicSavingsPerUnit = effectiveUserPrice - asePrice;
-    const basicTotalSavings = basicSavingsPerUnit * item.quantity;
-    const basicOptimizedCost = asePrice * item.quantity;
-
-    console.log(`     💵 Basic savings (using ASE price): $${basicTotalSavings.toFixed(2)} ($${basicSavingsPerUnit.toFixed(2)}/unit)`);
-
-    // STEP 2: Try to find higher-yield alternative (only if we have page yield data)
-    let higherYieldRec: HigherYieldRecommendation | null = null;
-    if (hasPageYield && matchedProduct.family_series) {
-      higherYieldRec = await suggestHigherYield(
-        matchedProduct,
-        item.quantity,
-        effectiveUserPrice,  // Use effective price (user price or fallback)
-        { monthlyPages: 1000, horizonMonths: 12 }
-      );
+    for (const name of batch) families.set(name, []);
+    for (const product of (data || []) as SavingsProduct[]) {
+      if (product.family_series) families.get(product.family_series)?.push(product);
     }
+  }
 
-    // STEP 3: Use whichever option gives better savings
-    if (higherYieldRec !== null) {
-      // Calculate actual savings using effective price (handles missing user prices)
-      const userCurrentTotal = item.quantity * effectiveUserPrice;
-      const optimizedCost = higherYieldRec.quantityNeeded * higherYieldRec.recommendedPrice;
-      const higherYieldSavings = userCurrentTotal - optimizedCost;
-
-      // Compare: higher-yield savings vs basic savings
-      const useHigherYield = higherYieldSavings > basicTotalSavings;
-
-      if (useHigherYield) {
-        if (higherYieldSavings > 0) {
-          itemsWithSavings++;
-          console.log(`     💰 Higher-Yield Savings: $${higherYieldSavings.toFixed(2)} (${((higherYieldSavings/userCurrentTotal)*100).toFixed(1)}%) - BETTER than basic $${basicTotalSavings.toFixed(2)}`);
-          console.log(`     📈 CPP improvement: $${higherYieldRec.cppCurrent.toFixed(4)} → $${higherYieldRec.cppRecommended.toFixed(4)}`);
-        }
+  const fleetCompatibility = await loadFleetCompatibility(matchedProducts, fleet);
 
-        // Environmental impact
-        const cartridgesSavedHere = item.quantity - higherYieldRec.quantityNeeded;
-        if (cartridgesSavedHere > 0) {
-          cartridgesSaved += cartridgesSavedHere;
-          const isToner = matchedProduct.category === 'toner_cartridge';
-          const co2PerCartridge = isToner ? 5.2 : 2.5;
-          const shippingWeightPerCartridge = isToner ? 2.5 : 0.2;
-          
-          co2Reduced += cartridgesSavedHere * co2PerCartridge;
-          plasticReduced += cartridgesSavedHere * 2; // 2 lbs plastic per cartridge
-          shippingWeightSaved += cartridgesSavedHere * shippingWeightPerCartridge;
-        }
+  if (pricing) {
+    const familyProductIds = Array.from(families.values()).flat().map(product => product.id);
+    const fleetProductIds = Array.from(fleetCompatibility.values()).flat().map(product => product.id);
+    await prefetchPriceBookEntries(pricing, [...matchedProducts.map(product => product.id), ...familyProductIds, ...fleetProductIds]);
+  }
 
-        // Update database with capped values
-        const MAX_DECIMAL = 99999999.99;
-        const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
-        
-        await supabase
-          .from('order_items_extracted')
-          .update({
-            recommended_product_id: higherYieldRec.recommended.id,
-            recommended_quantity: higherYieldRec.quantityNeeded,
-            recommended_total_cost: capValue(optimizedCost),
-            cost_savings: capValue(higherYieldSavings),
-            cost_savings_percentage: Math.min(Math.max((higherYieldSavings / userCurrentTotal) * 100, 0), 100),
-            savings_reason: higherYieldRec.reason.substring(0, 500),
-            recommendation_type: 'larger_size',
-            environmental_savings: {
-              cartridges_saved: Math.max(0, cartridgesSavedHere),
-              co2_reduced: Math.max(0, cartridgesSavedHere * (matchedProduct.category === 'toner_cartridge' ? 5.2 : 2.5)),
-              plastic_reduced: Math.max(0, cartridgesSavedHere * 2),
-              shipping_weight_saved: Math.max(0, cartridgesSavedHere * (matchedProduct.category === 'toner_cartridge' ? 2.5 : 0.2))
-            }
-          })
-          .eq('processing_job_id', jobId)
-          .eq('raw_product_name', item.raw_product_name);
-
-        // Track match type for executive summary
-        const aseSku = higherYieldRec.recommended.ase_clover_number || higherYieldRec.recommended.ase_oem_number;
-        const hasAsePriceForHigherYield = higherYieldRec.recommended.ase_price && higherYieldRec.recommended.ase_price > 0;
-        const matchType = determineMatchType(higherYieldRec.recommended, higherYieldSavings > 0, hasAsePriceForHigherYield);
-        
-        // Track in appropriate section
-        if (matchType === 'remanufactured') {
-          remanLineItems++;
-          remanCurrentCost += currentCost;
-          remanOptimizedCost += optimizedCost;
-          remanSavings += higherYieldSavings;
-          if (item.raw_sku) {
-            remanUniqueSkus.add(item.raw_sku);
-          }
-        } else {
-          oemLineItems++;
-          oemTotalBasket += currentCost;
-          if (matchType === 'oem_only') {
-            oemOnlyCount++;
-          }
-          if (item.raw_sku) {
-            oemUniqueSkus.add(item.raw_sku);
-          }
-        }
-        
-        breakdown.push({
-          ...item,
-          unit_price: effectiveUserPrice, // Use effective price (fallback if original was 0)
-          total_price: currentCost, // Use calculated total with effective price
-          price_source: priceSource,
-          recommendation: {
-            product: higherYieldRec.recommended,
-            quantity: higherYieldRec.quantityNeeded,
-            total_cost: optimizedCost,
-            cartridges_saved: cartridgesSavedHere,
-            cost_per_page: higherYieldRec.cppRecommended,
-            reason: higherYieldRec.reason,
-            type: 'larger_size'
-          },
-          savings: higherYieldSavings,
-          match_type: matchType,
-          ase_sku: aseSku,
-          ...(assumedPricingMessage && { message: assumedPricingMessage })
-        });
-      } else {
-        // Basic savings is better - use ASE price for same product
-        if (basicTotalSavings > 0) {
-          itemsWithSavings++;
-          console.log(`     💰 Using Basic Price Savings: $${basicTotalSavings.toFixed(2)} (${((basicTotalSavings/currentCost)*100).toFixed(1)}%) - BETTER than higher-yield $${higherYieldSavings.toFixed(2)}`);
-        }
+  // Market prices for matched lines the document has no price for
+  const marketPrices = await loadMarketPriceReference(
+    matchedItems.filter(item => !(item.unit_price > 0)).map(item => item.matched_product?.id).filter(Boolean)
+  );
 
-        // Environmental impact for remanufactured/reused cartridges
-        // If item has unit_price > 0, count quantity as cartridge savings
-        if (effectiveUserPrice > 0 && item.quantity > 0) {
-          const cartridgesSavedHere = item.quantity;
-          cartridgesSaved += cartridgesSavedHere;
-          const isToner = matchedProduct.category === 'toner_cartridge';
-          const co2PerCartridge = isToner ? 5.2 : 2.5;
-          const shippingWeightPerCartridge = isToner ? 2.5 : 0.2;
-          
-          co2Reduced += cartridgesSavedHere * co2PerCartridge;
-          plasticReduced += cartridgesSavedHere * 2; // 2 lbs plastic per cartridge
-          shippingWeightSaved += cartridgesSavedHere * shippingWeightPerCartridge;
-          
-          console.log(`     ♻️  Remanufactured/Reused: ${cartridgesSavedHere} cartridge(s) saved from waste`);
-        }
+  return { families, pricing, marketPrices, fleet, fleetCompatibility };
+}
 
-        // Update database with basic savings
-        const MAX_DECIMAL = 99999999.99;
-        const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
-        
-        await supabase
-          .from('order_items_extracted')
-          .update({
-            recommended_product_id: matchedProduct.id, // Same product, just better price
-            recommended_quantity: item.quantity,
-            recommended_total_cost: capValue(basicOptimizedCost),
-            cost_savings: capValue(basicTotalSavings),
-            cost_savings_percentage: Math.min(Math.max((basicTotalSavings / currentCost) * 100, 0), 100),
-            savings_reason: `Save $${basicSavingsPerUnit.toFixed(2)}/unit by purchasing at ASE price`,
-            recommendation_type: 'better_price',
-            environmental_savings: {
-              cartridges_saved: Math.max(0, item.quantity),
-              co2_reduced: Math.max(0, item.quantity * (matchedProduct.category === 'toner_cartridge' ? 5.2 : 2.5)),
-              plastic_reduced: Math.max(0, item.quantity * 2),
-              shipping_weight_saved: Math.max(0, item.quantity * (matchedProduct.category === 'toner_cartridge' ? 2.5 : 0.2))
-            }
-          })
-          .eq('processing_job_id', jobId)
-          .eq('raw_product_name', item.raw_product_name);
-
-        // Track match type and categorize
-        const hasAsePriceForBasic = matchedProduct.ase_price && matchedProduct.ase_price > 0;
-        const matchType = determineMatchType(matchedProduct, basicTotalSavings > 0, hasAsePriceForBasic);
-        
-        // Track in appropriate section
-        if (matchType === 'remanufactured') {
-          remanLineItems++;
-          remanCurrentCost += currentCost;
-          remanOptimizedCost += basicOptimizedCost;
-          remanSavings += basicTotalSavings;
-          if (item.raw_sku) {
-            remanUniqueSkus.add(item.raw_sku);
-          }
-        } else {
-          oemLineItems++;
-          oemTotalBasket += currentCost;
-          if (matchType === 'oem_only') {
-            oemOnlyCount++;
-          }
-          if (item.raw_sku) {
-            oemUniqueSkus.add(item.raw_sku);
-          }
-        }
-        
-        breakdown.push({
-          ...item,
-          unit_price: effectiveUserPrice, // Use effective price (fallback if original was 0)
-          total_price: currentCost, // Use calculated total with effective price
-          price_source: priceSource,
-          recommendation: {
-            product: matchedProduct,
-            quantity: item.quantity,
-            total_cost: basicOptimizedCost,
-            reason: `Same product at ASE price: $${asePrice.toFixed(2)}/unit (save $${basicSavingsPerUnit.toFixed(2)}/unit)`,
-            type: 'better_price'
-          },
-          savings: basicTotalSavings,
-          match_type: matchType,
-          ase_sku: matchedProduct.ase_clover_number || matchedProduct.ase_oem_number,
-          ...(assumedPricingMessage && { message: assumedPricingMessage })
-        });
-      }
-    } else {
-      // No higher-yield option - use basic price savings (if any)
-      if (basicTotalSavings > 0) {
-        itemsWithSavings++;
-
-        console.log(`     💰 Basic Price Savings: $${basicTotalSavings.toFixed(2)} (${((basicTotalSavings/currentCost)*100).toFixed(1)}%)`);
-
-        // Environmental impact for remanufactured/reused cartridges
-        // If item has unit_price > 0, count quantity as cartridge savings
-        if (effectiveUserPrice > 0 && item.quantity > 0) {
-          const cartridgesSavedHere = item.quantity;
-          cartridgesSaved += cartridgesSavedHere;
-          const isToner = matchedProduct.category === 'toner_cartridge';
-          const co2PerCartridge = isToner ? 5.2 : 2.5;
-          const shippingWeightPerCartridge = isToner ? 2.5 : 0.2;
-          
-          co2Reduced += cartridgesSavedHere * co2PerCartridge;
-          plasticReduced += cartridgesSavedHere * 2; // 2 lbs plastic per cartridge
-          shippingWeightSaved += cartridgesSavedHere * shippingWeightPerCartridge;
-          
-          console.log(`     ♻️  Remanufactured/Reused: ${cartridgesSavedHere} cartridge(s) saved from waste`);
-        }
+/**
+ * Write the savings columns of every analyzed row in bulk (apply_savings_results).
+ * Throws when not every result found its row.
+ */
+async function saveSavingsResults(jobId: string, lineResults: SavingsLineResult[]) {
+  let updated = 0;
+  for (let start = 0; start < lineResults.length; start += SAVINGS_WRITE_BATCH_SIZE) {
+    const batch = lineResults.slice(start, start + SAVINGS_WRITE_BATCH_SIZE);
+    const { data, error } = await supabase.rpc('apply_savings_results', {
+      p_job_id: jobId,
+      p_results: batch
+    });
 
-        // Update database with basic savings
-        const MAX_DECIMAL = 99999999.99;
-        const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
-        
-        await supabase
-          .from('order_items_extracted')
-          .update({
-            recommended_product_id: matchedProduct.id, // Same product, just better price
-            recommended_quantity: item.quantity,
-            recommended_total_cost: capValue(basicOptimizedCost),
-            cost_savings: capValue(basicTotalSavings),
-            cost_savings_percentage: Math.min(Math.max((basicTotalSavings / currentCost) * 100, 0), 100),
-            savings_reason: `Save $${basicSavingsPerUnit.toFixed(2)}/unit by purchasing at ASE price`,
-            recommendation_type: 'better_price',
-            environmental_savings: {
-              cartridges_saved: Math.max(0, item.quantity),
-              co2_reduced: Math.max(0, item.quantity * (matchedProduct.category === 'toner_cartridge' ? 5.2 : 2.5)),
-              plastic_reduced: Math.max(0, item.quantity * 2),
-              shipping_weight_saved: Math.max(0, item.quantity * (matchedProduct.category === 'toner_cartridge' ? 2.5 : 0.2))
-            }
-          })
-          .eq('processing_job_id', jobId)
-          .eq('raw_product_name', item.raw_product_name);
-
-        // Track match type and categorize
-        const hasAsePriceNoHigherYield = matchedProduct.ase_price && matchedProduct.ase_price > 0;
-        const matchType = determineMatchType(matchedProduct, true, hasAsePriceNoHigherYield);
-        
-        // Track in appropriate section
-        if (matchType === 'remanufactured') {
-          remanLineItems++;
-          remanCurrentCost += currentCost;
-          remanOptimizedCost += basicOptimizedCost;
-          remanSavings += basicTotalSavings;
-          if (item.raw_sku) {
-            remanUniqueSkus.add(item.raw_sku);
-          }
-        } else {
-          oemLineItems++;
-          oemTotalBasket += currentCost;
-          if (matchType === 'oem_only') {
-            oemOnlyCount++;
-          }
-          if (item.raw_sku) {
-            oemUniqueSkus.add(item.raw_sku);
-          }
-        }
-        
-        breakdown.push({
-          ...item,
-          unit_price: effectiveUserPrice, // Use effective price (fallback if original was 0)
-          total_price: currentCost, // Use calculated total with effective price
-          price_source: priceSource,
-          recommendation: {
-            product: matchedProduct,
-            quantity: item.quantity,
-            total_cost: basicOptimizedCost,
-            reason: `Same product at ASE price: $${asePrice.toFixed(2)}/unit (save $${basicSavingsPerUnit.toFixed(2)}/unit)`,
-            type: 'better_price'
-          },
-          savings: basicTotalSavings,
-          match_type: matchType,
-          ase_sku: matchedProduct.ase_clover_number || matchedProduct.ase_oem_number,
-          ...(assumedPricingMessage && { message: assumedPricingMessage })
-        });
-      } else {
-        // No savings at all (user already paying at or below ASE price) - goes to OEM section
-        
-        // Track in OEM section
-        oemLineItems++;
-        oemTotalBasket += currentCost;
-        oemOnlyCount++;  // Already at our price - OEM Only
-        if (item.raw_sku) {
-          oemUniqueSkus.add(item.raw_sku);
-        }
-        
-        // Environmental impact for remanufactured/reused cartridges
-        // Even without cost savings, if item has unit_price > 0, count quantity as cartridge savings
-        if (effectiveUserPrice > 0 && item.quantity > 0) {
-          const cartridgesSavedHere = item.quantity;
-          cartridgesSaved += cartridgesSavedHere;
-          const isToner = matchedProduct.category === 'toner_cartridge';
-          const co2PerCartridge = isToner ? 5.2 : 2.5;
-          const shippingWeightPerCartridge = isToner ? 2.5 : 0.2;
-          
-          co2Reduced += cartridgesSavedHere * co2PerCartridge;
-          plasticReduced += cartridgesSavedHere * 2; // 2 lbs plastic per cartridge
-          shippingWeightSaved += cartridgesSavedHere * shippingWeightPerCartridge;
-          
-          console.log(`     ♻️  Remanufactured/Reused: ${cartridgesSavedHere} cartridge(s) saved from waste`);
-          
-          // Update database with environmental savings only
-          await supabase
-            .from('order_items_extracted')
-            .update({
-              environmental_savings: {
-                cartridges_saved: Math.max(0, item.quantity),
-                co2_reduced: Math.max(0, item.quantity * co2PerCartridge),
-                plastic_reduced: Math.max(0, item.quantity * 2),
-                shipping_weight_saved: Math.max(0, item.quantity * shippingWeightPerCartridge)
-              }
-            })
-            .eq('processing_job_id', jobId)
-            .eq('raw_product_name', item.raw_product_name);
-        }
-        
-        breakdown.push({
-          ...item,
-          matched_product: matchedProduct,
-          unit_price: effectiveUserPrice, // Use effective price (fallback if original was 0)
-          total_price: currentCost, // Use calculated total with effective price
-          price_source: priceSource,
-          savings: 0,
-          recommendation: 'Already at or below ASE price - OEM Only',
-          match_type: 'oem_only',
-          ase_sku: matchedProduct.ase_clover_number || matchedProduct.ase_oem_number,
-          ...(assumedPricingMessage && { message: assumedPricingMessage })
-        });
-        console.log(`     ✓ Already at or below ASE price (no savings possible) - OEM Only`);
-      }
+    if (error) {
+      throw new Error(`Failed to save savings results: ${error.message}`);
     }
+    updated += data || 0;
   }
+  console.log(`💾 Saved savings for ${updated}/${lineResults.length} rows`);
 
-  console.log(`\n📊 Savings Summary:`);
-  console.log(`   Total items: ${matchedItems.length}`);
-  console.log(`   Items analyzed: ${itemsAnalyzed}`);
-  console.log(`   Items with savings: ${itemsWithSavings}`);
-  console.log(`   Items skipped: ${itemsSkipped}`);
-  console.log(`   OEM Section - Unique SKUs: ${oemUniqueSkus.size}, Line items: ${oemLineItems}`);
-  console.log(`   OEM Section - R&D TBA count: ${rdTbaCount}, OEM Only count: ${oemOnlyCount}`);
-  console.log(`   Remanufactured Section - Unique SKUs: ${remanUniqueSkus.size}, Line items: ${remanLineItems}`);
-  console.log(`   Remanufactured savings: $${remanSavings.toFixed(2)}`);
+  if (updated !== lineResults.length) {
+    throw new Error(`Savings integrity check failed: ${lineResults.length - updated} savings result(s) matched no row of job ${jobId}`);
+  }
+}
 
-  return {
-    summary: {
-      // OEM Section (items without -R match or with -R but no ase_price)
-      oem_section: {
-        unique_items: oemUniqueSkus.size,
-        line_items: oemLineItems,
-        rd_tba_count: rdTbaCount,  // True no match
-        oem_only_count: oemOnlyCount,  // Has match but no ase_price
-        total_oem_basket: oemTotalBasket
-      },
-      
-      // Remanufactured Section (items with -R and ase_price and savings)
-      reman_section: {
-        unique_items: remanUniqueSkus.size,
-        line_items: remanLineItems,
-        total_reman_basket: remanCurrentCost  // What customer currently pays
-      },
-      
-      // Savings (ONLY from Remanufactured items)
-      savings_breakdown: {
-        oem_total_spend: remanCurrentCost,  // Current cost for Reman items only
-        bav_total_spend: remanOptimizedCost,  // Optimized cost for Reman items only
-        total_savings: remanSavings,
-        savings_percentage: remanCurrentCost > 0 ? (remanSavings / remanCurrentCost) * 100 : 0
-      },
-      
-      // Keep for backwards compatibility and internal reporting
-      total_items: matchedItems.length,
-      items_with_savings: itemsWithSavings,
-      
-      environmental: {
-        cartridges_saved: cartridgesSaved,
-        co2_reduced_pounds: co2Reduced,
-        trees_saved: co2Reduced / 48, // 1 tree absorbs ~48 lbs CO2/year
-        plastic_reduced_pounds: plasticReduced,
-        shipping_weight_saved_pounds: shippingWeightSaved
-      }
-    },
-    breakdown
-  };
+/**
+ * The job's persisted line-item rows (ID and review decision), paged past the API row limit
+ */
+async function loadPersistedItemIds(jobId: string): Promise<{ id: string; review_status: string | null }[]> {
+  const { data, error } = await selectAllPages<{ id: string; review_status: string | null }>((from, to) => supabase
+    .from('order_items_extracted')
+    .select('id, review_status')
+    .eq('processing_job_id', jobId)
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    throw new Error(`Failed to load line items of job ${jobId}: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Data-integrity check before anything is written, against what is actually stored for the job:
+ * one persisted row per staged item (metadata.total_items), every row that is not `not_supply`
+ * analyzed with exactly one savings result (breakdown line), and every row update aimed at one of
+ * those rows, at most once.
+ */
+async function checkSavingsIntegrity(jobId: string, items: { id?: string | null }[], analysis: SavingsAnalysis) {
+  const problems: string[] = [];
+
+  const { data: job, error } = await supabase
+    .from('processing_jobs')
+    .select('metadata')
+    .eq('id', jobId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load job ${jobId} for the savings integrity check: ${error.message}`);
+  }
+
+  const persistedRows = await loadPersistedItemIds(jobId);
+  const stagedTotal = job?.metadata?.total_items;
+  if (typeof stagedTotal === 'number' && persistedRows.length !== stagedTotal) {
+    problems.push(`${persistedRows.length} row(s) saved for ${stagedTotal} staged item(s)`);
+  }
+
+  // Rows the analysis must cover - the ones a reviewer marked not_supply are left out
+  const resultsPerRow = new Map<string, number>();
+  for (const row of persistedRows) {
+    if (row.review_status !== 'not_supply') resultsPerRow.set(row.id, 0);
+  }
+
+  const missingIds = items.filter(item => !item.id).length;
+  if (missingIds > 0) problems.push(`${missingIds} analyzed row(s) without a line-item ID`);
+  const analyzedIds = new Set(items.filter(item => item.id).map(item => item.id as string));
+  const notPersisted = Array.from(analyzedIds).filter(id => !resultsPerRow.has(id));
+  if (notPersisted.length > 0) problems.push(`${notPersisted.length} analyzed row(s) not saved for the job, e.g. ${notPersisted[0]}`);
+  const notAnalyzed = Array.from(resultsPerRow.keys()).filter(id => !analyzedIds.has(id));
+  if (notAnalyzed.length > 0) problems.push(`${notAnalyzed.length} saved row(s) missing from the analysis, e.g. ${notAnalyzed[0]}`);
+
+  for (const line of analysis.breakdown) {
+    const count = resultsPerRow.get(line.id);
+    if (count === undefined) {
+      problems.push(`savings result for unknown row ${line.id}`);
+    } else {
+      resultsPerRow.set(line.id, count + 1);
+    }
+  }
+  for (const [id, count] of resultsPerRow) {
+    if (count !== 1) problems.push(`row ${id} has ${count} savings results`);
+  }
+
+  const updatedRows = new Set<string>();
+  for (const result of analysis.line_results) {
+    if (!resultsPerRow.has(result.id)) problems.push(`row update for unknown row ${result.id}`);
+    if (updatedRows.has(result.id)) problems.push(`row ${result.id} is updated more than once`);
+    updatedRows.add(result.id);
+  }
+
+  if (problems.length > 0) {
+    console.error('❌ Savings integrity check failed:', problems);
+    throw new Error(`Savings integrity check failed: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+  }
+  console.log(`✅ Savings integrity: ${resultsPerRow.size} saved rows, one savings result each`);
 }
 
 // OLD FUNCTION REMOVED: findBetterAlternative and calculateSavingsForAlternative
@@ -3710,7 +5350,7 @@ async function calculateSavings(matchedItems: any[], jobId: string) {
  * Generate PDF reports (both customer-facing and internal) and upload to storage
  * Returns object with both URLs
  */
-async function generateReport(savingsAnalysis: any, context: ProcessingContext): Promise<{ customerUrl: string; internalUrl: string }> {
+async function generateReport(savingsAnalysis: SavingsAnalysis, context: ProcessingContext): Promise<{ customerUrl: string; internalUrl: string }> {
   console.log('📄 Generating PDF reports (customer + internal)...');
   
   try {
@@ -3726,6 +5366,10 @@ async function generateReport(savingsAnalysis: any, context: ProcessingContext):
         email: context.customerInfo.email
       },
       summary: savingsAnalysis.summary,
+      match_policy: {
+        name: (context.matchPolicy || DEFAULT_MATCH_POLICY).name,
+        description: (context.matchPolicy || DEFAULT_MATCH_POLICY).description
+      },
       breakdown: savingsAnalysis.breakdown
         .filter((item: any) => item && item.raw_product_name) // Filter out null/invalid items
         .map((item: any) => ({
@@ -3735,14 +5379,20 @@ async function generateReport(savingsAnalysis: any, context: ProcessingContext):
             wholesaler_sku: item.matched_product?.wholesaler_sku || null,
             quantity: item.quantity || 0,
             unit_price: item.unit_price || 0,
-            total_cost: item.total_price || 0
+            total_cost: item.total_price || 0,
+            source_sheet: item.source_sheet || null,
+            source_page: item.source_page ?? null,
+            source_file: item.source_file || null,
+            source_rows: item.source_rows || null,
+            price_variance_pct: item.price_variance_flagged ? item.price_variance_pct : null,
+            price_estimate: item.price_estimate || null
           },
           recommended_product: (item.recommendation && item.recommendation.product && item.recommendation.product.product_name) ? {
             name: item.recommendation.product.product_name,
             sku: item.recommendation.product.ase_clover_number || item.recommendation.product.ase_oem_number || 'N/A',
             wholesaler_sku: item.recommendation.product.wholesaler_sku || null,
             quantity_needed: item.recommendation.quantity || 0,
-            unit_price: item.recommendation.product.ase_price || item.recommendation.product.partner_list_price || 0,
+            unit_price: item.recommendation.unit_price ?? (item.recommendation.product.ase_price || item.recommendation.product.partner_list_price || 0),
             total_cost: item.recommendation.total_cost || 0,
             bulk_discount_applied: item.recommendation.type === 'bulk_pricing'
           } : undefined,
@@ -3862,11 +5512,23 @@ async function generateReport(savingsAnalysis: any, context: ProcessingContext):
 /**
  * Save final report to database
  */
-async function saveFinalReport(savingsAnalysis: any, context: ProcessingContext, customerReportUrl: string, internalReportUrl: string) {
+async function saveFinalReport(
+  savingsAnalysis: SavingsAnalysis,
+  context: ProcessingContext,
+  customerReportUrl: string,
+  internalReportUrl: string,
+  notify = true
+) {
   // Cap numeric values to prevent overflow (DECIMAL(10,2) max is 99,999,999.99)
   const MAX_DECIMAL = 99999999.99;
   const capValue = (val: number) => Math.min(Math.max(val || 0, 0), MAX_DECIMAL);
 
+  // A retried job replaces the report saved by an earlier attempt
+  await supabase
+    .from('savings_reports')
+    .delete()
+    .eq('processing_job_id', context.jobId);
+
   // Map new structure to database columns (for frontend compatibility)
   const { error } = await supabase
     .from('savings_reports')
@@ -3877,6 +5539,8 @@ async function saveFinalReport(savingsAnalysis: any, context: ProcessingContext,
       total_current_cost: capValue(savingsAnalysis.summary.savings_breakdown.oem_total_spend),
       total_optimized_cost: capValue(savingsAnalysis.summary.savings_breakdown.bav_total_spend),
       total_cost_savings: capValue(savingsAnalysis.summary.savings_breakdown.total_savings),
+      projected_annual_savings: capValue(savingsAnalysis.summary.annualized_savings?.projected_annual_savings),
+      usage_period: savingsAnalysis.summary.usage_period ?? null,
       savings_percentage: Math.min(savingsAnalysis.summary.savings_breakdown.savings_percentage || 0, 100),
       total_items: savingsAnalysis.summary.total_items || 0,
       items_with_savings: savingsAnalysis.summary.items_with_savings || 0,
@@ -3886,7 +5550,7 @@ async function saveFinalReport(savingsAnalysis: any, context: ProcessingContext,
       trees_saved: capValue(savingsAnalysis.summary.environmental.trees_saved),
       plastic_reduced_pounds: capValue(savingsAnalysis.summary.environmental.plastic_reduced_pounds),
       shipping_weight_saved_pounds: capValue(savingsAnalysis.summary.environmental.shipping_weight_saved_pounds),
-      report_data: savingsAnalysis,
+      report_data: { summary: savingsAnalysis.summary, breakdown: savingsAnalysis.breakdown }, // Row updates are already saved
       pdf_url: customerReportUrl,
       internal_pdf_url: internalReportUrl,
       customer_name: `${context.customerInfo.firstName} ${context.customerInfo.lastName}`,
@@ -3904,6 +5568,12 @@ async function saveFinalReport(savingsAnalysis: any, context: ProcessingContext,
     throw error;
   }
 
+  // Reports regenerated after a match review replace the saved ones silently
+  if (!notify) {
+    console.log('📧 Skipping email notification (reports regenerated after review)');
+    return;
+  }
+
   // Send email notification after successful report save
   try {
     console.log('📧 ========================================');
@@ -4049,14 +5719,52 @@ Deno.serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { submissionId, _internal, _context } = body;
+    const { submissionId, _worker, _sweep, _resume, _reanalyze, jobId, preview, columnMapping, consolidation, matchPolicy: matchPolicyName, printerFleet: printerFleetInput } = body;
+
+    // Internal invocations come from our own functions and the sweeper schedule, all with the service role key
+    if ((_worker || _sweep || _resume || _reanalyze) && req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Forbidden' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
-    // Handle internal self-invocation for chunking
-    if (_internal && _context) {
-      console.log('🔄 Internal chunked invocation detected');
-      await processDocument(_context);
+    // Queue worker: claim and process the next chunk (async - respond right away)
+    if (_worker) {
+      console.log('🔄 Worker invocation detected');
+      processNextChunk(jobId).catch(console.error);
+      return new Response(
+        JSON.stringify({ success: true, status: 'worker_started' }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Resume a failed job re-opened by retry-processing (async - respond right away)
+    if (_resume && jobId) {
+      console.log('🔁 Resume invocation detected for job:', jobId);
+      resumeJob(jobId).catch(console.error);
+      return new Response(
+        JSON.stringify({ success: true, status: 'resume_started' }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Savings + reports again after match-review decisions (async - respond right away)
+    if (_reanalyze && jobId) {
+      console.log('🧑‍⚖️ Re-analysis invocation detected for job:', jobId);
+      reanalyzeJob(jobId).catch(console.error);
+      return new Response(
+        JSON.stringify({ success: true, status: 'reanalysis_started' }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Sweeper (scheduled): requeue expired leases and resume stalled jobs
+    if (_sweep) {
+      console.log('🧹 Sweeper invocation detected');
+      const result = await sweepProcessingQueue();
       return new Response(
-        JSON.stringify({ success: true, status: 'chunk_processed' }),
+        JSON.stringify(result),
         { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -4082,6 +5790,52 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Column-mapping preview (synchronous - no job is created)
+    if (preview) {
+      const format = getDocumentFormat(submission.file_name);
+      if (format === 'pdf' || format === 'image') {
+        return new Response(
+          JSON.stringify({ error: 'Column preview is only available for spreadsheet and delimited text files' }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const fileContent = await downloadFile(submission.file_url, submission.file_name);
+      const sheets = await buildColumnPreview(fileContent, submission.file_name, submission.company);
+      return new Response(
+        JSON.stringify({ success: true, sheets }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Confirmed in the preview step - saved as the customer's profile for these header rows
+    const confirmedMapping: ColumnMapping | undefined = columnMapping?.sheets?.length
+      ? await saveConfirmedColumnMapping(
+          { ...columnMapping, confirmed_at: columnMapping.confirmed_at || new Date().toISOString() },
+          submission.company
+        )
+      : undefined;
+
+    const consolidationRules = resolveConsolidationRules(consolidation);
+
+    // Match policy: the request's, then the submission's, then the default
+    const requestedPolicy = (typeof matchPolicyName === 'string' && matchPolicyName) || submission.match_policy || null;
+    const matchPolicy = await loadMatchPolicy(requestedPolicy);
+    if (!matchPolicy) {
+      return new Response(
+        JSON.stringify({ error: `Unknown match policy "${requestedPolicy}"` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Optional printer fleet for per-device cost per page (inferred from the document without one)
+    const printerFleet = resolvePrinterFleet(printerFleetInput);
+    if (printerFleetInput !== undefined && printerFleetInput !== null && !printerFleet) {
+      return new Response(
+        JSON.stringify({ error: 'printerFleet needs at least one device with a model and positive monthly_pages' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Create processing job
     const { data: job, error: jobError } = await supabase
       .from('processing_jobs')
@@ -4090,7 +5844,13 @@ Deno.serve(async (req) => {
         status: 'processing',
         progress: 0,
         current_step: 'Initializing...',
-        started_at: new Date().toISOString()
+        started_at: new Date().toISOString(),
+        metadata: {
+          consolidation_rules: consolidationRules,
+          match_policy: matchPolicy,
+          ...(printerFleet && { printer_fleet: printerFleet }),
+          ...(confirmedMapping && { column_mapping: confirmedMapping })
+        }
       })
       .select()
       .single();
@@ -4110,7 +5870,11 @@ Deno.serve(async (req) => {
         lastName: submission.last_name,
         company: submission.company,
         email: submission.email
-      }
+      },
+      columnMapping: confirmedMapping,
+      consolidationRules,
+      matchPolicy,
+      printerFleet
     };
 
     // Start processing (async - don't await)
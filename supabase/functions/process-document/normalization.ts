@@ -0,0 +1,59 @@
+/**
+ * Normalization Helpers (Battle-Tested Deterministic Approach)
+ *
+ * UOM and per-each price normalization. No runtime imports, so line-item consolidation
+ * (consolidation.ts) can be tested outside the edge runtime.
+ */
+
+/**
+ * Normalize UOM to canonical values
+ */
+export function normalizeUOM(uom?: string): 'EA' | 'BX' | 'CS' | 'PK' | 'CT' {
+  if (!uom) return 'EA';
+  
+  const lower = uom.toLowerCase().trim();
+  if (lower === 'ea' || lower === 'each') return 'EA';
+  if (lower === 'bx' || lower === 'box') return 'BX';
+  if (lower === 'cs' || lower === 'case') return 'CS';
+  if (lower === 'pk' || lower === 'pack' || lower === 'package') return 'PK';
+  if (lower === 'ct' || lower === 'carton') return 'CT';
+  
+  return 'EA'; // Default to each
+}
+
+/**
+ * Normalize price to per-each basis (THE GOLDEN RULE)
+ * You cannot compare prices until they're on the same basis.
+ */
+export interface NormalizedPrice {
+  pricePerEach: number;  // Price for a single unit
+  quantityInEach: number; // Total quantity in "each" units
+  packQty: number;        // Pack quantity used
+  uomStd: string;         // Standardized UOM
+}
+
+export function normalizePriceAndQuantity(
+  price: number,
+  quantity: number,
+  packQty: number = 1,
+  uom: string = 'EA'
+): NormalizedPrice {
+  const safePackQty = Math.max(packQty || 1, 1);
+  const normalizedUom = normalizeUOM(uom);
+  
+  // Price per single unit (each)
+  const pricePerEach = price / safePackQty;
+  
+  // Total quantity in "each" units
+  // If buying in packs/boxes, multiply quantity by pack size
+  const quantityInEach = normalizedUom === 'EA' 
+    ? quantity 
+    : quantity * safePackQty;
+  
+  return {
+    pricePerEach,
+    quantityInEach,
+    packQty: safePackQty,
+    uomStd: normalizedUom
+  };
+}
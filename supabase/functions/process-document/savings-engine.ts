@@ -0,0 +1,1483 @@
+/**
+ * Savings Engine
+ *
+ * calculateSavings() and everything it reads: line items and a catalog snapshot in, a
+ * SavingsAnalysis out. No runtime imports and no database access, so the engine also runs
+ * outside the edge runtime (supabase/tests/savings-golden.test.ts). index.ts loads the
+ * snapshot (loadSavingsCatalog) and writes the results.
+ */
+
+// ============================================================================
+// COST PER PAGE AND HIGHER-YIELD OPTIMIZATION
+// ============================================================================
+
+/**
+ * Calculate Cost Per Page (CPP) - Key metric for toner/ink optimization
+ */
+function calculateCostPerPage(pricePerEach: number, pageYield: number): number | null {
+  if (!pageYield || pageYield <= 0) return null;
+  if (!pricePerEach || pricePerEach <= 0) return null;
+  
+  return pricePerEach / pageYield;
+}
+
+/**
+ * Determine yield rank for comparison (higher is better)
+ */
+function yieldRank(yieldClass?: string | null): number {
+  const ranks: Record<string, number> = {
+    'standard': 1,
+    'high': 2,
+    'extra_high': 3,
+    'super_high': 4
+  };
+  
+  return ranks[yieldClass || 'standard'] || 1;
+}
+
+interface VolumeHints {
+  monthlyPages?: number;
+  horizonMonths?: number;
+}
+
+interface HigherYieldRecommendation {
+  recommended: SavingsProduct & { page_yield: number }; // Recommended product
+  recommendedPrice: number; // Price per unit (price book, else ase_price or partner_list_price)
+  priceBook: { id: string; name: string } | null; // Book recommendedPrice came from
+  cppCurrent: number; // Cost per page of current
+  cppRecommended: number; // Cost per page of recommended
+  est12moSavingsAtVolume: number; // Estimated 12-month savings
+  quantityNeeded: number; // How many of recommended product
+  reason: string; // Explanation
+}
+
+/**
+ * Suggest higher-yield alternative within same product family
+ * 
+ * This implements the battle-tested approach:
+ * 1. Find products in same family_series + color
+ * 2. Filter to equal or higher yield_class
+ * 3. Calculate CPP (cost per page) for each
+ * 4. Recommend lowest CPP with material savings
+ * 
+ * familyProducts are the active products of the family with a page yield (SavingsCatalog);
+ * price book entries for them must already be fetched. compatibleIds limits the options to
+ * cartridges that fit every fleet device using the current one. The thresholds come from
+ * the savings policy.
+ */
+function suggestHigherYield(
+  currentProduct: SavingsProduct,
+  userQuantity: number,
+  userUnitPrice: number,
+  familyProducts: SavingsProduct[],
+  volume: VolumeHints = { monthlyPages: 1000, horizonMonths: 12 },
+  pricing?: PriceBookSet,
+  compatibleIds?: Set<string>,
+  policy: SavingsPolicy['higher_yield'] = DEFAULT_SAVINGS_POLICY.higher_yield
+): HigherYieldRecommendation | null {
+  // Validate we have required data
+  if (!currentProduct.family_series) {
+    console.log('    ⊘ No family_series for optimization');
+    return null;
+  }
+  
+  if (!currentProduct.page_yield || currentProduct.page_yield <= 0) {
+    console.log('    ⊘ No page_yield for CPP calculation');
+    return null;
+  }
+  const currentYield = currentProduct.page_yield;
+  
+  // Price book price first, then ase_price, then partner_list_price
+  const currentAsePrice = resolveUnitPrice(currentProduct, userQuantity, pricing).unit_price;
+    
+  if (!currentAsePrice || currentAsePrice <= 0) {
+    console.log('    ⊘ No ase_price or partner_list_price for comparison');
+    return null;
+  }
+  
+  // Calculate volume for comparison
+  const pages = (volume.monthlyPages ?? 1000) * (volume.horizonMonths ?? 12);
+  
+  // Family peers with at least 80% of the current yield (allows slightly lower yield for edge cases)
+  const familyPeers = familyProducts.filter(p => (p.page_yield || 0) >= currentYield * policy.min_yield_ratio);
+  
+  if (familyPeers.length === 0) {
+    console.log('    ⊘ No family alternatives found');
+    return null;
+  }
+  
+  // Units of a product needed for the pages the customer prints with the current one
+  const userTotalPages = userQuantity * currentYield;
+  const unitsFor = (pageYield: number) => Math.ceil(userTotalPages / pageYield);
+  
+  // Filter by color match (strict for toner/ink)
+  const sameColorFamily = familyPeers.filter((p): p is SavingsProduct & { page_yield: number } => {
+    // Must match color
+    if (currentProduct.color_type && p.color_type !== currentProduct.color_type) {
+      return false;
+    }
+    
+    // Must fit the customer's printers
+    if (compatibleIds && !compatibleIds.has(p.id)) {
+      return false;
+    }
+    
+    // Must be equal or higher yield class
+    if (yieldRank(p.yield_class) < yieldRank(currentProduct.yield_class)) {
+      return false;
+    }
+    
+    if (!p.page_yield || p.page_yield <= 0) {
+      return false;
+    }
+    
+    // Must have valid pricing (price book, ase_price or partner_list_price)
+    return resolveUnitPrice(p, unitsFor(p.page_yield), pricing).unit_price > 0;
+  });
+  
+  if (sameColorFamily.length === 0) {
+    console.log('    ⊘ No matching color family alternatives');
+    return null;
+  }
+  
+  // Calculate CPP for each candidate
+  const currentCPP = calculateCostPerPage(currentAsePrice, currentYield);
+  
+  if (!currentCPP) {
+    console.log('    ⊘ Cannot calculate CPP for current product');
+    return null;
+  }
+  
+  // Rank by CPP (lowest is best)
+  const ranked = sameColorFamily
+    .map(p => {
+      // Price book price first, then ase_price, then partner_list_price
+      const pPrice = resolveUnitPrice(p, unitsFor(p.page_yield), pricing).unit_price;
+      const cpp = calculateCostPerPage(pPrice, p.page_yield);
+      if (!cpp) return null;
+      
+      const periodCost = cpp * pages;
+      const savingsPerYear = (currentCPP - cpp) * pages;
+      
+      return { 
+        product: p, 
+        cpp, 
+        periodCost,
+        savingsPerYear
+      };
+    })
+    .filter((r): r is NonNullable<typeof r> => r !== null)
+    .sort((a, b) => a.cpp - b.cpp);
+  
+  if (ranked.length === 0) {
+    return null;
+  }
+  
+  const best = ranked[0];
+  
+  // Only recommend if:
+  // 1. It's a different product
+  // 2. It has materially better CPP (at least 5% savings by default)
+  // 3. Savings are meaningful (>$5/year by default)
+  const cppSavingsPct = ((currentCPP - best.cpp) / currentCPP) * 100;
+  
+  if (best.product.id === currentProduct.id) {
+    return null; // Same product
+  }
+  
+  if (best.cpp >= currentCPP * (1 - policy.min_cpp_improvement_pct / 100)) {
+    console.log(`    ⊘ CPP not materially better: ${best.cpp.toFixed(4)} vs ${currentCPP.toFixed(4)}`);
+    return null; // Not enough savings
+  }
+  
+  if (best.savingsPerYear < policy.min_annual_savings) {
+    console.log(`    ⊘ Savings too small: $${best.savingsPerYear.toFixed(2)}/year`);
+    return null; // Savings too small
+  }
+  
+  // Calculate how many units needed to meet user's volume
+  const quantityNeeded = unitsFor(best.product.page_yield);
+  
+  // Calculate actual savings based on user's current spending
+  const userCurrentCost = userQuantity * userUnitPrice;
+  // Price book price first, then ase_price, then partner_list_price
+  const recommendedPricing = resolveUnitPrice(best.product, quantityNeeded, pricing);
+  const recommendedPrice = recommendedPricing.unit_price;
+  const recommendedCost = quantityNeeded * recommendedPrice;
+  const actualSavings = userCurrentCost - recommendedCost;
+  
+  // Only recommend if there are actual dollar savings
+  if (actualSavings <= 0) {
+    console.log(`    ⊘ No actual savings: user pays $${userCurrentCost.toFixed(2)}, recommended $${recommendedCost.toFixed(2)}`);
+    return null;
+  }
+  
+  const cartridgesSaved = userQuantity - quantityNeeded;
+  
+  return {
+    recommended: best.product,
+    recommendedPrice, // Include the price we calculated
+    priceBook: recommendedPricing.price_book,
+    cppCurrent: currentCPP,
+    cppRecommended: best.cpp,
+    est12moSavingsAtVolume: best.savingsPerYear,
+    quantityNeeded,
+    reason: `Switch to ${best.product.yield_class?.toUpperCase() || 'High Yield'} ${best.product.product_name} ` +
+            `(${best.product.page_yield.toLocaleString()} pages vs ${currentYield.toLocaleString()} pages). ` +
+            `Cost per page: $${best.cpp.toFixed(4)} vs current $${currentCPP.toFixed(4)} ` +
+            `(${cppSavingsPct.toFixed(1)}% better). ` +
+            `Saves ${cartridgesSaved} cartridge${cartridgesSaved !== 1 ? 's' : ''} and $${actualSavings.toFixed(2)} ` +
+            `(${((actualSavings / userCurrentCost) * 100).toFixed(1)}% savings).`
+  };
+}
+
+/**
+ * Determine match type based on product SKU and pricing availability
+ * - remanufactured: Has ase_clover_number AND ase_price AND savings > 0
+ * - oem_only: Has match (ase_oem_number or ase_clover_number) but NO ase_price (uses partner_list_price)
+ * - no_match: True no match (not in database at all)
+ */
+function determineMatchType(matchedProduct: SavingsProduct | null, hasSavings: boolean, hasAsePrice: boolean): 'remanufactured' | 'oem_only' | 'no_match' {
+  // No match at all (not in database)
+  if (!matchedProduct) {
+    return 'no_match';
+  }
+  
+  // Has ase_clover_number (-R item) AND has ase_price AND has savings
+  if (matchedProduct.ase_clover_number && hasAsePrice && hasSavings) {
+    return 'remanufactured';
+  }
+  
+  // Has a match but no ase_price available (will use partner_list_price)
+  if (!hasAsePrice) {
+    return 'oem_only';
+  }
+  
+  // Has match but no savings (customer already at or below our price)
+  if (!hasSavings) {
+    return 'oem_only';
+  }
+  
+  // Has ase_oem_number only (not remanufactured)
+  if (matchedProduct.ase_oem_number && !matchedProduct.ase_clover_number) {
+    return 'oem_only';
+  }
+  
+  return 'no_match';
+}
+
+// ============================================================================
+// USAGE PERIOD
+// ============================================================================
+
+/**
+ * Date range a document covers. Savings on the document are multiplied by
+ * annualization_factor to project a year of purchases at the same rate.
+ */
+export interface UsagePeriod {
+  start: string | null; // ISO date
+  end: string | null;
+  covered_days: number | null;
+  annualization_factor: number; // 365 / covered_days (1 when the period is unknown)
+  source: 'order_dates' | 'file_name' | 'assumed_annual';
+  dated_rows?: number; // Rows that carried an order date (source = order_dates)
+}
+
+export const ASSUMED_ANNUAL_PERIOD: UsagePeriod = {
+  start: null,
+  end: null,
+  covered_days: null,
+  annualization_factor: 1,
+  source: 'assumed_annual'
+};
+
+// ============================================================================
+// PRICE BOOKS
+// ============================================================================
+
+/**
+ * Price book that applies to the customer on the pricing date (price_books)
+ */
+interface PriceBook {
+  id: string;
+  name: string;
+  contract_status: string | null; // Only prices products on this contract
+  priority: number;
+  customer_specific: boolean;     // Assigned to this customer, not only to all customers
+}
+
+export interface PriceBookEntry {
+  price_book_id: string;
+  master_product_id: string;
+  min_quantity: number; // Tier break
+  unit_price: number;
+}
+
+/**
+ * The books that apply to a job, plus their entries per product (fetched as products come up)
+ */
+export interface PriceBookSet {
+  books: PriceBook[];
+  entries: Map<string, PriceBookEntry[]>; // master_product_id -> entries ([] = none)
+}
+
+/**
+ * Per-each price of a product for a line, and the book it came from (null = catalog price)
+ */
+interface ResolvedPrice {
+  unit_price: number;
+  price_book: { id: string; name: string } | null;
+}
+
+/**
+ * Price of a product for a line of `quantity` units: the best applicable price book entry (the
+ * customer's own books first, then priority, then the lowest price - each book at its highest
+ * tier break the quantity reaches), else ase_price, else partner_list_price.
+ */
+function resolveUnitPrice(
+  product: { id?: string; ase_price?: number | null; partner_list_price?: number | null; contract_status?: string | null },
+  quantity: number,
+  pricing?: PriceBookSet
+): ResolvedPrice {
+  const catalogPrice = (product.ase_price && product.ase_price > 0)
+    ? product.ase_price
+    : (product.partner_list_price && product.partner_list_price > 0)
+      ? product.partner_list_price
+      : 0;
+
+  const entries = (product.id && pricing?.entries.get(product.id)) || [];
+  let best: { book: PriceBook; unit_price: number } | null = null;
+
+  for (const book of pricing?.books || []) {
+    if (book.contract_status && book.contract_status !== product.contract_status) continue;
+
+    const tier = entries
+      .filter(entry => entry.price_book_id === book.id && entry.min_quantity <= Math.max(quantity, 1))
+      .sort((a, b) => b.min_quantity - a.min_quantity)[0];
+    if (!tier) continue;
+
+    const better = !best ||
+      (book.customer_specific !== best.book.customer_specific
+        ? book.customer_specific
+        : book.priority !== best.book.priority
+          ? book.priority > best.book.priority
+          : tier.unit_price < best.unit_price);
+    if (better) best = { book, unit_price: tier.unit_price };
+  }
+
+  return best
+    ? { unit_price: best.unit_price, price_book: { id: best.book.id, name: best.book.name } }
+    : { unit_price: catalogPrice, price_book: null };
+}
+
+// ============================================================================
+// MARKET PRICE ESTIMATES
+// ============================================================================
+
+/**
+ * Markup over ase_price by brand and/or category (market_price_markups)
+ */
+export interface MarketPriceMarkup {
+  brand: string | null;    // Lower-cased; NULL = any brand
+  category: string | null; // NULL = any category
+  markup: number;
+  band_pct: number;
+}
+
+/**
+ * Observed prices (median and interquartile range) and markups for the products of a job
+ */
+export interface MarketPriceReference {
+  observed: Map<string, { observations: number; median: number; low: number; high: number }>;
+  markups: MarketPriceMarkup[];
+}
+
+/**
+ * Estimated price a customer pays for a product; method is recorded as price_source
+ */
+interface MarketPriceEstimate {
+  unit_price: number;
+  low: number;
+  high: number;
+  confidence: 'high' | 'medium' | 'low';
+  method: 'observed_prices' | 'catalog_partner_list_price' | 'markup_brand_category' | 'markup_brand' | 'markup_category' | 'markup_default';
+  observations?: number; // observed_prices
+  markup?: number;       // markup_* methods
+}
+
+/**
+ * Estimate what the customer pays for a product when the document has no price:
+ * 1. Median of prices observed on past submissions (band: interquartile range)
+ * 2. Catalog partner_list_price
+ * 3. ase_price * markup for the product's brand + category, brand, category, then any product
+ *    (the policy's default markup when market_price_markups has no any-product row)
+ * Returns null when the product has neither observed prices nor catalog prices.
+ */
+function estimateMarketPrice(
+  product: { id?: string; brand?: string | null; category?: string | null; ase_price?: number | null; partner_list_price?: number | null },
+  reference: MarketPriceReference,
+  policy: SavingsPolicy['market_price'] = DEFAULT_SAVINGS_POLICY.market_price
+): MarketPriceEstimate | null {
+  const observed = product.id ? reference.observed.get(product.id) : undefined;
+  if (observed && observed.observations >= policy.min_observations && observed.median > 0) {
+    return {
+      unit_price: observed.median,
+      low: observed.low,
+      high: observed.high,
+      confidence: observed.observations >= policy.high_confidence_observations ? 'high' : 'medium',
+      method: 'observed_prices',
+      observations: observed.observations
+    };
+  }
+
+  if (product.partner_list_price && product.partner_list_price > 0) {
+    return {
+      unit_price: product.partner_list_price,
+      low: product.partner_list_price * (1 - policy.list_price_band_pct),
+      high: product.partner_list_price,
+      confidence: 'medium',
+      method: 'catalog_partner_list_price'
+    };
+  }
+
+  if (!product.ase_price || product.ase_price <= 0) return null;
+
+  const brand = typeof product.brand === 'string' ? product.brand.toLowerCase() : null;
+  const category = product.category || null;
+  const scopes: Array<[MarketPriceEstimate['method'], (m: MarketPriceMarkup) => boolean]> = [
+    ['markup_brand_category', m => m.brand !== null && m.brand === brand && m.category !== null && m.category === category],
+    ['markup_brand', m => m.brand !== null && m.brand === brand && m.category === null],
+    ['markup_category', m => m.brand === null && m.category !== null && m.category === category],
+    ['markup_default', m => m.brand === null && m.category === null]
+  ];
+
+  for (const [method, applies] of scopes) {
+    const markup = reference.markups.find(applies) || (method === 'markup_default' ? policy.default_markup : null);
+    if (!markup) continue;
+
+    const estimate = product.ase_price * markup.markup;
+    return {
+      unit_price: estimate,
+      low: estimate * (1 - markup.band_pct),
+      high: estimate * (1 + markup.band_pct),
+      confidence: method === 'markup_default' ? 'low' : 'medium',
+      method,
+      markup: markup.markup
+    };
+  }
+  return null;
+}
+
+/**
+ * Report note for a line priced from an estimate
+ */
+function describeMarketPriceEstimate(estimate: MarketPriceEstimate): string {
+  const band = `$${estimate.low.toFixed(2)}-$${estimate.high.toFixed(2)}`;
+  switch (estimate.method) {
+    case 'observed_prices':
+      return `Note: Assumed pricing based on the median price paid on ${estimate.observations} recent orders (range ${band}) since document didn't include price information.`;
+    case 'catalog_partner_list_price':
+      return 'Note: Assumed pricing based on catalog partner list price since document didn\'t include price information.';
+    default:
+      return `Note: Assumed pricing based on estimated market price (${Math.round(((estimate.markup || 1) - 1) * 100)}% markup from ASE price, range ${band}) since document didn't include price information.`;
+  }
+}
+
+// ============================================================================
+// LOCATIONS
+// ============================================================================
+
+/**
+ * One original row merged into a consolidated item (kept for traceability)
+ */
+export interface ConsolidatedSourceRow {
+  row_number: number;
+  quantity: number;
+  unit_price: number; // In the UOM shared by all rows of the group
+  order_date?: string;
+  location?: string;
+  cost_center?: string;
+  source_file?: string;
+  source_sheet?: string;
+  source_page?: number;
+}
+
+/**
+ * Savings rolled up by ship-to location and cost center (multi-site customers)
+ */
+interface LocationSubtotal {
+  location: string | null;    // null = rows without a location
+  cost_center: string | null;
+  line_items: number;
+  quantity: number;
+  current_spend: number;
+  recommended_spend: number;
+  savings: number;
+  projected_annual_savings: number;
+}
+
+/**
+ * Per-location subtotals from the savings breakdown, highest savings first. Consolidated lines
+ * that span locations are split by each source row's share of the quantity. Empty when the
+ * document has no location or cost-center column.
+ */
+function buildLocationBreakdown(
+  breakdown: {
+    quantity: number;
+    total_price?: number;
+    savings?: number | null;
+    recommendation?: string | { total_cost: number };
+    location?: string | null;
+    cost_center?: string | null;
+    source_rows?: ConsolidatedSourceRow[] | null;
+  }[],
+  annualizationFactor: number
+): LocationSubtotal[] {
+  const subtotals = new Map<string, LocationSubtotal>();
+  let hasLocations = false;
+  
+  for (const item of breakdown) {
+    const rows: { location?: string | null; cost_center?: string | null; quantity: number }[] = item.source_rows?.length
+      ? item.source_rows
+      : [{ location: item.location, cost_center: item.cost_center, quantity: item.quantity }];
+    const currentSpend = item.total_price || 0;
+    const recommendedSpend = typeof item.recommendation === 'object' && item.recommendation
+      ? item.recommendation.total_cost
+      : currentSpend;
+    const savings = typeof item.savings === 'number' && item.savings > 0 ? item.savings : 0;
+    
+    for (const row of rows) {
+      const location = row.location || null;
+      const costCenter = row.cost_center || null;
+      if (location || costCenter) hasLocations = true;
+      
+      const share = item.quantity > 0 ? row.quantity / item.quantity : 0;
+      const key = `${location ?? ''}|${costCenter ?? ''}`;
+      if (!subtotals.has(key)) {
+        subtotals.set(key, {
+          location,
+          cost_center: costCenter,
+          line_items: 0,
+          quantity: 0,
+          current_spend: 0,
+          recommended_spend: 0,
+          savings: 0,
+          projected_annual_savings: 0
+        });
+      }
+      
+      const subtotal = subtotals.get(key)!;
+      subtotal.line_items++;
+      subtotal.quantity += row.quantity;
+      subtotal.current_spend += currentSpend * share;
+      subtotal.recommended_spend += recommendedSpend * share;
+      subtotal.savings += savings * share;
+      subtotal.projected_annual_savings += savings * share * annualizationFactor;
+    }
+  }
+  
+  if (!hasLocations) return [];
+  return Array.from(subtotals.values()).sort((a, b) => b.savings - a.savings);
+}
+
+// ============================================================================
+// PRINTER FLEET
+// ============================================================================
+
+/**
+ * Printer of the customer's fleet - sent with the start request (`printerFleet`) or inferred
+ * from the cartridges on the document
+ */
+export interface PrinterFleetDevice {
+  model: string;
+  monthly_pages: number; // Per device
+  count: number;         // Devices of this model (at this location)
+  location?: string;
+  source: 'customer' | 'inferred';
+}
+
+/**
+ * Cartridges that fit each device, by device key (printerModelKey, or `group:<compatibility_group>`
+ * for inferred devices)
+ */
+export type FleetCompatibility = Map<string, SavingsProduct[]>;
+
+interface FleetCartridgeCost {
+  product_id: string;
+  product_name: string;
+  sku: string | null;
+  unit_price: number;
+  page_yield: number;
+  cost_per_page: number;
+}
+
+/**
+ * One color of a device: the cartridge bought for it on the document and the cheapest one that fits
+ */
+interface FleetCartridgeChoice {
+  color: string;
+  annual_pages: number;                 // All devices of the row
+  current: FleetCartridgeCost | null;   // null = not bought on this document
+  recommended: FleetCartridgeCost & { units_per_year: number; price_book: { id: string; name: string } | null };
+  current_annual_cost: number | null;
+  recommended_annual_cost: number;
+  annual_savings: number;               // 0 without a current cartridge
+}
+
+interface FleetDeviceTco {
+  model: string;
+  location: string | null;
+  count: number;
+  monthly_pages: number;
+  source: 'customer' | 'inferred';
+  cartridges: FleetCartridgeChoice[];
+  // Colors with a current cartridge only, so both costs cover the same pages
+  current_annual_cost: number;
+  recommended_annual_cost: number;
+  annual_savings: number;
+}
+
+/**
+ * Fleet-level total cost of ownership (summary.printer_fleet)
+ */
+interface PrinterFleetTco {
+  source: 'customer' | 'inferred';
+  devices: FleetDeviceTco[];
+  unmatched_models: string[]; // Customer models no cartridge lists in compatible_printers
+  current_annual_cost: number;
+  recommended_annual_cost: number;
+  annual_savings: number;
+}
+
+/**
+ * Analyzed line as the fleet analysis sees it: the product bought and the price paid per each
+ */
+interface FleetPurchase {
+  product: SavingsProduct;
+  quantity: number;
+  unit_price: number;
+}
+
+/**
+ * Printer model compared upper-cased without spaces or punctuation (as fleet_compatible_products)
+ */
+export function printerModelKey(model: string): string {
+  return model.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Device key of an inferred printer for a cartridge: its compatibility_group, else the first
+ * printer it lists. null = no compatibility data.
+ */
+export function inferredDeviceKey(product: SavingsProduct): string | null {
+  if (product.compatibility_group) return `group:${product.compatibility_group}`;
+  const firstPrinter = product.compatible_printers?.find(printer => printerModelKey(printer));
+  return firstPrinter ? printerModelKey(firstPrinter) : null;
+}
+
+/**
+ * Devices of the fleet analysis with their keys: the customer's fleet, or one inferred printer
+ * per compatibility group on the document, printing the pages bought for it per month
+ * (the busiest color).
+ */
+function fleetDevices(
+  purchases: FleetPurchase[],
+  catalog: SavingsCatalog,
+  coveredMonths: number
+): Array<{ key: string; device: PrinterFleetDevice }> {
+  if (catalog.fleet) {
+    return catalog.fleet.map(device => ({ key: printerModelKey(device.model), device }));
+  }
+
+  const pagesByDevice = new Map<string, { model: string; pagesByColor: Map<string, number> }>();
+  for (const purchase of purchases) {
+    const key = inferredDeviceKey(purchase.product);
+    if (!key || !purchase.product.page_yield) continue;
+
+    const model = purchase.product.compatible_printers?.find(printer => printerModelKey(printer))
+      || purchase.product.compatibility_group
+      || key;
+    const entry = pagesByDevice.get(key) || { model, pagesByColor: new Map<string, number>() };
+    const color = purchase.product.color_type || 'black';
+    entry.pagesByColor.set(color, (entry.pagesByColor.get(color) || 0) + purchase.quantity * purchase.product.page_yield);
+    pagesByDevice.set(key, entry);
+  }
+
+  return Array.from(pagesByDevice.entries()).map(([key, entry]) => ({
+    key,
+    device: {
+      model: entry.model,
+      monthly_pages: Math.round(Math.max(...entry.pagesByColor.values()) / coveredMonths),
+      count: 1,
+      source: 'inferred' as const
+    }
+  }));
+}
+
+/**
+ * Cost per page of every fleet device: per color, the cartridge bought on the document against
+ * the cheapest compatible cartridge at the device's annual volume (price book, else catalog
+ * price). A cartridge bought at a lower cost per page than every alternative stays recommended.
+ * Returns null when no device has a compatible cartridge.
+ */
+function analyzePrinterFleet(
+  purchases: FleetPurchase[],
+  catalog: SavingsCatalog,
+  coveredMonths: number
+): PrinterFleetTco | null {
+  const devices: FleetDeviceTco[] = [];
+  const unmatchedModels: string[] = [];
+
+  for (const { key, device } of fleetDevices(purchases, catalog, coveredMonths)) {
+    const products = (catalog.fleetCompatibility.get(key) || [])
+      .filter(p => !p.category || p.category.endsWith('_cartridge'));
+    if (products.length === 0) {
+      if (device.source === 'customer') unmatchedModels.push(device.model);
+      continue;
+    }
+
+    const annualPages = device.monthly_pages * 12 * device.count;
+    const colors = Array.from(new Set(products.map(p => p.color_type || 'black')));
+    const cartridges: FleetCartridgeChoice[] = [];
+
+    for (const color of colors) {
+      const colorProducts = products.filter(p => (p.color_type || 'black') === color);
+      const colorIds = new Set(colorProducts.map(p => p.id));
+
+      // Cheapest cartridge per page at this volume
+      let best: FleetCartridgeChoice['recommended'] | null = null;
+      for (const product of colorProducts) {
+        if (!product.page_yield || product.page_yield <= 0) continue;
+        const unitsPerYear = Math.ceil(annualPages / product.page_yield);
+        const price = resolveUnitPrice(product, unitsPerYear, catalog.pricing);
+        const cpp = calculateCostPerPage(price.unit_price, product.page_yield);
+        if (!cpp || (best && best.cost_per_page <= cpp)) continue;
+        best = {
+          product_id: product.id,
+          product_name: product.product_name,
+          sku: product.ase_clover_number || product.ase_oem_number || null,
+          unit_price: price.unit_price,
+          page_yield: product.page_yield,
+          cost_per_page: cpp,
+          units_per_year: unitsPerYear,
+          price_book: price.price_book
+        };
+      }
+      if (!best) continue;
+
+      // What the customer buys for this color today (largest quantity on the document)
+      const purchase = purchases
+        .filter(p => colorIds.has(p.product.id) && p.product.page_yield && p.unit_price > 0)
+        .sort((a, b) => b.quantity - a.quantity)[0];
+      const current: FleetCartridgeCost | null = purchase ? {
+        product_id: purchase.product.id,
+        product_name: purchase.product.product_name,
+        sku: purchase.product.ase_clover_number || purchase.product.ase_oem_number || null,
+        unit_price: purchase.unit_price,
+        page_yield: purchase.product.page_yield!,
+        cost_per_page: purchase.unit_price / purchase.product.page_yield!
+      } : null;
+
+      const recommended = current && current.cost_per_page <= best.cost_per_page
+        ? { ...current, units_per_year: Math.ceil(annualPages / current.page_yield), price_book: null }
+        : best;
+      const currentAnnualCost = current ? annualPages * current.cost_per_page : null;
+      const recommendedAnnualCost = annualPages * recommended.cost_per_page;
+
+      cartridges.push({
+        color,
+        annual_pages: annualPages,
+        current,
+        recommended,
+        current_annual_cost: currentAnnualCost,
+        recommended_annual_cost: recommendedAnnualCost,
+        annual_savings: currentAnnualCost !== null ? currentAnnualCost - recommendedAnnualCost : 0
+      });
+    }
+    if (cartridges.length === 0) continue;
+
+    const compared = cartridges.filter(c => c.current_annual_cost !== null);
+    devices.push({
+      model: device.model,
+      location: device.location || null,
+      count: device.count,
+      monthly_pages: device.monthly_pages,
+      source: device.source,
+      cartridges,
+      current_annual_cost: compared.reduce((sum, c) => sum + (c.current_annual_cost || 0), 0),
+      recommended_annual_cost: compared.reduce((sum, c) => sum + c.recommended_annual_cost, 0),
+      annual_savings: compared.reduce((sum, c) => sum + c.annual_savings, 0)
+    });
+  }
+
+  if (devices.length === 0) return null;
+
+  devices.sort((a, b) => b.annual_savings - a.annual_savings);
+  return {
+    source: catalog.fleet ? 'customer' : 'inferred',
+    devices,
+    unmatched_models: unmatchedModels,
+    current_annual_cost: devices.reduce((sum, d) => sum + d.current_annual_cost, 0),
+    recommended_annual_cost: devices.reduce((sum, d) => sum + d.recommended_annual_cost, 0),
+    annual_savings: devices.reduce((sum, d) => sum + d.annual_savings, 0)
+  };
+}
+
+/**
+ * Fleet volume and fit for higher-yield options: per matched product, the monthly pages of the
+ * customer's devices it fits and the cartridges that fit all of them. Empty without a customer fleet.
+ */
+function fleetUsageByProduct(catalog: SavingsCatalog): Map<string, { monthlyPages: number; compatibleIds: Set<string> }> {
+  const usage = new Map<string, { monthlyPages: number; compatibleIds: Set<string> }>();
+  if (!catalog.fleet) return usage;
+
+  for (const device of catalog.fleet) {
+    const products = catalog.fleetCompatibility.get(printerModelKey(device.model)) || [];
+    const deviceIds = new Set(products.map(p => p.id));
+    for (const product of products) {
+      const entry = usage.get(product.id);
+      if (!entry) {
+        usage.set(product.id, { monthlyPages: device.monthly_pages * device.count, compatibleIds: new Set(deviceIds) });
+        continue;
+      }
+      entry.monthlyPages += device.monthly_pages * device.count;
+      for (const id of entry.compatibleIds) {
+        if (!deviceIds.has(id)) entry.compatibleIds.delete(id);
+      }
+    }
+  }
+  return usage;
+}
+
+// ============================================================================
+// SAVINGS ENGINE
+// ============================================================================
+
+const SAVINGS_DECIMAL_MAX = 99999999.99;        // DECIMAL(10,2) columns of order_items_extracted
+
+// Waste avoided per cartridge kept out of landfill (toner vs. ink)
+const CARTRIDGE_CO2_POUNDS = { toner: 5.2, ink: 2.5 };
+const CARTRIDGE_SHIPPING_POUNDS = { toner: 2.5, ink: 0.2 };
+const CARTRIDGE_PLASTIC_POUNDS = 2;
+
+type SavingsMatchType = 'remanufactured' | 'oem_only' | 'no_match';
+
+/**
+ * Catalog product as used by the savings engine (master_products row)
+ */
+export type SavingsProduct = {
+  id: string;
+  product_name: string;
+  ase_clover_number?: string | null;
+  ase_oem_number?: string | null;
+  ase_price?: number | null;
+  partner_list_price?: number | null;
+  page_yield?: number | null;
+  family_series?: string | null;
+  color_type?: string | null;
+  yield_class?: string | null;
+  category?: string | null;
+  brand?: string | null;
+  contract_status?: string | null;
+  compatibility_group?: string | null;
+  compatible_printers?: string[] | null;
+  [column: string]: unknown;
+};
+
+/**
+ * Everything the engine reads besides the line items - loaded once per job (loadSavingsCatalog)
+ */
+export interface SavingsCatalog {
+  families: Map<string, SavingsProduct[]>; // family_series -> active products with a page yield
+  pricing?: PriceBookSet;
+  marketPrices: MarketPriceReference;
+  fleet?: PrinterFleetDevice[];             // Customer's printer fleet (undefined = inferred)
+  fleetCompatibility: FleetCompatibility;
+}
+
+/**
+ * Thresholds the engine decides with - business rules, not catalog data
+ */
+export interface SavingsPolicy {
+  higher_yield: {
+    min_yield_ratio: number;          // Family peers need this share of the current page yield
+    min_cpp_improvement_pct: number;  // Cost per page must drop by at least this much
+    min_annual_savings: number;       // $ per year at the customer's page volume
+    horizon_months: number;           // Months the options are compared over
+  };
+  market_price: {
+    min_observations: number;         // Observed prices needed before they are used
+    high_confidence_observations: number;
+    list_price_band_pct: number;      // Customers typically pay list or up to this much below
+    default_markup: MarketPriceMarkup; // Used when market_price_markups has no any-product row
+  };
+}
+
+export const DEFAULT_SAVINGS_POLICY: SavingsPolicy = {
+  higher_yield: { min_yield_ratio: 0.8, min_cpp_improvement_pct: 5, min_annual_savings: 5, horizon_months: 12 },
+  market_price: {
+    min_observations: 3,
+    high_confidence_observations: 10,
+    list_price_band_pct: 0.10,
+    // Same as the seeded any-brand/any-category row
+    default_markup: { brand: null, category: null, markup: 1.30, band_pct: 0.20 }
+  }
+};
+
+/**
+ * Line item as the engine reads it: an order_items_extracted row with its matched product
+ */
+export interface SavingsLineItem {
+  [column: string]: unknown; // Remaining order_items_extracted columns, carried into the breakdown
+  id: string;                // Line-item ID (saveBatchItems)
+  raw_product_name: string;
+  raw_sku?: string | null;
+  quantity: number;
+  unit_price?: number;
+  total_price?: number;
+  location?: string | null;
+  cost_center?: string | null;
+  source_rows?: ConsolidatedSourceRow[] | null;
+  matched_product?: SavingsProduct | null;
+}
+
+interface EnvironmentalSavings {
+  cartridges_saved: number;
+  co2_reduced: number;
+  plastic_reduced: number;
+  shipping_weight_saved: number;
+}
+
+interface SavingsRecommendation {
+  product: SavingsProduct;
+  quantity: number;
+  unit_price: number;
+  price_book: { id: string; name: string } | null;
+  total_cost: number;
+  cartridges_saved?: number;
+  cost_per_page?: number;
+  reason: string;
+  type: 'larger_size' | 'better_price';
+}
+
+/**
+ * One line of the savings breakdown: the line item as stored plus its outcome
+ */
+interface SavingsBreakdownLine extends SavingsLineItem {
+  savings: number | null;
+  recommendation: SavingsRecommendation | string;
+  match_type: SavingsMatchType;
+  ase_sku: string | null;
+  price_source?: string;
+  price_estimate?: MarketPriceEstimate;
+  message?: string;
+}
+
+/**
+ * Savings columns of one order_items_extracted row, keyed on its line-item ID
+ * (apply_savings_results). Rows without a recommendation_type only get environmental_savings.
+ */
+export interface SavingsLineResult {
+  id: string;
+  recommended_product_id?: string;
+  recommended_quantity?: number;
+  recommended_total_cost?: number;
+  cost_savings?: number;
+  cost_savings_percentage?: number;
+  savings_reason?: string;
+  recommendation_type?: 'larger_size' | 'better_price';
+  price_book_id?: string | null;
+  environmental_savings: EnvironmentalSavings;
+}
+
+interface SavingsSummary {
+  // OEM Section (items without -R match or with -R but no ase_price)
+  oem_section: {
+    unique_items: number;
+    line_items: number;
+    rd_tba_count: number;   // True no match
+    oem_only_count: number; // Has match but no ase_price
+    total_oem_basket: number;
+  };
+  // Remanufactured Section (items with -R and ase_price and savings)
+  reman_section: {
+    unique_items: number;
+    line_items: number;
+    total_reman_basket: number; // What customer currently pays
+  };
+  // Savings (ONLY from Remanufactured items)
+  savings_breakdown: {
+    oem_total_spend: number; // Current cost for Reman items only
+    bav_total_spend: number; // Optimized cost for Reman items only
+    total_savings: number;
+    savings_percentage: number;
+  };
+  // Savings on this document vs. the same buying rate over 12 months
+  usage_period: UsagePeriod;
+  annualized_savings: {
+    document_savings: number;
+    projected_annual_savings: number;
+    projected_annual_oem_spend: number;
+    projected_annual_bav_spend: number;
+  };
+  // Ship-to / cost-center subtotals, highest savings first (empty without location columns)
+  location_breakdown: LocationSubtotal[];
+  price_books: Array<{ id: string; name: string; line_items: number }>;
+  // Per-device cost per page and cartridge mix (null = no device with compatible cartridges)
+  printer_fleet: PrinterFleetTco | null;
+  // Keep for backwards compatibility and internal reporting
+  total_items: number;
+  items_with_savings: number;
+  environmental: {
+    cartridges_saved: number;
+    co2_reduced_pounds: number;
+    trees_saved: number;
+    plastic_reduced_pounds: number;
+    shipping_weight_saved_pounds: number;
+  };
+}
+
+/**
+ * Result of calculateSavings: report summary and breakdown, plus the row updates to persist
+ */
+export interface SavingsAnalysis {
+  summary: SavingsSummary;
+  breakdown: SavingsBreakdownLine[];
+  line_results: SavingsLineResult[];
+}
+
+/**
+ * Waste avoided by the given number of cartridges of a product
+ */
+function cartridgeEnvironmentalSavings(product: SavingsProduct, cartridges: number): EnvironmentalSavings {
+  const count = Math.max(0, cartridges);
+  const kind = product.category === 'toner_cartridge' ? 'toner' : 'ink';
+  return {
+    cartridges_saved: count,
+    co2_reduced: count * CARTRIDGE_CO2_POUNDS[kind],
+    plastic_reduced: count * CARTRIDGE_PLASTIC_POUNDS,
+    shipping_weight_saved: count * CARTRIDGE_SHIPPING_POUNDS[kind]
+  };
+}
+
+function capSavingsDecimal(value: number): number {
+  return Math.min(Math.max(value || 0, 0), SAVINGS_DECIMAL_MAX);
+}
+
+/**
+ * Calculate cost and environmental savings
+ * UPDATED: Uses normalized prices and CPP-based higher-yield optimization
+ * 
+ * Savings are for the quantities on the document; the usage period turns them into a
+ * projected annual figure and sets the page volume used to rank higher-yield options.
+ * Recommended prices come from the customer's price books where they price the product.
+ * 
+ * Pure: reads only its arguments. The row updates are returned in line_results and written
+ * afterwards in bulk (saveSavingsResults).
+ */
+export function calculateSavings(
+  matchedItems: SavingsLineItem[],
+  catalog: SavingsCatalog,
+  usagePeriod: UsagePeriod = ASSUMED_ANNUAL_PERIOD,
+  policy: SavingsPolicy = DEFAULT_SAVINGS_POLICY
+): SavingsAnalysis {
+  console.log('💰 Calculating savings with CPP-based optimization...');
+  const { pricing, marketPrices } = catalog;
+  const priceBookUsage = new Map<string, number>(); // price_book_id -> lines priced from the book
+  const fleetUsage = fleetUsageByProduct(catalog);
+  
+  // Months of buying the document covers (unknown period = a year)
+  const coveredMonths = usagePeriod.covered_days ? usagePeriod.covered_days / (365 / 12) : 12;
+  console.log(`📅 Usage period: ${usagePeriod.source} (${coveredMonths.toFixed(1)} months, x${usagePeriod.annualization_factor} to annualize)`);
+
+  // Track totals for OEM section (items without -R match or with -R but no ase_price)
+  const oemUniqueSkus = new Set<string>();
+  let oemLineItems = 0;
+  let oemTotalBasket = 0;
+  let rdTbaCount = 0;  // True no match (not in database)
+  let oemOnlyCount = 0;  // Has match but no ase_price
+  
+  // Track totals for Remanufactured section (items with -R and ase_price and savings)
+  const remanUniqueSkus = new Set<string>();
+  let remanLineItems = 0;
+  let remanCurrentCost = 0;  // What customer currently pays
+  let remanOptimizedCost = 0;  // What customer would pay with us
+  let remanSavings = 0;  // Difference
+  
+  // Environmental tracking
+  let itemsWithSavings = 0;
+  let itemsAnalyzed = 0;
+  let itemsSkipped = 0;
+  const environmental: EnvironmentalSavings = { cartridges_saved: 0, co2_reduced: 0, plastic_reduced: 0, shipping_weight_saved: 0 };
+
+  const breakdown: SavingsBreakdownLine[] = [];
+  const lineResults: SavingsLineResult[] = [];
+  const fleetPurchases: FleetPurchase[] = [];
+
+  const addEnvironmental = (impact: EnvironmentalSavings) => {
+    environmental.cartridges_saved += impact.cartridges_saved;
+    environmental.co2_reduced += impact.co2_reduced;
+    environmental.plastic_reduced += impact.plastic_reduced;
+    environmental.shipping_weight_saved += impact.shipping_weight_saved;
+  };
+  const addToOemSection = (item: SavingsLineItem, basket: number, oemOnly: boolean) => {
+    oemLineItems++;
+    oemTotalBasket += basket;
+    if (oemOnly) oemOnlyCount++;
+    if (item.raw_sku) oemUniqueSkus.add(item.raw_sku);
+  };
+  const addToSection = (item: SavingsLineItem, matchType: SavingsMatchType, currentCost: number, optimizedCost: number, savings: number) => {
+    if (matchType !== 'remanufactured') {
+      addToOemSection(item, currentCost, matchType === 'oem_only');
+      return;
+    }
+    remanLineItems++;
+    remanCurrentCost += currentCost;
+    remanOptimizedCost += optimizedCost;
+    remanSavings += savings;
+    if (item.raw_sku) remanUniqueSkus.add(item.raw_sku);
+  };
+  const countPriceBook = (priceBook: { id: string } | null) => {
+    if (priceBook) priceBookUsage.set(priceBook.id, (priceBookUsage.get(priceBook.id) || 0) + 1);
+  };
+
+  for (const item of matchedItems) {
+    // Skip if no match found - this goes to OEM section as "R&D TBA"
+    if (!item.matched_product) {
+      addToOemSection(item, (item.unit_price || 0) * (item.quantity || 0), false);
+      rdTbaCount++;  // True no match - R&D TBA
+      
+      breakdown.push({
+        ...item,
+        savings: null,
+        recommendation: 'No match found - R&D TBA',
+        match_type: 'no_match',
+        ase_sku: null
+      });
+      itemsSkipped++;
+      console.log(`  ⊘ No match (R&D TBA): ${item.raw_product_name}`);
+      continue;
+    }
+
+    const matchedProduct: SavingsProduct = item.matched_product;
+    const aseSku = matchedProduct.ase_clover_number || matchedProduct.ase_oem_number || null;
+    
+    // Check if we have required data for savings calculation
+    // Get the ASE price (prioritize price book > ase_price > partner_list_price)
+    const linePricing = resolveUnitPrice(matchedProduct, item.quantity, pricing);
+    const asePrice = linePricing.unit_price;
+    const hasPageYield = !!matchedProduct.page_yield && matchedProduct.page_yield > 0;
+    const priceLabel = linePricing.price_book ? `${linePricing.price_book.name} price` : 'ASE price';
+    
+    // If no ASE price at all, categorize as OEM Only (uses partner_list_price)
+    if (asePrice <= 0) {
+      addToOemSection(item, (item.unit_price || 0) * item.quantity, true);  // Has match but no ase_price - OEM Only
+      
+      breakdown.push({
+        ...item,
+        matched_product: matchedProduct,
+        savings: 0,
+        recommendation: 'No ASE pricing available - OEM Only',
+        match_type: 'oem_only',
+        ase_sku: aseSku
+      });
+      itemsSkipped++;
+      console.log(`  ⊘ OEM Only (no ASE price): ${item.raw_product_name}`);
+      continue;
+    }
+    
+    // PRICING VALIDATION WITH CASCADING FALLBACK:
+    // Priority 1: User's price from document (most accurate)
+    // Priority 2: Market-price estimate (estimateMarketPrice) - observed prices, partner_list_price,
+    //             then ase_price * brand/category markup
+    // Last Resort: Skip if no pricing data available at all
+    const userPrice = item.unit_price || 0;
+    const hasUserPrice = userPrice > 0;
+    const marketEstimate = hasUserPrice ? null : estimateMarketPrice(matchedProduct, marketPrices, policy.market_price);
+    
+    if (!hasUserPrice && !marketEstimate) {
+      // Last Resort: No pricing data available at all - categorize as OEM Only
+      oemLineItems++;
+      oemOnlyCount++;  // Has match but no price data - OEM Only
+      if (item.raw_sku) {
+        oemUniqueSkus.add(item.raw_sku);
+      }
+      
+      breakdown.push({
+        ...item,
+        matched_product: matchedProduct,
+        savings: 0,
+        recommendation: 'Pricing information needed to calculate savings',
+        ase_price_available: asePrice,
+        message: `We found a match for this product! ASE price: $${asePrice.toFixed(2)}/unit. Upload a document with pricing to see potential savings.`,
+        match_type: 'oem_only',
+        ase_sku: aseSku
+      });
+      itemsSkipped++;
+      console.log(`  ⊘ OEM Only (no pricing data): ${item.raw_product_name} - matched but cannot calculate savings without any price reference`);
+      continue;
+    }
+    
+    // Priority 1 uses the document price; Priority 2 the estimate, whose method is the price source
+    const effectiveUserPrice: number = hasUserPrice ? userPrice : marketEstimate!.unit_price;
+    const priceSource = hasUserPrice ? 'user_file' : marketEstimate!.method;
+    const assumedPricingMessage = marketEstimate ? describeMarketPriceEstimate(marketEstimate) : undefined;
+    
+    // Fields every analyzed line carries in the breakdown
+    const pricedLine = {
+      ...item,
+      unit_price: effectiveUserPrice, // Use effective price (fallback if original was 0)
+      total_price: effectiveUserPrice * item.quantity, // Use calculated total with effective price
+      price_source: priceSource,
+      ...(marketEstimate && { price_estimate: marketEstimate }), // Estimate and its confidence band
+      ...(assumedPricingMessage && { message: assumedPricingMessage })
+    };
+
+    // We have enough data - analyze this item
+    itemsAnalyzed++;
+    const currentCost = effectiveUserPrice * item.quantity;
+    fleetPurchases.push({ product: matchedProduct, quantity: item.quantity, unit_price: effectiveUserPrice });
+
+    // Calculate CPP for matched product (using normalized ASE price) - only if we have page yield
+    const matchedCPP = hasPageYield ? calculateCostPerPage(asePrice, matchedProduct.page_yield!) : null;
+    const userCPP = hasPageYield ? calculateCostPerPage(effectiveUserPrice, matchedProduct.page_yield!) : null;
+    
+    console.log(`  📊 Analyzing: ${item.raw_product_name}`);
+    console.log(`     User paying: $${effectiveUserPrice.toFixed(2)}/unit (${priceSource})${assumedPricingMessage ? ' [ASSUMED]' : ''}, CPP: ${userCPP ? '$' + userCPP.toFixed(4) : 'N/A (no page yield)'}`);
+    if (assumedPricingMessage) {
+      console.log(`     ℹ️  ${assumedPricingMessage}`);
+    }
+    console.log(`     ASE price: $${asePrice}/unit${matchedProduct.page_yield ? ` (${matchedProduct.page_yield} pages)` : ''}, CPP: ${matchedCPP ? '$' + matchedCPP.toFixed(4) : 'N/A'}`);
+
+    // STEP 1: Calculate basic price savings (same product, ASE price)
+    const basicSavingsPerUnit = effectiveUserPrice - asePrice;
+    const basicTotalSavings = basicSavingsPerUnit * item.quantity;
+    const basicOptimizedCost = asePrice * item.quantity;
+
+    console.log(`     💵 Basic savings (using ASE price): $${basicTotalSavings.toFixed(2)} ($${basicSavingsPerUnit.toFixed(2)}/unit)`);
+
+    // STEP 2: Try to find higher-yield alternative (only if we have page yield data)
+    // With a customer fleet, the devices the cartridge fits set the volume and which options fit
+    let higherYieldRec: HigherYieldRecommendation | null = null;
+    if (hasPageYield && matchedProduct.family_series) {
+      const deviceUsage = fleetUsage.get(matchedProduct.id);
+      higherYieldRec = suggestHigherYield(
+        matchedProduct,
+        item.quantity,
+        effectiveUserPrice,  // Use effective price (user price or fallback)
+        catalog.families.get(matchedProduct.family_series) || [],
+        // Pages this customer prints with the cartridge per month, compared over a year
+        { monthlyPages: deviceUsage?.monthlyPages ?? (item.quantity * matchedProduct.page_yield!) / coveredMonths, horizonMonths: policy.higher_yield.horizon_months },
+        pricing,
+        deviceUsage?.compatibleIds,
+        policy.higher_yield
+      );
+    }
+
+    // STEP 3: Use whichever option gives better savings
+    const higherYieldSavings = higherYieldRec
+      ? currentCost - higherYieldRec.quantityNeeded * higherYieldRec.recommendedPrice
+      : 0;
+
+    if (higherYieldRec && higherYieldSavings > basicTotalSavings) {
+      const optimizedCost = higherYieldRec.quantityNeeded * higherYieldRec.recommendedPrice;
+      if (higherYieldSavings > 0) {
+        itemsWithSavings++;
+        console.log(`     💰 Higher-Yield Savings: $${higherYieldSavings.toFixed(2)} (${((higherYieldSavings/currentCost)*100).toFixed(1)}%) - BETTER than basic $${basicTotalSavings.toFixed(2)}`);
+        console.log(`     📈 CPP improvement: $${higherYieldRec.cppCurrent.toFixed(4)} → $${higherYieldRec.cppRecommended.toFixed(4)}`);
+      }
+
+      // Environmental impact: fewer, higher-yield cartridges
+      const cartridgesSavedHere = item.quantity - higherYieldRec.quantityNeeded;
+      const impact = cartridgeEnvironmentalSavings(matchedProduct, cartridgesSavedHere);
+      addEnvironmental(impact);
+
+      lineResults.push({
+        id: item.id,
+        recommended_product_id: higherYieldRec.recommended.id,
+        recommended_quantity: higherYieldRec.quantityNeeded,
+        recommended_total_cost: capSavingsDecimal(optimizedCost),
+        cost_savings: capSavingsDecimal(higherYieldSavings),
+        cost_savings_percentage: Math.min(Math.max((higherYieldSavings / currentCost) * 100, 0), 100),
+        savings_reason: higherYieldRec.reason.substring(0, 500),
+        recommendation_type: 'larger_size',
+        price_book_id: higherYieldRec.priceBook?.id || null,
+        environmental_savings: impact
+      });
+
+      // Track match type for executive summary
+      const hasAsePriceForHigherYield = !!higherYieldRec.priceBook || (!!higherYieldRec.recommended.ase_price && higherYieldRec.recommended.ase_price > 0);
+      countPriceBook(higherYieldRec.priceBook);
+      const matchType = determineMatchType(higherYieldRec.recommended, higherYieldSavings > 0, hasAsePriceForHigherYield);
+      addToSection(item, matchType, currentCost, optimizedCost, higherYieldSavings);
+      
+      breakdown.push({
+        ...pricedLine,
+        recommendation: {
+          product: higherYieldRec.recommended,
+          quantity: higherYieldRec.quantityNeeded,
+          unit_price: higherYieldRec.recommendedPrice,
+          price_book: higherYieldRec.priceBook,
+          total_cost: optimizedCost,
+          cartridges_saved: cartridgesSavedHere,
+          cost_per_page: higherYieldRec.cppRecommended,
+          reason: higherYieldRec.reason,
+          type: 'larger_size'
+        },
+        savings: higherYieldSavings,
+        match_type: matchType,
+        ase_sku: higherYieldRec.recommended.ase_clover_number || higherYieldRec.recommended.ase_oem_number || null
+      });
+      continue;
+    }
+
+    // Environmental impact for remanufactured/reused cartridges: the whole quantity
+    const impact = cartridgeEnvironmentalSavings(matchedProduct, item.quantity);
+    const countReusedCartridges = () => {
+      if (item.quantity <= 0) return;
+      addEnvironmental(impact);
+      console.log(`     ♻️  Remanufactured/Reused: ${item.quantity} cartridge(s) saved from waste`);
+    };
+
+    if (higherYieldRec || basicTotalSavings > 0) {
+      // Basic savings is better (or the only option) - use ASE price for same product
+      if (basicTotalSavings > 0) {
+        itemsWithSavings++;
+        console.log(higherYieldRec
+          ? `     💰 Using Basic Price Savings: $${basicTotalSavings.toFixed(2)} (${((basicTotalSavings/currentCost)*100).toFixed(1)}%) - BETTER than higher-yield $${higherYieldSavings.toFixed(2)}`
+          : `     💰 Basic Price Savings: $${basicTotalSavings.toFixed(2)} (${((basicTotalSavings/currentCost)*100).toFixed(1)}%)`);
+      }
+      countReusedCartridges();
+
+      lineResults.push({
+        id: item.id,
+        recommended_product_id: matchedProduct.id, // Same product, just better price
+        recommended_quantity: item.quantity,
+        recommended_total_cost: capSavingsDecimal(basicOptimizedCost),
+        cost_savings: capSavingsDecimal(basicTotalSavings),
+        cost_savings_percentage: Math.min(Math.max((basicTotalSavings / currentCost) * 100, 0), 100),
+        savings_reason: `Save $${basicSavingsPerUnit.toFixed(2)}/unit by purchasing at ${priceLabel}`,
+        recommendation_type: 'better_price',
+        price_book_id: linePricing.price_book?.id || null,
+        environmental_savings: impact
+      });
+
+      // Track match type and categorize
+      const hasAsePriceForBasic = !!linePricing.price_book || (!!matchedProduct.ase_price && matchedProduct.ase_price > 0);
+      countPriceBook(linePricing.price_book);
+      const matchType = determineMatchType(matchedProduct, basicTotalSavings > 0, hasAsePriceForBasic);
+      addToSection(item, matchType, currentCost, basicOptimizedCost, basicTotalSavings);
+      
+      breakdown.push({
+        ...pricedLine,
+        recommendation: {
+          product: matchedProduct,
+          quantity: item.quantity,
+          unit_price: asePrice,
+          price_book: linePricing.price_book,
+          total_cost: basicOptimizedCost,
+          reason: `Same product at ${priceLabel}: $${asePrice.toFixed(2)}/unit (save $${basicSavingsPerUnit.toFixed(2)}/unit)`,
+          type: 'better_price'
+        },
+        savings: basicTotalSavings,
+        match_type: matchType,
+        ase_sku: aseSku
+      });
+      continue;
+    }
+
+    // No savings at all (user already paying at or below ASE price) - goes to OEM section
+    addToOemSection(item, currentCost, true);  // Already at our price - OEM Only
+    
+    // Even without cost savings, the cartridges still count as kept from waste
+    countReusedCartridges();
+    if (item.quantity > 0) {
+      lineResults.push({ id: item.id, environmental_savings: impact });
+    }
+    
+    breakdown.push({
+      ...pricedLine,
+      matched_product: matchedProduct,
+      savings: 0,
+      recommendation: `Already at or below ${priceLabel} - OEM Only`,
+      match_type: 'oem_only',
+      ase_sku: aseSku
+    });
+    console.log(`     ✓ Already at or below ASE price (no savings possible) - OEM Only`);
+  }
+
+  console.log(`\n📊 Savings Summary:`);
+  console.log(`   Total items: ${matchedItems.length}`);
+  console.log(`   Items analyzed: ${itemsAnalyzed}`);
+  console.log(`   Items with savings: ${itemsWithSavings}`);
+  console.log(`   Items skipped: ${itemsSkipped}`);
+  console.log(`   OEM Section - Unique SKUs: ${oemUniqueSkus.size}, Line items: ${oemLineItems}`);
+  console.log(`   OEM Section - R&D TBA count: ${rdTbaCount}, OEM Only count: ${oemOnlyCount}`);
+  console.log(`   Remanufactured Section - Unique SKUs: ${remanUniqueSkus.size}, Line items: ${remanLineItems}`);
+  console.log(`   Remanufactured savings: $${remanSavings.toFixed(2)}`);
+  
+  const projectedAnnualSavings = remanSavings * usagePeriod.annualization_factor;
+  console.log(`   Projected annual savings: $${projectedAnnualSavings.toFixed(2)} (${usagePeriod.source})`);
+  
+  const locationBreakdown = buildLocationBreakdown(breakdown, usagePeriod.annualization_factor);
+  if (locationBreakdown.length > 0) {
+    console.log(`   Locations: ${locationBreakdown.length} (top: ${locationBreakdown[0].location || locationBreakdown[0].cost_center || 'Unassigned'} - $${locationBreakdown[0].savings.toFixed(2)})`);
+  }
+  
+  // Price books the recommended prices came from (empty = catalog prices only)
+  const priceBooksUsed = (pricing?.books || [])
+    .filter(book => priceBookUsage.has(book.id))
+    .map(book => ({ id: book.id, name: book.name, line_items: priceBookUsage.get(book.id) || 0 }));
+  if (priceBooksUsed.length > 0) {
+    console.log(`   Price books: ${priceBooksUsed.map(book => `${book.name} (${book.line_items} lines)`).join(', ')}`);
+  }
+  
+  const printerFleet = analyzePrinterFleet(fleetPurchases, catalog, coveredMonths);
+  if (printerFleet) {
+    console.log(`   Printer fleet (${printerFleet.source}): ${printerFleet.devices.length} devices, $${printerFleet.annual_savings.toFixed(2)}/year savings`);
+  }
+
+  return {
+    summary: {
+      oem_section: {
+        unique_items: oemUniqueSkus.size,
+        line_items: oemLineItems,
+        rd_tba_count: rdTbaCount,
+        oem_only_count: oemOnlyCount,
+        total_oem_basket: oemTotalBasket
+      },
+      reman_section: {
+        unique_items: remanUniqueSkus.size,
+        line_items: remanLineItems,
+        total_reman_basket: remanCurrentCost
+      },
+      savings_breakdown: {
+        oem_total_spend: remanCurrentCost,
+        bav_total_spend: remanOptimizedCost,
+        total_savings: remanSavings,
+        savings_percentage: remanCurrentCost > 0 ? (remanSavings / remanCurrentCost) * 100 : 0
+      },
+      usage_period: usagePeriod,
+      annualized_savings: {
+        document_savings: remanSavings,
+        projected_annual_savings: projectedAnnualSavings,
+        projected_annual_oem_spend: remanCurrentCost * usagePeriod.annualization_factor,
+        projected_annual_bav_spend: remanOptimizedCost * usagePeriod.annualization_factor
+      },
+      location_breakdown: locationBreakdown,
+      price_books: priceBooksUsed,
+      printer_fleet: printerFleet,
+      total_items: matchedItems.length,
+      items_with_savings: itemsWithSavings,
+      environmental: {
+        cartridges_saved: environmental.cartridges_saved,
+        co2_reduced_pounds: environmental.co2_reduced,
+        trees_saved: environmental.co2_reduced / 48, // 1 tree absorbs ~48 lbs CO2/year
+        plastic_reduced_pounds: environmental.plastic_reduced,
+        shipping_weight_saved_pounds: environmental.shipping_weight_saved
+      }
+    },
+    breakdown,
+    line_results: lineResults
+  };
+}
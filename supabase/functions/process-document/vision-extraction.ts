@@ -0,0 +1,116 @@
+/**
+ * Vision extraction request for a PDF page batch: the prompt, the line-item JSON schema
+ * and the batch file. Kept out of index.ts so fixture replays (supabase/tests) build the
+ * exact request process-document sends.
+ */
+
+import type { DocumentExtractionRequest } from '../shared/ai-fixture-providers.ts';
+
+/**
+ * Line item as returned by the vision JSON schema
+ */
+export interface VisionLineItem {
+  product_name: string;
+  sku: string;
+  oem_number: string;
+  upc: string;
+  vendor_sku: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  page_number: number;
+  source_page?: number; // page_number, validated against the batch's page range
+}
+
+export interface PdfPageBatch {
+  firstPage: number; // 1-based, inclusive
+  lastPage: number;
+  pdf: Uint8Array;
+}
+
+/**
+ * Request for one page batch - the prompt tells the model which original pages it sees
+ */
+export function buildVisionExtractionRequest(batch: PdfPageBatch): DocumentExtractionRequest {
+  const pageLabel = batch.firstPage === batch.lastPage
+    ? `page ${batch.firstPage}`
+    : `pages ${batch.firstPage}-${batch.lastPage}`;
+
+  const prompt = `Analyze this PDF document (quote, invoice, or purchase order) and extract ALL line items into the JSON schema.
+
+This file contains ${pageLabel} of the original document: the first page of this file is page ${batch.firstPage}. Report each item's page_number using that original numbering (${batch.firstPage}-${batch.lastPage}).
+
+CRITICAL INSTRUCTIONS:
+1. Look for table structures with columns like: Item Description, Part Number, SKU, OEM, Quantity, Qty, Price, Unit Price, Amount, Total
+2. Extract ONLY actual product line items - skip headers, totals, subtotals, shipping, taxes, addresses, and metadata
+3. If a product has multiple identifiers (e.g., Item number "457052" AND [VPC] "5855876" AND [UPC] "734646710855"), extract all into their respective fields
+4. Parse quantities and prices as numbers (remove currency symbols like $, commas)
+5. Use null for missing/unknown values - do NOT invent data
+6. Return empty items array if no line items are found in the document
+
+Example extraction pattern:
+"TONER BLACK LEXMARK [VPC] 5855876 [UPC] 734646710855" with Item# 457052
+→ product_name: "TONER BLACK LEXMARK", sku: "457052", oem_number: "5855876", upc: "734646710855"`;
+
+  const schema = {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            product_name: { 
+              type: 'string',
+              description: 'Full product description or name'
+            },
+            sku: { 
+              type: 'string',
+              description: 'Primary SKU, part number, or item number. Use empty string if not available.'
+            },
+            oem_number: { 
+              type: 'string',
+              description: 'OEM/manufacturer part number (often in [VPC] brackets). Use empty string if not available.'
+            },
+            upc: { 
+              type: 'string',
+              description: 'UPC barcode (often in [UPC] brackets). Use empty string if not available.'
+            },
+            vendor_sku: { 
+              type: 'string',
+              description: 'Vendor-specific SKU if different from primary. Use empty string if not available.'
+            },
+            quantity: { 
+              type: 'number',
+              description: 'Quantity ordered'
+            },
+            unit_price: { 
+              type: 'number',
+              description: 'Unit price per item. Use 0 if not available.'
+            },
+            total_price: { 
+              type: 'number',
+              description: 'Total line amount. Use 0 if not available.'
+            },
+            page_number: {
+              type: 'integer',
+              description: 'Original document page number the line item is printed on'
+            }
+          },
+          required: ['product_name', 'sku', 'oem_number', 'upc', 'vendor_sku', 'quantity', 'unit_price', 'total_price', 'page_number'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['items'],
+    additionalProperties: false
+  };
+
+  return {
+    file: batch.pdf,
+    fileName: `document-p${batch.firstPage}-${batch.lastPage}.pdf`,
+    prompt,
+    schemaName: 'LineItemsExtraction',
+    schema
+  };
+}
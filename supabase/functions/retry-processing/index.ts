@@ -0,0 +1,169 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Must match CHUNK_SIZE in process-document
+const CHUNK_SIZE = 100;
+
+function jsonResponse(body: Record<string, unknown>, status: number) {
+  return new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Retry a failed processing job without re-submitting the document.
+ * Chunks that already have their rows in order_items_extracted are kept; matching
+ * resumes from the first chunk without rows, then savings and reports are regenerated.
+ */
+Deno.serve(async (req) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const { processing_job_id: jobId } = await req.json();
+
+    if (!jobId) {
+      return jsonResponse({ error: 'Missing processing_job_id' }, 400);
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: job, error: jobError } = await supabase
+      .from('processing_jobs')
+      .select('id, status, progress, current_step, error_message, metadata')
+      .eq('id', jobId)
+      .single();
+
+    if (jobError || !job) {
+      return jsonResponse({ error: 'Processing job not found' }, 404);
+    }
+
+    if (job.status !== 'failed') {
+      return jsonResponse({ error: `Only failed jobs can be retried (status: ${job.status})` }, 409);
+    }
+
+    const metadata = job.metadata || {};
+
+    // Retrying can't fix a document that is missing required data
+    if (metadata.validation_failed) {
+      return jsonResponse({ error: 'Document failed validation - please upload a corrected document' }, 422);
+    }
+
+    if (!metadata.queue_context || !metadata.total_items) {
+      return jsonResponse({ error: 'Job failed before its items were staged - please re-submit the document' }, 422);
+    }
+
+    // Re-open the job. Conditional on 'failed' so two concurrent retries can't both start.
+    const { data: reopened, error: reopenError } = await supabase
+      .from('processing_jobs')
+      .update({
+        status: 'processing',
+        current_step: 'Retrying...',
+        error_message: null,
+        completed_at: null
+      })
+      .eq('id', jobId)
+      .eq('status', 'failed')
+      .select('id');
+
+    if (reopenError || !reopened || reopened.length === 0) {
+      return jsonResponse({ error: 'Job is already being retried' }, 409);
+    }
+
+    const { data: resumeFromChunk, error: prepareError } = await supabase.rpc('prepare_processing_job_retry', {
+      p_job_id: jobId,
+      p_total_items: metadata.total_items,
+      p_chunk_size: metadata.chunk_size || CHUNK_SIZE
+    });
+
+    if (prepareError) {
+      await supabase
+        .from('processing_jobs')
+        .update({
+          status: 'failed',
+          error_message: job.error_message,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', jobId);
+
+      throw new Error(`Failed to prepare retry: ${prepareError.message}`);
+    }
+
+    // Attempts history
+    const retryAttempts = Array.isArray(metadata.retry_attempts) ? metadata.retry_attempts : [];
+    const attempt = {
+      attempt: retryAttempts.length + 1,
+      requested_at: new Date().toISOString(),
+      previous_error: job.error_message,
+      previous_progress: job.progress,
+      previous_step: job.current_step,
+      resumed_from_chunk: resumeFromChunk
+    };
+
+    await supabase
+      .from('processing_jobs')
+      .update({
+        metadata: {
+          ...metadata,
+          retry_attempts: [...retryAttempts, attempt]
+        }
+      })
+      .eq('id', jobId);
+
+    console.log(`🔁 Retry ${attempt.attempt} for job ${jobId}: ${resumeFromChunk === null ? 'all chunks matched - regenerating reports' : `resuming at chunk ${resumeFromChunk + 1}`}`);
+
+    // Hand the job back to process-document
+    const response = await fetch(`${supabaseUrl}/functions/v1/process-document`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        _resume: true,
+        jobId
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      await supabase
+        .from('processing_jobs')
+        .update({
+          status: 'failed',
+          error_message: `Retry could not be started: ${response.status} - ${errorText}`,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', jobId);
+
+      return jsonResponse({ error: 'Failed to start processing', message: errorText }, 502);
+    }
+
+    return jsonResponse({
+      success: true,
+      processing_job_id: jobId,
+      attempt: attempt.attempt,
+      resumed_from_chunk: resumeFromChunk,
+      message: 'Retry started'
+    }, 202);
+
+  } catch (error) {
+    console.error('Error:', error);
+    return jsonResponse({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
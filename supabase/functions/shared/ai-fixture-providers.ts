@@ -0,0 +1,192 @@
+/**
+ * AI Provider Interfaces and Fixture Record / Replay
+ *
+ * The provider interfaces used by process-document, plus the providers that record
+ * responses as fixtures and replay them. No runtime imports, so the replay path also
+ * runs outside the edge runtime (supabase/tests/ai-fixtures.test.ts).
+ *
+ * Fixture files are read and written through a FixtureStore: ai-providers.ts passes
+ * one backed by Deno's file APIs.
+ */
+
+export const VISION_MODEL = 'gpt-5-mini';
+export const COMPLETION_MODEL = 'gpt-4o-mini';
+export const EMBEDDING_MODEL = 'text-embedding-3-small';
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface DocumentExtractionRequest {
+  file: Uint8Array;
+  fileName: string;
+  prompt: string;
+  schemaName: string;
+  schema: Record<string, unknown>; // JSON schema for structured output
+}
+
+export interface JsonCompletionRequest {
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ExtractionProvider {
+  name: string;
+  /** Extract structured data from a PDF; returns the model's JSON output text */
+  extractDocument(request: DocumentExtractionRequest): Promise<string>;
+  /** Single-prompt completion that answers with a JSON object; returns its text */
+  completeJson(request: JsonCompletionRequest): Promise<string>;
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(input: string): Promise<number[]>;
+}
+
+export interface AIProviders {
+  extraction: ExtractionProvider;
+  embedding: EmbeddingProvider;
+}
+
+/**
+ * Reads and writes fixture files. `read` returns null when the file doesn't exist.
+ */
+export interface FixtureStore {
+  read(url: URL): Promise<string | null>;
+  write(url: URL, text: string): Promise<void>;
+}
+
+type FixtureKind = 'extraction' | 'completion' | 'embedding';
+
+interface ExtractionFixture { output_text: string }
+interface CompletionFixture { content: string }
+interface EmbeddingFixture { embedding: number[] }
+
+async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Fixture file for a request: the key covers everything that changes the response
+ * (model, prompt, schema and - for documents - the file bytes)
+ */
+async function getFixtureUrl(fixturesDir: URL, kind: FixtureKind, parts: (string | Uint8Array)[]): Promise<URL> {
+  const partHashes = await Promise.all(parts.map(part => sha256Hex(part)));
+  const key = await sha256Hex([kind, ...partHashes].join('|'));
+  return new URL(`${kind}/${key}.json`, fixturesDir);
+}
+
+function getExtractionFixtureParts({ file, prompt, schemaName, schema }: DocumentExtractionRequest) {
+  return [VISION_MODEL, file, prompt, schemaName, JSON.stringify(schema)];
+}
+
+function getCompletionFixtureParts({ prompt, temperature, maxTokens }: JsonCompletionRequest) {
+  return [COMPLETION_MODEL, prompt, String(temperature ?? ''), String(maxTokens ?? '')];
+}
+
+function getEmbeddingFixtureParts(input: string) {
+  return [EMBEDDING_MODEL, input];
+}
+
+/**
+ * Deterministic unit vector for inputs with no recorded embedding, so semantic search
+ * still runs (and simply finds no neighbours above threshold)
+ */
+async function getStubEmbedding(input: string): Promise<number[]> {
+  const vector: number[] = [];
+  let seed = await sha256Hex(input);
+  while (vector.length < EMBEDDING_DIMENSIONS) {
+    for (let i = 0; i + 2 <= seed.length && vector.length < EMBEDDING_DIMENSIONS; i += 2) {
+      vector.push(parseInt(seed.substring(i, i + 2), 16) / 255 - 0.5);
+    }
+    seed = await sha256Hex(seed);
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map(value => value / norm);
+}
+
+/**
+ * Providers that replay recorded fixtures - never touch the network
+ */
+export function createFixtureProviders(store: FixtureStore, fixturesDir: URL): AIProviders {
+  const readFixture = async <T>(url: URL): Promise<T | null> => {
+    const text = await store.read(url);
+    return text === null ? null : JSON.parse(text) as T;
+  };
+
+  const requireFixture = async <T>(kind: FixtureKind, url: URL): Promise<T> => {
+    const fixture = await readFixture<T>(url);
+    if (!fixture) {
+      throw new Error(`No recorded ${kind} fixture at ${url.pathname} - run once with AI_PROVIDER=record to capture it`);
+    }
+    console.log(`📼 Replaying ${kind} fixture ${url.pathname.split('/').pop()}`);
+    return fixture;
+  };
+
+  const extraction: ExtractionProvider = {
+    name: 'fixture',
+
+    async extractDocument(request) {
+      const url = await getFixtureUrl(fixturesDir, 'extraction', getExtractionFixtureParts(request));
+      return (await requireFixture<ExtractionFixture>('extraction', url)).output_text;
+    },
+
+    async completeJson(request) {
+      const url = await getFixtureUrl(fixturesDir, 'completion', getCompletionFixtureParts(request));
+      return (await requireFixture<CompletionFixture>('completion', url)).content;
+    }
+  };
+
+  const embedding: EmbeddingProvider = {
+    name: 'fixture',
+
+    async embed(input) {
+      const url = await getFixtureUrl(fixturesDir, 'embedding', getEmbeddingFixtureParts(input));
+      const fixture = await readFixture<EmbeddingFixture>(url);
+      return fixture ? fixture.embedding : await getStubEmbedding(input);
+    }
+  };
+
+  return { extraction, embedding };
+}
+
+/**
+ * Wrap live providers so every response is also saved as a fixture
+ */
+export function createRecordingProviders(live: AIProviders, store: FixtureStore, fixturesDir: URL): AIProviders {
+  const writeFixture = async (kind: FixtureKind, url: URL, fixture: Record<string, unknown>) => {
+    await store.write(url, JSON.stringify({ kind, recorded_at: new Date().toISOString(), ...fixture }, null, 2));
+    console.log(`📼 Recorded ${kind} fixture ${url.pathname.split('/').pop()}`);
+  };
+
+  const extraction: ExtractionProvider = {
+    name: 'record',
+
+    async extractDocument(request) {
+      const output_text = await live.extraction.extractDocument(request);
+      const url = await getFixtureUrl(fixturesDir, 'extraction', getExtractionFixtureParts(request));
+      await writeFixture('extraction', url, { file_name: request.fileName, output_text });
+      return output_text;
+    },
+
+    async completeJson(request) {
+      const content = await live.extraction.completeJson(request);
+      const url = await getFixtureUrl(fixturesDir, 'completion', getCompletionFixtureParts(request));
+      await writeFixture('completion', url, { prompt: request.prompt, content });
+      return content;
+    }
+  };
+
+  const embedding: EmbeddingProvider = {
+    name: 'record',
+
+    async embed(input) {
+      const result = await live.embedding.embed(input);
+      const url = await getFixtureUrl(fixturesDir, 'embedding', getEmbeddingFixtureParts(input));
+      await writeFixture('embedding', url, { input, embedding: result });
+      return result;
+    }
+  };
+
+  return { extraction, embedding };
+}
@@ -0,0 +1,174 @@
+/**
+ * AI Providers
+ *
+ * Extraction (PDF vision + JSON completions) and embedding providers used by
+ * process-document. Selected with the AI_PROVIDER environment variable:
+ *
+ * - `openai`  (default) - OpenAI Files/Responses/Chat/Embeddings APIs
+ * - `record`  - OpenAI, and every response is also written as a fixture
+ * - `fixture` - Replays recorded fixtures, no network (offline runs and tests)
+ *
+ * Fixtures live in AI_FIXTURES_DIR (default: ./fixtures/ai next to this file),
+ * one JSON file per request, named by a SHA-256 of the request - see fixtures/ai/README.md.
+ * Provider interfaces and the record/replay providers are in ai-fixture-providers.ts.
+ */
+
+import OpenAI from 'npm:openai@4';
+import {
+  COMPLETION_MODEL,
+  EMBEDDING_MODEL,
+  VISION_MODEL,
+  createFixtureProviders,
+  createRecordingProviders,
+  type AIProviders,
+  type EmbeddingProvider,
+  type ExtractionProvider,
+  type FixtureStore
+} from './ai-fixture-providers.ts';
+
+export type {
+  AIProviders,
+  DocumentExtractionRequest,
+  EmbeddingProvider,
+  ExtractionProvider,
+  JsonCompletionRequest
+} from './ai-fixture-providers.ts';
+
+// ============================================================================
+// OPENAI
+// ============================================================================
+
+function createOpenAIProviders(apiKey: string): AIProviders {
+  const openai = new OpenAI({ apiKey });
+
+  const extraction: ExtractionProvider = {
+    name: 'openai',
+
+    async extractDocument({ file, fileName, prompt, schemaName, schema }) {
+      let uploadedFileId = '';
+
+      try {
+        // Step 1: Upload PDF file to OpenAI
+        console.log('📤 Step 1: Uploading PDF to OpenAI Files API...');
+        const uploadedFile = await openai.files.create({
+          file: new File([file], fileName, { type: 'application/pdf' }),
+          purpose: 'user_data' // Recommended purpose for Responses API inputs
+        });
+
+        uploadedFileId = uploadedFile.id;
+        console.log(`✅ File uploaded with ID: ${uploadedFileId}`);
+
+        // Step 2: Call Responses API with file + structured output
+        console.log(`🤖 Step 2: Calling ${VISION_MODEL} Responses API with structured output...`);
+        const response = await openai.responses.create({
+          model: VISION_MODEL,
+          input: [
+            {
+              role: 'user',
+              content: [
+                { type: 'input_file', file_id: uploadedFileId },
+                { type: 'input_text', text: prompt }
+              ]
+            }
+          ],
+          text: {
+            format: {
+              type: 'json_schema',
+              name: schemaName,
+              schema
+            }
+          }
+        });
+
+        return response.output_text || '';
+      } finally {
+        // Always cleanup - delete the uploaded file
+        if (uploadedFileId) {
+          try {
+            console.log('🧹 Cleaning up: Deleting uploaded file...');
+            await openai.files.del(uploadedFileId);
+            console.log(`✅ File ${uploadedFileId} deleted successfully`);
+          } catch (cleanupError) {
+            console.warn(`⚠️ Cleanup warning: Failed to delete file ${uploadedFileId}:`, cleanupError);
+            // Non-critical, don't fail the whole request
+          }
+        }
+      }
+    },
+
+    async completeJson({ prompt, temperature, maxTokens }) {
+      const response = await openai.chat.completions.create({
+        model: COMPLETION_MODEL,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        max_completion_tokens: maxTokens,
+        response_format: { type: 'json_object' }
+      });
+
+      return response.choices[0].message.content || '';
+    }
+  };
+
+  const embedding: EmbeddingProvider = {
+    name: 'openai',
+
+    async embed(input) {
+      const response = await openai.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input
+      });
+
+      return response.data[0].embedding;
+    }
+  };
+
+  return { extraction, embedding };
+}
+
+// ============================================================================
+// FIXTURE FILES (record / replay - see ai-fixture-providers.ts)
+// ============================================================================
+
+const denoFixtureStore: FixtureStore = {
+  async read(url) {
+    try {
+      return await Deno.readTextFile(url);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return null;
+      throw error;
+    }
+  },
+
+  async write(url, text) {
+    await Deno.mkdir(new URL('./', url), { recursive: true });
+    await Deno.writeTextFile(url, text);
+  }
+};
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+/**
+ * Build the providers selected by AI_PROVIDER (openai | record | fixture)
+ */
+export function createAIProviders(): AIProviders {
+  const providerName = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase();
+  const fixturesDirSetting = Deno.env.get('AI_FIXTURES_DIR');
+  const fixturesDir = fixturesDirSetting
+    ? new URL(fixturesDirSetting.endsWith('/') ? fixturesDirSetting : `${fixturesDirSetting}/`, `file://${Deno.cwd()}/`)
+    : new URL('./fixtures/ai/', import.meta.url);
+
+  switch (providerName) {
+    case 'fixture':
+      console.log(`🧪 AI provider: fixture replay (${fixturesDir.pathname})`);
+      return createFixtureProviders(denoFixtureStore, fixturesDir);
+    case 'record':
+      console.log(`🧪 AI provider: OpenAI with fixture recording (${fixturesDir.pathname})`);
+      return createRecordingProviders(createOpenAIProviders(Deno.env.get('OPENAI_API_KEY')!), denoFixtureStore, fixturesDir);
+    case 'openai':
+      return createOpenAIProviders(Deno.env.get('OPENAI_API_KEY')!);
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}" - expected openai, record or fixture`);
+  }
+}
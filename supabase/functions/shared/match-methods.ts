@@ -0,0 +1,32 @@
+/**
+ * Match Methods
+ *
+ * Every value order_items_extracted.match_method may hold. The CHECK constraint
+ * order_items_extracted_match_method_check lists the same values - migrations that
+ * rewrite it are compared with this list by supabase/tests/match-methods.test.ts.
+ */
+
+export const MATCH_METHODS = [
+  'sku_alias',
+  'exact_sku',
+  'gtin',
+  'nsn',
+  'exact_name',
+  'fuzzy_sku',
+  'combined_search',
+  'ilike_search',
+  'description_search',
+  'fuzzy_name',
+  'semantic',
+  'ai_suggested',
+  'manual',
+  'none',
+  'error',
+  'timeout'
+] as const;
+
+export type MatchMethod = typeof MATCH_METHODS[number];
+
+export function isMatchMethod(value: string): value is MatchMethod {
+  return (MATCH_METHODS as readonly string[]).includes(value);
+}
@@ -0,0 +1,33 @@
+/**
+ * Paged Selects
+ *
+ * PostgREST returns at most `max_rows` (1000 on Supabase) rows per request, however many
+ * match - a plain select of a large job silently stops there. selectAllPages() requests one
+ * `.range()` page after another until a short page comes back.
+ */
+
+export const SELECT_PAGE_SIZE = 1000; // Must not exceed the API's max_rows
+
+export interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * All rows of a select, fetched a page at a time. `fetchPage(from, to)` runs the query with
+ * `.range(from, to)` and a stable `.order()`, so pages neither overlap nor skip rows. Stops
+ * at the first error and returns it, like a single select would.
+ */
+export async function selectAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>,
+  pageSize: number = SELECT_PAGE_SIZE
+): Promise<{ data: T[]; error: PageResult<T>['error'] }> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await fetchPage(from, from + pageSize - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) return { data: rows, error: null };
+  }
+}
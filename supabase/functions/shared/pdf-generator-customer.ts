@@ -13,6 +13,14 @@ import { PDFDocument } from 'npm:pdf-lib@1.17.1';
 import { BAV_LOGO_BASE64 } from './logoData.ts';
 import { W9_PDF_BASE64 } from './w9Data.ts';
 
+interface UsagePeriod {
+  start: string | null;
+  end: string | null;
+  covered_days: number | null;
+  annualization_factor: number;
+  source: 'order_dates' | 'file_name' | 'assumed_annual';
+}
+
 interface ReportData {
   customer: {
     firstName: string;
@@ -21,15 +29,16 @@ interface ReportData {
     email: string;
   };
   summary: {
-    total_current_cost: number;
-    total_optimized_cost: number;
-    total_cost_savings: number;
-    savings_percentage: number;
+    // Legacy totals - reports now read savings_breakdown / oem_section / reman_section
+    total_current_cost?: number;
+    total_optimized_cost?: number;
+    total_cost_savings?: number;
+    savings_percentage?: number;
     total_items: number;
     items_with_savings: number;
-    remanufactured_count: number;
-    oem_count: number;
-    no_match_count: number;
+    remanufactured_count?: number;
+    oem_count?: number;
+    no_match_count?: number;
     oem_section: {
       unique_items: number;
       line_items: number;
@@ -48,6 +57,12 @@ interface ReportData {
       total_savings: number;
       savings_percentage: number;
     };
+    usage_period?: UsagePeriod;
+    annualized_savings?: {
+      document_savings: number;
+      projected_annual_savings: number;
+    };
+    price_books?: Array<{ id: string; name: string; line_items: number }>; // Books the recommended prices came from
     environmental: {
       cartridges_saved: number;
       co2_reduced_pounds: number;
@@ -92,6 +107,15 @@ function formatCurrency(amount: number, decimals: number = 2): string {
   });
 }
 
+/**
+ * Period the document covers, e.g. "Feb 1, 2025 to Aug 27, 2025"
+ */
+function formatUsagePeriod(period: UsagePeriod): string {
+  const formatDate = (iso: string) =>
+    new Date(`${iso}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${formatDate(period.start!)} to ${formatDate(period.end!)}`;
+}
+
 export async function generateCustomerPDFReport(data: ReportData): Promise<Uint8Array> {
   const doc = new jsPDF({
     orientation: 'portrait',
@@ -270,6 +294,39 @@ export async function generateCustomerPDFReport(data: ReportData): Promise<Uint8
   doc.setTextColor(darkGreen);
   doc.text(`${formatCurrency(data.summary.savings_breakdown.savings_percentage, 1)}% savings`, pageWidth - margin - 40, yPos + 10);
 
+  // Usage exports cover part of a year - also show the same buying rate over 12 months
+  const usagePeriod = data.summary.usage_period;
+  if (usagePeriod && usagePeriod.source !== 'assumed_annual' && data.summary.annualized_savings) {
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(darkGray);
+    doc.text(
+      doc.splitTextToSize(
+        `Savings above are for the purchases on your document (${formatUsagePeriod(usagePeriod)}). ` +
+        `At the same buying rate, projected annual savings: $${formatCurrency(data.summary.annualized_savings.projected_annual_savings, 0)}`,
+        contentWidth
+      ),
+      margin,
+      yPos + 22
+    );
+  }
+
+  // Price list the recommended prices came from
+  const priceBooks = data.summary.price_books || [];
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(darkGray);
+  doc.text(
+    doc.splitTextToSize(
+      priceBooks.length > 0
+        ? `Pricing: ${priceBooks.map(book => book.name).join(', ')}`
+        : 'Pricing: standard ASE pricing',
+      contentWidth
+    ),
+    margin,
+    yPos + 32
+  );
+
   // ===== PAGE 2: ENVIRONMENTAL IMPACT & KEY BENEFITS =====
   doc.addPage();
   yPos = 20;
@@ -5,12 +5,21 @@
  * - Page 1: Executive Summary with SKU breakdown
  * - Page 2: Environmental Impact & Key Benefits
  * - Page 3+: SKU Summary Report (aggregated by unique ASE SKU)
+ * - Per-File Subtotals (multi-file .zip submissions only)
  * - Following pages: Full line item details (simplified)
  */
 
 import { jsPDF } from 'npm:jspdf@2.5.2';
 import { BAV_LOGO_BASE64 } from './logoData.ts';
 
+interface UsagePeriod {
+  start: string | null;
+  end: string | null;
+  covered_days: number | null;
+  annualization_factor: number;
+  source: 'order_dates' | 'file_name' | 'assumed_annual';
+}
+
 interface ReportData {
   customer: {
     firstName: string;
@@ -19,15 +28,16 @@ interface ReportData {
     email: string;
   };
   summary: {
-    total_current_cost: number;
-    total_optimized_cost: number;
-    total_cost_savings: number;
-    savings_percentage: number;
+    // Legacy totals - reports now read savings_breakdown / oem_section / reman_section
+    total_current_cost?: number;
+    total_optimized_cost?: number;
+    total_cost_savings?: number;
+    savings_percentage?: number;
     total_items: number;
     items_with_savings: number;
-    remanufactured_count: number;
-    oem_count: number;
-    no_match_count: number;
+    remanufactured_count?: number;
+    oem_count?: number;
+    no_match_count?: number;
     oem_section: {
       unique_items: number;
       line_items: number;
@@ -46,6 +56,14 @@ interface ReportData {
       total_savings: number;
       savings_percentage: number;
     };
+    usage_period?: UsagePeriod;
+    annualized_savings?: {
+      document_savings: number;
+      projected_annual_savings: number;
+    };
+    location_breakdown?: LocationSubtotal[]; // Highest savings first
+    printer_fleet?: PrinterFleetTco | null;   // Per-device cost per page and cartridge mix
+    price_books?: Array<{ id: string; name: string; line_items: number }>; // Books the recommended prices came from
     environmental: {
       cartridges_saved: number;
       co2_reduced_pounds: number;
@@ -63,6 +81,14 @@ interface ReportData {
       quantity: number;
       unit_price: number;
       total_cost: number;
+      source_sheet?: string | null;
+      source_page?: number | null;
+      source_file?: string | null;
+      // Consolidated items: the original rows merged into this line
+      source_rows?: Array<{ row_number: number; quantity: number; unit_price: number; source_file?: string }> | null;
+      price_variance_pct?: number | null; // Set when unit prices varied across those rows beyond the threshold
+      // Set when the document had no price and unit_price is an estimate
+      price_estimate?: { method: string; low: number; high: number; confidence: 'high' | 'medium' | 'low' } | null;
     };
     recommended_product?: {
       name: string;
@@ -77,6 +103,56 @@ interface ReportData {
     };
     reason?: string;
   }>;
+  match_policy?: { name: string; description: string | null }; // Policy the job was matched with
+}
+
+interface LocationSubtotal {
+  location: string | null;
+  cost_center: string | null;
+  line_items: number;
+  quantity: number;
+  current_spend: number;
+  recommended_spend: number;
+  savings: number;
+  projected_annual_savings: number;
+}
+
+interface FleetCartridgeCost {
+  sku: string | null;
+  product_name: string;
+  cost_per_page: number;
+}
+
+interface PrinterFleetTco {
+  source: 'customer' | 'inferred';
+  devices: Array<{
+    model: string;
+    location: string | null;
+    count: number;
+    monthly_pages: number;
+    cartridges: Array<{
+      color: string;
+      annual_pages: number;
+      current: FleetCartridgeCost | null;
+      recommended: FleetCartridgeCost;
+      current_annual_cost: number | null;
+      recommended_annual_cost: number;
+      annual_savings: number;
+    }>;
+  }>;
+  unmatched_models: string[];
+  current_annual_cost: number;
+  recommended_annual_cost: number;
+  annual_savings: number;
+}
+
+interface FileSubtotal {
+  file_name: string;
+  line_count: number;
+  total_quantity: number;
+  total_current_cost: number;
+  total_recommended_cost: number;
+  total_savings: number;
 }
 
 interface SkuSummary {
@@ -99,6 +175,15 @@ function formatCurrency(amount: number, decimals: number = 2): string {
   });
 }
 
+/**
+ * Period the document covers, e.g. "Feb 1, 2025 to Aug 27, 2025"
+ */
+function formatUsagePeriod(period: UsagePeriod): string {
+  const formatDate = (iso: string) =>
+    new Date(`${iso}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+  return `${formatDate(period.start!)} to ${formatDate(period.end!)}`;
+}
+
 /**
  * Generate internal PDF report with SKU summary and line items
  */
@@ -265,6 +350,47 @@ export async function generateInternalPDFReport(data: ReportData): Promise<Uint8
   doc.setTextColor(darkGreen);
   doc.text(`${formatCurrency(data.summary.savings_breakdown.savings_percentage, 1)}% savings`, pageWidth - margin - 40, yPos + 10);
 
+  // Period behind the document savings and how they were annualized
+  const usagePeriod = data.summary.usage_period;
+  if (usagePeriod && data.summary.annualized_savings) {
+    const periodSource = {
+      order_dates: 'from order dates',
+      file_name: 'from file name',
+      assumed_annual: ''
+    }[usagePeriod.source];
+    const periodText = usagePeriod.source === 'assumed_annual'
+      ? 'Usage period: unknown - document treated as 12 months of purchases'
+      : `Usage period: ${formatUsagePeriod(usagePeriod)} (${usagePeriod.covered_days} days, ${periodSource}) · ` +
+        `Projected annual savings: $${formatCurrency(data.summary.annualized_savings.projected_annual_savings, 0)} ` +
+        `(x${usagePeriod.annualization_factor.toFixed(2)})`;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(darkGray);
+    doc.text(doc.splitTextToSize(periodText, contentWidth), margin, yPos + 22);
+  }
+
+  // Match policy the line items were accepted under
+  if (data.match_policy) {
+    const policyText = `Match policy: ${data.match_policy.name}` +
+      (data.match_policy.description ? ` - ${data.match_policy.description}` : '');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(darkGray);
+    doc.text(doc.splitTextToSize(policyText, contentWidth), margin, yPos + 32);
+  }
+
+  // Price books the recommended prices came from
+  const priceBooks = data.summary.price_books || [];
+  const pricingText = priceBooks.length > 0
+    ? `Price book${priceBooks.length === 1 ? '' : 's'}: ` +
+      priceBooks.map(book => `${book.name} (${book.line_items} line${book.line_items === 1 ? '' : 's'})`).join(', ') +
+      ' - other lines at ASE catalog price'
+    : 'Price book: none - ASE catalog prices';
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(darkGray);
+  doc.text(doc.splitTextToSize(pricingText, contentWidth), margin, yPos + 37);
+
   // ===== PAGE 2: ENVIRONMENTAL & BENEFITS =====
   doc.addPage();
   yPos = 20;
@@ -539,6 +665,352 @@ export async function generateInternalPDFReport(data: ReportData): Promise<Uint8
     rowCount++;
   });
 
+  // ===== PER-FILE SUBTOTALS (multi-file submissions) =====
+  const fileMap = new Map<string, FileSubtotal>();
+  
+  data.breakdown.forEach(item => {
+    // Consolidated lines can span files - split them by each source row's share of the quantity
+    const shares = item.current_product.source_rows?.length
+      ? item.current_product.source_rows.map(row => ({
+          fileName: row.source_file,
+          quantity: row.quantity,
+          share: item.current_product.quantity > 0 ? row.quantity / item.current_product.quantity : 0
+        }))
+      : [{ fileName: item.current_product.source_file, quantity: item.current_product.quantity, share: 1 }];
+    
+    shares.forEach(({ fileName, quantity, share }) => {
+      if (!fileName) return;
+      
+      if (!fileMap.has(fileName)) {
+        fileMap.set(fileName, {
+          file_name: fileName,
+          line_count: 0,
+          total_quantity: 0,
+          total_current_cost: 0,
+          total_recommended_cost: 0,
+          total_savings: 0
+        });
+      }
+      
+      const subtotal = fileMap.get(fileName)!;
+      subtotal.line_count++;
+      subtotal.total_quantity += quantity;
+      subtotal.total_current_cost += item.current_product.total_cost * share;
+      subtotal.total_recommended_cost += (item.recommended_product?.total_cost || item.current_product.total_cost) * share;
+      subtotal.total_savings += (item.savings?.cost_savings || 0) * share;
+    });
+  });
+  
+  if (fileMap.size > 1) {
+    doc.addPage();
+    yPos = 20;
+    
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(brandNavy);
+    doc.text('Per-File Subtotals', margin, yPos);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${fileMap.size} files combined into this analysis`, margin, yPos + 6);
+    
+    yPos += 15;
+    
+    const colFile = margin + 2;
+    const colLines = margin + 68;
+    const colFileQty = margin + 84;
+    const colFileCurrent = margin + 100;
+    const colFileBav = margin + 125;
+    const colFileSavings = margin + 150;
+    
+    const drawFileHeader = () => {
+      doc.setFillColor(42, 41, 99);
+      doc.rect(margin, yPos, contentWidth, 8, 'F');
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(255, 255, 255);
+      doc.text('File', colFile, yPos + 5);
+      doc.text('Lines', colLines, yPos + 5);
+      doc.text('Qty', colFileQty, yPos + 5);
+      doc.text('Current $', colFileCurrent, yPos + 5);
+      doc.text('BAV $', colFileBav, yPos + 5);
+      doc.text('Savings $', colFileSavings, yPos + 5);
+      yPos += 10;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(darkGray);
+    };
+    
+    drawFileHeader();
+    
+    // Files in the order they were parsed (archive order)
+    Array.from(fileMap.values()).forEach((subtotal, idx) => {
+      if (yPos > pageHeight - 35) {
+        doc.addPage();
+        yPos = 20;
+        drawFileHeader();
+      }
+      
+      if (idx % 2 === 0) {
+        doc.setFillColor(245, 245, 245);
+        doc.rect(margin, yPos, contentWidth, 7, 'F');
+      }
+      
+      doc.setFontSize(7);
+      doc.text(subtotal.file_name.substring(0, 40), colFile, yPos + 5);
+      doc.text(subtotal.line_count.toString(), colLines, yPos + 5);
+      doc.text(subtotal.total_quantity.toString(), colFileQty, yPos + 5);
+      doc.text(`$${formatCurrency(subtotal.total_current_cost)}`, colFileCurrent, yPos + 5);
+      doc.text(`$${formatCurrency(subtotal.total_recommended_cost)}`, colFileBav, yPos + 5);
+      
+      if (subtotal.total_savings > 0) {
+        doc.setTextColor(brandRed);
+        doc.setFont('helvetica', 'bold');
+      }
+      doc.text(`$${formatCurrency(subtotal.total_savings)}`, colFileSavings, yPos + 5);
+      doc.setTextColor(darkGray);
+      doc.setFont('helvetica', 'normal');
+      
+      yPos += 7;
+    });
+    
+    // Combined total row
+    const fileTotals = Array.from(fileMap.values()).reduce((totals, subtotal) => ({
+      lines: totals.lines + subtotal.line_count,
+      quantity: totals.quantity + subtotal.total_quantity,
+      current: totals.current + subtotal.total_current_cost,
+      recommended: totals.recommended + subtotal.total_recommended_cost,
+      savings: totals.savings + subtotal.total_savings
+    }), { lines: 0, quantity: 0, current: 0, recommended: 0, savings: 0 });
+    
+    yPos += 2;
+    doc.setFillColor(240, 253, 244);
+    doc.setDrawColor(34, 197, 94);
+    doc.setLineWidth(0.5);
+    doc.rect(margin, yPos, contentWidth, 8, 'FD');
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(brandNavy);
+    doc.text('All Files', colFile, yPos + 5);
+    doc.text(fileTotals.lines.toString(), colLines, yPos + 5);
+    doc.text(fileTotals.quantity.toString(), colFileQty, yPos + 5);
+    doc.text(`$${formatCurrency(fileTotals.current)}`, colFileCurrent, yPos + 5);
+    doc.text(`$${formatCurrency(fileTotals.recommended)}`, colFileBav, yPos + 5);
+    doc.setTextColor(brandRed);
+    doc.text(`$${formatCurrency(fileTotals.savings)}`, colFileSavings, yPos + 5);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(darkGray);
+  }
+
+  // ===== LOCATION BREAKDOWN (ship-to / cost-center columns) =====
+  const locations = data.summary.location_breakdown || [];
+  
+  if (locations.length > 1) {
+    doc.addPage();
+    yPos = 20;
+    
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(brandNavy);
+    doc.text('Location Breakdown', margin, yPos);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${locations.length} locations - highest savings first`, margin, yPos + 6);
+    
+    yPos += 15;
+    
+    const colLocation = margin + 2;
+    const colCostCenter = margin + 50;
+    const colLocLines = margin + 84;
+    const colLocQty = margin + 97;
+    const colLocCurrent = margin + 110;
+    const colLocSavings = margin + 133;
+    const colLocAnnual = margin + 155;
+    
+    const drawLocationHeader = () => {
+      doc.setFillColor(42, 41, 99);
+      doc.rect(margin, yPos, contentWidth, 8, 'F');
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(255, 255, 255);
+      doc.text('Location', colLocation, yPos + 5);
+      doc.text('Cost Center', colCostCenter, yPos + 5);
+      doc.text('Lines', colLocLines, yPos + 5);
+      doc.text('Qty', colLocQty, yPos + 5);
+      doc.text('Current $', colLocCurrent, yPos + 5);
+      doc.text('Savings $', colLocSavings, yPos + 5);
+      doc.text('Annual $', colLocAnnual, yPos + 5);
+      yPos += 10;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(darkGray);
+    };
+    
+    drawLocationHeader();
+    
+    locations.forEach((subtotal, idx) => {
+      if (yPos > pageHeight - 35) {
+        doc.addPage();
+        yPos = 20;
+        drawLocationHeader();
+      }
+      
+      if (idx % 2 === 0) {
+        doc.setFillColor(245, 245, 245);
+        doc.rect(margin, yPos, contentWidth, 7, 'F');
+      }
+      
+      doc.setFontSize(7);
+      doc.text((subtotal.location || 'Unassigned').substring(0, 30), colLocation, yPos + 5);
+      doc.text((subtotal.cost_center || '-').substring(0, 20), colCostCenter, yPos + 5);
+      doc.text(subtotal.line_items.toString(), colLocLines, yPos + 5);
+      doc.text(Math.round(subtotal.quantity).toString(), colLocQty, yPos + 5);
+      doc.text(`$${formatCurrency(subtotal.current_spend)}`, colLocCurrent, yPos + 5);
+      
+      if (subtotal.savings > 0) {
+        doc.setTextColor(brandRed);
+        doc.setFont('helvetica', 'bold');
+      }
+      doc.text(`$${formatCurrency(subtotal.savings)}`, colLocSavings, yPos + 5);
+      doc.setTextColor(darkGray);
+      doc.setFont('helvetica', 'normal');
+      doc.text(`$${formatCurrency(subtotal.projected_annual_savings, 0)}`, colLocAnnual, yPos + 5);
+      
+      yPos += 7;
+    });
+  }
+
+  // ===== FLEET TCO (cost per page per printer) =====
+  const fleet = data.summary.printer_fleet;
+  
+  if (fleet && fleet.devices.length > 0) {
+    doc.addPage();
+    yPos = 20;
+    
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(brandNavy);
+    doc.text('Fleet TCO', margin, yPos);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      `${fleet.devices.length} ${fleet.source === 'customer' ? 'devices from the customer\'s fleet' : 'devices inferred from compatible cartridges'} - annual cost at each device's page volume`,
+      margin,
+      yPos + 6
+    );
+    
+    yPos += 15;
+    
+    const colDevice = margin + 2;
+    const colColor = margin + 40;
+    const colPages = margin + 54;
+    const colFleetCurrent = margin + 70;
+    const colFleetRec = margin + 100;
+    const colCurrentYear = margin + 130;
+    const colRecYear = margin + 146;
+    const colSavingsYear = margin + 162;
+    
+    const drawFleetHeader = () => {
+      doc.setFillColor(42, 41, 99);
+      doc.rect(margin, yPos, contentWidth, 8, 'F');
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(255, 255, 255);
+      doc.text('Device', colDevice, yPos + 5);
+      doc.text('Color', colColor, yPos + 5);
+      doc.text('Pages/yr', colPages, yPos + 5);
+      doc.text('Current (CPP)', colFleetCurrent, yPos + 5);
+      doc.text('Recommended (CPP)', colFleetRec, yPos + 5);
+      doc.text('Current/yr', colCurrentYear, yPos + 5);
+      doc.text('New/yr', colRecYear, yPos + 5);
+      doc.text('Savings/yr', colSavingsYear, yPos + 5);
+      yPos += 10;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(darkGray);
+    };
+    
+    drawFleetHeader();
+    
+    let rowIndex = 0;
+    fleet.devices.forEach(device => {
+      device.cartridges.forEach((cartridge, cartridgeIdx) => {
+        if (yPos > pageHeight - 35) {
+          doc.addPage();
+          yPos = 20;
+          drawFleetHeader();
+        }
+        
+        if (rowIndex % 2 === 0) {
+          doc.setFillColor(245, 245, 245);
+          doc.rect(margin, yPos, contentWidth, 9, 'F');
+        }
+        rowIndex++;
+        
+        doc.setFontSize(7);
+        if (cartridgeIdx === 0) {
+          doc.setFont('helvetica', 'bold');
+          doc.text(`${device.count > 1 ? `${device.count}x ` : ''}${device.model}`.substring(0, 26), colDevice, yPos + 4);
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(6);
+          doc.text(`${device.location ? `${device.location.substring(0, 18)} - ` : ''}${Math.round(device.monthly_pages).toLocaleString()}/mo`, colDevice, yPos + 7.5);
+          doc.setFontSize(7);
+        }
+        doc.text(cartridge.color.substring(0, 10), colColor, yPos + 4);
+        doc.text(Math.round(cartridge.annual_pages).toLocaleString(), colPages, yPos + 4);
+        
+        if (cartridge.current) {
+          doc.text((cartridge.current.sku || cartridge.current.product_name).substring(0, 20), colFleetCurrent, yPos + 4);
+          doc.setFontSize(6);
+          doc.text(`$${cartridge.current.cost_per_page.toFixed(4)}/page`, colFleetCurrent, yPos + 7.5);
+          doc.setFontSize(7);
+        } else {
+          doc.text('Not on document', colFleetCurrent, yPos + 4);
+        }
+        doc.text((cartridge.recommended.sku || cartridge.recommended.product_name).substring(0, 20), colFleetRec, yPos + 4);
+        doc.setFontSize(6);
+        doc.text(`$${cartridge.recommended.cost_per_page.toFixed(4)}/page`, colFleetRec, yPos + 7.5);
+        doc.setFontSize(7);
+        
+        doc.text(cartridge.current_annual_cost !== null ? `$${formatCurrency(cartridge.current_annual_cost, 0)}` : '-', colCurrentYear, yPos + 4);
+        doc.text(`$${formatCurrency(cartridge.recommended_annual_cost, 0)}`, colRecYear, yPos + 4);
+        if (cartridge.annual_savings > 0) {
+          doc.setTextColor(brandRed);
+          doc.setFont('helvetica', 'bold');
+        }
+        doc.text(cartridge.current_annual_cost !== null ? `$${formatCurrency(cartridge.annual_savings, 0)}` : '-', colSavingsYear, yPos + 4);
+        doc.setTextColor(darkGray);
+        doc.setFont('helvetica', 'normal');
+        
+        yPos += 9;
+      });
+    });
+    
+    // Fleet totals (colors with a current cartridge)
+    if (yPos > pageHeight - 35) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setDrawColor(42, 41, 99);
+    doc.line(margin, yPos, margin + contentWidth, yPos);
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(brandNavy);
+    doc.text('Fleet Total', colDevice, yPos + 5);
+    doc.text(`$${formatCurrency(fleet.current_annual_cost, 0)}`, colCurrentYear, yPos + 5);
+    doc.text(`$${formatCurrency(fleet.recommended_annual_cost, 0)}`, colRecYear, yPos + 5);
+    doc.setTextColor(brandRed);
+    doc.text(`$${formatCurrency(fleet.annual_savings, 0)}`, colSavingsYear, yPos + 5);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(darkGray);
+    yPos += 10;
+    
+    if (fleet.unmatched_models.length > 0) {
+      doc.setFontSize(7);
+      const unmatchedLines = doc.splitTextToSize(
+        `No compatible cartridges found for: ${fleet.unmatched_models.join(', ')}`,
+        contentWidth
+      );
+      doc.text(unmatchedLines, margin, yPos);
+    }
+  }
+
   // ===== FULL LINE ITEM DETAILS =====
   doc.addPage();
   yPos = 20;
@@ -690,6 +1162,29 @@ export async function generateInternalPDFReport(data: ReportData): Promise<Uint8
     doc.setTextColor(102, 102, 102);
     const productName = item.current_product.name.substring(0, 35);
     doc.text(productName, colProductName, yPos + 4);
+    
+    // Source file (.zip submissions) + source sheet (multi-sheet workbooks) / source page (PDFs)
+    // + how many orders a consolidated line merges and its price variance, or the estimated price band
+    const sourceLabel = [
+      item.current_product.source_file ? item.current_product.source_file.split('/').pop()!.substring(0, 30) : '',
+      item.current_product.source_sheet
+        ? `Sheet: ${item.current_product.source_sheet.substring(0, 30)}`
+        : item.current_product.source_page
+          ? `Page ${item.current_product.source_page}`
+          : '',
+      item.current_product.source_rows && item.current_product.source_rows.length > 1
+        ? `${item.current_product.source_rows.length} orders`
+        : '',
+      item.current_product.price_variance_pct ? `Price var. ${item.current_product.price_variance_pct}%` : '',
+      item.current_product.price_estimate
+        ? `Est. $${item.current_product.price_estimate.low.toFixed(2)}-$${item.current_product.price_estimate.high.toFixed(2)} ` +
+          `(${item.current_product.price_estimate.method}, ${item.current_product.price_estimate.confidence})`
+        : ''
+    ].filter(Boolean).join(' · ');
+    if (sourceLabel) {
+      doc.setFontSize(5);
+      doc.text(sourceLabel, colProductName, yPos + 8);
+    }
     doc.setTextColor(darkGray);
     doc.setFontSize(6.5);
     
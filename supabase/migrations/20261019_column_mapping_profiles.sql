@@ -0,0 +1,38 @@
+-- Migration: Saved column-mapping profiles
+-- Purpose: Many submissions are the same vendor export shapes (Staples, Office Depot,
+--          W.B. Mason) over and over. A profile stores the column roles for one header
+--          row, keyed by a fingerprint of the normalized headers. When an upload's header
+--          row matches a profile, process-document uses its roles instead of heuristic
+--          column detection.
+--
+-- Profiles are either shared vendor formats (customer_company IS NULL) or scoped to one
+-- customer. Customer profiles are saved automatically from confirmed column mappings.
+
+CREATE TABLE IF NOT EXISTS column_mapping_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  vendor TEXT,
+  customer_company TEXT,
+  header_fingerprint TEXT NOT NULL,
+  headers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  columns JSONB NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'confirmed_mapping')),
+  times_applied INTEGER NOT NULL DEFAULT 0,
+  last_applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE column_mapping_profiles IS 'Column roles for known export formats, matched by header fingerprint';
+COMMENT ON COLUMN column_mapping_profiles.vendor IS 'Vendor whose export format this is (e.g. Staples) - informational';
+COMMENT ON COLUMN column_mapping_profiles.customer_company IS 'Lower-cased company the profile belongs to; NULL = shared vendor format';
+COMMENT ON COLUMN column_mapping_profiles.header_fingerprint IS 'SHA-256 of the normalized header row (lower-cased, trimmed, blank headers kept as empty)';
+COMMENT ON COLUMN column_mapping_profiles.headers IS 'Normalized header row the fingerprint was computed from';
+COMMENT ON COLUMN column_mapping_profiles.columns IS 'Header -> column role (product_name, quantity, unit_price, sku, oem_number, wholesaler_sku, staples_sku, depot_sku, other, ignore)';
+COMMENT ON COLUMN column_mapping_profiles.source IS 'manual (entered by staff) or confirmed_mapping (saved from a customer''s preview confirmation)';
+
+-- One profile per fingerprint per scope (shared or customer). Plain columns with
+-- NULLS NOT DISTINCT so confirmed mappings can upsert ON CONFLICT (header_fingerprint, customer_company).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_column_mapping_profiles_scope
+  ON column_mapping_profiles(header_fingerprint, customer_company) NULLS NOT DISTINCT;
@@ -0,0 +1,28 @@
+-- Migration: Upload types and size for the document-submissions bucket
+-- Purpose: The submission form accepts OpenDocument, tab/pipe-delimited text, images
+--          (photos of printed invoices) and .zip archives, and bundles several selected
+--          files into one documents.zip of up to 10MB. The bucket was created with a 5MB
+--          limit for PDF/Excel/CSV only, so those uploads would be rejected.
+--
+-- Keep in sync with the accept list and size limits in src/components/FileUpload.tsx.
+-- Uploads only: process-document stages its parsed JSON in the parsed-items bucket
+-- (20261019_parsed_items_bucket.sql), which has neither limit.
+
+UPDATE storage.buckets
+SET file_size_limit = 10485760, -- 10MB: one file up to 5MB, or several bundled into a .zip
+    allowed_mime_types = ARRAY[
+      'application/pdf',
+      'application/vnd.ms-excel',                                          -- .xls (and .csv on Windows)
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', -- .xlsx
+      'application/vnd.oasis.opendocument.spreadsheet',                    -- .ods
+      'text/csv',
+      'text/tab-separated-values',                                         -- .tsv
+      'text/plain',                                                        -- .txt, .psv
+      'image/jpeg',
+      'image/png',
+      'image/heic',
+      'image/heif',
+      'application/zip',
+      'application/x-zip-compressed'                                       -- .zip from Windows browsers
+    ]
+WHERE id = 'document-submissions';
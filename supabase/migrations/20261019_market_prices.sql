@@ -0,0 +1,64 @@
+-- Migration: Market-price reference for documents without prices
+-- Purpose: When a document has no prices, savings were measured against partner_list_price or a
+--          flat ase_price * 1.30 for every brand and category. process-document now stores the
+--          prices customers actually paid per product and estimates a missing price from them,
+--          falling back to brand/category markup defaults. Every estimate carries a low-high band.
+
+CREATE TABLE IF NOT EXISTS observed_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  master_product_id UUID NOT NULL REFERENCES master_products(id) ON DELETE CASCADE,
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price > 0),
+  quantity INTEGER,
+  customer_company TEXT,
+  source_job_id UUID REFERENCES processing_jobs(id) ON DELETE CASCADE,
+  observed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE observed_prices IS 'Per-each prices customers paid for matched products, from the price column of past submissions';
+COMMENT ON COLUMN observed_prices.unit_price IS 'Per-each price (normalizePriceAndQuantity), as used in savings';
+COMMENT ON COLUMN observed_prices.customer_company IS 'Lower-cased company the price came from';
+COMMENT ON COLUMN observed_prices.source_job_id IS 'Job the price was read on (re-analysis replaces that job''s rows)';
+COMMENT ON COLUMN observed_prices.observed_on IS 'Order date of the row, else the day the job ran';
+
+CREATE INDEX IF NOT EXISTS idx_observed_prices_product ON observed_prices(master_product_id, observed_on);
+CREATE INDEX IF NOT EXISTS idx_observed_prices_job ON observed_prices(source_job_id);
+
+-- Markup over ase_price when a product has too few observed prices
+CREATE TABLE IF NOT EXISTS market_price_markups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand TEXT,
+  category TEXT,
+  markup NUMERIC(5,3) NOT NULL CHECK (markup > 0),
+  band_pct NUMERIC(5,3) NOT NULL DEFAULT 0.20 CHECK (band_pct >= 0 AND band_pct < 1),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT market_price_markups_scope_key UNIQUE NULLS NOT DISTINCT (brand, category)
+);
+
+COMMENT ON TABLE market_price_markups IS 'Estimated market price = ase_price * markup, by brand and/or category (most specific row wins)';
+COMMENT ON COLUMN market_price_markups.brand IS 'Lower-cased master_products.brand; NULL = any brand';
+COMMENT ON COLUMN market_price_markups.category IS 'master_products.category (toner_cartridge, ink_cartridge, ...); NULL = any category';
+COMMENT ON COLUMN market_price_markups.markup IS 'Multiplier over ase_price, e.g. 1.30';
+COMMENT ON COLUMN market_price_markups.band_pct IS 'Confidence band: the estimate +/- this fraction';
+
+-- The flat markup used before this table existed
+INSERT INTO market_price_markups (brand, category, markup, band_pct, notes)
+VALUES (NULL, NULL, 1.30, 0.20, 'Default for any brand and category')
+ON CONFLICT ON CONSTRAINT market_price_markups_scope_key DO NOTHING;
+
+-- Median and interquartile range of observed prices per product since a date
+CREATE OR REPLACE FUNCTION market_price_stats(p_product_ids UUID[], p_since DATE)
+RETURNS TABLE(master_product_id UUID, observations BIGINT, median_price NUMERIC, low_price NUMERIC, high_price NUMERIC) AS $$
+  SELECT
+    op.master_product_id,
+    COUNT(*),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY op.unit_price)::NUMERIC,
+    percentile_cont(0.25) WITHIN GROUP (ORDER BY op.unit_price)::NUMERIC,
+    percentile_cont(0.75) WITHIN GROUP (ORDER BY op.unit_price)::NUMERIC
+  FROM observed_prices op
+  WHERE op.master_product_id = ANY(p_product_ids)
+    AND op.observed_on >= p_since
+  GROUP BY op.master_product_id;
+$$ LANGUAGE sql STABLE;
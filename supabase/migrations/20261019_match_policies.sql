@@ -0,0 +1,69 @@
+-- Migration: Named match-acceptance policies
+-- Purpose: Which match methods may accept a product on their own, the score each needs, when the
+--          later search tiers run and whether the AI tier runs were hardcoded in process-document.
+--          They now live in named policies; a submission picks one (or the default is used) and
+--          the job records the policy it ran with.
+--
+-- Exact identifier matches (sku_alias, exact_sku, gtin, nsn) are always accepted - a policy only
+-- decides everything after them.
+
+CREATE TABLE IF NOT EXISTS match_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  auto_accept JSONB NOT NULL DEFAULT '{}'::jsonb,
+  tier_thresholds JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ai_tier_enabled BOOLEAN NOT NULL DEFAULT false,
+  accept_on_exact_history BOOLEAN NOT NULL DEFAULT true,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE match_policies IS 'Named match-acceptance policies selectable per submission (process-document matching)';
+COMMENT ON COLUMN match_policies.auto_accept IS 'Match method -> minimum score at which that method''s best candidate is accepted, e.g. {"exact_name": 1, "fuzzy_sku": 0.9}; methods not listed never auto-accept';
+COMMENT ON COLUMN match_policies.tier_thresholds IS 'Tier -> the tier runs while the best score so far is below this: {ilike_search, description_search, full_text, semantic, ai_agent}';
+COMMENT ON COLUMN match_policies.ai_tier_enabled IS 'Run Tier 7 (AI agent) for low-confidence items';
+COMMENT ON COLUMN match_policies.accept_on_exact_history IS 'Accept the best candidate when an earlier attempt on the item met its auto_accept score';
+COMMENT ON COLUMN match_policies.is_default IS 'Policy used when neither the request nor the submission names one';
+
+-- At most one default policy
+CREATE UNIQUE INDEX IF NOT EXISTS idx_match_policies_default ON match_policies(is_default) WHERE is_default;
+
+-- default = the thresholds process-document used before policies existed
+INSERT INTO match_policies (name, description, auto_accept, tier_thresholds, ai_tier_enabled, accept_on_exact_history, is_default)
+VALUES
+  (
+    'default',
+    'Exact SKU, barcode, NSN or product name required; fuzzy SKU accepted from 0.90',
+    '{"exact_name": 1, "ilike_search": 1, "fuzzy_sku": 0.9}'::jsonb,
+    '{"ilike_search": 0.9, "description_search": 0.9, "full_text": 0.85, "semantic": 0.75, "ai_agent": 0.65}'::jsonb,
+    false,
+    true,
+    true
+  ),
+  (
+    'strict',
+    'Only exact SKU, barcode, NSN or product name matches',
+    '{"exact_name": 1}'::jsonb,
+    '{"ilike_search": 0.9, "description_search": 0.9, "full_text": 0.85, "semantic": 0.75, "ai_agent": 0.65}'::jsonb,
+    false,
+    false,
+    false
+  ),
+  (
+    'permissive',
+    'Also accepts high-scoring fuzzy, full-text, semantic and AI matches - review the match log',
+    '{"exact_name": 1, "ilike_search": 0.95, "fuzzy_sku": 0.85, "description_search": 0.88, "fuzzy_name": 0.9, "semantic": 0.85, "ai_suggested": 0.85}'::jsonb,
+    '{"ilike_search": 0.95, "description_search": 0.95, "full_text": 0.9, "semantic": 0.85, "ai_agent": 0.75}'::jsonb,
+    true,
+    true,
+    false
+  )
+ON CONFLICT (name) DO NOTHING;
+
+-- Policy picked for a submission (NULL = the default policy)
+ALTER TABLE document_submissions
+ADD COLUMN IF NOT EXISTS match_policy TEXT;
+
+COMMENT ON COLUMN document_submissions.match_policy IS 'match_policies.name to match this submission with; NULL = the default policy';
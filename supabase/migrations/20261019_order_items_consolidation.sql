@@ -0,0 +1,14 @@
+-- Migration: Consolidated line items
+-- Purpose: Usage reports list the same cartridge once per order. process-document now merges
+--          rows with the same normalized SKU + UOM before matching: quantities are summed and
+--          the unit price is the quantity-weighted average. The merged row keeps the original
+--          rows for traceability and flags orders whose prices varied.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS source_rows JSONB,
+ADD COLUMN IF NOT EXISTS price_variance_pct DECIMAL(8,1),
+ADD COLUMN IF NOT EXISTS price_variance_flagged BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN order_items_extracted.source_rows IS 'Original rows merged into this item: [{row_number, quantity, unit_price, source_file?, source_sheet?, source_page?}] (NULL when the row stands alone)';
+COMMENT ON COLUMN order_items_extracted.price_variance_pct IS '(max - min) / weighted-average unit price across source_rows, in percent';
+COMMENT ON COLUMN order_items_extracted.price_variance_flagged IS 'price_variance_pct exceeded the job''s consolidation threshold';
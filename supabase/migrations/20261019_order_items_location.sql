@@ -0,0 +1,11 @@
+-- Migration: Ship-to location and cost center per line item
+-- Purpose: Hospital systems and multi-site customers send usage with ship-to, department or
+--          cost-center columns. process-document now keeps them on each row and rolls the
+--          savings up per location so sales can start with the highest-savings sites.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS location TEXT,
+ADD COLUMN IF NOT EXISTS cost_center TEXT;
+
+COMMENT ON COLUMN order_items_extracted.location IS 'Ship-to / site from the row (NULL when absent or when merged rows came from different sites - see source_rows)';
+COMMENT ON COLUMN order_items_extracted.cost_center IS 'Department / cost center from the row (NULL when absent or when merged rows differ - see source_rows)';
@@ -0,0 +1,14 @@
+-- Migration: Match audit trail per line item
+-- Purpose: matchSingleProduct logs every tier it tries (SKU or text tried, score, candidate
+--          product) and why exact-match validation discarded a candidate. The log used to be
+--          console-only; it is now stored so reviewers can see why a row became "R&D TBA".
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS match_log JSONB;
+
+COMMENT ON COLUMN order_items_extracted.match_log IS 'Match attempts in order: [{method, attempted_value, score, product_id?, product_name?, product_sku?, rejected_reason?, timestamp}]';
+
+-- The review endpoint lists a job's unmatched rows
+CREATE INDEX IF NOT EXISTS idx_order_items_job_unmatched
+  ON order_items_extracted(processing_job_id)
+  WHERE matched_product_id IS NULL;
@@ -0,0 +1,13 @@
+-- Migration: Review decisions on unmatched line items
+-- Purpose: An internal reviewer works through the unmatched rows of a job (match-review) and either
+--          accepts a product for the row or marks it "not a supply item". Confirming re-runs savings
+--          and regenerates both reports for the job.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS review_status TEXT CHECK (review_status IN ('confirmed', 'not_supply')),
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+
+COMMENT ON COLUMN order_items_extracted.review_status IS 'Reviewer decision: confirmed (matched_product_id set by hand, match_method manual) | not_supply (left out of savings). NULL = not reviewed';
+COMMENT ON COLUMN order_items_extracted.reviewed_at IS 'When the review decision was made';
+COMMENT ON COLUMN order_items_extracted.reviewed_by IS 'Reviewer name/email as entered in the review queue';
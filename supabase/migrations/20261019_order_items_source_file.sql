@@ -0,0 +1,9 @@
+-- Migration: Source file for multi-file submissions
+-- Purpose: A submission can be a .zip of several order files (e.g. a year of monthly
+--          exports). Each file is parsed independently and every line item records the
+--          file it came from; the internal report subtotals savings per file.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS source_file TEXT;
+
+COMMENT ON COLUMN order_items_extracted.source_file IS 'File inside a .zip submission the row was parsed from (path within the archive, NULL for single-file submissions)';
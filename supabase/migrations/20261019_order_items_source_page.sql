@@ -0,0 +1,9 @@
+-- Migration: Source page for PDF submissions
+-- Purpose: PDF line items now record the page they are printed on - vision extraction runs
+--          per page batch, and the text-layer extractor knows each row's page. The internal
+--          report cites it next to the product.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS source_page INTEGER;
+
+COMMENT ON COLUMN order_items_extracted.source_page IS 'PDF page the line item was extracted from (1-based, NULL for CSV/Excel)';
@@ -0,0 +1,8 @@
+-- Migration: Source sheet for multi-sheet Excel submissions
+-- Purpose: parseDocument now parses every line-item sheet in a workbook (toner/ink or
+--          locations split across tabs). Each extracted row records the tab it came from.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS source_sheet TEXT;
+
+COMMENT ON COLUMN order_items_extracted.source_sheet IS 'Workbook sheet the line item was parsed from (NULL for CSV/PDF)';
@@ -0,0 +1,13 @@
+-- Migration: Private bucket for staged parsed items
+-- Purpose: process-document stages each job's normalized item list as JSON once and chunk
+--          workers read it back. The document-submissions bucket only takes the upload types
+--          and 10MB, and the staged JSON of a large usage export can be bigger than its upload,
+--          so staging gets its own bucket: private (only the service role reads and writes it),
+--          no MIME type or size limit.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('parsed-items', 'parsed-items', false, NULL, NULL)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = NULL,
+    allowed_mime_types = NULL;
@@ -0,0 +1,65 @@
+-- Migration: Price books (negotiated and contract pricing)
+-- Purpose: Savings always priced the recommended product at ase_price (or partner_list_price). Real
+--          deals have price lists per account, per GPO contract and per volume tier. A price book is
+--          a named price list with effective dates and tier breaks, assigned to customers; the
+--          savings engine resolves each line's price from the books that apply to the customer.
+--
+-- A book with contract_status only prices products whose master_products.contract_status matches
+-- (e.g. 'On HPG Contract'). Products without an entry in an applicable book keep ase_price.
+
+CREATE TABLE IF NOT EXISTS price_books (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  contract_status TEXT,
+  effective_from DATE,
+  effective_to DATE,
+  priority INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT price_books_effective_range CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from)
+);
+
+COMMENT ON TABLE price_books IS 'Named price lists (account, GPO contract or volume pricing) used by the savings engine';
+COMMENT ON COLUMN price_books.contract_status IS 'Only price products whose master_products.contract_status equals this (GPO contract books); NULL = any product';
+COMMENT ON COLUMN price_books.effective_from IS 'First day the book applies (NULL = no start)';
+COMMENT ON COLUMN price_books.effective_to IS 'Last day the book applies (NULL = open-ended)';
+COMMENT ON COLUMN price_books.priority IS 'When several books price a product, the customer''s own books win, then the highest priority, then the lowest price';
+
+-- One price per product per tier break
+CREATE TABLE IF NOT EXISTS price_book_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_book_id UUID NOT NULL REFERENCES price_books(id) ON DELETE CASCADE,
+  master_product_id UUID NOT NULL REFERENCES master_products(id) ON DELETE CASCADE,
+  min_quantity INTEGER NOT NULL DEFAULT 1 CHECK (min_quantity >= 1),
+  unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT price_book_entries_tier_key UNIQUE (price_book_id, master_product_id, min_quantity)
+);
+
+COMMENT ON TABLE price_book_entries IS 'Per-each price of a product in a price book, by tier break';
+COMMENT ON COLUMN price_book_entries.min_quantity IS 'Tier break: the price applies from this many units on the line (1 = base price)';
+COMMENT ON COLUMN price_book_entries.unit_price IS 'Per-each price (same basis as master_products.ase_price)';
+
+CREATE INDEX IF NOT EXISTS idx_price_book_entries_product ON price_book_entries(master_product_id);
+
+-- Which customers a book applies to
+CREATE TABLE IF NOT EXISTS price_book_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_book_id UUID NOT NULL REFERENCES price_books(id) ON DELETE CASCADE,
+  customer_company TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT price_book_assignments_customer_key UNIQUE NULLS NOT DISTINCT (price_book_id, customer_company)
+);
+
+COMMENT ON TABLE price_book_assignments IS 'Customers a price book applies to';
+COMMENT ON COLUMN price_book_assignments.customer_company IS 'Lower-cased company the book is assigned to; NULL = all customers';
+
+CREATE INDEX IF NOT EXISTS idx_price_book_assignments_customer ON price_book_assignments(customer_company);
+
+-- Book the recommended price of a line came from (NULL = ase_price / partner_list_price)
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS price_book_id UUID REFERENCES price_books(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN order_items_extracted.price_book_id IS 'Price book the recommended price came from; NULL = catalog ase_price / partner_list_price';
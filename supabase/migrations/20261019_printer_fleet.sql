@@ -0,0 +1,24 @@
+-- Migration: Printer-fleet aware cost-per-page optimization
+-- Purpose: Higher-yield recommendations compared cartridges of one family at the page volume
+--          read from the document. A customer can now send its printer fleet (model + monthly
+--          pages); process-document finds the cartridges that fit each printer through
+--          master_products.compatible_printers and picks the cheapest cartridge per color for
+--          each device. Without a fleet, devices are inferred from compatibility_group.
+
+-- Active cartridges with a page yield that list one of the printer models in compatible_printers.
+-- Models are compared upper-cased without spaces or punctuation ('HP LaserJet M404n' = 'HPLASERJETM404N').
+CREATE OR REPLACE FUNCTION fleet_compatible_products(p_models TEXT[])
+RETURNS TABLE (printer_model TEXT, product JSONB) AS $$
+  SELECT m.model, to_jsonb(mp) - 'embedding' - 'search_vector'
+  FROM unnest(p_models) AS m(model)
+  JOIN master_products mp
+    ON mp.active = true
+   AND mp.page_yield IS NOT NULL
+   AND EXISTS (
+     SELECT 1
+     FROM unnest(mp.compatible_printers) AS cp(printer)
+     WHERE regexp_replace(upper(cp.printer), '[^A-Z0-9]', '', 'g') = regexp_replace(upper(m.model), '[^A-Z0-9]', '', 'g')
+   );
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION fleet_compatible_products(TEXT[]) IS 'Cartridges (active, with page_yield) whose compatible_printers list each printer model - process-document fleet optimization';
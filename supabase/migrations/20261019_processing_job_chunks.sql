@@ -0,0 +1,271 @@
+-- Migration: Durable chunk queue for process-document
+-- Purpose: Replace fire-and-forget self-invocation with leased chunk work items.
+--          A worker claims the next unleased chunk, heartbeats while it runs, and
+--          marks it complete. A sweeper requeues chunks whose lease expired so a job
+--          always resumes from the last completed chunk.
+--
+-- Everything here is plain PostgreSQL (no pg_cron / pg_net / auth schema), so the
+-- queue can be exercised against a local Postgres container - see DURABLE_JOB_QUEUE.md
+
+-- ============================================================================
+-- CHUNK WORK ITEMS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS processing_job_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  processing_job_id UUID NOT NULL REFERENCES processing_jobs(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  start_index INTEGER NOT NULL,
+  end_index INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'leased', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  leased_by TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (processing_job_id, chunk_index)
+);
+
+COMMENT ON TABLE processing_job_chunks IS 'Chunk work items for process-document (lease/heartbeat queue)';
+COMMENT ON COLUMN processing_job_chunks.start_index IS 'Index of the first staged item in this chunk (0-based, inclusive)';
+COMMENT ON COLUMN processing_job_chunks.end_index IS 'Index after the last staged item in this chunk (exclusive)';
+COMMENT ON COLUMN processing_job_chunks.leased_by IS 'Worker ID holding the lease';
+COMMENT ON COLUMN processing_job_chunks.lease_expires_at IS 'Lease deadline - the sweeper requeues the chunk after this passes';
+
+CREATE INDEX IF NOT EXISTS idx_processing_job_chunks_claimable
+  ON processing_job_chunks(status, processing_job_id, chunk_index);
+
+CREATE INDEX IF NOT EXISTS idx_processing_job_chunks_lease
+  ON processing_job_chunks(lease_expires_at)
+  WHERE status = 'leased';
+
+-- Track which chunk produced each extracted row so a re-run chunk can
+-- clear its partial output before matching again
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS chunk_index INTEGER;
+
+COMMENT ON COLUMN order_items_extracted.chunk_index IS 'processing_job_chunks.chunk_index that produced this row';
+
+-- Worker that saved the row - rows of a worker that lost its lease are discarded
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS worker_id TEXT;
+
+COMMENT ON COLUMN order_items_extracted.worker_id IS 'processing_job_chunks.leased_by of the worker that saved this row';
+
+CREATE INDEX IF NOT EXISTS idx_order_items_job_chunk
+  ON order_items_extracted(processing_job_id, chunk_index);
+
+-- ============================================================================
+-- QUEUE FUNCTIONS
+-- ============================================================================
+
+-- Create one work item per chunk of staged items. Safe to call twice.
+CREATE OR REPLACE FUNCTION enqueue_processing_chunks(
+  p_job_id UUID,
+  p_total_items INTEGER,
+  p_chunk_size INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_chunks INTEGER;
+BEGIN
+  IF p_total_items <= 0 OR p_chunk_size <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_chunks := CEIL(p_total_items::NUMERIC / p_chunk_size)::INTEGER;
+
+  INSERT INTO processing_job_chunks (processing_job_id, chunk_index, start_index, end_index)
+  SELECT
+    p_job_id,
+    i,
+    i * p_chunk_size,
+    LEAST((i + 1) * p_chunk_size, p_total_items)
+  FROM generate_series(0, v_chunks - 1) AS i
+  ON CONFLICT (processing_job_id, chunk_index) DO NOTHING;
+
+  RETURN v_chunks;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim the lowest pending chunk of a job that is still processing.
+-- SKIP LOCKED lets concurrent workers claim different chunks without blocking.
+CREATE OR REPLACE FUNCTION claim_next_processing_chunk(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF processing_job_chunks AS $$
+DECLARE
+  v_chunk_id UUID;
+BEGIN
+  SELECT c.id INTO v_chunk_id
+  FROM processing_job_chunks c
+  JOIN processing_jobs j ON j.id = c.processing_job_id
+  WHERE c.status = 'pending'
+    AND j.status = 'processing'
+    AND (p_job_id IS NULL OR c.processing_job_id = p_job_id)
+  ORDER BY c.created_at, c.chunk_index
+  LIMIT 1
+  FOR UPDATE OF c SKIP LOCKED;
+
+  IF v_chunk_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE processing_job_chunks
+  SET status = 'leased',
+      attempts = attempts + 1,
+      leased_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      last_error = NULL,
+      updated_at = now()
+  WHERE id = v_chunk_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend a lease. Returns false if the worker no longer holds it
+-- (lease expired and the sweeper handed the chunk to someone else).
+CREATE OR REPLACE FUNCTION heartbeat_processing_chunk(
+  p_chunk_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE processing_job_chunks
+  SET lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      updated_at = now()
+  WHERE id = p_chunk_id
+    AND leased_by = p_worker_id
+    AND status = 'leased';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mark a chunk complete and return how many chunks of the job are still unfinished.
+-- Returns -1 if the worker lost its lease (the result must be discarded).
+-- The job row is locked so exactly one worker observes 0 remaining and finalizes.
+-- Rows another worker saved for the chunk before losing its lease are deleted, so
+-- the chunk ends up with exactly the completing worker's rows.
+CREATE OR REPLACE FUNCTION complete_processing_chunk(
+  p_chunk_id UUID,
+  p_worker_id TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_job_id UUID;
+  v_chunk_index INTEGER;
+  v_remaining INTEGER;
+BEGIN
+  SELECT processing_job_id, chunk_index INTO v_job_id, v_chunk_index
+  FROM processing_job_chunks
+  WHERE id = p_chunk_id;
+
+  IF v_job_id IS NULL THEN
+    RETURN -1;
+  END IF;
+
+  PERFORM 1 FROM processing_jobs WHERE id = v_job_id FOR UPDATE;
+
+  UPDATE processing_job_chunks
+  SET status = 'completed',
+      completed_at = now(),
+      lease_expires_at = NULL,
+      updated_at = now()
+  WHERE id = p_chunk_id
+    AND leased_by = p_worker_id
+    AND status = 'leased';
+
+  IF NOT FOUND THEN
+    RETURN -1;
+  END IF;
+
+  DELETE FROM order_items_extracted
+  WHERE processing_job_id = v_job_id
+    AND chunk_index = v_chunk_index
+    AND worker_id IS DISTINCT FROM p_worker_id;
+
+  SELECT COUNT(*) INTO v_remaining
+  FROM processing_job_chunks
+  WHERE processing_job_id = v_job_id
+    AND status <> 'completed';
+
+  RETURN v_remaining;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a chunk after an error. It goes back to pending until it has used
+-- p_max_attempts, then it is marked failed. Returns the resulting status.
+CREATE OR REPLACE FUNCTION fail_processing_chunk(
+  p_chunk_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE processing_job_chunks
+  SET status = CASE WHEN attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+      leased_by = NULL,
+      lease_expires_at = NULL,
+      last_error = LEFT(p_error, 1000),
+      updated_at = now()
+  WHERE id = p_chunk_id
+    AND leased_by = p_worker_id
+    AND status = 'leased'
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sweeper: requeue chunks whose worker stopped heartbeating (runtime killed,
+-- timeout, crash). Chunks that have used all attempts are marked failed.
+-- Returns one row per processing job that has claimable work again.
+CREATE OR REPLACE FUNCTION requeue_expired_processing_chunks(
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS TABLE (processing_job_id UUID, requeued INTEGER, failed INTEGER) AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE processing_job_chunks c
+    SET status = CASE WHEN c.attempts >= p_max_attempts THEN 'failed' ELSE 'pending' END,
+        last_error = COALESCE(c.last_error, 'Lease expired (worker stopped heartbeating)'),
+        leased_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = now()
+    WHERE c.status = 'leased'
+      AND c.lease_expires_at < now()
+    RETURNING c.processing_job_id, c.status
+  )
+  SELECT
+    e.processing_job_id,
+    COUNT(*) FILTER (WHERE e.status = 'pending')::INTEGER,
+    COUNT(*) FILTER (WHERE e.status = 'failed')::INTEGER
+  FROM expired e
+  GROUP BY e.processing_job_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Scheduling the sweeper (hosted Supabase only - requires pg_cron + pg_net):
+--
+--   SELECT cron.schedule('process-document-sweeper', '* * * * *', $$
+--     SELECT net.http_post(
+--       url := '<SUPABASE_URL>/functions/v1/process-document',
+--       headers := '{"Authorization": "Bearer <SERVICE_ROLE_KEY>", "Content-Type": "application/json"}'::jsonb,
+--       body := '{"_sweep": true}'::jsonb
+--     );
+--   $$);
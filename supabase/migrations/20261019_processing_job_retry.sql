@@ -0,0 +1,49 @@
+-- Migration: Resume failed processing jobs
+-- Purpose: Used by the retry-processing edge function. Re-opens the chunk queue of a
+--          failed job so it resumes from the first chunk with no saved rows in
+--          order_items_extracted, keeping every chunk that was already matched.
+
+-- Reset the chunk queue of a job for a retry and return the first chunk index to
+-- resume from (NULL when every chunk already has its rows - only finalization is left).
+-- A chunk counts as done when order_items_extracted holds one row per item in its range;
+-- partially saved chunks are cleared by the worker before they are matched again.
+CREATE OR REPLACE FUNCTION prepare_processing_job_retry(
+  p_job_id UUID,
+  p_total_items INTEGER,
+  p_chunk_size INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_resume_from INTEGER;
+BEGIN
+  -- Jobs that failed before their chunks were queued
+  PERFORM enqueue_processing_chunks(p_job_id, p_total_items, p_chunk_size);
+
+  UPDATE processing_job_chunks c
+  SET status = CASE WHEN d.is_done THEN 'completed' ELSE 'pending' END,
+      completed_at = CASE WHEN d.is_done THEN COALESCE(c.completed_at, now()) ELSE NULL END,
+      attempts = CASE WHEN d.is_done THEN c.attempts ELSE 0 END,
+      leased_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = now()
+  FROM (
+    SELECT
+      pc.id,
+      COUNT(oi.id) >= (pc.end_index - pc.start_index) AS is_done
+    FROM processing_job_chunks pc
+    LEFT JOIN order_items_extracted oi
+      ON oi.processing_job_id = pc.processing_job_id
+     AND oi.chunk_index = pc.chunk_index
+    WHERE pc.processing_job_id = p_job_id
+    GROUP BY pc.id, pc.start_index, pc.end_index
+  ) d
+  WHERE c.id = d.id;
+
+  SELECT MIN(chunk_index) INTO v_resume_from
+  FROM processing_job_chunks
+  WHERE processing_job_id = p_job_id
+    AND status = 'pending';
+
+  RETURN v_resume_from;
+END;
+$$ LANGUAGE plpgsql;
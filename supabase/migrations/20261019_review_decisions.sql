@@ -0,0 +1,44 @@
+-- Migration: Write review decisions in one statement
+-- Purpose: match-review updated order_items_extracted one decision at a time, so a failed update
+--          left the decisions before it saved with no re-analysis run, and the report disagreed
+--          with review_status. All decisions of a review are now applied together or not at all.
+
+-- Apply a reviewer's decisions to a job's rows. p_decisions is a JSON array of
+-- {itemId, action: 'accept' | 'not_supply', productId}. accept sets the product by hand
+-- (match_method manual); not_supply clears the match and leaves the row out of savings.
+-- Raises - writing nothing - unless every decision updates exactly one row of the job.
+-- Returns the number of rows updated.
+CREATE OR REPLACE FUNCTION apply_review_decisions(
+  p_job_id UUID,
+  p_decisions JSONB,
+  p_reviewed_by TEXT,
+  p_reviewed_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_expected INTEGER := jsonb_array_length(p_decisions);
+  v_updated INTEGER;
+BEGIN
+  UPDATE order_items_extracted oie
+  SET
+    matched_product_id = CASE WHEN d.action = 'accept' THEN d."productId" END,
+    match_method = CASE WHEN d.action = 'accept' THEN 'manual' ELSE oie.match_method END,
+    match_score = CASE WHEN d.action = 'accept' THEN 1 ELSE oie.match_score END,
+    review_status = CASE WHEN d.action = 'accept' THEN 'confirmed' ELSE 'not_supply' END,
+    reviewed_at = p_reviewed_at,
+    reviewed_by = p_reviewed_by
+  FROM jsonb_to_recordset(p_decisions) AS d("itemId" UUID, action TEXT, "productId" UUID)
+  WHERE oie.id = d."itemId"
+    AND oie.processing_job_id = p_job_id
+    AND (d.action = 'not_supply' OR (d.action = 'accept' AND d."productId" IS NOT NULL));
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated <> v_expected THEN
+    RAISE EXCEPTION 'Only % of % review decisions match a row of job % (unknown or repeated item, or invalid action)',
+      v_updated, v_expected, p_job_id;
+  END IF;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_review_decisions(UUID, JSONB, TEXT, TIMESTAMPTZ) IS 'Write a reviewer''s decisions (match-review) for one job in a single statement - all or none';
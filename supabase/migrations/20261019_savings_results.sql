@@ -0,0 +1,47 @@
+-- Migration: Bulk write of savings results
+-- Purpose: process-document updated order_items_extracted one row at a time while calculating
+--          savings, keyed on raw_product_name. The savings engine now only computes; its row
+--          results are written afterwards in one call per batch, keyed on the row id.
+
+-- Apply savings results to a job's rows. p_results is a JSON array of
+-- {id, recommended_product_id, recommended_quantity, recommended_total_cost, cost_savings,
+--  cost_savings_percentage, savings_reason, recommendation_type, price_book_id, environmental_savings}.
+-- Results without a recommendation_type only set environmental_savings.
+-- Returns the number of rows updated.
+CREATE OR REPLACE FUNCTION apply_savings_results(p_job_id UUID, p_results JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE order_items_extracted oie
+  SET
+    recommended_product_id = CASE WHEN r.recommendation_type IS NULL THEN oie.recommended_product_id ELSE r.recommended_product_id END,
+    recommended_quantity = CASE WHEN r.recommendation_type IS NULL THEN oie.recommended_quantity ELSE r.recommended_quantity END,
+    recommended_total_cost = CASE WHEN r.recommendation_type IS NULL THEN oie.recommended_total_cost ELSE r.recommended_total_cost END,
+    cost_savings = CASE WHEN r.recommendation_type IS NULL THEN oie.cost_savings ELSE r.cost_savings END,
+    cost_savings_percentage = CASE WHEN r.recommendation_type IS NULL THEN oie.cost_savings_percentage ELSE r.cost_savings_percentage END,
+    savings_reason = CASE WHEN r.recommendation_type IS NULL THEN oie.savings_reason ELSE r.savings_reason END,
+    recommendation_type = COALESCE(r.recommendation_type, oie.recommendation_type),
+    price_book_id = CASE WHEN r.recommendation_type IS NULL THEN oie.price_book_id ELSE r.price_book_id END,
+    environmental_savings = r.environmental_savings
+  FROM jsonb_to_recordset(p_results) AS r(
+    id UUID,
+    recommended_product_id UUID,
+    recommended_quantity INTEGER,
+    recommended_total_cost DECIMAL(10,2),
+    cost_savings DECIMAL(10,2),
+    cost_savings_percentage DECIMAL(5,2),
+    savings_reason TEXT,
+    recommendation_type TEXT,
+    price_book_id UUID,
+    environmental_savings JSONB
+  )
+  WHERE oie.id = r.id
+    AND oie.processing_job_id = p_job_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION apply_savings_results(UUID, JSONB) IS 'Write the savings engine''s per-row results (process-document) for one job in a single statement';
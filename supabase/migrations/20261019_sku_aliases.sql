@@ -0,0 +1,60 @@
+-- Migration: Learned SKU aliases
+-- Purpose: Customers order by their own item numbers ("457052") that are not in master_products.
+--          Once a reviewer confirms - or an exact match shows - which product such a SKU is, the
+--          alias is stored here and process-document checks it before exact SKU matching, so the
+--          next upload matches it straight away.
+--
+-- Aliases are shared (customer_company and vendor NULL), scoped to one customer, or scoped to a
+-- vendor's item numbers (applies when the SKU came from that vendor's SKU column).
+
+CREATE TABLE IF NOT EXISTS sku_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raw_sku TEXT NOT NULL,
+  customer_company TEXT,
+  vendor TEXT CHECK (vendor IN ('staples', 'depot', 'wholesaler')),
+  master_product_id UUID NOT NULL REFERENCES master_products(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'exact_match')),
+  source_job_id UUID REFERENCES processing_jobs(id) ON DELETE SET NULL,
+  confirmed_by TEXT,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- One alias per SKU per scope
+  CONSTRAINT sku_aliases_scope_key UNIQUE NULLS NOT DISTINCT (raw_sku, customer_company, vendor)
+);
+
+COMMENT ON TABLE sku_aliases IS 'Customer/vendor SKU -> master product, checked before exact SKU matching';
+COMMENT ON COLUMN sku_aliases.raw_sku IS 'SKU as it appears in customer documents, trimmed and upper-cased';
+COMMENT ON COLUMN sku_aliases.customer_company IS 'Lower-cased company the alias belongs to; NULL = all customers';
+COMMENT ON COLUMN sku_aliases.vendor IS 'Vendor whose item number this is (staples, depot, wholesaler); NULL = any SKU column';
+COMMENT ON COLUMN sku_aliases.source IS 'manual (confirmed in the match review queue or entered by staff) or exact_match (learned from an exact SKU, barcode or NSN match)';
+COMMENT ON COLUMN sku_aliases.source_job_id IS 'Job the alias was learned or confirmed on';
+COMMENT ON COLUMN sku_aliases.confirmed_by IS 'Reviewer who confirmed a manual alias';
+COMMENT ON COLUMN sku_aliases.hit_count IS 'Line items matched through this alias';
+
+CREATE INDEX IF NOT EXISTS idx_sku_aliases_master_product ON sku_aliases(master_product_id);
+
+-- Count a line item matched through an alias (atomic - items of a batch match concurrently)
+CREATE OR REPLACE FUNCTION record_sku_alias_hit(p_alias_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE sku_aliases
+  SET hit_count = hit_count + 1,
+      last_hit_at = now()
+  WHERE id = p_alias_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Alias matches are recorded as their own match method
+-- (the full list is MATCH_METHODS in supabase/functions/shared/match-methods.ts)
+ALTER TABLE order_items_extracted
+DROP CONSTRAINT IF EXISTS order_items_extracted_match_method_check;
+
+ALTER TABLE order_items_extracted
+ADD CONSTRAINT order_items_extracted_match_method_check
+CHECK (match_method IN (
+  'sku_alias', 'exact_sku', 'gtin', 'nsn', 'exact_name', 'fuzzy_sku', 'combined_search', 'ilike_search',
+  'description_search', 'fuzzy_name', 'semantic', 'ai_suggested', 'manual', 'none', 'error', 'timeout'
+));
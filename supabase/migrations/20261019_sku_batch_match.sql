@@ -0,0 +1,30 @@
+-- Migration: Set-based exact SKU matching
+-- Purpose: Matching used to issue one exact-SKU query per SKU per line item. process-document now
+--          sends every normalized SKU of a chunk to match_skus_exact() in one call; only the items
+--          without an exact hit go through the per-item fuzzy, full-text and semantic tiers.
+--          Per-chunk match timings are stored on the chunk and summed into job metadata.
+
+-- Exact hits for a set of SKUs across every SKU column of active products.
+-- One product per SKU - a product whose own ase_clover_number is the SKU wins.
+CREATE OR REPLACE FUNCTION match_skus_exact(p_skus TEXT[])
+RETURNS TABLE (matched_sku TEXT, product JSONB) AS $$
+  SELECT DISTINCT ON (s.sku) s.sku, to_jsonb(mp) - 'embedding' - 'search_vector'
+  FROM unnest(p_skus) AS s(sku)
+  JOIN master_products mp
+    ON mp.active = true
+   AND s.sku IN (mp.ase_clover_number, mp.oem_number, mp.wholesaler_sku, mp.staples_sku, mp.depot_sku, mp.ase_oem_number)
+  ORDER BY s.sku, (mp.ase_clover_number = s.sku) DESC NULLS LAST, mp.id;
+$$ LANGUAGE sql STABLE;
+
+-- Lookups by each SKU column (the OR above is planned as a BitmapOr over these)
+CREATE INDEX IF NOT EXISTS idx_master_products_ase_clover_number ON master_products(ase_clover_number);
+CREATE INDEX IF NOT EXISTS idx_master_products_oem_number ON master_products(oem_number);
+CREATE INDEX IF NOT EXISTS idx_master_products_wholesaler_sku ON master_products(wholesaler_sku);
+CREATE INDEX IF NOT EXISTS idx_master_products_staples_sku ON master_products(staples_sku);
+CREATE INDEX IF NOT EXISTS idx_master_products_depot_sku ON master_products(depot_sku);
+CREATE INDEX IF NOT EXISTS idx_master_products_ase_oem_number ON master_products(ase_oem_number);
+
+ALTER TABLE processing_job_chunks
+ADD COLUMN IF NOT EXISTS match_stats JSONB;
+
+COMMENT ON COLUMN processing_job_chunks.match_stats IS 'Matching throughput of the last successful run: {items, batch_matched, per_item_matched, unmatched, batch_ms, per_item_ms, duration_ms, items_per_second}';
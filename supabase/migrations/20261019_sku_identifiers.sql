@@ -0,0 +1,19 @@
+-- Migration: Barcode (UPC / EAN / GTIN) and NSN matching
+-- Purpose: process-document matches line items on master_products.final_upc_code and the NSN
+--          columns (nsn_item, nsn_item_13digit) after exact SKU matching. Barcodes are only used
+--          when their GS1 check digit is valid; a hit counts as exact in the validation gate.
+
+CREATE INDEX IF NOT EXISTS idx_master_products_nsn_item ON master_products(nsn_item) WHERE nsn_item IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_master_products_nsn_item_13digit ON master_products(nsn_item_13digit) WHERE nsn_item_13digit IS NOT NULL;
+
+-- Barcode and NSN matches are recorded as their own match methods
+-- (the full list is MATCH_METHODS in supabase/functions/shared/match-methods.ts)
+ALTER TABLE order_items_extracted
+DROP CONSTRAINT IF EXISTS order_items_extracted_match_method_check;
+
+ALTER TABLE order_items_extracted
+ADD CONSTRAINT order_items_extracted_match_method_check
+CHECK (match_method IN (
+  'sku_alias', 'exact_sku', 'gtin', 'nsn', 'exact_name', 'fuzzy_sku', 'combined_search', 'ilike_search',
+  'description_search', 'fuzzy_name', 'semantic', 'ai_suggested', 'manual', 'none', 'error', 'timeout'
+));
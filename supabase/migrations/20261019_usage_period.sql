@@ -0,0 +1,16 @@
+-- Migration: Usage period and annualized savings
+-- Purpose: Usage exports cover arbitrary date ranges ("Toner Report - 2.1.25-8.27.25"), not a year.
+--          process-document now reads each row's order date, works out the period the document
+--          covers and projects the savings on the document to a 12-month figure.
+
+ALTER TABLE order_items_extracted
+ADD COLUMN IF NOT EXISTS order_date DATE;
+
+COMMENT ON COLUMN order_items_extracted.order_date IS 'Order/invoice date of the row (NULL when the document has no date column or merged rows had different dates - see source_rows)';
+
+ALTER TABLE savings_reports
+ADD COLUMN IF NOT EXISTS projected_annual_savings DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS usage_period JSONB;
+
+COMMENT ON COLUMN savings_reports.projected_annual_savings IS 'total_cost_savings scaled from the covered period to 12 months';
+COMMENT ON COLUMN savings_reports.usage_period IS 'Period the document covers: {start, end, covered_days, annualization_factor, source: order_dates | file_name | assumed_annual}';
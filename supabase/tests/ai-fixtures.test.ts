@@ -0,0 +1,82 @@
+/**
+ * AI_PROVIDER=fixture replay: the recorded fixture set in shared/fixtures/ai answers the
+ * vision request process-document builds for the sample document, with no network.
+ */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { createFixtureProviders, EMBEDDING_DIMENSIONS, type FixtureStore } from '../functions/shared/ai-fixture-providers.ts';
+import { buildVisionExtractionRequest, type VisionLineItem } from '../functions/process-document/vision-extraction.ts';
+
+const FIXTURES_DIR = new URL('../functions/shared/fixtures/ai/', import.meta.url);
+const SAMPLE_PDF = new URL('documents/surgery-partners-usage-p1.pdf', FIXTURES_DIR);
+
+const nodeFixtureStore: FixtureStore = {
+  async read(url) {
+    try {
+      return await readFile(fileURLToPath(url), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  },
+  async write() {
+    throw new Error('Replay must not write fixtures');
+  }
+};
+
+const originalFetch = globalThis.fetch;
+
+before(() => {
+  globalThis.fetch = () => Promise.reject(new Error('Network access during fixture replay'));
+});
+
+after(() => {
+  globalThis.fetch = originalFetch;
+});
+
+test('replays the recorded vision extraction for the sample usage report', async () => {
+  const { extraction } = createFixtureProviders(nodeFixtureStore, FIXTURES_DIR);
+  const pdf = new Uint8Array(await readFile(SAMPLE_PDF));
+
+  const outputText = await extraction.extractDocument(buildVisionExtractionRequest({ firstPage: 1, lastPage: 1, pdf }));
+  const { items } = JSON.parse(outputText) as { items: VisionLineItem[] };
+
+  assert.equal(items.length, 6);
+  assert.deepEqual(items[0], {
+    product_name: 'BROTHER TN760 HI-YIELD BLACK',
+    sku: '2735027',
+    oem_number: '',
+    upc: '',
+    vendor_sku: '2735027',
+    quantity: 10,
+    unit_price: 69.2,
+    total_price: 692,
+    page_number: 1
+  });
+  assert.ok(items.every(item => item.page_number === 1));
+});
+
+test('a changed request misses the fixture and names the path to record', async () => {
+  const { extraction } = createFixtureProviders(nodeFixtureStore, FIXTURES_DIR);
+  const pdf = new Uint8Array(await readFile(SAMPLE_PDF));
+
+  // Same document labelled as page 2 - a different prompt, so a different key
+  await assert.rejects(
+    extraction.extractDocument(buildVisionExtractionRequest({ firstPage: 2, lastPage: 2, pdf })),
+    /No recorded extraction fixture at .*\/extraction\/[0-9a-f]{64}\.json/
+  );
+});
+
+test('embeddings without a fixture fall back to a deterministic unit vector', async () => {
+  const { embedding } = createFixtureProviders(nodeFixtureStore, FIXTURES_DIR);
+
+  const first = await embedding.embed('BROTHER TN760 HI-YIELD BLACK');
+  const second = await embedding.embed('BROTHER TN760 HI-YIELD BLACK');
+  const norm = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+
+  assert.equal(first.length, EMBEDDING_DIMENSIONS);
+  assert.deepEqual(first, second);
+  assert.ok(Math.abs(norm - 1) < 1e-9);
+});
@@ -0,0 +1,125 @@
+/**
+ * Line-item consolidation (process-document/consolidation.ts): rows of the same SKU and UOM
+ * merge into one item with summed quantity and a quantity-weighted unit price.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  consolidateLineItems,
+  DEFAULT_CONSOLIDATION_RULES,
+  resolveConsolidationRules,
+  type ConsolidationItem
+} from '../functions/process-document/consolidation.ts';
+
+function row(rowNumber: number, fields: Partial<ConsolidationItem>): ConsolidationItem {
+  const quantity = fields.quantity ?? 1;
+  const unitPrice = fields.unit_price ?? 0;
+  return {
+    rowNumber,
+    raw_product_name: 'HP 414A BLACK',
+    raw_sku: 'W2020A',
+    sku_fields: { all_skus: [fields.raw_sku ?? 'W2020A'] },
+    quantity,
+    unit_price: unitPrice,
+    total_price: quantity * unitPrice,
+    uom: 'EA',
+    extraction_quality: { has_price: unitPrice > 0, has_quantity: true },
+    ...fields
+  };
+}
+
+function consolidate(items: ConsolidationItem[]) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return consolidateLineItems(items, DEFAULT_CONSOLIDATION_RULES);
+  } finally {
+    console.log = log;
+  }
+}
+
+test('sums quantities and takes the quantity-weighted unit price', () => {
+  const { items, summary } = consolidate([
+    row(1, { quantity: 3, unit_price: 100, order_date: '2025-02-03', location: 'DOCK' }),
+    row(2, { raw_sku: 'CF258A', quantity: 1, unit_price: 80 }),
+    row(3, { quantity: 1, unit_price: 104, order_date: '2025-03-10', location: 'DOCK' })
+  ]);
+
+  assert.equal(items.length, 2);
+  const [merged, single] = items;
+  assert.equal(merged.quantity, 4);
+  assert.equal(merged.unit_price, 101);  // (3 x 100 + 1 x 104) / 4
+  assert.equal(merged.total_price, 404);
+  assert.equal(merged.location, 'DOCK');
+  assert.equal(merged.order_date, undefined); // Differs between the rows
+  assert.deepEqual(merged.source_rows, [
+    { row_number: 1, quantity: 3, unit_price: 100, order_date: '2025-02-03', location: 'DOCK' },
+    { row_number: 3, quantity: 1, unit_price: 104, order_date: '2025-03-10', location: 'DOCK' }
+  ]);
+  assert.equal(single.rowNumber, 2);
+  assert.deepEqual(summary, {
+    rules: DEFAULT_CONSOLIDATION_RULES,
+    rows_in: 3,
+    items_out: 2,
+    merged_groups: 1,
+    price_variance_flagged: 0
+  });
+});
+
+test('unpriced rows add quantity but not weight to the unit price', () => {
+  const { items } = consolidate([
+    row(1, { quantity: 2, unit_price: 50 }),
+    row(2, { quantity: 6, unit_price: 0 })
+  ]);
+
+  assert.equal(items[0].quantity, 8);
+  assert.equal(items[0].unit_price, 50);
+  assert.equal(items[0].total_price, 400);
+});
+
+test('flags a price spread above the threshold', () => {
+  const within = consolidate([
+    row(1, { quantity: 1, unit_price: 100 }),
+    row(2, { quantity: 1, unit_price: 109 })
+  ]);
+  assert.equal(within.items[0].price_variance_pct, 8.6); // 9 / 104.5
+  assert.equal(within.items[0].price_variance_flagged, false);
+
+  const beyond = consolidate([
+    row(1, { quantity: 1, unit_price: 100 }),
+    row(2, { quantity: 1, unit_price: 125 })
+  ]);
+  assert.equal(beyond.items[0].price_variance_pct, 22.2); // 25 / 112.5
+  assert.equal(beyond.items[0].price_variance_flagged, true);
+  assert.equal(beyond.summary.price_variance_flagged, 1);
+});
+
+test('a box and an each of the same SKU stay separate items', () => {
+  const { items, summary } = consolidate([
+    row(1, { quantity: 2, unit_price: 45, uom: 'BX' }),
+    row(2, { quantity: 10, unit_price: 4.5, uom: 'EA' }),
+    row(3, { quantity: 1, unit_price: 47, uom: 'box' }),
+    row(4, { quantity: 5, unit_price: 4.6, uom: 'each' })
+  ]);
+
+  assert.deepEqual(
+    items.map(item => ({ uom: item.uom, quantity: item.quantity, unit_price: item.unit_price })),
+    [
+      { uom: 'BX', quantity: 3, unit_price: 45.67 },
+      { uom: 'EA', quantity: 15, unit_price: 4.53 }
+    ]
+  );
+  assert.equal(summary.merged_groups, 2);
+});
+
+test('a group_by override from the request is ignored - UOMs never merge', () => {
+  // Start-request body from before group_by was removed
+  const { consolidation } = JSON.parse('{"consolidation": {"group_by": "sku"}}');
+  assert.deepEqual(resolveConsolidationRules(consolidation), DEFAULT_CONSOLIDATION_RULES);
+
+  const { items } = consolidate([
+    row(1, { quantity: 1, unit_price: 45, uom: 'BX' }),
+    row(2, { quantity: 1, unit_price: 4.5, uom: 'EA' })
+  ]);
+  assert.equal(items.length, 2);
+});
@@ -0,0 +1,106 @@
+/**
+ * Barcode and NSN normalization for Tier 1.2 (process-document/identifiers.ts)
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getGtinVariants,
+  getIdentifierCandidates,
+  hasValidGtinCheckDigit,
+  normalizeGtin,
+  normalizeNsn
+} from '../functions/process-document/identifiers.ts';
+
+// 7510-01-519-4388: a real-looking NSN whose 13 digits also pass the EAN-13 check
+const NSN_LIKE_EAN = '7510015194388';
+
+test('hasValidGtinCheckDigit', () => {
+  const cases: [string, boolean][] = [
+    ['00012345678905', true],  // UPC-A 012345678905
+    ['00036000291452', true],  // UPC-A 036000291452
+    ['04006381333931', true],  // EAN-13 4006381333931
+    ['10012345678902', true],  // GTIN-14 case pack
+    ['00012345678906', false],
+    ['04006381333932', false]
+  ];
+  for (const [gtin14, expected] of cases) {
+    assert.equal(hasValidGtinCheckDigit(gtin14), expected, gtin14);
+  }
+});
+
+test('normalizeGtin', () => {
+  const cases: [string, string | null][] = [
+    ['012345678905', '00012345678905'],    // UPC-A
+    ['12345678905', '00012345678905'],     // UPC-A, leading zero dropped
+    ['0 12345 67890 5', '00012345678905'], // Spaces
+    ['0-12345-67890-5', '00012345678905'], // Dashes
+    ['4006381333931', '04006381333931'],   // EAN-13
+    ['10012345678902', '10012345678902'],  // GTIN-14
+    ['012345678906', null],                // Bad check digit
+    ['1234567890', null],                  // Too short
+    ['100123456789021', null],             // Too long
+    ['000000000000', null],                // All zeros
+    ['CF258A', null],                      // Part number
+    ['Q7551A-12345', null]
+  ];
+  for (const [value, expected] of cases) {
+    assert.equal(normalizeGtin(value), expected, value);
+  }
+});
+
+test('getGtinVariants', () => {
+  const cases: [string, string[]][] = [
+    ['00012345678905', ['00012345678905', '0012345678905', '012345678905', '12345678905']],
+    ['04006381333931', ['04006381333931', '4006381333931']],
+    ['10012345678902', ['10012345678902']],
+    ['00612345678903', ['00612345678903', '0612345678903', '612345678903']]
+  ];
+  for (const [gtin14, expected] of cases) {
+    assert.deepEqual(getGtinVariants(gtin14), expected, gtin14);
+  }
+});
+
+test('every stored form of a barcode normalizes back to one of its variants', () => {
+  for (const stored of ['00012345678905', '0012345678905', '012345678905', '12345678905']) {
+    const gtin14 = normalizeGtin(stored);
+    assert.ok(gtin14 && getGtinVariants(gtin14).includes(stored), stored);
+  }
+});
+
+test('normalizeNsn', () => {
+  const cases: [string, string | null][] = [
+    ['7510-01-519-4381', '7510-01-519-4381'],
+    ['7510015194381', '7510-01-519-4381'],
+    ['7510 01 519 4381', '7510-01-519-4381'],
+    ['7510-01-519-438', null],        // 12 digits
+    ['7510-01-519-43810', null],      // 14 digits
+    ['NSN 7510-01-519-4381', null]    // Text around it (found by getIdentifierCandidates)
+  ];
+  for (const [value, expected] of cases) {
+    assert.equal(normalizeNsn(value), expected, value);
+  }
+});
+
+test('an NSN that passes the EAN-13 check is tried as both', () => {
+  assert.equal(normalizeGtin(NSN_LIKE_EAN), `0${NSN_LIKE_EAN}`);
+  assert.equal(normalizeNsn(NSN_LIKE_EAN), '7510-01-519-4388');
+
+  assert.deepEqual(getIdentifierCandidates({ sku_fields: { all_skus: [NSN_LIKE_EAN] } }), {
+    gtins: [`0${NSN_LIKE_EAN}`],
+    nsns: ['7510-01-519-4388']
+  });
+});
+
+test('getIdentifierCandidates reads SKU fields and hyphenated NSNs in the text', () => {
+  assert.deepEqual(
+    getIdentifierCandidates({
+      raw_product_name: 'PEN,BALLPOINT,BLACK NSN 7520-01-207-4163',
+      raw_description: 'Also sold as 7520-01-207-4163 and 7520-00-935-7135',
+      sku_fields: { upc: '012345678905', all_skus: ['012345678905', 'CF258A', '7510015194381'] }
+    }),
+    {
+      gtins: ['00012345678905'],
+      nsns: ['7510-01-519-4381', '7520-01-207-4163', '7520-00-935-7135']
+    }
+  );
+});
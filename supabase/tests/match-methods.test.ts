@@ -0,0 +1,28 @@
+/**
+ * order_items_extracted_match_method_check must allow exactly MATCH_METHODS, the list
+ * saveBatchItems() validates against - a method missing from either side loses matches.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import { MATCH_METHODS } from '../functions/shared/match-methods.ts';
+
+const MIGRATIONS_DIR = new URL('../migrations/', import.meta.url);
+const CONSTRAINT = /ADD CONSTRAINT order_items_extracted_match_method_check\s+CHECK \(match_method IN \(([^)]*)\)\)/g;
+
+test('every migration that rewrites the match_method constraint lists MATCH_METHODS', () => {
+  const rewrites = readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .flatMap(file => {
+      const sql = readFileSync(new URL(file, MIGRATIONS_DIR), 'utf8');
+      return Array.from(sql.matchAll(CONSTRAINT), match => ({
+        file,
+        methods: Array.from(match[1].matchAll(/'([a-z_]+)'/g), value => value[1])
+      }));
+    });
+
+  assert.ok(rewrites.length > 0);
+  for (const { file, methods } of rewrites) {
+    assert.deepEqual([...methods].sort(), [...MATCH_METHODS].sort(), file);
+  }
+});
@@ -0,0 +1,58 @@
+/**
+ * selectAllPages() against a source that caps every response at 1000 rows, like PostgREST's
+ * max_rows: finalizeJob() and the savings integrity check must see every row of a large job.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { selectAllPages, type PageResult } from '../functions/shared/paged-select.ts';
+
+const API_MAX_ROWS = 1000;
+
+function cappedTable(rowCount: number) {
+  const rows = Array.from({ length: rowCount }, (_, i) => ({ id: `item-${String(i).padStart(5, '0')}` }));
+  const requests: [number, number][] = [];
+
+  const select = async (from?: number, to?: number): Promise<PageResult<{ id: string }>> => {
+    if (from !== undefined && to !== undefined) requests.push([from, to]);
+    const page = from === undefined ? rows : rows.slice(from, (to ?? rows.length - 1) + 1);
+    return { data: page.slice(0, API_MAX_ROWS), error: null };
+  };
+  return { rows, requests, select };
+}
+
+test('a single select of a job with more than 1000 rows is cut off at the API limit', async () => {
+  const table = cappedTable(2500);
+  const { data } = await table.select();
+  assert.equal(data!.length, API_MAX_ROWS);
+});
+
+test('pages through a job with more than 1000 rows', async () => {
+  const table = cappedTable(2500);
+  const { data, error } = await selectAllPages(table.select);
+
+  assert.equal(error, null);
+  assert.deepEqual(data, table.rows);
+  assert.deepEqual(table.requests, [[0, 999], [1000, 1999], [2000, 2999]]);
+});
+
+test('an exact multiple of the page size ends on an empty page', async () => {
+  const table = cappedTable(2000);
+  const { data } = await selectAllPages(table.select);
+
+  assert.equal(data.length, 2000);
+  assert.deepEqual(table.requests, [[0, 999], [1000, 1999], [2000, 2999]]);
+});
+
+test('stops at the first error and returns it', async () => {
+  let calls = 0;
+  const { data, error } = await selectAllPages<{ id: string }>(async from => {
+    calls++;
+    return from === 0
+      ? { data: Array.from({ length: 1000 }, (_, i) => ({ id: String(i) })), error: null }
+      : { data: null, error: { message: 'canceling statement due to statement timeout' } };
+  });
+
+  assert.equal(calls, 2);
+  assert.equal(data.length, 1000);
+  assert.deepEqual(error, { message: 'canceling statement due to statement timeout' });
+});
@@ -0,0 +1,172 @@
+/**
+ * Durable chunk queue (processing_job_chunks) against a real Postgres: the queue
+ * migrations run on PGlite with the minimal parent tables from DURABLE_JOB_QUEUE.md.
+ */
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+
+const MIGRATIONS = [
+  '../migrations/20261019_processing_job_chunks.sql',
+  '../migrations/20261019_processing_job_retry.sql'
+];
+
+const JOB_ID = '00000000-0000-0000-0000-000000000001';
+
+let db: PGlite;
+
+beforeEach(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE TABLE processing_jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      status TEXT NOT NULL DEFAULT 'processing',
+      metadata JSONB DEFAULT '{}'
+    );
+    CREATE TABLE order_items_extracted (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      processing_job_id UUID REFERENCES processing_jobs(id)
+    );
+  `);
+  for (const migration of MIGRATIONS) {
+    await db.exec(readFileSync(new URL(migration, import.meta.url), 'utf8'));
+  }
+  await db.query('INSERT INTO processing_jobs (id) VALUES ($1)', [JOB_ID]);
+  await db.query('SELECT enqueue_processing_chunks($1, 250, 100)', [JOB_ID]);
+});
+
+async function claim(workerId: string) {
+  const { rows } = await db.query<{ id: string; chunk_index: number; attempts: number }>(
+    'SELECT id, chunk_index, attempts FROM claim_next_processing_chunk($1, 300, $2)',
+    [workerId, JOB_ID]
+  );
+  return rows[0];
+}
+
+async function heartbeat(chunkId: string, workerId: string) {
+  const { rows } = await db.query<{ ok: boolean }>('SELECT heartbeat_processing_chunk($1, $2, 300) AS ok', [chunkId, workerId]);
+  return rows[0].ok;
+}
+
+async function complete(chunkId: string, workerId: string) {
+  const { rows } = await db.query<{ remaining: number }>('SELECT complete_processing_chunk($1, $2) AS remaining', [chunkId, workerId]);
+  return rows[0].remaining;
+}
+
+async function expireLease(chunkId: string) {
+  await db.query(`UPDATE processing_job_chunks SET lease_expires_at = now() - interval '1 second' WHERE id = $1`, [chunkId]);
+}
+
+async function saveRows(chunkIndex: number, workerId: string, count: number) {
+  await db.query(
+    'INSERT INTO order_items_extracted (processing_job_id, chunk_index, worker_id) SELECT $1, $2, $3 FROM generate_series(1, $4)',
+    [JOB_ID, chunkIndex, workerId, count]
+  );
+}
+
+async function rowsByWorker(chunkIndex: number) {
+  const { rows } = await db.query<{ worker_id: string; count: number }>(
+    'SELECT worker_id, COUNT(*)::INTEGER AS count FROM order_items_extracted WHERE chunk_index = $1 GROUP BY worker_id',
+    [chunkIndex]
+  );
+  return Object.fromEntries(rows.map(row => [row.worker_id, row.count]));
+}
+
+test('enqueues one chunk per 100 items and is safe to call twice', async () => {
+  await db.query('SELECT enqueue_processing_chunks($1, 250, 100)', [JOB_ID]);
+  const { rows } = await db.query<{ chunk_index: number; start_index: number; end_index: number }>(
+    'SELECT chunk_index, start_index, end_index FROM processing_job_chunks ORDER BY chunk_index'
+  );
+  assert.deepEqual(rows, [
+    { chunk_index: 0, start_index: 0, end_index: 100 },
+    { chunk_index: 1, start_index: 100, end_index: 200 },
+    { chunk_index: 2, start_index: 200, end_index: 250 }
+  ]);
+});
+
+test('concurrent workers claim different chunks, lowest first', async () => {
+  const a = await claim('worker-a');
+  const b = await claim('worker-b');
+  assert.equal(a.chunk_index, 0);
+  assert.equal(b.chunk_index, 1);
+  assert.equal(a.attempts, 1);
+});
+
+test('does not claim chunks of a job that is no longer processing', async () => {
+  await db.query(`UPDATE processing_jobs SET status = 'failed' WHERE id = $1`, [JOB_ID]);
+  assert.equal(await claim('worker-a'), undefined);
+});
+
+test('only the lease holder can heartbeat and complete', async () => {
+  const chunk = await claim('worker-a');
+  assert.equal(await heartbeat(chunk.id, 'worker-a'), true);
+  assert.equal(await heartbeat(chunk.id, 'worker-b'), false);
+  assert.equal(await complete(chunk.id, 'worker-b'), -1);
+  assert.equal(await complete(chunk.id, 'worker-a'), 2);
+});
+
+test('sweeper requeues expired leases and fails chunks out of attempts', async () => {
+  const chunk = await claim('worker-a');
+  await expireLease(chunk.id);
+
+  const { rows: swept } = await db.query('SELECT * FROM requeue_expired_processing_chunks(3)');
+  assert.deepEqual(swept, [{ processing_job_id: JOB_ID, requeued: 1, failed: 0 }]);
+
+  const reclaimed = await claim('worker-b');
+  assert.equal(reclaimed.chunk_index, 0);
+  assert.equal(reclaimed.attempts, 2);
+
+  await expireLease(reclaimed.id);
+  await db.query('SELECT * FROM requeue_expired_processing_chunks(3)');
+  const third = await claim('worker-c');
+  await expireLease(third.id);
+
+  const { rows: failed } = await db.query('SELECT * FROM requeue_expired_processing_chunks(3)');
+  assert.deepEqual(failed, [{ processing_job_id: JOB_ID, requeued: 0, failed: 1 }]);
+});
+
+test('a worker that lost its lease cannot heartbeat or complete', async () => {
+  const chunk = await claim('worker-a');
+  await expireLease(chunk.id);
+  await db.query('SELECT * FROM requeue_expired_processing_chunks(3)');
+  await claim('worker-b');
+
+  assert.equal(await heartbeat(chunk.id, 'worker-a'), false);
+  assert.equal(await complete(chunk.id, 'worker-a'), -1);
+  assert.equal(await heartbeat(chunk.id, 'worker-b'), true);
+});
+
+test('completing a chunk drops rows the worker that lost its lease saved', async () => {
+  const chunk = await claim('worker-a');
+  await saveRows(0, 'worker-a', 25);
+
+  // worker-a stalls, the chunk moves to worker-b, which clears it and starts over
+  await expireLease(chunk.id);
+  await db.query('SELECT * FROM requeue_expired_processing_chunks(3)');
+  await claim('worker-b');
+  await db.query('DELETE FROM order_items_extracted WHERE chunk_index = 0');
+  await saveRows(0, 'worker-b', 100);
+
+  // worker-a wakes up and saves another batch before it notices
+  await saveRows(0, 'worker-a', 25);
+  assert.deepEqual(await rowsByWorker(0), { 'worker-a': 25, 'worker-b': 100 });
+
+  assert.equal(await complete(chunk.id, 'worker-b'), 2);
+  assert.deepEqual(await rowsByWorker(0), { 'worker-b': 100 });
+});
+
+test('retry resumes from the first chunk without all of its rows', async () => {
+  const first = await claim('worker-a');
+  await saveRows(0, 'worker-a', 100);
+  await complete(first.id, 'worker-a');
+  await claim('worker-b');
+  await saveRows(1, 'worker-b', 40);
+  await db.query(`UPDATE processing_jobs SET status = 'processing' WHERE id = $1`, [JOB_ID]);
+
+  const { rows } = await db.query<{ resume_from: number }>('SELECT prepare_processing_job_retry($1, 250, 100) AS resume_from', [JOB_ID]);
+  assert.equal(rows[0].resume_from, 1);
+
+  const { rows: statuses } = await db.query<{ status: string }>('SELECT status FROM processing_job_chunks ORDER BY chunk_index');
+  assert.deepEqual(statuses.map(row => row.status), ['completed', 'pending', 'pending']);
+});
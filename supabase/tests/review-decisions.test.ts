@@ -0,0 +1,92 @@
+/**
+ * apply_review_decisions() against a real Postgres: a review's decisions are written
+ * together, and a decision that matches no row of the job writes none of them.
+ */
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+
+const MIGRATIONS = [
+  '../migrations/20261019_order_items_review.sql',
+  '../migrations/20261019_review_decisions.sql'
+];
+
+const JOB_ID = '00000000-0000-0000-0000-000000000001';
+const OTHER_JOB_ID = '00000000-0000-0000-0000-000000000002';
+const PRODUCT_ID = '00000000-0000-0000-0000-0000000000aa';
+const ITEM = (n: number) => `00000000-0000-0000-0000-00000000010${n}`;
+
+let db: PGlite;
+
+beforeEach(async () => {
+  db = new PGlite();
+  await db.exec(`
+    CREATE TABLE order_items_extracted (
+      id UUID PRIMARY KEY,
+      processing_job_id UUID NOT NULL,
+      matched_product_id UUID,
+      match_method TEXT,
+      match_score DECIMAL(5,4)
+    );
+  `);
+  for (const migration of MIGRATIONS) {
+    await db.exec(readFileSync(new URL(migration, import.meta.url), 'utf8'));
+  }
+  await db.query(
+    `INSERT INTO order_items_extracted (id, processing_job_id, matched_product_id, match_method, match_score) VALUES
+      ($1, $4, NULL, 'none', 0),
+      ($2, $4, '00000000-0000-0000-0000-0000000000bb', 'fuzzy_name', 0.62),
+      ($3, $5, NULL, 'none', 0)`,
+    [ITEM(1), ITEM(2), ITEM(3), JOB_ID, OTHER_JOB_ID]
+  );
+});
+
+async function apply(decisions: unknown[]) {
+  const { rows } = await db.query<{ updated: number }>(
+    `SELECT apply_review_decisions($1, $2, 'reviewer@example.com', '2026-10-19T12:00:00Z') AS updated`,
+    [JOB_ID, JSON.stringify(decisions)]
+  );
+  return rows[0].updated;
+}
+
+async function reviewedRows() {
+  const { rows } = await db.query(
+    `SELECT id, matched_product_id, match_method, match_score::FLOAT AS match_score, review_status, reviewed_by
+     FROM order_items_extracted WHERE review_status IS NOT NULL ORDER BY id`
+  );
+  return rows;
+}
+
+test('writes every decision of the review', async () => {
+  const updated = await apply([
+    { itemId: ITEM(1), action: 'accept', productId: PRODUCT_ID },
+    { itemId: ITEM(2), action: 'not_supply' }
+  ]);
+
+  assert.equal(updated, 2);
+  assert.deepEqual(await reviewedRows(), [
+    { id: ITEM(1), matched_product_id: PRODUCT_ID, match_method: 'manual', match_score: 1, review_status: 'confirmed', reviewed_by: 'reviewer@example.com' },
+    { id: ITEM(2), matched_product_id: null, match_method: 'fuzzy_name', match_score: 0.62, review_status: 'not_supply', reviewed_by: 'reviewer@example.com' }
+  ]);
+});
+
+test('a decision for a row of another job writes nothing', async () => {
+  await assert.rejects(
+    apply([
+      { itemId: ITEM(1), action: 'accept', productId: PRODUCT_ID },
+      { itemId: ITEM(3), action: 'not_supply' }
+    ]),
+    /Only 1 of 2 review decisions match a row of job/
+  );
+  assert.deepEqual(await reviewedRows(), []);
+});
+
+test('repeated items and accepts without a product are rejected', async () => {
+  await assert.rejects(apply([
+    { itemId: ITEM(1), action: 'not_supply' },
+    { itemId: ITEM(1), action: 'accept', productId: PRODUCT_ID }
+  ]));
+  await assert.rejects(apply([{ itemId: ITEM(1), action: 'accept' }]));
+  assert.deepEqual(await reviewedRows(), []);
+});
@@ -0,0 +1,179 @@
+/**
+ * Printer fleet in the savings engine (process-document/savings-engine.ts): the fleet's cost of
+ * ownership (summary.printer_fleet) and higher-yield options limited to cartridges that fit
+ * every device. The engine from before the split had no fleet, so these are worked out by hand.
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  calculateSavings,
+  DEFAULT_SAVINGS_POLICY,
+  type PrinterFleetDevice,
+  type SavingsCatalog,
+  type SavingsLineItem,
+  type SavingsProduct
+} from '../functions/process-document/savings-engine.ts';
+
+function cartridge(id: string, pageYield: number, asePrice: number, yieldClass: string, fields: Partial<SavingsProduct> = {}): SavingsProduct {
+  return {
+    id,
+    product_name: `HP 58 ${yieldClass.toUpperCase()} BLACK`,
+    ase_clover_number: `${id.toUpperCase()}-R`,
+    ase_price: asePrice,
+    page_yield: pageYield,
+    family_series: 'HP 58',
+    color_type: 'black',
+    yield_class: yieldClass,
+    category: 'toner_cartridge',
+    brand: 'hp',
+    ...fields
+  };
+}
+
+// $0.02, $0.015 and $0.012 per page
+const STANDARD = cartridge('std', 3000, 60, 'standard', { compatibility_group: 'hp58', compatible_printers: ['HP LaserJet M404'] });
+const HIGH = cartridge('hy', 10000, 150, 'high');
+const EXTRA_HIGH = cartridge('xhy', 20000, 240, 'extra_high'); // Does not fit the M428
+
+// 10 standard cartridges at $100 - 30,000 pages over the assumed year
+const LINE: SavingsLineItem = {
+  id: 'line-1',
+  raw_product_name: 'HP 58A BLACK TONER',
+  raw_sku: 'CF258A',
+  quantity: 10,
+  unit_price: 100,
+  total_price: 1000,
+  matched_product: STANDARD
+};
+
+const FLEET: PrinterFleetDevice[] = [
+  { model: 'HP LaserJet M404', monthly_pages: 1000, count: 2, source: 'customer' },
+  { model: 'HP LaserJet M428', monthly_pages: 500, count: 1, source: 'customer' },
+  { model: 'Brother HL-L2350', monthly_pages: 300, count: 1, source: 'customer' }
+];
+
+function catalogWith(fleet: PrinterFleetDevice[] | undefined, fleetCompatibility: Record<string, SavingsProduct[]>): SavingsCatalog {
+  return {
+    families: new Map([['HP 58', [STANDARD, HIGH, EXTRA_HIGH]]]),
+    marketPrices: { observed: new Map(), markups: [] },
+    fleet,
+    fleetCompatibility: new Map(Object.entries(fleetCompatibility))
+  };
+}
+
+const CUSTOMER_FLEET = catalogWith(FLEET, {
+  HPLASERJETM404: [STANDARD, HIGH, EXTRA_HIGH],
+  HPLASERJETM428: [STANDARD, HIGH]
+});
+
+function analyze(catalog: SavingsCatalog, policy = DEFAULT_SAVINGS_POLICY) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return calculateSavings([LINE], catalog, undefined, policy);
+  } finally {
+    console.log = log;
+  }
+}
+
+function cents(value: number | null | undefined): number | null {
+  return value == null ? null : Math.round(value * 100) / 100;
+}
+
+test('customer fleet: each device gets the cheapest cartridge per page at its volume', () => {
+  const fleet = analyze(CUSTOMER_FLEET).summary.printer_fleet;
+  assert.ok(fleet);
+
+  assert.equal(fleet.source, 'customer');
+  assert.deepEqual(fleet.unmatched_models, ['Brother HL-L2350']);
+  assert.deepEqual(
+    fleet.devices.map(device => ({
+      model: device.model,
+      cartridges: device.cartridges.map(c => ({
+        annual_pages: c.annual_pages,
+        current: c.current?.product_id,
+        recommended: c.recommended.product_id,
+        units_per_year: c.recommended.units_per_year,
+        current_annual_cost: cents(c.current_annual_cost),
+        recommended_annual_cost: cents(c.recommended_annual_cost)
+      })),
+      annual_savings: cents(device.annual_savings)
+    })),
+    [
+      // 2 x 1,000 pages a month: 24,000 pages at $0.0333 vs $0.012
+      {
+        model: 'HP LaserJet M404',
+        cartridges: [{
+          annual_pages: 24000,
+          current: 'std',
+          recommended: 'xhy',
+          units_per_year: 2,
+          current_annual_cost: 800,
+          recommended_annual_cost: 288
+        }],
+        annual_savings: 512
+      },
+      // 6,000 pages at $0.0333 vs $0.015 - the extra high yield does not fit
+      {
+        model: 'HP LaserJet M428',
+        cartridges: [{
+          annual_pages: 6000,
+          current: 'std',
+          recommended: 'hy',
+          units_per_year: 1,
+          current_annual_cost: 200,
+          recommended_annual_cost: 90
+        }],
+        annual_savings: 110
+      }
+    ]
+  );
+  assert.equal(cents(fleet.current_annual_cost), 1000);
+  assert.equal(cents(fleet.recommended_annual_cost), 378);
+  assert.equal(cents(fleet.annual_savings), 622);
+});
+
+test('customer fleet: the higher-yield option must fit every device using the cartridge', () => {
+  const { breakdown, line_results } = analyze(CUSTOMER_FLEET);
+
+  // 3 x $150 for the 30,000 pages beats 10 x $60 at ASE price; the $240 cartridge misses the M428
+  assert.deepEqual(line_results.map(result => ({
+    type: result.recommendation_type,
+    product: result.recommended_product_id,
+    quantity: result.recommended_quantity,
+    savings: result.cost_savings
+  })), [{ type: 'larger_size', product: 'hy', quantity: 3, savings: 550 }]);
+  assert.equal(breakdown[0].match_type, 'remanufactured');
+});
+
+test('without a fleet every cartridge of the family is an option', () => {
+  const { line_results } = analyze(catalogWith(undefined, {}));
+
+  // 2 x $240 for the 30,000 pages
+  assert.equal(line_results[0].recommended_product_id, 'xhy');
+  assert.equal(line_results[0].recommended_quantity, 2);
+  assert.equal(line_results[0].cost_savings, 520);
+});
+
+test('inferred fleet: one printer per compatibility group at the pages bought for it', () => {
+  const fleet = analyze(catalogWith(undefined, { 'group:hp58': [STANDARD, HIGH, EXTRA_HIGH] })).summary.printer_fleet;
+  assert.ok(fleet);
+
+  assert.equal(fleet.source, 'inferred');
+  assert.equal(fleet.devices.length, 1);
+  const [device] = fleet.devices;
+  assert.equal(device.model, 'HP LaserJet M404');
+  assert.equal(device.monthly_pages, 2500); // 30,000 pages over 12 months
+  assert.equal(device.cartridges[0].recommended.product_id, 'xhy');
+  assert.equal(cents(device.annual_savings), 640); // $1,000 vs 30,000 x $0.012
+});
+
+test('the policy sets how much better the cost per page must be', () => {
+  // The high yield is 25% cheaper per page - not enough at 30%, so ASE price on the same cartridge wins
+  const policy = { ...DEFAULT_SAVINGS_POLICY, higher_yield: { ...DEFAULT_SAVINGS_POLICY.higher_yield, min_cpp_improvement_pct: 30 } };
+  const { line_results } = analyze(CUSTOMER_FLEET, policy);
+
+  assert.equal(line_results[0].recommendation_type, 'better_price');
+  assert.equal(line_results[0].recommended_product_id, 'std');
+  assert.equal(line_results[0].cost_savings, 400);
+});
@@ -0,0 +1,100 @@
+/**
+ * Savings golden files: each sample-data document's line items run through calculateSavings()
+ * against its catalog snapshot, and the analysis must match what the engine from before it was
+ * split out of index.ts recorded for the same items and database (fixtures/savings). No database.
+ *
+ * The baseline wrote its row updates keyed on raw_product_name and had no printer fleet; the
+ * line_results are compared under that key, and printer_fleet separately.
+ *
+ * Rebuild the fixtures with `npm run fixtures:savings`
+ */
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import {
+  calculateSavings,
+  type MarketPriceReference,
+  type PriceBookSet,
+  type PrinterFleetDevice,
+  type SavingsAnalysis,
+  type SavingsCatalog,
+  type SavingsLineItem,
+  type SavingsProduct,
+  type UsagePeriod
+} from '../functions/process-document/savings-engine.ts';
+
+const FIXTURES_DIR = new URL('fixtures/savings/', import.meta.url);
+
+type MapValue<M> = M extends Map<string, infer V> ? V : never;
+
+// SavingsCatalog with its Maps as plain objects
+interface CatalogSnapshot {
+  families: Record<string, SavingsProduct[]>;
+  pricing: { books: PriceBookSet['books']; entries: Record<string, MapValue<PriceBookSet['entries']>> };
+  market_prices: { observed: Record<string, MapValue<MarketPriceReference['observed']>>; markups: MarketPriceReference['markups'] };
+  fleet?: PrinterFleetDevice[];
+  fleet_compatibility: Record<string, SavingsProduct[]>;
+}
+
+// What the baseline engine returned and wrote
+interface BaselineAnalysis {
+  summary: Omit<SavingsAnalysis['summary'], 'printer_fleet'>;
+  breakdown: SavingsAnalysis['breakdown'];
+  row_updates: Record<string, unknown>[]; // { raw_product_name, ...savings columns }
+}
+
+function readFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(new URL(name, FIXTURES_DIR), 'utf8')) as T;
+}
+
+function loadCatalog(slug: string): SavingsCatalog {
+  const snapshot = readFixture<CatalogSnapshot>(`${slug}.catalog.json`);
+  return {
+    families: new Map(Object.entries(snapshot.families)),
+    pricing: { books: snapshot.pricing.books, entries: new Map(Object.entries(snapshot.pricing.entries)) },
+    marketPrices: {
+      observed: new Map(Object.entries(snapshot.market_prices.observed)),
+      markups: snapshot.market_prices.markups
+    },
+    fleet: snapshot.fleet,
+    fleetCompatibility: new Map(Object.entries(snapshot.fleet_compatibility))
+  };
+}
+
+// The engine logs every line; keep the test output readable
+function quietly<T>(fn: () => T): T {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+const slugs = readdirSync(FIXTURES_DIR)
+  .filter(name => name.endsWith('.items.json'))
+  .map(name => name.replace(/\.items\.json$/, ''))
+  .sort();
+
+test('every sample document has a savings fixture', () => {
+  assert.ok(slugs.length > 0, 'No fixtures - run npm run fixtures:savings');
+});
+
+for (const slug of slugs) {
+  test(`savings analysis for ${slug} matches the baseline engine`, () => {
+    const { items, usage_period } = readFixture<{ items: SavingsLineItem[]; usage_period: UsagePeriod }>(`${slug}.items.json`);
+    const expected = readFixture<BaselineAnalysis>(`${slug}.expected.json`);
+    const analysis = quietly(() => calculateSavings(items, loadCatalog(slug), usage_period));
+    const { summary: { printer_fleet, ...summary }, breakdown, line_results } = JSON.parse(JSON.stringify(analysis)) as SavingsAnalysis;
+
+    const names = new Map(items.map(item => [item.id, item.raw_product_name]));
+    assert.deepEqual(summary, expected.summary);
+    assert.deepEqual(breakdown, expected.breakdown);
+    assert.deepEqual(
+      line_results.map(({ id, ...columns }) => ({ raw_product_name: names.get(id), ...columns })),
+      expected.row_updates
+    );
+    assert.equal(printer_fleet, null); // No compatibility data in the Staples export
+  });
+}